@@ -0,0 +1,12 @@
+/** @type {import('jest').Config} */
+module.exports = {
+  preset: 'ts-jest',
+  testEnvironment: 'node',
+  roots: ['<rootDir>/packages'],
+  testMatch: ['**/src/**/*.test.ts'],
+  // Пакеты монорепозитория подключаются из исходников, без предварительной сборки
+  moduleNameMapper: {
+    '^@api-mock-generator/(.*)$': '<rootDir>/packages/$1/src',
+  },
+  modulePathIgnorePatterns: ['<rootDir>/packages/.*/dist'],
+};
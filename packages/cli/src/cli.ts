@@ -1,14 +1,23 @@
 #!/usr/bin/env node
 
 import { Command } from 'commander';
-import { OpenAPIParser } from '@api-mock-generator/core';
+import { OpenAPIParser, resolveLocale } from '@api-mock-generator/core';
 import { MockServer } from '@api-mock-generator/server';
 import {
   ServerConfig,
   EndpointConfig,
+  ServerSelection,
   isValidPort,
   isValidHost,
   isValidEndpointPath,
+  isValidValidationMode,
+  isValidGenerationMode,
+  isValidSeed,
+  isValidSeedMode,
+  isValidFilePath,
+  GenerationMode,
+  SeedMode,
+  ValidationMode,
 } from '@api-mock-generator/shared';
 
 /**
@@ -42,10 +51,87 @@ class CLI {
       .option('-p, --port <number>', 'Порт сервера', '3000')
       .option('-h, --host <string>', 'Хост сервера', 'localhost')
       .option('--ui-path <string>', 'Путь к UI панели управления', '/_ui')
+      .option('--server <index>', 'Индекс сервера из секции servers спецификации', '0')
+      .option(
+        '--server-var <name=value>',
+        'Значение переменной сервера (можно указать несколько раз)',
+        (value: string, previous: string[]) => [...previous, value],
+        []
+      )
+      .option('--validate <mode>', 'Валидация запросов по спецификации: off, warn, strict', 'off')
+      .option(
+        '--generation <mode>',
+        'Генерация ответов: dynamic (случайные данные) или examples (примеры из спецификации)',
+        'dynamic'
+      )
+      .option('--seed <number>', 'Seed генерации данных: ответы повторяются от запуска к запуску')
+      .option(
+        '--seed-mode <mode>',
+        'Вычисление seed запроса: call (по номеру вызова) или resource (по методу, пути и параметрам)',
+        'call'
+      )
+      .option(
+        '--locale <locale>',
+        'Локаль сгенерированных данных: en, ru, de, ja, de_CH и т.д. (Accept-Language запроса важнее)'
+      )
+      .option(
+        '--property-names <file>',
+        'JSON файл сопоставлений имен свойств с генераторами (например, {"sku": "alpha:8"})'
+      )
+      .option('--stateful', 'Stateful режим: коллекции хранят созданные записи в памяти', false)
+      .option('--seed-count <number>', 'Количество записей в каждой коллекции при запуске', '5')
+      .option('--scenarios <file>', 'JSON файл с определениями сценариев')
+      .option('--scenario <name>', 'Сценарий, активный при запуске')
+      .option(
+        '--enforce-security',
+        'Проверять учетные данные по securitySchemes спецификации (401/403)',
+        false
+      )
+      .option('--proxy <url>', 'Backend для эндпоинтов passthrough и маршрутов вне спецификации')
+      .option(
+        '--proxy-header <name:value>',
+        'Заголовок проксируемых запросов, пустое значение удаляет (можно указать несколько раз)',
+        (value: string, previous: string[]) => [...previous, value],
+        []
+      )
+      .option('--settings <file>', 'JSON файл настроек (например, записанный командой record)')
       .action(async (specPath: string, options: any) => {
         await this.generateServer(specPath, options);
       });
 
+    // Команда record для записи ответов реального backend
+    this.program
+      .command('record')
+      .description('Проксирует запросы на backend и сохраняет его ответы как мок-ответы')
+      .argument('<spec>', 'Путь к файлу OpenAPI спецификации (YAML или JSON)')
+      .requiredOption('--proxy <url>', 'Адрес backend, ответы которого записываются')
+      .requiredOption('-o, --output <file>', 'JSON файл настроек для записанных ответов')
+      .option('-p, --port <number>', 'Порт сервера', '3000')
+      .option('-h, --host <string>', 'Хост сервера', 'localhost')
+      .option('--ui-path <string>', 'Путь к UI панели управления', '/_ui')
+      .option('--server <index>', 'Индекс сервера из секции servers спецификации', '0')
+      .option(
+        '--server-var <name=value>',
+        'Значение переменной сервера (можно указать несколько раз)',
+        (value: string, previous: string[]) => [...previous, value],
+        []
+      )
+      .option(
+        '--proxy-header <name:value>',
+        'Заголовок проксируемых запросов, пустое значение удаляет (можно указать несколько раз)',
+        (value: string, previous: string[]) => [...previous, value],
+        []
+      )
+      .action(async (specPath: string, options: any) => {
+        await this.generateServer(specPath, {
+          ...options,
+          validate: 'off',
+          seedCount: '0',
+          settings: options.output,
+          record: true,
+        });
+      });
+
     // Парсим аргументы командной строки
     this.program.parse();
   }
@@ -67,7 +153,11 @@ class CLI {
       console.log(`Загрузка OpenAPI спецификации: ${specPath}`);
       const parser = new OpenAPIParser();
       await parser.loadSpec(specPath);
-      const endpoints = parser.parseEndpoints();
+
+      // Выбираем сервер из спецификации и подставляем переменные
+      const serverSelection = this.parseServerSelection(options);
+      const specServer = parser.resolveServer(serverSelection);
+      const endpoints = parser.parseEndpoints(serverSelection);
       // Получаем полную спецификацию для разрешения $ref
       const spec = parser.getSpec();
 
@@ -94,11 +184,76 @@ class CLI {
         process.exit(1);
       }
 
+      // Валидируем режим валидации запросов
+      const validationMode = options.validate || 'off';
+      if (!isValidValidationMode(validationMode)) {
+        console.error(`Недопустимый режим валидации: ${validationMode} (off, warn, strict)`);
+        process.exit(1);
+      }
+
+      // Валидируем режим генерации ответов
+      const generationMode = options.generation || 'dynamic';
+      if (!isValidGenerationMode(generationMode)) {
+        console.error(`Недопустимый режим генерации: ${generationMode} (dynamic, examples)`);
+        process.exit(1);
+      }
+
+      // Валидируем seed генерации данных
+      const seed = options.seed !== undefined ? Number(options.seed) : undefined;
+      if (seed !== undefined && (!/^\d+$/.test(options.seed) || !isValidSeed(seed))) {
+        console.error(`Недопустимый seed: ${options.seed} (0-4294967295)`);
+        process.exit(1);
+      }
+      const seedMode = options.seedMode || 'call';
+      if (!isValidSeedMode(seedMode)) {
+        console.error(`Недопустимый режим seed: ${seedMode} (call, resource)`);
+        process.exit(1);
+      }
+
+      // Валидируем локаль сгенерированных данных (de-CH приводится к de_CH)
+      const locale = options.locale !== undefined ? resolveLocale(options.locale) : undefined;
+      if (options.locale !== undefined && !locale) {
+        console.error(`Неподдерживаемая локаль: ${options.locale}`);
+        process.exit(1);
+      }
+
+      // Валидируем количество записей для наполнения коллекций
+      const seedCount = parseInt(options.seedCount, 10);
+      if (!Number.isInteger(seedCount) || seedCount < 0 || seedCount > 1000) {
+        console.error(`Недопустимое количество записей: ${options.seedCount} (0-1000)`);
+        process.exit(1);
+      }
+
+      // Разбираем настройки прокси
+      const { proxyUrl, proxyHeaders } = this.parseProxyOptions(options);
+
+      // Валидируем путь к файлу настроек
+      if (options.settings !== undefined && !isValidFilePath(options.settings)) {
+        console.error(`Недопустимый путь к файлу настроек: ${options.settings}`);
+        process.exit(1);
+      }
+
       // Создаем конфигурацию сервера
       const config: ServerConfig = {
         port,
         host,
         uiPath,
+        basePath: specServer.basePath,
+        validationMode: validationMode as ValidationMode,
+        generationMode: generationMode as GenerationMode,
+        stateful: options.stateful === true,
+        seedCount,
+        seed,
+        seedMode: seedMode as SeedMode,
+        locale,
+        propertyNamesPath: options.propertyNames,
+        scenariosPath: options.scenarios,
+        activeScenario: options.scenario,
+        enforceSecurity: options.enforceSecurity === true,
+        proxyUrl,
+        proxyHeaders,
+        recordMode: options.record === true,
+        settingsPath: options.settings,
         endpoints: new Map<string, EndpointConfig>(),
       };
 
@@ -110,14 +265,102 @@ class CLI {
       await server.start();
 
       console.log(`\nМок-сервер запущен:`);
-      console.log(`  API: http://${config.host}:${config.port}`);
+      console.log(`  API: http://${config.host}:${config.port}${config.basePath}`);
+      console.log(`  Сервер спецификации: ${specServer.url}`);
       console.log(`  UI:  http://${config.host}:${config.port}${config.uiPath}`);
+      console.log(
+        `  OAuth2: http://${config.host}:${config.port}/.well-known/openid-configuration`
+      );
+      if (config.activeScenario) {
+        console.log(`  Сценарий: ${config.activeScenario}`);
+      }
+      if (config.recordMode) {
+        console.log(`  Запись ответов ${config.proxyUrl} в ${config.settingsPath}`);
+      } else if (config.proxyUrl) {
+        console.log(`  Прокси: ${config.proxyUrl}`);
+      }
+      if (config.settingsPath && !config.recordMode) {
+        console.log(`  Настройки: ${config.settingsPath}`);
+      }
+      if (config.enforceSecurity) {
+        console.log(`  Проверка securitySchemes: включена`);
+      }
+      if (config.seed !== undefined || config.seedMode === 'resource') {
+        console.log(`  Seed: ${config.seed ?? 0} (${config.seedMode})`);
+      }
+      if (config.locale) {
+        console.log(`  Локаль данных: ${config.locale}`);
+      }
       console.log(`\nНажмите Ctrl+C для остановки сервера`);
     } catch (error) {
       console.error('Ошибка при генерации сервера:', error);
       process.exit(1);
     }
   }
+
+  /**
+   * Разбирает опции выбора сервера (--server и --server-var)
+   * @param options - опции командной строки
+   * @returns выбор сервера для парсера
+   */
+  private parseServerSelection(options: any): ServerSelection {
+    const serverIndex = parseInt(options.server, 10);
+    if (!Number.isInteger(serverIndex) || serverIndex < 0) {
+      console.error(`Недопустимый индекс сервера: ${options.server}`);
+      process.exit(1);
+    }
+
+    const variables: Record<string, string> = {};
+    for (const entry of options.serverVar || []) {
+      // Формат name=value
+      const separatorIndex = entry.indexOf('=');
+      if (separatorIndex <= 0) {
+        console.error(`Недопустимая переменная сервера: ${entry}. Ожидается формат name=value`);
+        process.exit(1);
+      }
+      variables[entry.slice(0, separatorIndex).trim()] = entry.slice(separatorIndex + 1).trim();
+    }
+
+    return { serverIndex, variables };
+  }
+
+  /**
+   * Разбирает опции прокси (--proxy и --proxy-header)
+   * @param options - опции командной строки
+   * @returns адрес backend и заголовки для подстановки
+   */
+  private parseProxyOptions(options: any): {
+    proxyUrl?: string;
+    proxyHeaders?: Record<string, string>;
+  } {
+    if (!options.proxy) {
+      return {};
+    }
+    let proxyUrl: URL;
+    try {
+      proxyUrl = new URL(options.proxy);
+    } catch {
+      console.error(`Недопустимый адрес прокси: ${options.proxy}`);
+      process.exit(1);
+    }
+    if (proxyUrl.protocol !== 'http:' && proxyUrl.protocol !== 'https:') {
+      console.error(`Адрес прокси должен начинаться с http:// или https://: ${options.proxy}`);
+      process.exit(1);
+    }
+
+    const proxyHeaders: Record<string, string> = {};
+    for (const entry of options.proxyHeader || []) {
+      // Формат name:value
+      const separatorIndex = entry.indexOf(':');
+      if (separatorIndex <= 0) {
+        console.error(`Недопустимый заголовок прокси: ${entry}. Ожидается формат name:value`);
+        process.exit(1);
+      }
+      proxyHeaders[entry.slice(0, separatorIndex).trim()] = entry.slice(separatorIndex + 1).trim();
+    }
+
+    return { proxyUrl: options.proxy, proxyHeaders };
+  }
 }
 
 // Запускаем CLI
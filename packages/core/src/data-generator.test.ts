@@ -0,0 +1,380 @@
+import Ajv2020 from 'ajv/dist/2020';
+import addFormats from 'ajv-formats';
+import { DataGenerator } from './data-generator';
+import { generateFromPattern } from './pattern-generator';
+
+// Сколько раз генерируется значение каждой схемы (генерация случайна)
+const RUNS = 200;
+
+const spec = {
+  components: {
+    schemas: {
+      Password: { type: 'string', writeOnly: true },
+      Base: {
+        type: 'object',
+        required: ['id'],
+        properties: { id: { type: 'integer', minimum: 10 } },
+      },
+    },
+  },
+};
+
+// Схемы JSON Schema 2020-12: каждое сгенерированное значение проверяется независимым валидатором
+const corpus: Record<string, Record<string, any>> = {
+  'строки по pattern': {
+    'код с цифрами': { type: 'string', pattern: '^[A-Z]{3}-\\d{4}$' },
+    'повтор группы с maxLength': {
+      type: 'string',
+      pattern: '^(foo|bar)+_[a-f0-9]{2,}$',
+      maxLength: 12,
+    },
+    телефон: { type: 'string', pattern: '^\\+?[1-9]\\d{1,14}$' },
+    'именованная группа': { type: 'string', pattern: '^(?<y>\\d{4})-(?:0[1-9]|1[0-2])$' },
+    'шаблон без якорей': { type: 'string', pattern: 'abc' },
+    'класс символов с длиной': {
+      type: 'string',
+      pattern: '^[\\w.-]+$',
+      minLength: 3,
+      maxLength: 8,
+    },
+    'длинный повтор с maxLength': { type: 'string', pattern: '^[a-z]{1,1000}$', maxLength: 10 },
+    'неограниченный повтор с minLength': { type: 'string', pattern: '^[a-z]+$', minLength: 30 },
+  },
+  'строки по format': {
+    'email по pattern': { type: 'string', format: 'email', pattern: '@example\\.com$' },
+    'email с pattern и maxLength': {
+      type: 'string',
+      format: 'email',
+      pattern: '^[a-z]+@',
+      maxLength: 12,
+    },
+    'короткий email': { type: 'string', format: 'email', maxLength: 10 },
+    'короткий uri': { type: 'string', format: 'uri', maxLength: 8 },
+    'короткий hostname': { type: 'string', format: 'hostname', maxLength: 5 },
+    'короткий ipv4': { type: 'string', format: 'ipv4', maxLength: 8 },
+    'короткий ipv6': { type: 'string', format: 'ipv6', maxLength: 6 },
+    'date-time без миллисекунд': { type: 'string', format: 'date-time', maxLength: 20 },
+    'time без миллисекунд': { type: 'string', format: 'time', maxLength: 9 },
+    byte: { type: 'string', format: 'byte' },
+    uuid: { type: 'string', format: 'uuid', maxLength: 36 },
+  },
+  'строки по длине': {
+    minLength: { type: 'string', minLength: 80 },
+    'maxLength 0': { type: 'string', maxLength: 0 },
+    'точная длина': { type: 'string', minLength: 5, maxLength: 5 },
+  },
+  числа: {
+    minimum: { type: 'integer', minimum: 5000 },
+    maximum: { type: 'integer', maximum: -20 },
+    'exclusive границы': { type: 'integer', exclusiveMinimum: 0, exclusiveMaximum: 2 },
+    'узкий диапазон': { type: 'number', exclusiveMinimum: 0, maximum: 0.001 },
+    'дробный multipleOf': { type: 'number', minimum: 10, maximum: 11, multipleOf: 0.25 },
+    'целый multipleOf': { type: 'integer', minimum: 7, maximum: 100, multipleOf: 10 },
+    'multipleOf 0.01': { type: 'number', multipleOf: 0.01, minimum: 0.5, maximum: 0.6 },
+    'integer с multipleOf 0.5': { type: 'integer', multipleOf: 0.5, minimum: 1, maximum: 2 },
+    'integer с multipleOf 1.5': { type: 'integer', multipleOf: 1.5, minimum: 1, maximum: 10 },
+    'одно значение': { type: 'integer', minimum: 3, maximum: 3 },
+  },
+  массивы: {
+    'uniqueItems на всех значениях': {
+      type: 'array',
+      items: { type: 'integer', minimum: 1, maximum: 4 },
+      uniqueItems: true,
+      minItems: 4,
+      maxItems: 4,
+    },
+    'uniqueItems boolean': {
+      type: 'array',
+      items: { type: 'boolean' },
+      uniqueItems: true,
+      maxItems: 5,
+    },
+    minItems: { type: 'array', items: { type: 'string' }, minItems: 12 },
+    'maxItems 0': { type: 'array', items: { type: 'string' }, maxItems: 0 },
+    'prefixItems без items': {
+      type: 'array',
+      prefixItems: [{ const: 'a' }, { type: 'integer' }],
+      items: false,
+    },
+  },
+  объекты: {
+    minProperties: {
+      type: 'object',
+      properties: { a: { type: 'string' }, b: { type: 'string' }, c: { type: 'string' } },
+      minProperties: 3,
+    },
+    maxProperties: {
+      type: 'object',
+      properties: { a: { type: 'string' }, b: { type: 'string' }, c: { type: 'string' } },
+      additionalProperties: true,
+      maxProperties: 1,
+    },
+    propertyNames: {
+      type: 'object',
+      additionalProperties: { type: 'integer' },
+      minProperties: 4,
+      propertyNames: { pattern: '^[a-z]{4}$' },
+    },
+    'без additionalProperties': {
+      type: 'object',
+      properties: { a: { type: 'string' } },
+      additionalProperties: false,
+      minProperties: 1,
+    },
+    'булевы подсхемы': {
+      type: 'object',
+      properties: { a: true, b: false },
+      additionalProperties: true,
+    },
+  },
+  композиция: {
+    'тип с null': { type: ['integer', 'null'], minimum: 2 },
+    'allOf со ссылкой': { allOf: [{ $ref: '#/components/schemas/Base' }] },
+    'границы allOf': {
+      allOf: [
+        { type: 'integer', minimum: 5, maximum: 100 },
+        { minimum: 50, maximum: 200 },
+      ],
+    },
+    'const объекта': { const: { x: 1 } },
+    'const строки': { type: 'string', const: 'fixed' },
+    'схема true': true,
+  },
+  'OpenAPI 3.1': {
+    'локальные $defs': {
+      $defs: { Tag: { type: 'string', minLength: 2, maxLength: 4 } },
+      type: 'array',
+      items: { $ref: '#/$defs/Tag' },
+      minItems: 1,
+    },
+    dependentRequired: {
+      type: 'object',
+      properties: { card: { type: 'string' }, cvv: { type: 'string', pattern: '^\\d{3}$' } },
+      required: ['card'],
+      dependentRequired: { card: ['cvv'] },
+    },
+    'объект без type': { properties: { id: { type: 'integer' } }, required: ['id'] },
+    'массив без type': { prefixItems: [{ type: 'boolean' }], minItems: 1 },
+    'тип по examples': { examples: [3, 5] },
+    'массив типов': { type: ['string', 'integer'], minimum: 1, minLength: 1 },
+  },
+};
+
+/**
+ * Генерирует значения схемы
+ * @param generator - генератор данных
+ * @param schema - схема
+ * @returns сгенерированные значения (RUNS штук)
+ */
+function generateMany(generator: DataGenerator, schema: any): any[] {
+  return Array.from({ length: RUNS }, () => generator.generateFromSchema(schema));
+}
+
+describe('DataGenerator', () => {
+  const generator = new DataGenerator(spec);
+  // Независимый валидатор: схема проверяется вместе с components спецификации для $ref,
+  // multipleOf сравнивается с точностью до 10 знаков (0.58 / 0.01 = 57.99999999999999)
+  const ajv = new Ajv2020({ strict: false, multipleOfPrecision: 10 });
+  addFormats(ajv);
+
+  describe.each(Object.keys(corpus))('%s', (group) => {
+    it.each(Object.entries(corpus[group]))('%s', (_name, schema) => {
+      // Схема остается корнем документа, чтобы #/$defs/... разрешались от нее
+      const validate = ajv.compile(
+        typeof schema === 'object' ? { ...schema, components: spec.components } : schema
+      );
+      for (const value of generateMany(generator, schema)) {
+        expect({ value, errors: validate(value) ? null : validate.errors }).toEqual({
+          value,
+          errors: null,
+        });
+      }
+    });
+  });
+
+  it('добавляет свойства, обязательные по dependentRequired', () => {
+    const schema = corpus['OpenAPI 3.1'].dependentRequired;
+    for (const value of generateMany(generator, schema)) {
+      expect(value).toEqual({ card: expect.any(String), cvv: expect.stringMatching(/^\d{3}$/) });
+    }
+  });
+
+  describe('длина строк по pattern и format', () => {
+    it('ограничивает повтор pattern значением maxLength', () => {
+      const schema = { type: 'string', pattern: '^[a-z]{1,1000}$', maxLength: 10 };
+      for (const value of generateMany(generator, schema)) {
+        expect(value).toMatch(/^[a-z]{1,10}$/);
+      }
+    });
+
+    it('удлиняет неограниченный повтор pattern до minLength', () => {
+      const schema = { type: 'string', pattern: '^[a-z]+$', minLength: 30 };
+      for (const value of generateMany(generator, schema)) {
+        expect(value).toMatch(/^[a-z]{30,}$/);
+      }
+    });
+
+    it('учитывает длину в повторе группы', () => {
+      const schema = { type: 'string', pattern: '^(foo|bar)+_[a-f0-9]{2,}$', maxLength: 12 };
+      for (const value of generateMany(generator, schema)) {
+        expect(value).toMatch(/^(foo|bar){1,3}_[a-f0-9]{2,8}$/);
+        expect(value.length).toBeLessThanOrEqual(12);
+      }
+    });
+
+    it('генерирует короткий email по format', () => {
+      const schema = { type: 'string', format: 'email', maxLength: 10 };
+      for (const value of generateMany(generator, schema)) {
+        expect(value).toMatch(/^[a-z0-9]+@[a-z]+\.[a-z]{2}$/);
+        expect(value.length).toBeLessThanOrEqual(10);
+      }
+    });
+
+    it('генерирует короткий uri по format', () => {
+      const schema = { type: 'string', format: 'uri', maxLength: 8 };
+      for (const value of generateMany(generator, schema)) {
+        expect(value).toMatch(/^urn:[a-z0-9]+$/);
+        expect(value.length).toBeLessThanOrEqual(8);
+      }
+    });
+
+    it('генерирует email по pattern и format в пределах maxLength', () => {
+      const schema = { type: 'string', format: 'email', pattern: '^[a-z]+@', maxLength: 12 };
+      for (const value of generateMany(generator, schema)) {
+        expect(value).toMatch(/^[a-z]+@[a-z]+\.[a-z]{2,}$/);
+        expect(value.length).toBeLessThanOrEqual(12);
+      }
+    });
+
+    it('не строит строку по pattern длиннее допустимой (a{100000000})', () => {
+      expect(generateFromPattern('^a{100000000}$')).toBeUndefined();
+      expect(generateFromPattern('^[a-z]{20}$', 0, 10)).toBeUndefined();
+      expect(
+        typeof generator.generateFromSchema({ type: 'string', pattern: '^a{100000000}$' })
+      ).toBe('string');
+    });
+  });
+
+  describe('ключевые слова OpenAPI 3.0', () => {
+    it('учитывает exclusiveMinimum и exclusiveMaximum в виде boolean', () => {
+      const schema = {
+        type: 'integer',
+        minimum: 1,
+        maximum: 3,
+        exclusiveMinimum: true,
+        exclusiveMaximum: true,
+      };
+      expect(new Set(generateMany(generator, schema))).toEqual(new Set([2]));
+    });
+
+    it('генерирует null или значение для nullable схемы', () => {
+      const values = generateMany(generator, { type: 'string', nullable: true });
+      for (const value of values) {
+        expect(value === null || typeof value === 'string').toBe(true);
+      }
+      expect(values).toContain(null);
+    });
+
+    it('не генерирует writeOnly свойства', () => {
+      const schema = {
+        type: 'object',
+        required: ['name', 'password'],
+        properties: {
+          name: { type: 'string' },
+          password: { $ref: '#/components/schemas/Password' },
+          secret: { type: 'string', writeOnly: true },
+        },
+      };
+      for (const value of generateMany(generator, schema)) {
+        expect(Object.keys(value)).toEqual(['name']);
+      }
+    });
+  });
+
+  describe('дискриминатор oneOf/anyOf', () => {
+    // Питомцы с дискриминатором petType: Dog через mapping, Cat по имени схемы;
+    // Lion наследует дискриминатор Animal через allOf
+    const polymorphic = new DataGenerator({
+      components: {
+        schemas: {
+          Pet: {
+            oneOf: [{ $ref: '#/components/schemas/Cat' }, { $ref: '#/components/schemas/Dog' }],
+            discriminator: {
+              propertyName: 'petType',
+              mapping: { dog: '#/components/schemas/Dog' },
+            },
+          },
+          Cat: {
+            type: 'object',
+            required: ['petType', 'lives'],
+            properties: { petType: { type: 'string' }, lives: { type: 'integer' } },
+          },
+          Dog: {
+            type: 'object',
+            title: 'Собака',
+            required: ['petType', 'bark'],
+            properties: { petType: { type: 'string' }, bark: { type: 'boolean' } },
+          },
+          Animal: {
+            type: 'object',
+            required: ['kind'],
+            properties: { kind: { type: 'string' } },
+            discriminator: { propertyName: 'kind' },
+          },
+          Lion: {
+            allOf: [
+              { $ref: '#/components/schemas/Animal' },
+              { type: 'object', required: ['mane'], properties: { mane: { type: 'boolean' } } },
+            ],
+          },
+        },
+      },
+    });
+    const pet = { $ref: '#/components/schemas/Pet' };
+
+    it('согласует значение дискриминатора с выбранным вариантом', () => {
+      const values = generateMany(polymorphic, pet);
+      for (const value of values) {
+        expect(value).toEqual(
+          'bark' in value
+            ? { petType: 'dog', bark: expect.any(Boolean) }
+            : { petType: 'Cat', lives: expect.any(Number) }
+        );
+      }
+      expect(new Set(values.map((value) => value.petType))).toEqual(new Set(['Cat', 'dog']));
+    });
+
+    it('выбирает вариант по значению mapping, имени схемы или title', () => {
+      for (const variant of ['dog', 'Dog', 'Собака']) {
+        expect(
+          polymorphic.withVariant(variant, () => polymorphic.generateFromSchema(pet))
+        ).toMatchObject({ petType: 'dog' });
+      }
+      expect(polymorphic.withVariant('Cat', () => polymorphic.generateFromSchema(pet))).toEqual({
+        petType: 'Cat',
+        lives: expect.any(Number),
+      });
+    });
+
+    it('устанавливает унаследованный через allOf дискриминатор', () => {
+      expect(polymorphic.generateFromSchema({ $ref: '#/components/schemas/Lion' })).toEqual({
+        kind: 'Lion',
+        mane: expect.any(Boolean),
+      });
+    });
+
+    it('объединяет объектные варианты anyOf без дискриминатора', () => {
+      const schema = {
+        anyOf: [
+          { type: 'object', required: ['a'], properties: { a: { type: 'integer' } } },
+          { type: 'object', required: ['b'], properties: { b: { type: 'integer' } } },
+        ],
+      };
+      const keys = new Set(
+        generateMany(polymorphic, schema).map((value) => Object.keys(value).sort().join())
+      );
+
+      expect(keys).toEqual(new Set(['a', 'b', 'a,b']));
+    });
+  });
+});
@@ -1,19 +1,65 @@
-import { faker } from '@faker-js/faker';
+import { faker } from './locale';
+import { SpecBundler } from './spec-bundler';
+import { TemplateEngine } from './template-engine';
+import { PropertyNameMap, PropertyNameMatcher } from './property-names';
+import { generateFromPattern } from './pattern-generator';
+import { generateSizedFormat } from './format-generator';
+import { SchemaValidator } from './schema-validator';
 
 /**
  * Генератор fake данных на основе JSON Schema
  * Использует faker.js для генерации реалистичных данных
+ * Данные генерируются для ответов: writeOnly свойства не выводятся
  */
 export class DataGenerator {
+  // Вероятность null для nullable схем и типов вида ["string", "null"]
+  private static readonly NULL_PROBABILITY = 0.1;
+  // Попыток получить значение, подходящее под ограничения (длина, формат, шаблон)
+  private static readonly MAX_ATTEMPTS = 20;
+  // Попыток получить уникальный элемент массива (при узком наборе значений дубликаты часты)
+  private static readonly UNIQUE_ATTEMPTS = 100;
+  // Ограничения, которые в allOf объединяются по максимуму и минимуму
+  private static readonly LOWER_BOUNDS = [
+    'minimum',
+    'exclusiveMinimum',
+    'minLength',
+    'minItems',
+    'minProperties',
+  ];
+  private static readonly UPPER_BOUNDS = [
+    'maximum',
+    'exclusiveMaximum',
+    'maxLength',
+    'maxItems',
+    'maxProperties',
+  ];
+
   // Полная спецификация OpenAPI для разрешения $ref ссылок
   private spec: any;
+  // Стек областей $defs для разрешения локальных ссылок JSON Schema 2020-12
+  private defsScopes: any[] = [];
+  // Брать значения из example, examples и default схем вместо случайных
+  private preferExamples = false;
+  // Сопоставление имен свойств с генераторами (firstName → firstname)
+  private propertyNames: PropertyNameMatcher;
+  // Генераторы значений по имени шаблона
+  private templateEngine = new TemplateEngine();
+  // Проверка сгенерированных строк по format
+  private formatValidator = new SchemaValidator();
+  // Имя генерируемого свойства и признак элемента его массива
+  private propertyName?: string;
+  private propertyItem = false;
+  // Вариант oneOf/anyOf, выбранный для эндпоинта (значение дискриминатора или имя схемы)
+  private variant?: string;
 
   /**
    * Конструктор генератора данных
    * @param spec - полная спецификация OpenAPI (опционально, для разрешения $ref)
+   * @param propertyNames - пользовательские сопоставления имен свойств (опционально)
    */
-  constructor(spec?: any) {
+  constructor(spec?: any, propertyNames?: PropertyNameMap) {
     this.spec = spec;
+    this.propertyNames = new PropertyNameMatcher(propertyNames);
   }
 
   /**
@@ -23,33 +69,120 @@ export class DataGenerator {
    * @returns сгенерированные данные
    */
   generateFromSchema(schema: any, visitedRefs: Set<string> = new Set()): any {
+    // Булева схема (JSON Schema 2020-12): true допускает любое значение, false — никакое
+    if (schema === true) {
+      return this.generateAny();
+    }
+    if (schema === false) {
+      return undefined;
+    }
+
     // Если схема не определена, возвращаем null
     if (!schema) {
       return null;
     }
 
+    // Схема с $defs (JSON Schema 2020-12) задает область для ссылок вида #/$defs/...
+    if (schema.$defs && typeof schema.$defs === 'object') {
+      this.defsScopes.push(schema.$defs);
+      try {
+        return this.generateValue(schema, visitedRefs);
+      } finally {
+        this.defsScopes.pop();
+      }
+    }
+
+    return this.generateValue(schema, visitedRefs);
+  }
+
+  /**
+   * Генерирует данные, предпочитая примеры из схем (example, examples, default)
+   * Значения без примеров генерируются как обычно
+   * @param schema - JSON Schema объект
+   * @returns данные из примеров спецификации
+   */
+  generateFromExamples(schema: any): any {
+    this.preferExamples = true;
+    try {
+      return this.generateFromSchema(schema);
+    } finally {
+      this.preferExamples = false;
+    }
+  }
+
+  /**
+   * Выполняет генерацию с принудительным вариантом oneOf/anyOf
+   * Вариант выбирается в тех oneOf/anyOf, где он есть, остальные генерируются как обычно
+   * @param variant - значение дискриминатора, имя схемы или title варианта (undefined — случайный)
+   * @param generate - генерация данных
+   * @returns результат генерации
+   */
+  withVariant<T>(variant: string | undefined, generate: () => T): T {
+    const parentVariant = this.variant;
+    this.variant = variant;
+    try {
+      return generate();
+    } finally {
+      this.variant = parentVariant;
+    }
+  }
+
+  /**
+   * Генерирует значение по схеме (без обработки области $defs)
+   * @param schema - JSON Schema объект
+   * @param visitedRefs - множество уже посещенных ссылок
+   * @returns сгенерированные данные
+   */
+  private generateValue(schema: any, visitedRefs: Set<string>): any {
     // Обрабатываем ссылки на другие схемы ($ref)
     if (schema.$ref) {
       // Разрешаем ссылку на схему
       const resolvedSchema = this.resolveRef(schema.$ref, visitedRefs);
       // Если ссылка разрешена, генерируем данные из разрешенной схемы
       if (resolvedSchema) {
-        return this.generateFromSchema(resolvedSchema, visitedRefs);
+        // Помечаем ссылку посещенной на время генерации (защита от рекурсивных схем)
+        visitedRefs.add(schema.$ref);
+        const result = this.generateFromSchema(resolvedSchema, visitedRefs);
+        // Наследник схемы с дискриминатором (allOf: [$ref Pet]) получает свое значение
+        this.applyInheritedDiscriminator(result, schema.$ref, resolvedSchema, visitedRefs);
+        visitedRefs.delete(schema.$ref);
+        return result;
       }
       // Если не удалось разрешить, возвращаем пустой объект
       return {};
     }
 
+    // Константа (const) всегда возвращается как есть
+    if (schema.const !== undefined) {
+      return this.cloneValue(schema.const);
+    }
+
+    // В режиме примеров значение схемы берется из ее примера
+    if (this.preferExamples) {
+      const example = this.findSchemaExample(schema);
+      if (example !== undefined) {
+        return this.cloneValue(example);
+      }
+    }
+
+    // Перечисление (enum) любого типа — выбираем одно из допустимых значений
+    if (Array.isArray(schema.enum) && schema.enum.length > 0) {
+      return this.cloneValue(faker.helpers.arrayElement(schema.enum));
+    }
+
+    // nullable (OpenAPI 3.0) и null в массиве типов (OpenAPI 3.1) иногда дают null
+    const nullable =
+      schema.nullable === true || (Array.isArray(schema.type) && schema.type.includes('null'));
+    if (nullable && faker.datatype.boolean({ probability: DataGenerator.NULL_PROBABILITY })) {
+      return null;
+    }
+
     // Обрабатываем одинOf, anyOf, allOf
     if (schema.oneOf && schema.oneOf.length > 0) {
-      // Выбираем случайную схему из oneOf
-      const selectedSchema = faker.helpers.arrayElement(schema.oneOf);
-      return this.generateFromSchema(selectedSchema, visitedRefs);
+      return this.generatePolymorphic(schema, schema.oneOf, false, visitedRefs);
     }
     if (schema.anyOf && schema.anyOf.length > 0) {
-      // Выбираем случайную схему из anyOf
-      const selectedSchema = faker.helpers.arrayElement(schema.anyOf);
-      return this.generateFromSchema(selectedSchema, visitedRefs);
+      return this.generatePolymorphic(schema, schema.anyOf, true, visitedRefs);
     }
     if (schema.allOf && schema.allOf.length > 0) {
       // Объединяем все схемы правильно (с разрешением $ref)
@@ -65,14 +198,15 @@ export class DataGenerator {
     }
 
     // Обрабатываем типы данных
-    const type = schema.type || this.inferType(schema);
+    const type = this.resolveType(schema);
 
     switch (type) {
       case 'string':
         return this.generateString(schema);
       case 'number':
       case 'integer':
-        return this.generateNumber(schema);
+        // Передаем выбранный тип, так как в OpenAPI 3.1 type может быть массивом
+        return this.generateNumber({ ...schema, type });
       case 'boolean':
         return this.generateBoolean(schema);
       case 'array':
@@ -86,6 +220,169 @@ export class DataGenerator {
     }
   }
 
+  /**
+   * Генерирует значение oneOf/anyOf с учетом discriminator
+   * Вариант выбирается принудительно (withVariant) или случайно; свойство дискриминатора
+   * получает значение из mapping или имя схемы варианта. anyOf без дискриминатора может
+   * объединить несколько объектных вариантов
+   * @param schema - схема с oneOf/anyOf
+   * @param branches - варианты
+   * @param combinable - можно объединять несколько вариантов (anyOf)
+   * @param visitedRefs - множество уже посещенных ссылок
+   * @returns сгенерированные данные
+   */
+  private generatePolymorphic(
+    schema: any,
+    branches: any[],
+    combinable: boolean,
+    visitedRefs: Set<string>
+  ): any {
+    const discriminator =
+      typeof schema.discriminator?.propertyName === 'string' ? schema.discriminator : undefined;
+
+    // Принудительный вариант: по значению дискриминатора, имени схемы или title
+    const variant = this.variant;
+    const forced =
+      variant === undefined
+        ? undefined
+        : branches.find((branch) =>
+            this.variantNames(branch, discriminator, visitedRefs).includes(variant)
+          );
+
+    // anyOf без дискриминатора: случайный набор объектных вариантов объединяется в один объект
+    if (!forced && combinable && !discriminator && branches.length > 1) {
+      const selected = faker.helpers.arrayElements(branches);
+      const resolved = selected.map((branch) =>
+        branch?.$ref ? this.resolveRef(branch.$ref, visitedRefs) : branch
+      );
+      const objects = resolved.every(
+        (branch) =>
+          branch?.properties &&
+          branch.additionalProperties !== false &&
+          !branch.allOf &&
+          !branch.oneOf &&
+          !branch.anyOf
+      );
+      if (selected.length > 1 && objects) {
+        return this.generateFromSchema(this.mergeSchemas(resolved), visitedRefs);
+      }
+    }
+
+    const branch = forced ?? faker.helpers.arrayElement(branches);
+    const value = this.generateFromSchema(branch, visitedRefs);
+    // Свойство дискриминатора должно соответствовать выбранному варианту
+    const ref = this.schemaRef(branch);
+    if (discriminator && ref && this.isPlainObject(value)) {
+      value[discriminator.propertyName] = this.discriminatorValue(ref, discriminator);
+    }
+    return value;
+  }
+
+  /**
+   * Возвращает имена, по которым можно выбрать вариант oneOf/anyOf
+   * @param branch - схема варианта
+   * @param discriminator - дискриминатор (undefined, если не задан)
+   * @param visitedRefs - множество уже посещенных ссылок
+   * @returns ключи mapping, указывающие на вариант, имя схемы из $ref и title
+   */
+  private variantNames(branch: any, discriminator: any, visitedRefs: Set<string>): string[] {
+    const names: string[] = [];
+    const ref = this.schemaRef(branch);
+    if (ref) {
+      for (const [key, target] of Object.entries(discriminator?.mapping || {})) {
+        if (this.refMatches(target as string, ref)) {
+          names.push(key);
+        }
+      }
+      names.push(this.refName(ref));
+    }
+    const title = branch?.$ref ? this.resolveRef(branch.$ref, visitedRefs)?.title : branch?.title;
+    if (typeof title === 'string') {
+      names.push(title);
+    }
+    return names;
+  }
+
+  /**
+   * Устанавливает значение дискриминатора для схемы-наследника (allOf со ссылкой на базовую
+   * схему с discriminator)
+   * @param value - сгенерированное значение
+   * @param ref - ссылка на схему-наследника
+   * @param schema - схема-наследник
+   * @param visitedRefs - множество уже посещенных ссылок
+   */
+  private applyInheritedDiscriminator(
+    value: any,
+    ref: string,
+    schema: any,
+    visitedRefs: Set<string>
+  ): void {
+    if (!this.isPlainObject(value) || !Array.isArray(schema.allOf)) {
+      return;
+    }
+    for (const part of schema.allOf) {
+      const parent = part?.$ref ? this.resolveRef(part.$ref, visitedRefs) : part;
+      const discriminator = parent?.discriminator;
+      if (typeof discriminator?.propertyName === 'string') {
+        value[discriminator.propertyName] = this.discriminatorValue(ref, discriminator);
+        return;
+      }
+    }
+  }
+
+  /**
+   * Определяет значение дискриминатора для схемы
+   * @param ref - ссылка на схему варианта
+   * @param discriminator - дискриминатор
+   * @returns ключ mapping, указывающий на схему, иначе имя схемы
+   */
+  private discriminatorValue(ref: string, discriminator: any): string {
+    for (const [key, target] of Object.entries(discriminator.mapping || {})) {
+      if (this.refMatches(target as string, ref)) {
+        return key;
+      }
+    }
+    return this.refName(ref);
+  }
+
+  /**
+   * Проверяет, указывает ли значение mapping дискриминатора на ссылку
+   * @param target - значение mapping (ссылка или имя схемы)
+   * @param ref - ссылка на схему
+   * @returns true если mapping указывает на схему
+   */
+  private refMatches(target: string, ref: string): boolean {
+    return target === ref || target === this.refName(ref);
+  }
+
+  /**
+   * Возвращает ссылку, по которой получена схема варианта
+   * @param schema - схема варианта
+   * @returns $ref или $$ref (метка swagger-client у развернутых ссылок), иначе undefined
+   */
+  private schemaRef(schema: any): string | undefined {
+    const ref = schema?.$ref ?? schema?.$$ref;
+    return typeof ref === 'string' ? ref : undefined;
+  }
+
+  /**
+   * Проверяет, является ли значение объектом (не массивом и не null)
+   * @param value - значение
+   * @returns true для объекта
+   */
+  private isPlainObject(value: any): boolean {
+    return value !== null && typeof value === 'object' && !Array.isArray(value);
+  }
+
+  /**
+   * Извлекает имя схемы из ссылки (#/components/schemas/Dog → Dog)
+   * @param ref - ссылка на схему
+   * @returns имя схемы
+   */
+  private refName(ref: string): string {
+    return SpecBundler.unescapePointer(ref.split('/').pop() || ref);
+  }
+
   /**
    * Разрешает $ref ссылку на схему
    * @param ref - строка ссылки (например, "#/components/schemas/User")
@@ -99,6 +396,16 @@ export class DataGenerator {
       return null;
     }
 
+    // Ссылки на $defs сначала ищем в ближайших схемах (JSON Schema 2020-12)
+    if (ref.startsWith('#/$defs/')) {
+      for (let i = this.defsScopes.length - 1; i >= 0; i--) {
+        const found = SpecBundler.getByPointer({ $defs: this.defsScopes[i] }, ref.slice(1));
+        if (found !== undefined) {
+          return found;
+        }
+      }
+    }
+
     // Если нет спецификации, не можем разрешить ссылку
     if (!this.spec) {
       return null;
@@ -110,8 +417,11 @@ export class DataGenerator {
     try {
       // Убираем префикс # если есть
       const cleanRef = ref.startsWith('#') ? ref.slice(1) : ref;
-      // Разбиваем путь на части
-      const parts = cleanRef.split('/').filter((p) => p);
+      // Разбиваем путь на части (с учетом экранирования ~0 и ~1 из JSON Pointer)
+      const parts = cleanRef
+        .split('/')
+        .filter((p) => p)
+        .map((p) => SpecBundler.unescapePointer(p));
 
       // Начинаем с корня спецификации
       let current: any = this.spec;
@@ -174,14 +484,25 @@ export class DataGenerator {
         merged.required = [...new Set([...existingRequired, ...currentSchema.required])];
       }
       // Объединяем другие свойства (приоритет у последующих схем)
+      const previous = merged;
       merged = { ...merged, ...currentSchema };
+      // Числовые границы должны выполняться для всех схем — берем более строгую
+      for (const key of DataGenerator.LOWER_BOUNDS) {
+        if (typeof previous[key] === 'number' && typeof currentSchema[key] === 'number') {
+          merged[key] = Math.max(previous[key], currentSchema[key]);
+        }
+      }
+      for (const key of DataGenerator.UPPER_BOUNDS) {
+        if (typeof previous[key] === 'number' && typeof currentSchema[key] === 'number') {
+          merged[key] = Math.min(previous[key], currentSchema[key]);
+        }
+      }
       // Но сохраняем объединенные properties и required
-      if (merged.properties && currentSchema.properties) {
-        merged.properties = { ...merged.properties, ...currentSchema.properties };
+      if (previous.properties) {
+        merged.properties = previous.properties;
       }
-      if (currentSchema.required) {
-        const existingRequired = merged.required || [];
-        merged.required = [...new Set([...existingRequired, ...currentSchema.required])];
+      if (previous.required) {
+        merged.required = previous.required;
       }
     }
 
@@ -197,13 +518,105 @@ export class DataGenerator {
     // Проверяем формат строки
     const format = schema.format || '';
     const enumValues = schema.enum;
+    const pattern = typeof schema.pattern === 'string' ? schema.pattern : undefined;
 
     // Если есть enum, выбираем случайное значение
     if (enumValues && enumValues.length > 0) {
       return faker.helpers.arrayElement(enumValues);
     }
 
-    // Генерируем в зависимости от формата
+    // Строка без формата и шаблона генерируется по имени свойства (firstName, email, avatarUrl)
+    if (!format && !pattern) {
+      const named = this.generateByPropertyName();
+      if (named !== undefined && this.fitsLength(named, schema)) {
+        return named;
+      }
+    }
+
+    // Значение формата, подходящее под длину и шаблон: сначала обычное (user@example.com),
+    // затем собранное под ограничения длины (ab@cd.io)
+    if (format) {
+      for (let attempt = 0; attempt < DataGenerator.MAX_ATTEMPTS; attempt++) {
+        const value =
+          attempt < DataGenerator.MAX_ATTEMPTS / 2
+            ? this.generateFormat(format)
+            : generateSizedFormat(format, schema.minLength, schema.maxLength);
+        if (
+          value !== undefined &&
+          this.fitsLength(value, schema) &&
+          (!pattern || this.matchesPattern(value, pattern))
+        ) {
+          return value;
+        }
+      }
+    }
+
+    // Строка по регулярному выражению pattern (длина учитывается при генерации)
+    if (pattern) {
+      const value = this.generatePatternString(pattern, format, schema);
+      if (value !== undefined) {
+        return value;
+      }
+    }
+
+    // Генерируем строку нужной длины (minLength не больше maxLength); шаблон, который
+    // генератор не поддерживает (lookahead и т.д.), проверяется на случайных строках
+    const maxLength = schema.maxLength ?? Math.max(schema.minLength ?? 0, 50);
+    const minLength = Math.min(schema.minLength || 1, maxLength);
+    let value = '';
+    for (let attempt = 0; attempt < DataGenerator.MAX_ATTEMPTS; attempt++) {
+      value = faker.string.alphanumeric(faker.number.int({ min: minLength, max: maxLength }));
+      if (!pattern || this.matchesPattern(value, pattern)) {
+        break;
+      }
+    }
+    return value;
+  }
+
+  /**
+   * Генерирует строку по pattern, подходящую под формат
+   * Шаблон без якорей допускает символы до и после совпадения, поэтому к значению
+   * добавляется префикс или суффикс (@example\.com$ → ab12@example.com)
+   * @param pattern - регулярное выражение
+   * @param format - формат из схемы (опционально)
+   * @param schema - схема строки
+   * @returns строка по шаблону (если формат недостижим — без учета формата) или undefined
+   */
+  private generatePatternString(
+    pattern: string,
+    format: string | undefined,
+    schema: any
+  ): string | undefined {
+    let fallback: string | undefined;
+    for (let attempt = 0; attempt < DataGenerator.MAX_ATTEMPTS; attempt++) {
+      const value = generateFromPattern(pattern, schema.minLength, schema.maxLength);
+      if (value === undefined) {
+        break;
+      }
+      if (!format || this.matchesFormat(value, format)) {
+        return value;
+      }
+      const padding = faker.string.alphanumeric({ length: { min: 1, max: 8 }, casing: 'lower' });
+      const padded = [padding + value, value + padding].find(
+        (candidate) =>
+          this.fitsLength(candidate, schema) &&
+          this.matchesPattern(candidate, pattern) &&
+          this.matchesFormat(candidate, format)
+      );
+      if (padded !== undefined) {
+        return padded;
+      }
+      fallback = fallback ?? value;
+    }
+    return fallback;
+  }
+
+  /**
+   * Генерирует строку известного формата
+   * @param format - формат из схемы
+   * @returns строка или undefined для неизвестного формата
+   */
+  private generateFormat(format: string): string | undefined {
     switch (format) {
       case 'uuid':
       case 'uuid4':
@@ -215,6 +628,8 @@ export class DataGenerator {
         return faker.date.anytime().toISOString();
       case 'date':
         return faker.date.past().toISOString().split('T')[0];
+      case 'time':
+        return faker.date.anytime().toISOString().split('T')[1];
       case 'uri':
       case 'url':
         return faker.internet.url();
@@ -226,12 +641,45 @@ export class DataGenerator {
         return faker.internet.ipv6();
       case 'password':
         return faker.internet.password();
+      case 'byte':
+        return Buffer.from(faker.lorem.word()).toString('base64');
       default:
-        // Генерируем строку нужной длины
-        const minLength = schema.minLength || 1;
-        const maxLength = schema.maxLength || 50;
-        const length = faker.number.int({ min: minLength, max: maxLength });
-        return faker.string.alphanumeric(length);
+        return undefined;
+    }
+  }
+
+  /**
+   * Проверяет длину строки по minLength и maxLength (в символах Unicode)
+   * @param value - строка
+   * @param schema - схема строки
+   * @returns true если длина допустима
+   */
+  private fitsLength(value: string, schema: any): boolean {
+    const length = [...value].length;
+    return length >= (schema.minLength ?? 0) && length <= (schema.maxLength ?? Infinity);
+  }
+
+  /**
+   * Проверяет строку по формату (неизвестные форматы допускают любую строку)
+   * @param value - строка
+   * @param format - формат из схемы
+   * @returns true если строка соответствует формату
+   */
+  private matchesFormat(value: string, format: string): boolean {
+    return this.formatValidator.validate(value, { format }).length === 0;
+  }
+
+  /**
+   * Проверяет строку регулярным выражением из схемы
+   * @param value - строка
+   * @param pattern - регулярное выражение
+   * @returns true если строка соответствует (некорректный pattern ничему не соответствует)
+   */
+  private matchesPattern(value: string, pattern: string): boolean {
+    try {
+      return new RegExp(pattern, 'u').test(value);
+    } catch {
+      return false;
     }
   }
 
@@ -242,27 +690,144 @@ export class DataGenerator {
    */
   private generateNumber(schema: any): number {
     const isInteger = schema.type === 'integer';
-    const minimum = schema.minimum !== undefined ? schema.minimum : (isInteger ? 0 : 0.0);
-    const maximum = schema.maximum !== undefined ? schema.maximum : (isInteger ? 1000 : 1000.0);
-    const multipleOf = schema.multipleOf;
+    const multipleOf =
+      typeof schema.multipleOf === 'number' && schema.multipleOf > 0
+        ? schema.multipleOf
+        : undefined;
+
+    // Значение по имени свойства (price, age, latitude), если оно подходит под ограничения
+    const named = Number(this.generateByPropertyName() ?? NaN);
+    if (
+      Number.isFinite(named) &&
+      (!isInteger || Number.isInteger(named)) &&
+      this.satisfiesNumber(named, schema)
+    ) {
+      return named;
+    }
+
+    // Границы: exclusiveMinimum/exclusiveMaximum — флаг при minimum/maximum в OpenAPI 3.0, число в 3.1
+    let minimum: number | undefined = schema.minimum;
+    let maximum: number | undefined = schema.maximum;
+    let exclusiveMinimum = schema.exclusiveMinimum === true;
+    let exclusiveMaximum = schema.exclusiveMaximum === true;
+    if (
+      typeof schema.exclusiveMinimum === 'number' &&
+      (minimum === undefined || schema.exclusiveMinimum >= minimum)
+    ) {
+      minimum = schema.exclusiveMinimum;
+      exclusiveMinimum = true;
+    }
+    if (
+      typeof schema.exclusiveMaximum === 'number' &&
+      (maximum === undefined || schema.exclusiveMaximum <= maximum)
+    ) {
+      maximum = schema.exclusiveMaximum;
+      exclusiveMaximum = true;
+    }
+    // Без границ генерируем в 0-1000, при одной границе — в 1000 от нее
+    if (minimum === undefined) {
+      minimum = maximum === undefined ? 0 : maximum > 0 ? 0 : maximum - 1000;
+    }
+    if (maximum === undefined) {
+      maximum = minimum + 1000;
+    }
+
+    if (multipleOf) {
+      // Целое число кратно и multipleOf, и 1: шаг — их наименьшее общее кратное (0.5 → 1, 1.5 → 3)
+      const step = isInteger ? this.integerStep(multipleOf) : multipleOf;
+      // Выбираем кратное шага внутри границ
+      let first = Math.ceil(minimum / step);
+      let last = Math.floor(maximum / step);
+      if (exclusiveMinimum && first * step <= minimum) {
+        first++;
+      }
+      if (exclusiveMaximum && last * step >= maximum) {
+        last--;
+      }
+      const factor = faker.number.int({ min: first, max: Math.max(first, last) });
+      // Округляем до знаков шага, чтобы убрать погрешность (0.1 * 3 = 0.30000000000000004)
+      return Number((factor * step).toFixed(this.countDecimals(step)));
+    }
 
     if (isInteger) {
       // Генерируем целое число
-      let value = faker.number.int({ min: minimum, max: maximum });
-      // Применяем multipleOf если указан
-      if (multipleOf) {
-        value = Math.floor(value / multipleOf) * multipleOf;
+      const min = exclusiveMinimum ? Math.floor(minimum) + 1 : Math.ceil(minimum);
+      const max = exclusiveMaximum ? Math.ceil(maximum) - 1 : Math.floor(maximum);
+      return faker.number.int({ min, max: Math.max(min, max) });
+    }
+
+    // Генерируем дробное число
+    if (minimum >= maximum) {
+      return minimum;
+    }
+    const value = faker.number.float({ min: minimum, max: maximum });
+    // Значение на строгой границе заменяем серединой диапазона
+    if ((exclusiveMinimum && value <= minimum) || (exclusiveMaximum && value >= maximum)) {
+      return (minimum + maximum) / 2;
+    }
+    return value;
+  }
+
+  /**
+   * Проверяет число по minimum, maximum, exclusiveMinimum, exclusiveMaximum и multipleOf
+   * @param value - число
+   * @param schema - схема числа
+   * @returns true если число удовлетворяет ограничениям
+   */
+  private satisfiesNumber(value: number, schema: any): boolean {
+    if (schema.minimum !== undefined) {
+      if (schema.exclusiveMinimum === true ? value <= schema.minimum : value < schema.minimum) {
+        return false;
       }
-      return value;
-    } else {
-      // Генерируем дробное число
-      let value = faker.number.float({ min: minimum, max: maximum });
-      // Применяем multipleOf если указан
-      if (multipleOf) {
-        value = Math.floor(value / multipleOf) * multipleOf;
+    }
+    if (schema.maximum !== undefined) {
+      if (schema.exclusiveMaximum === true ? value >= schema.maximum : value > schema.maximum) {
+        return false;
       }
-      return value;
     }
+    if (typeof schema.exclusiveMinimum === 'number' && value <= schema.exclusiveMinimum) {
+      return false;
+    }
+    if (typeof schema.exclusiveMaximum === 'number' && value >= schema.exclusiveMaximum) {
+      return false;
+    }
+    if (typeof schema.multipleOf === 'number' && schema.multipleOf > 0) {
+      const quotient = value / schema.multipleOf;
+      return Math.abs(quotient - Math.round(quotient)) <= 1e-9;
+    }
+    return true;
+  }
+
+  /**
+   * Вычисляет наименьшее общее кратное multipleOf и 1 (шаг целых чисел, кратных multipleOf)
+   * @param multipleOf - положительный делитель из схемы
+   * @returns шаг
+   */
+  private integerStep(multipleOf: number): number {
+    const decimals = this.countDecimals(multipleOf);
+    if (decimals === 0 || decimals > 15) {
+      return Math.max(1, Math.round(multipleOf));
+    }
+    // multipleOf = numerator / scale; НОК(numerator / scale, 1) = numerator / НОД(numerator, scale)
+    const scale = 10 ** decimals;
+    const numerator = Math.round(multipleOf * scale);
+    let a = numerator;
+    let b = scale;
+    while (b !== 0) {
+      [a, b] = [b, a % b];
+    }
+    return numerator / a;
+  }
+
+  /**
+   * Считает знаки после запятой у числа (с учетом записи вида 1e-7)
+   * @param value - число
+   * @returns количество знаков (0-100)
+   */
+  private countDecimals(value: number): number {
+    const [mantissa, exponent] = String(value).split('e');
+    const decimals = (mantissa.split('.')[1] || '').length - Number(exponent || 0);
+    return Math.min(Math.max(decimals, 0), 100);
   }
 
   /**
@@ -281,23 +846,68 @@ export class DataGenerator {
    * @returns сгенерированный массив
    */
   private generateArray(schema: any, visitedRefs: Set<string>): any[] {
-    // Определяем размер массива
-    const minItems = schema.minItems || 1;
-    const maxItems = schema.maxItems || 5;
+    // Определяем размер массива (minItems не больше maxItems)
+    const maxItems = schema.maxItems ?? Math.max(schema.minItems ?? 0, 5);
+    const minItems = Math.min(schema.minItems || 1, maxItems);
     const length = faker.number.int({ min: minItems, max: maxItems });
 
     // Получаем схему элементов
-    const itemsSchema = schema.items || { type: 'string' };
-
-    // Генерируем элементы массива
+    const itemsSchema = schema.items === undefined ? { type: 'string' } : schema.items;
     const array: any[] = [];
-    for (let i = 0; i < length; i++) {
-      array.push(this.generateFromSchema(itemsSchema, visitedRefs));
+    // Уже добавленные элементы для uniqueItems (ключи сгенерированных объектов всегда в порядке схемы)
+    const seen = schema.uniqueItems === true ? new Set<string>() : undefined;
+
+    // Кортеж (prefixItems из JSON Schema 2020-12): первые элементы генерируются по своим схемам
+    if (Array.isArray(schema.prefixItems)) {
+      for (const itemSchema of schema.prefixItems) {
+        this.addArrayItem(array, seen, () => this.generateFromSchema(itemSchema, visitedRefs));
+      }
+    }
+    // items: false запрещает элементы (сверх prefixItems, если они есть)
+    if (schema.items === false) {
+      return array;
+    }
+
+    // Генерируем элементы массива (имя свойства относится к элементам: emails → email)
+    const parentItem = this.propertyItem;
+    this.propertyItem = true;
+    try {
+      while (array.length < length) {
+        // Уникальные значения закончились (enum, boolean) — массив остается короче
+        if (
+          !this.addArrayItem(array, seen, () => this.generateFromSchema(itemsSchema, visitedRefs))
+        ) {
+          break;
+        }
+      }
+    } finally {
+      this.propertyItem = parentItem;
     }
 
     return array;
   }
 
+  /**
+   * Добавляет элемент в массив, при uniqueItems повторяя генерацию для дубликатов
+   * @param array - массив
+   * @param seen - сериализованные элементы массива (undefined — уникальность не требуется)
+   * @param generate - генерация элемента
+   * @returns false если уникальный элемент получить не удалось
+   */
+  private addArrayItem(array: any[], seen: Set<string> | undefined, generate: () => any): boolean {
+    const attempts = seen ? DataGenerator.UNIQUE_ATTEMPTS : 1;
+    for (let attempt = 0; attempt < attempts; attempt++) {
+      const item = generate();
+      const key = JSON.stringify(item);
+      if (!seen || !seen.has(key)) {
+        seen?.add(key);
+        array.push(item);
+        return true;
+      }
+    }
+    return false;
+  }
+
   /**
    * Генерирует объект на основе схемы
    * @param schema - схема объекта
@@ -307,39 +917,186 @@ export class DataGenerator {
   private generateObject(schema: any, visitedRefs: Set<string>): any {
     const obj: any = {};
     const properties = schema.properties || {};
+    const required: string[] = Array.isArray(schema.required) ? schema.required : [];
 
     // Генерируем каждое свойство объекта
     for (const [key, propSchema] of Object.entries(properties)) {
+      // writeOnly свойства (пароли и т.д.) в ответах не возвращаются, схема false запрещает свойство
+      if (propSchema === false || this.isWriteOnly(propSchema, visitedRefs)) {
+        continue;
+      }
       // Проверяем required поля
-      const isRequired = schema.required?.includes(key) || false;
+      const isRequired = required.includes(key);
+      // В режиме примеров необязательные поля с примером выводятся всегда
+      const hasExample =
+        this.preferExamples && this.findSchemaExample(propSchema as any) !== undefined;
       // Генерируем значение только если поле обязательное или случайно
-      if (isRequired || faker.datatype.boolean()) {
-        obj[key] = this.generateFromSchema(propSchema as any, visitedRefs);
+      if (isRequired || hasExample || faker.datatype.boolean()) {
+        obj[key] = this.generateProperty(key, propSchema, visitedRefs);
       }
     }
 
+    // dependentRequired: если свойство присутствует, зависимые свойства тоже обязательны
+    this.addDependentProperties(obj, schema, visitedRefs);
+
     // Обрабатываем additionalProperties если указаны
     if (schema.additionalProperties) {
       // Генерируем дополнительные свойства
       const additionalCount = faker.number.int({ min: 0, max: 3 });
       for (let i = 0; i < additionalCount; i++) {
-        const key = `additional_${faker.string.alphanumeric(8)}`;
-        if (typeof schema.additionalProperties === 'object') {
-          obj[key] = this.generateFromSchema(schema.additionalProperties, visitedRefs);
-        } else if (schema.additionalProperties === true) {
-          // Если true, генерируем произвольное значение
-          obj[key] = faker.helpers.arrayElement([
-            faker.string.alphanumeric(10),
-            faker.number.int(),
-            faker.datatype.boolean(),
-          ]);
+        this.addAdditionalProperty(obj, schema, visitedRefs);
+      }
+    }
+
+    // minProperties: сначала добавляем необязательные свойства, затем дополнительные
+    const minProperties = schema.minProperties ?? 0;
+    for (const [key, propSchema] of Object.entries(properties)) {
+      if (Object.keys(obj).length >= minProperties) {
+        break;
+      }
+      if (!(key in obj) && propSchema !== false && !this.isWriteOnly(propSchema, visitedRefs)) {
+        obj[key] = this.generateProperty(key, propSchema, visitedRefs);
+        this.addDependentProperties(obj, schema, visitedRefs);
+      }
+    }
+    for (let attempt = 0; attempt < minProperties * 2; attempt++) {
+      if (Object.keys(obj).length >= minProperties || schema.additionalProperties === false) {
+        break;
+      }
+      this.addAdditionalProperty(obj, schema, visitedRefs);
+    }
+
+    // maxProperties: убираем необязательные свойства с конца (кроме нужных по dependentRequired)
+    if (schema.maxProperties !== undefined) {
+      const keys = Object.keys(obj);
+      const kept = new Set(required);
+      for (const [key, dependencies] of Object.entries(schema.dependentRequired || {})) {
+        if (key in obj && Array.isArray(dependencies)) {
+          dependencies.forEach((dependency) => kept.add(dependency));
+        }
+      }
+      for (let i = keys.length - 1; i >= 0 && Object.keys(obj).length > schema.maxProperties; i--) {
+        if (!kept.has(keys[i])) {
+          delete obj[keys[i]];
         }
       }
     }
 
+    // Развернутая схема-наследник (allOf с базовой схемой уже объединен, есть метка $$ref)
+    // получает свое значение дискриминатора
+    const ref = this.schemaRef(schema);
+    if (ref && typeof schema.discriminator?.propertyName === 'string') {
+      obj[schema.discriminator.propertyName] = this.discriminatorValue(ref, schema.discriminator);
+    }
+
     return obj;
   }
 
+  /**
+   * Добавляет свойства, обязательные по dependentRequired для присутствующих свойств
+   * @param obj - генерируемый объект
+   * @param schema - схема объекта
+   * @param visitedRefs - множество уже посещенных ссылок
+   */
+  private addDependentProperties(obj: any, schema: any, visitedRefs: Set<string>): void {
+    if (!schema.dependentRequired || typeof schema.dependentRequired !== 'object') {
+      return;
+    }
+    const properties = schema.properties || {};
+    for (const [key, dependencies] of Object.entries(schema.dependentRequired)) {
+      if (!(key in obj) || !Array.isArray(dependencies)) {
+        continue;
+      }
+      for (const dependency of dependencies) {
+        if (!(dependency in obj)) {
+          obj[dependency] = this.generateProperty(
+            dependency,
+            properties[dependency] || {},
+            visitedRefs
+          );
+        }
+      }
+    }
+  }
+
+  /**
+   * Добавляет в объект дополнительное свойство по additionalProperties
+   * Имя свойства генерируется по схеме propertyNames, если она задана
+   * @param obj - генерируемый объект
+   * @param schema - схема объекта
+   * @param visitedRefs - множество уже посещенных ссылок
+   */
+  private addAdditionalProperty(obj: any, schema: any, visitedRefs: Set<string>): void {
+    const nameSchema =
+      schema.propertyNames && typeof schema.propertyNames === 'object'
+        ? { type: 'string', ...schema.propertyNames }
+        : undefined;
+    const key = nameSchema
+      ? String(this.generateProperty(undefined, nameSchema, visitedRefs))
+      : `additional_${faker.string.alphanumeric(8)}`;
+    if (typeof schema.additionalProperties === 'object') {
+      obj[key] = this.generateProperty(undefined, schema.additionalProperties, visitedRefs);
+    } else {
+      // Если true (или не указаны), генерируем произвольное значение
+      obj[key] = this.generateAny();
+    }
+  }
+
+  /**
+   * Генерирует произвольное значение для схемы без ограничений (true, additionalProperties: true)
+   * @returns строка, число или булево значение
+   */
+  private generateAny(): any {
+    return faker.helpers.arrayElement([
+      faker.string.alphanumeric(10),
+      faker.number.int(),
+      faker.datatype.boolean(),
+    ]);
+  }
+
+  /**
+   * Проверяет, помечено ли свойство как writeOnly (с разрешением $ref)
+   * @param schema - схема свойства
+   * @param visitedRefs - множество уже посещенных ссылок
+   * @returns true для writeOnly свойства
+   */
+  private isWriteOnly(schema: any, visitedRefs: Set<string>): boolean {
+    const resolved = schema?.$ref ? this.resolveRef(schema.$ref, visitedRefs) : schema;
+    return resolved?.writeOnly === true;
+  }
+
+  /**
+   * Генерирует значение свойства объекта, запоминая его имя для генерации по имени
+   * @param name - имя свойства (undefined для additionalProperties)
+   * @param schema - схема свойства
+   * @param visitedRefs - множество уже посещенных ссылок
+   * @returns сгенерированное значение
+   */
+  private generateProperty(name: string | undefined, schema: any, visitedRefs: Set<string>): any {
+    const parentName = this.propertyName;
+    const parentItem = this.propertyItem;
+    this.propertyName = name;
+    this.propertyItem = false;
+    try {
+      return this.generateFromSchema(schema, visitedRefs);
+    } finally {
+      this.propertyName = parentName;
+      this.propertyItem = parentItem;
+    }
+  }
+
+  /**
+   * Генерирует значение по имени текущего свойства через шаблоны TemplateEngine
+   * @returns значение строкой или undefined, если имя не распознано
+   */
+  private generateByPropertyName(): string | undefined {
+    if (!this.propertyName) {
+      return undefined;
+    }
+    const template = this.propertyNames.match(this.propertyName, this.propertyItem);
+    return template ? this.templateEngine.generate(template) : undefined;
+  }
+
   /**
    * Определяет тип данных из схемы, если тип не указан явно
    * @param schema - схема
@@ -352,7 +1109,88 @@ export class DataGenerator {
         return 'string';
       }
     }
+    // Структурные ключевые слова однозначно задают тип (в OpenAPI 3.1 type часто опускают)
+    if (schema.properties || schema.additionalProperties || schema.dependentRequired) {
+      return 'object';
+    }
+    if (schema.items || schema.prefixItems) {
+      return 'array';
+    }
+    // Ограничения чисел, строк, массивов и объектов тоже указывают на тип
+    const numberKeywords = ['minimum', 'maximum', 'exclusiveMinimum', 'exclusiveMaximum'];
+    if ([...numberKeywords, 'multipleOf'].some((keyword) => keyword in schema)) {
+      return 'number';
+    }
+    if (['minItems', 'maxItems', 'uniqueItems'].some((keyword) => keyword in schema)) {
+      return 'array';
+    }
+    if (['minProperties', 'maxProperties', 'propertyNames'].some((keyword) => keyword in schema)) {
+      return 'object';
+    }
+    // Тип значений из enum или examples
+    const sample = schema.enum?.[0] ?? schema.examples?.[0];
+    if (sample !== undefined) {
+      if (sample === null) {
+        return 'null';
+      }
+      if (Array.isArray(sample)) {
+        return 'array';
+      }
+      if (typeof sample === 'number') {
+        return Number.isInteger(sample) ? 'integer' : 'number';
+      }
+      if (['string', 'boolean', 'object'].includes(typeof sample)) {
+        return typeof sample;
+      }
+    }
     // По умолчанию возвращаем string
     return 'string';
   }
+
+  /**
+   * Определяет тип для генерации с учетом массивов типов OpenAPI 3.1 (["string", "null"])
+   * @param schema - схема
+   * @returns тип для генерации
+   */
+  private resolveType(schema: any): string {
+    if (Array.isArray(schema.type)) {
+      // Предпочитаем ненулевые типы, null возвращаем только если других нет
+      const types = schema.type.filter((t: string) => t !== 'null');
+      if (types.length === 0) {
+        return 'null';
+      }
+      return faker.helpers.arrayElement(types);
+    }
+    return schema.type || this.inferType(schema);
+  }
+
+  /**
+   * Находит пример значения в схеме: example, первый из examples (OpenAPI 3.1) или default
+   * @param schema - схема
+   * @returns пример или undefined, если схема его не содержит
+   */
+  private findSchemaExample(schema: any): any {
+    if (!schema || typeof schema !== 'object') {
+      return undefined;
+    }
+    if (schema.example !== undefined) {
+      return schema.example;
+    }
+    if (Array.isArray(schema.examples) && schema.examples.length > 0) {
+      return schema.examples[0];
+    }
+    return schema.default;
+  }
+
+  /**
+   * Копирует значение из схемы, чтобы изменения ответа не затрагивали спецификацию
+   * @param value - значение (const, example и т.д.)
+   * @returns копия значения
+   */
+  private cloneValue(value: any): any {
+    if (typeof value !== 'object' || value === null) {
+      return value;
+    }
+    return JSON.parse(JSON.stringify(value));
+  }
 }
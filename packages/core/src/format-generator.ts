@@ -0,0 +1,169 @@
+import { faker } from './locale';
+
+// Сколько символов добавляется к minLength, если maxLength не задан
+const LENGTH_SPAN = 10;
+
+/**
+ * Генерирует значение формата с длиной в заданных границах (короткий email, короткий URL)
+ * Используется, когда обычные значения формата не подходят под minLength/maxLength
+ * @param format - формат из схемы
+ * @param minLength - минимальная длина строки в символах
+ * @param maxLength - максимальная длина строки в символах
+ * @returns строка или undefined, если формат не поддерживается или не имеет значений такой длины
+ */
+export function generateSizedFormat(
+  format: string,
+  minLength = 0,
+  maxLength = Infinity
+): string | undefined {
+  const pickLength = (min: number, max: number): number | undefined => {
+    const from = Math.max(min, minLength);
+    const to = Math.min(max, maxLength, from + LENGTH_SPAN);
+    return from > to ? undefined : faker.number.int({ min: from, max: to });
+  };
+  const fits = (value: string): boolean => value.length >= minLength && value.length <= maxLength;
+
+  switch (format) {
+    case 'email': {
+      // local@domain.tld: домен и локальная часть делят оставшуюся длину
+      const length = pickLength(6, 254);
+      if (length === undefined) {
+        return undefined;
+      }
+      const domain = Math.floor((length - 4) / 2);
+      return `${letters(length - 4 - domain)}@${letters(domain)}.${letters(2)}`;
+    }
+    case 'uri':
+    case 'url': {
+      // https://host.tld/path, а для коротких значений — urn:... (имя не пустое)
+      const length = pickLength(5, 2048);
+      if (length === undefined) {
+        return undefined;
+      }
+      if (length < 12) {
+        return `urn:${lower(length - 4)}`;
+      }
+      const host = Math.min(length - 11, 20);
+      const path = length - 11 - host;
+      return `https://${letters(host)}.${letters(2)}${path > 0 ? `/${lower(path - 1)}` : ''}`;
+    }
+    case 'hostname': {
+      // Метки до 63 символов через точку
+      const length = pickLength(1, 253);
+      if (length === undefined) {
+        return undefined;
+      }
+      const count = Math.ceil((length + 1) / 64);
+      return splitLength(length - count + 1, count, 1, 63)
+        .map((size) => letters(size))
+        .join('.');
+    }
+    case 'password': {
+      const length = pickLength(1, Infinity);
+      return length === undefined ? undefined : faker.string.alphanumeric(length);
+    }
+    case 'byte': {
+      // Base64 без дополнения: 3 байта кодируются 4 символами
+      const length = pickLength(0, Infinity);
+      if (length === undefined) {
+        return undefined;
+      }
+      const size = Math.ceil(length / 4) * 4;
+      const value = Buffer.from(faker.string.alphanumeric((size / 4) * 3)).toString('base64');
+      return fits(value) ? value : undefined;
+    }
+    case 'ipv4': {
+      // Октеты из 1-3 цифр: 1.2.3.4 — 255.255.255.255
+      const length = pickLength(7, 15);
+      if (length === undefined) {
+        return undefined;
+      }
+      return splitLength(length - 3, 4, 1, 3)
+        .map((digits) =>
+          faker.number.int({
+            min: digits === 1 ? 0 : 10 ** (digits - 1),
+            max: [9, 99, 255][digits - 1],
+          })
+        )
+        .join('.');
+    }
+    case 'ipv6': {
+      // Полная запись из 8 групп или сокращенная ::группы
+      const length = pickLength(2, 39);
+      if (length === undefined) {
+        return undefined;
+      }
+      if (length >= 15) {
+        return splitLength(length - 7, 8, 1, 4)
+          .map((digits) => hex(digits))
+          .join(':');
+      }
+      const rest = length - 2;
+      const count = Math.ceil((rest + 1) / 5);
+      return `::${
+        rest === 0
+          ? ''
+          : splitLength(rest - count + 1, count, 1, 4)
+              .map((digits) => hex(digits))
+              .join(':')
+      }`;
+    }
+    case 'date-time':
+    case 'datetime': {
+      // С миллисекундами и без них
+      const value = faker.date.anytime().toISOString();
+      return [value, value.replace(/\.\d+Z$/, 'Z')].find(fits);
+    }
+    case 'time': {
+      // Смещение часового пояса обязательно (RFC 3339), сокращаются только миллисекунды
+      const value = faker.date.anytime().toISOString().split('T')[1];
+      return [value, value.replace(/\.\d+Z$/, 'Z')].find(fits);
+    }
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Делит длину на части в заданных границах (случайно)
+ * @param total - общая длина
+ * @param count - количество частей
+ * @param min - минимальная длина части
+ * @param max - максимальная длина части
+ * @returns длины частей
+ */
+function splitLength(total: number, count: number, min: number, max: number): number[] {
+  const parts: number[] = [];
+  let remaining = total;
+  for (let i = 0; i < count; i++) {
+    const rest = count - i - 1;
+    const size = faker.number.int({
+      min: Math.max(min, remaining - rest * max),
+      max: Math.min(max, remaining - rest * min),
+    });
+    parts.push(size);
+    remaining -= size;
+  }
+  return parts;
+}
+
+/**
+ * Строчные латинские буквы
+ */
+function letters(length: number): string {
+  return faker.string.alpha({ length, casing: 'lower' });
+}
+
+/**
+ * Строчные латинские буквы и цифры
+ */
+function lower(length: number): string {
+  return faker.string.alphanumeric({ length, casing: 'lower' });
+}
+
+/**
+ * Шестнадцатеричные цифры в нижнем регистре
+ */
+function hex(length: number): string {
+  return faker.string.hexadecimal({ length, casing: 'lower', prefix: '' });
+}
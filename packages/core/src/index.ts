@@ -2,3 +2,12 @@
 export { OpenAPIParser } from './openapi-parser';
 export { DataGenerator } from './data-generator';
 export { TemplateEngine } from './template-engine';
+export { SpecBundler } from './spec-bundler';
+export { selectResponse, selectMediaType, selectExample } from './response-selector';
+export { SchemaValidator } from './schema-validator';
+export type { ValidationDirection } from './schema-validator';
+export { queryJsonPath } from './json-path';
+export { withSeed, deriveSeed } from './random-seed';
+export { PropertyNameMatcher, loadPropertyNameMap } from './property-names';
+export type { PropertyNameMap } from './property-names';
+export { withLocale, resolveLocale, negotiateLocale } from './locale';
@@ -0,0 +1,47 @@
+import { queryJsonPath } from './json-path';
+
+// Тело запроса с вложенными объектами и массивами
+const order = {
+  user: { email: 'ann@example.com', 'first-name': 'Ann' },
+  items: [
+    { sku: 'A1', price: 10 },
+    { sku: 'B2', price: 20, options: { sku: 'B2-gift' } },
+  ],
+};
+
+describe('queryJsonPath', () => {
+  it('находит свойства по точечной и скобочной записи', () => {
+    expect(queryJsonPath(order, '$.user.email')).toEqual(['ann@example.com']);
+    expect(queryJsonPath(order, "$.user['first-name']")).toEqual(['Ann']);
+    expect(queryJsonPath(order, 'user.email')).toEqual(['ann@example.com']);
+    expect(queryJsonPath(order, '$')).toEqual([order]);
+  });
+
+  it('поддерживает индексы, отрицательные индексы и wildcard', () => {
+    expect(queryJsonPath(order, '$.items[0].sku')).toEqual(['A1']);
+    expect(queryJsonPath(order, '$.items[-1].price')).toEqual([20]);
+    expect(queryJsonPath(order, '$.items[*].price')).toEqual([10, 20]);
+    expect(queryJsonPath(order, '$.user.*')).toEqual(['ann@example.com', 'Ann']);
+  });
+
+  it('собирает значения рекурсивным спуском', () => {
+    expect(queryJsonPath(order, '$..sku')).toEqual(['A1', 'B2', 'B2-gift']);
+    expect(queryJsonPath({ a: { b: 1 } }, '$..*')).toEqual([{ b: 1 }, 1]);
+  });
+
+  it('возвращает пустой список для отсутствующих значений', () => {
+    expect(queryJsonPath(order, '$.user.phone')).toEqual([]);
+    expect(queryJsonPath(order, '$.items[5].sku')).toEqual([]);
+    expect(queryJsonPath(undefined, '$.user')).toEqual([]);
+    expect(queryJsonPath('text', '$.length')).toEqual([]);
+  });
+
+  it('сообщает о некорректном выражении', () => {
+    expect(() => queryJsonPath(order, '$.items[0')).toThrow(
+      'Некорректное JSONPath выражение: $.items[0'
+    );
+    expect(() => queryJsonPath(order, '$.items[?(@.price)]')).toThrow(
+      'Неподдерживаемый сегмент JSONPath: [?(@.price)]'
+    );
+  });
+});
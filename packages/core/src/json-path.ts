@@ -0,0 +1,133 @@
+// Шаг JSONPath: свойство, индекс массива, любой элемент (*) или рекурсивный спуск (..)
+type JsonPathStep =
+  | { type: 'property'; name: string }
+  | { type: 'index'; index: number }
+  | { type: 'wildcard' }
+  | { type: 'descendant'; name: string | null };
+
+/**
+ * Вычисляет JSONPath выражение над данными
+ * Поддерживается подмножество: $, .name, ['name'], [0], [-1], [*], .*, ..name, ..*
+ * Путь без $ считается путем от корня (email → $.email)
+ * @param data - данные (например, тело запроса)
+ * @param expression - JSONPath выражение
+ * @returns все найденные значения (пустой массив, если ничего не найдено)
+ */
+export function queryJsonPath(data: any, expression: string): any[] {
+  const steps = parseJsonPath(expression);
+  let current: any[] = [data];
+  for (const step of steps) {
+    const next: any[] = [];
+    for (const value of current) {
+      applyStep(value, step, next);
+    }
+    current = next;
+  }
+  return current.filter((value) => value !== undefined);
+}
+
+/**
+ * Разбирает JSONPath выражение на шаги
+ * @param expression - JSONPath выражение
+ * @returns шаги выражения
+ */
+function parseJsonPath(expression: string): JsonPathStep[] {
+  let source = expression.trim();
+  if (source.startsWith('$')) {
+    source = source.slice(1);
+  } else if (source && !source.startsWith('.') && !source.startsWith('[')) {
+    source = `.${source}`;
+  }
+
+  const steps: JsonPathStep[] = [];
+  let i = 0;
+  while (i < source.length) {
+    if (source.startsWith('..', i)) {
+      // Рекурсивный спуск: ..name или ..*
+      i += 2;
+      const name = readName(source, i);
+      i += name.length;
+      steps.push({ type: 'descendant', name: name === '*' || name === '' ? null : name });
+    } else if (source[i] === '.') {
+      i += 1;
+      const name = readName(source, i);
+      i += name.length;
+      steps.push(name === '*' ? { type: 'wildcard' } : { type: 'property', name });
+    } else if (source[i] === '[') {
+      const end = source.indexOf(']', i);
+      if (end === -1) {
+        throw new Error(`Некорректное JSONPath выражение: ${expression}`);
+      }
+      const inner = source.slice(i + 1, end).trim();
+      i = end + 1;
+      if (inner === '*') {
+        steps.push({ type: 'wildcard' });
+      } else if (/^-?\d+$/.test(inner)) {
+        steps.push({ type: 'index', index: parseInt(inner, 10) });
+      } else if (/^(['"]).*\1$/.test(inner)) {
+        steps.push({ type: 'property', name: inner.slice(1, -1) });
+      } else {
+        throw new Error(`Неподдерживаемый сегмент JSONPath: [${inner}]`);
+      }
+    } else {
+      throw new Error(`Некорректное JSONPath выражение: ${expression}`);
+    }
+  }
+  return steps;
+}
+
+/**
+ * Читает имя свойства до следующего разделителя
+ */
+function readName(source: string, start: number): string {
+  const match = /^[^.[]*/.exec(source.slice(start));
+  return match ? match[0] : '';
+}
+
+/**
+ * Применяет шаг JSONPath к значению
+ * @param value - текущее значение
+ * @param step - шаг выражения
+ * @param out - накопитель результатов
+ */
+function applyStep(value: any, step: JsonPathStep, out: any[]): void {
+  if (value === null || typeof value !== 'object') {
+    return;
+  }
+  switch (step.type) {
+    case 'property':
+      if (Object.prototype.hasOwnProperty.call(value, step.name)) {
+        out.push(value[step.name]);
+      }
+      break;
+    case 'index':
+      if (Array.isArray(value)) {
+        out.push(value[step.index < 0 ? value.length + step.index : step.index]);
+      }
+      break;
+    case 'wildcard':
+      out.push(...(Array.isArray(value) ? value : Object.values(value)));
+      break;
+    case 'descendant':
+      collectDescendants(value, step.name, out);
+      break;
+  }
+}
+
+/**
+ * Собирает значения свойства на любой глубине (или все вложенные значения)
+ * @param value - текущее значение
+ * @param name - имя свойства (null — все значения)
+ * @param out - накопитель результатов
+ */
+function collectDescendants(value: any, name: string | null, out: any[]): void {
+  if (value === null || typeof value !== 'object') {
+    return;
+  }
+  for (const [key, child] of Object.entries(value)) {
+    if (name === null || key === name) {
+      out.push(child);
+    }
+    collectDescendants(child, name, out);
+  }
+}
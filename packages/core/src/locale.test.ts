@@ -0,0 +1,71 @@
+import { DataGenerator } from './data-generator';
+import { faker, negotiateLocale, resolveLocale, withLocale } from './locale';
+import { withSeed } from './random-seed';
+
+// Кириллица без латиницы
+const CYRILLIC = /^[\p{Script=Cyrillic}\s.'-]+$/u;
+
+describe('resolveLocale', () => {
+  it('приводит теги языка к локалям faker', () => {
+    expect(resolveLocale('ru')).toBe('ru');
+    expect(resolveLocale('de-CH')).toBe('de_CH');
+    expect(resolveLocale('DE_ch')).toBe('de_CH');
+    // Регион без своей локали → локаль языка, язык без базовой локали → первая региональная
+    expect(resolveLocale('de-LI')).toBe('de');
+    expect(resolveLocale('nb')).toBe('nb_NO');
+  });
+
+  it('не находит неизвестные и пустые теги', () => {
+    expect(resolveLocale('xx')).toBeUndefined();
+    expect(resolveLocale(' ')).toBeUndefined();
+    expect(resolveLocale('base')).toBeUndefined();
+  });
+});
+
+describe('negotiateLocale', () => {
+  it('выбирает поддерживаемый язык с наибольшим весом', () => {
+    expect(negotiateLocale('fr;q=0.5, ru;q=0.9, de')).toBe('de');
+    expect(negotiateLocale('xx, ru-RU;q=0.8, de;q=0.8')).toBe('ru');
+  });
+
+  it('пропускает *, нулевой вес и отсутствующий заголовок', () => {
+    expect(negotiateLocale('*, ru;q=0, xx')).toBeUndefined();
+    expect(negotiateLocale(undefined)).toBeUndefined();
+  });
+});
+
+describe('withLocale', () => {
+  it('переключает язык генераторов на время генерации', () => {
+    const name = withLocale('ru', () => withSeed(1, () => faker.person.firstName()));
+
+    expect(name).toMatch(CYRILLIC);
+    expect(withSeed(1, () => faker.person.firstName())).toMatch(/^[A-Za-z'-]+$/);
+  });
+
+  it('берет отсутствующие в региональной локали генераторы из локали языка и английской', () => {
+    withLocale('de_CH', () => {
+      expect(faker.location.city()).toEqual(expect.any(String));
+      expect(faker.person.firstName()).toEqual(expect.any(String));
+      expect(faker.internet.email()).toMatch(/@/);
+    });
+  });
+
+  it('генерирует данные по именам свойств в выбранной локали', () => {
+    const generator = new DataGenerator({});
+    const value = withLocale('ru', () =>
+      generator.generateFromSchema({
+        type: 'object',
+        required: ['firstName', 'lastName', 'middleName'],
+        properties: {
+          firstName: { type: 'string' },
+          lastName: { type: 'string' },
+          middleName: { type: 'string' },
+        },
+      })
+    );
+
+    expect(value.firstName).toMatch(CYRILLIC);
+    expect(value.lastName).toMatch(CYRILLIC);
+    expect(value.middleName).toMatch(CYRILLIC);
+  });
+});
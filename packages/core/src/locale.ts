@@ -0,0 +1,110 @@
+import { Faker, LocaleDefinition, allLocales, faker as defaultFaker } from '@faker-js/faker';
+
+// Экземпляры faker по локалям (создаются при первом использовании)
+const fakers = new Map<string, Faker>();
+// Экземпляр faker текущей генерации (по умолчанию английский)
+let current: Faker = defaultFaker;
+
+/**
+ * faker текущей локали: все генераторы ядра используют его вместо общего экземпляра,
+ * чтобы withLocale переключал язык имен, адресов, телефонов и т.д.
+ */
+export const faker: Faker = new Proxy({} as Faker, {
+  get(_target, property) {
+    const value = Reflect.get(current, property);
+    // Методы (seed, setDefaultRefDate) вызываются на самом экземпляре
+    return typeof value === 'function' ? value.bind(current) : value;
+  },
+});
+
+/**
+ * Выполняет генерацию данных в указанной локали
+ * faker общий для процесса, поэтому генерация должна быть синхронной
+ * @param locale - локаль faker (ru, de_CH) или undefined для английской
+ * @param generate - синхронная генерация данных
+ * @returns результат генерации
+ */
+export function withLocale<T>(locale: string | undefined, generate: () => T): T {
+  const previous = current;
+  current = locale && locale !== 'en' ? getFaker(locale) : defaultFaker;
+  try {
+    return generate();
+  } finally {
+    current = previous;
+  }
+}
+
+/**
+ * Приводит тег языка к локали faker: de-CH → de_CH, ja-JP → ja, pt → pt_BR
+ * @param tag - тег языка (BCP 47 или имя локали faker)
+ * @returns локаль faker или undefined, если язык не поддерживается
+ */
+export function resolveLocale(tag: string): string | undefined {
+  const normalized = tag.trim().replace(/-/g, '_').toLowerCase();
+  if (!normalized) {
+    return undefined;
+  }
+  const locales = Object.keys(allLocales).filter((locale) => locale !== 'base');
+  const exact = locales.find((locale) => locale.toLowerCase() === normalized);
+  if (exact) {
+    return exact;
+  }
+  // Локаль только языка (de_LI → de), иначе первая региональная локаль языка (nb → nb_NO)
+  const language = normalized.split('_')[0];
+  return (
+    locales.find((locale) => locale === language) ||
+    locales.find((locale) => locale.split('_')[0] === language)
+  );
+}
+
+/**
+ * Выбирает локаль по заголовку Accept-Language (с учетом весов q)
+ * @param header - значение заголовка Accept-Language
+ * @returns первая поддерживаемая локаль faker или undefined
+ */
+export function negotiateLocale(header: string | undefined): string | undefined {
+  const ranges = (header || '')
+    .split(',')
+    .map((part, index) => {
+      const [tag, ...params] = part.split(';');
+      const quality = params
+        .map((param) => /^\s*q=([\d.]+)\s*$/.exec(param))
+        .find((match) => match !== null);
+      return { tag: tag.trim(), quality: quality ? Number(quality[1]) : 1, index };
+    })
+    .filter((range) => range.tag && range.tag !== '*' && range.quality > 0)
+    // При равных весах сохраняем порядок из заголовка
+    .sort((a, b) => b.quality - a.quality || a.index - b.index);
+  for (const range of ranges) {
+    const locale = resolveLocale(range.tag);
+    if (locale) {
+      return locale;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Возвращает экземпляр faker для локали с цепочкой запасных локалей
+ * Генераторы, которых нет в локали, берутся из локали языка, затем из английской
+ * (de_CH → de → en → base)
+ * @param locale - локаль faker
+ * @returns экземпляр faker
+ */
+function getFaker(locale: string): Faker {
+  const cached = fakers.get(locale);
+  if (cached) {
+    return cached;
+  }
+  const definitions = allLocales as Record<string, LocaleDefinition>;
+  const chain: LocaleDefinition[] = [];
+  for (const name of [locale, locale.split('_')[0], 'en', 'base']) {
+    const definition = definitions[name];
+    if (definition && !chain.includes(definition)) {
+      chain.push(definition);
+    }
+  }
+  const instance = new Faker({ locale: chain });
+  fakers.set(locale, instance);
+  return instance;
+}
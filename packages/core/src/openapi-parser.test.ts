@@ -0,0 +1,220 @@
+import { OpenAPIParser } from './openapi-parser';
+
+/**
+ * Загружает спецификацию из объекта
+ * @param spec - спецификация OpenAPI или Swagger
+ * @returns парсер с загруженной спецификацией
+ */
+async function load(spec: any): Promise<OpenAPIParser> {
+  const parser = new OpenAPIParser();
+  await parser.loadSpecFromObject(spec);
+  return parser;
+}
+
+// Ответ 200 с JSON схемой
+const jsonResponse = (schema: any) => ({
+  '200': { description: 'ok', content: { 'application/json': { schema } } },
+});
+
+describe('OpenAPIParser', () => {
+  describe('OpenAPI 3.1', () => {
+    it('определяет версию спецификации', async () => {
+      const info = { title: 'Test', version: '1.0.0' };
+
+      expect((await load({ openapi: '3.1.0', info, paths: {} })).getSpecVersion()).toBe('3.1');
+      expect((await load({ openapi: '3.0.3', info, paths: {} })).getSpecVersion()).toBe('3.0');
+      expect((await load({ swagger: '2.0', info, paths: {} })).getSpecVersion()).toBe('2.0');
+    });
+
+    it('разрешает Path Item из components/pathItems с переопределениями', async () => {
+      const parser = await load({
+        openapi: '3.1.0',
+        info: { title: 'Test', version: '1.0.0' },
+        paths: {
+          '/users': { $ref: '#/components/pathItems/Users', summary: 'Пользователи' },
+        },
+        components: {
+          pathItems: {
+            Users: {
+              get: { responses: jsonResponse({ type: ['array', 'null'], items: { const: 1 } }) },
+            },
+          },
+        },
+      });
+
+      const [endpoint] = parser.parseEndpoints();
+
+      expect(endpoint.method).toBe('GET');
+      expect(endpoint.path).toBe('/users');
+      expect(endpoint.responseSchema).toEqual({ type: ['array', 'null'], items: { const: 1 } });
+    });
+  });
+
+  describe('Swagger 2.0', () => {
+    const pet = { type: 'object', required: ['name'], properties: { name: { type: 'string' } } };
+    // Спецификация Swagger 2.0 с basePath, produces/consumes, body и formData параметрами
+    const swagger = {
+      swagger: '2.0',
+      info: { title: 'Pets', version: '1.0.0' },
+      host: 'api.example.com',
+      basePath: '/v1/',
+      schemes: ['https', 'http'],
+      produces: ['application/xml', 'application/json'],
+      paths: {
+        '/pets/{petId}': {
+          parameters: [{ name: 'petId', in: 'path', type: 'integer', minimum: 1 }],
+          put: {
+            consumes: ['application/json'],
+            parameters: [
+              { name: 'body', in: 'body', required: true, schema: { $ref: '#/definitions/Pet' } },
+              { name: 'dryRun', in: 'query', type: 'boolean' },
+            ],
+            responses: {
+              '200': {
+                description: 'ok',
+                schema: { $ref: '#/definitions/Pet' },
+                examples: { 'application/json': { name: 'Rex' } },
+                headers: { 'X-Rate-Limit': { type: 'integer', description: 'Квота' } },
+              },
+            },
+          },
+        },
+        '/pets/{petId}/photo': {
+          post: {
+            consumes: ['multipart/form-data'],
+            parameters: [
+              { name: 'petId', in: 'path', type: 'integer' },
+              { name: 'file', in: 'formData', type: 'file', required: true },
+              { name: 'caption', in: 'formData', type: 'string', maxLength: 50 },
+            ],
+            responses: { '204': { description: 'ok' } },
+          },
+        },
+      },
+      definitions: { Pet: pet },
+    };
+
+    it('монтирует маршруты под basePath и строит серверы из schemes и host', async () => {
+      const parser = await load(swagger);
+
+      expect(
+        parser.parseEndpoints().map((endpoint) => `${endpoint.method} ${endpoint.path}`)
+      ).toEqual(['PUT /v1/pets/:petId', 'POST /v1/pets/:petId/photo']);
+      expect(parser.getServers()).toEqual([
+        { url: 'https://api.example.com/v1/' },
+        { url: 'http://api.example.com/v1/' },
+      ]);
+    });
+
+    it('приводит body параметр к requestBody с типами из consumes и разрешает definitions', async () => {
+      const [put] = (await load(swagger)).parseEndpoints();
+
+      expect(put.requestBody?.required).toBe(true);
+      expect(Object.keys(put.requestBody?.content || {})).toEqual(['application/json']);
+      expect(put.requestBody?.content['application/json'].schema).toMatchObject(pet);
+      expect(put.parameters).toEqual([
+        { name: 'petId', in: 'path', required: true, schema: { type: 'integer', minimum: 1 } },
+        { name: 'dryRun', in: 'query', required: false, schema: { type: 'boolean' } },
+      ]);
+    });
+
+    it('использует produces как MIME типы ответа, предпочитая JSON', async () => {
+      const [put] = (await load(swagger)).parseEndpoints();
+
+      expect(put.responseContentType).toBe('application/json');
+      expect(put.responseSchema).toMatchObject(pet);
+      expect(Object.keys(put.responses?.['200'].content || {})).toEqual([
+        'application/xml',
+        'application/json',
+      ]);
+      expect(put.responses?.['200'].content?.['application/json'].example).toEqual({
+        name: 'Rex',
+      });
+      expect(put.responses?.['200'].headers).toEqual({
+        'X-Rate-Limit': { description: 'Квота', schema: { type: 'integer' } },
+      });
+    });
+
+    it('собирает formData параметры в схему формы', async () => {
+      const [, upload] = (await load(swagger)).parseEndpoints();
+
+      expect(upload.requestBody).toEqual({
+        required: true,
+        content: {
+          'multipart/form-data': {
+            schema: {
+              type: 'object',
+              properties: {
+                file: { type: 'string', format: 'binary' },
+                caption: { type: 'string', maxLength: 50 },
+              },
+              required: ['file'],
+            },
+          },
+        },
+      });
+    });
+  });
+
+  describe('servers', () => {
+    // Спецификация с серверами: переменные с enum и default, относительный URL
+    const withServers = {
+      openapi: '3.0.3',
+      info: { title: 'Test', version: '1.0.0' },
+      servers: [
+        {
+          url: 'https://{region}.example.com/{version}/',
+          description: 'Продакшен',
+          variables: {
+            region: { default: 'eu', enum: ['eu', 'us'] },
+            version: { default: 'v1' },
+          },
+        },
+        { url: '/api?debug=1' },
+      ],
+      paths: { '/users/{id}': { get: { responses: jsonResponse({ type: 'object' }) } } },
+    };
+
+    it('подставляет значения переменных по умолчанию и монтирует маршруты под путь сервера', async () => {
+      const parser = await load(withServers);
+
+      expect(parser.resolveServer()).toEqual({
+        url: 'https://eu.example.com/v1/',
+        basePath: '/v1',
+        description: 'Продакшен',
+      });
+      expect(parser.parseEndpoints()[0].path).toBe('/v1/users/:id');
+    });
+
+    it('применяет переопределения переменных и индекс сервера', async () => {
+      const parser = await load(withServers);
+
+      expect(parser.resolveServer({ variables: { region: 'us', version: 'v2' } }).url).toBe(
+        'https://us.example.com/v2/'
+      );
+      expect(parser.parseEndpoints({ variables: { version: 'v2' } })[0].path).toBe('/v2/users/:id');
+      expect(parser.resolveServer({ serverIndex: 1 }).basePath).toBe('/api');
+    });
+
+    it('сообщает о неизвестном сервере, переменной и недопустимом значении', async () => {
+      const parser = await load(withServers);
+
+      expect(() => parser.resolveServer({ serverIndex: 2 })).toThrow(
+        'Сервер с индексом 2 не найден (доступно серверов: 2)'
+      );
+      expect(() => parser.resolveServer({ variables: { port: '8080' } })).toThrow(
+        'Неизвестная переменная сервера: port'
+      );
+      expect(() => parser.resolveServer({ variables: { region: 'asia' } })).toThrow(
+        'Недопустимое значение переменной region: asia (допустимо: eu, us)'
+      );
+    });
+
+    it('монтирует спецификацию без серверов в корень', async () => {
+      const parser = await load({ ...withServers, servers: undefined });
+
+      expect(parser.resolveServer()).toEqual({ url: '/', basePath: '' });
+      expect(parser.parseEndpoints()[0].path).toBe('/users/:id');
+    });
+  });
+});
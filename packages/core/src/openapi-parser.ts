@@ -1,8 +1,20 @@
 import SwaggerClient from 'swagger-client';
-import * as yaml from 'js-yaml';
 import * as fs from 'fs';
 import * as path from 'path';
-import { ParsedEndpoint, OpenAPIOperation, isValidFilePath } from '@api-mock-generator/shared';
+import {
+  ParsedEndpoint,
+  ParsedMediaType,
+  ParsedParameter,
+  ParsedRequestBody,
+  ParsedResponse,
+  ParsedSecurityRequirement,
+  OpenAPIOperation,
+  ResolvedServer,
+  ServerSelection,
+  isValidFilePath,
+} from '@api-mock-generator/shared';
+import { SpecBundler } from './spec-bundler';
+import { selectMediaType } from './response-selector';
 
 /**
  * Парсер OpenAPI спецификации
@@ -14,6 +26,7 @@ export class OpenAPIParser {
 
   /**
    * Загружает и парсит OpenAPI спецификацию из файла
+   * Внешние $ref (./schemas/User.yaml#/User) собираются в один документ
    * @param filePath - путь к файлу OpenAPI (YAML или JSON)
    */
   async loadSpec(filePath: string): Promise<void> {
@@ -28,41 +41,9 @@ export class OpenAPIParser {
       throw new Error(`Файл не найден: ${resolvedPath}`);
     }
 
-    // Проверяем что это файл, а не директория
-    const stats = fs.statSync(resolvedPath);
-    if (!stats.isFile()) {
-      throw new Error('Указанный путь не является файлом');
-    }
-
-    // Проверяем размер файла (максимум 10MB)
-    const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB
-    if (stats.size > MAX_FILE_SIZE) {
-      throw new Error('Файл слишком большой (максимум 10MB)');
-    }
-
-    // Читаем файл
-    const fileContent = fs.readFileSync(resolvedPath, 'utf-8');
-
-    // Проверяем размер содержимого
-    if (fileContent.length > MAX_FILE_SIZE) {
-      throw new Error('Содержимое файла слишком большое');
-    }
-
-    // Определяем формат файла по расширению
-    const isYaml = resolvedPath.endsWith('.yaml') || resolvedPath.endsWith('.yml');
-
     try {
-      // Парсим в зависимости от формата с безопасными опциями
-      if (isYaml) {
-        // Безопасная загрузка YAML (защита от YAML injection)
-        this.spec = yaml.load(fileContent, {
-          schema: yaml.DEFAULT_SCHEMA,
-          json: true,
-        });
-      } else {
-        // Парсим JSON с проверкой на циклические ссылки
-        this.spec = JSON.parse(fileContent);
-      }
+      // Загружаем корневой файл и все файлы из внешних $ref (проверки размера и пути внутри)
+      this.spec = new SpecBundler(resolvedPath).bundle();
 
       // Валидируем что получили объект
       if (typeof this.spec !== 'object' || this.spec === null || Array.isArray(this.spec)) {
@@ -92,9 +73,11 @@ export class OpenAPIParser {
 
   /**
    * Извлекает все эндпоинты из спецификации
+   * Маршруты монтируются под базовый путь выбранного сервера (servers или basePath Swagger 2.0)
+   * @param options - выбор сервера и значения его переменных (опционально)
    * @returns массив распарсенных эндпоинтов
    */
-  parseEndpoints(): ParsedEndpoint[] {
+  parseEndpoints(options: ServerSelection = {}): ParsedEndpoint[] {
     if (!this.spec) {
       throw new Error('Спецификация не загружена');
     }
@@ -102,25 +85,50 @@ export class OpenAPIParser {
     const endpoints: ParsedEndpoint[] = [];
     // Получаем пути из спецификации
     const paths = this.spec.paths || {};
+    // Swagger 2.0 приводим к форме OpenAPI 3.x
+    const isSwagger2 = this.getSpecVersion() === '2.0';
+    // Префикс маршрутов из выбранного сервера
+    const { basePath } = this.resolveServer(options);
 
     // Проходим по всем путям
-    for (const [path, pathItem] of Object.entries(paths)) {
+    for (const [path, rawPathItem] of Object.entries(paths)) {
+      // Path Item может быть ссылкой (например, на components/pathItems в OpenAPI 3.1)
+      const pathItem = this.resolvePathItem(rawPathItem);
+      // Параметры уровня пути применяются ко всем операциям
+      const pathParameters: any[] = Array.isArray(pathItem.parameters) ? pathItem.parameters : [];
       // Проходим по всем HTTP методам в пути
-      for (const [method, operation] of Object.entries(pathItem as any)) {
+      for (const [method, rawOperation] of Object.entries(pathItem)) {
         // Пропускаем не-HTTP методы (например, parameters, summary)
         if (!['get', 'post', 'put', 'delete', 'patch', 'head', 'options'].includes(method.toLowerCase())) {
           continue;
         }
 
+        // Приводим операцию к единой форме OpenAPI 3.x
+        const operation = isSwagger2
+          ? this.normalizeSwagger2Operation(rawOperation, pathParameters)
+          : this.normalizeOperation(rawOperation, pathParameters);
+
+        // Собираем все объявленные ответы операции
+        const responses = this.extractResponses(operation);
         // Получаем схему ответа (приоритет на 200, затем первый доступный)
-        const responseSchema = this.extractResponseSchema(operation as OpenAPIOperation);
+        const { schema: responseSchema, contentType } = this.extractResponseSchema(responses);
+        // Схемы параметров и тела запроса для валидации входящих запросов
+        const parameters = this.extractParameters(operation);
+        const requestBody = this.extractRequestBody(operation);
+        // Требования безопасности операции (или спецификации по умолчанию)
+        const security = this.extractSecurity(operation);
 
         // Добавляем эндпоинт в список
         endpoints.push({
-          path: this.normalizePath(path),
+          path: this.normalizePath(basePath + path),
           method: method.toUpperCase(),
-          operation: operation as OpenAPIOperation,
+          operation,
           responseSchema,
+          responseContentType: contentType,
+          responses,
+          parameters,
+          requestBody,
+          security,
         });
       }
     }
@@ -129,42 +137,476 @@ export class OpenAPIParser {
   }
 
   /**
-   * Извлекает схему ответа из операции
-   * @param operation - операция OpenAPI
-   * @returns схема ответа или undefined
-   */
-  private extractResponseSchema(operation: OpenAPIOperation): any {
-    // Получаем ответы из операции
-    const responses = operation.responses || {};
-    // Приоритет на 200 статус код
-    const successResponse = responses['200'] || responses['201'] || responses['204'];
-    // Если есть успешный ответ, извлекаем схему
-    if (successResponse) {
-      // Проверяем content для OpenAPI 3.0
-      if (successResponse.content) {
-        // Приоритет на application/json
-        const jsonContent = successResponse.content['application/json'];
-        if (jsonContent?.schema) {
-          return jsonContent.schema;
+   * Определяет версию спецификации
+   * @returns '2.0' для Swagger, '3.1' для OpenAPI 3.1, иначе '3.0'
+   */
+  getSpecVersion(): '2.0' | '3.0' | '3.1' {
+    if (!this.spec) {
+      throw new Error('Спецификация не загружена');
+    }
+    if (typeof this.spec.swagger === 'string' && this.spec.swagger.startsWith('2.')) {
+      return '2.0';
+    }
+    if (typeof this.spec.openapi === 'string' && this.spec.openapi.startsWith('3.1')) {
+      return '3.1';
+    }
+    return '3.0';
+  }
+
+  /**
+   * Разрешает внутреннюю ссылку $ref у Path Item
+   * @param pathItem - Path Item из спецификации
+   * @returns Path Item с учетом ссылки
+   */
+  private resolvePathItem(pathItem: any): any {
+    if (!pathItem || typeof pathItem !== 'object') {
+      return {};
+    }
+    if (typeof pathItem.$ref === 'string' && pathItem.$ref.startsWith('#')) {
+      const { $ref, ...overrides } = pathItem;
+      const target = SpecBundler.getByPointer(this.spec, $ref.slice(1));
+      return { ...(target || {}), ...overrides };
+    }
+    return pathItem;
+  }
+
+  /**
+   * Нормализует операцию OpenAPI 3.x: объединяет параметры пути и разрешает ссылки
+   * @param rawOperation - операция из спецификации
+   * @param pathParameters - параметры уровня пути
+   * @returns нормализованная операция
+   */
+  private normalizeOperation(rawOperation: any, pathParameters: any[]): OpenAPIOperation {
+    const operation: OpenAPIOperation = { ...rawOperation };
+    operation.parameters = this.mergeParameters(pathParameters, rawOperation.parameters);
+    if (rawOperation.requestBody) {
+      operation.requestBody = this.deref(rawOperation.requestBody);
+    }
+    const responses: Record<string, any> = {};
+    for (const [status, response] of Object.entries(rawOperation.responses || {})) {
+      responses[status] = this.deref(response);
+    }
+    operation.responses = responses;
+    return operation;
+  }
+
+  /**
+   * Приводит операцию Swagger 2.0 к форме OpenAPI 3.x
+   * body/formData параметры становятся requestBody, produces/consumes — content типами
+   * @param rawOperation - операция Swagger 2.0
+   * @param pathParameters - параметры уровня пути
+   * @returns нормализованная операция
+   */
+  private normalizeSwagger2Operation(rawOperation: any, pathParameters: any[]): OpenAPIOperation {
+    const {
+      responses: rawResponses,
+      produces: rawProduces,
+      consumes: rawConsumes,
+      ...rest
+    } = rawOperation;
+    const operation: OpenAPIOperation = { ...rest };
+    const produces: string[] = rawProduces || this.spec.produces || ['application/json'];
+    const consumes: string[] = rawConsumes || this.spec.consumes || ['application/json'];
+
+    const parameters: any[] = [];
+    const formProperties: Record<string, any> = {};
+    const formRequired: string[] = [];
+
+    for (const param of this.mergeParameters(pathParameters, rawOperation.parameters)) {
+      if (param.in === 'body') {
+        // Тело запроса описывается одной схемой для всех типов из consumes
+        operation.requestBody = {
+          description: param.description,
+          required: param.required || false,
+          content: this.buildContent(consumes, param.schema || {}),
+        };
+      } else if (param.in === 'formData') {
+        // Поля формы собираем в схему объекта
+        formProperties[param.name] = this.swagger2ParameterSchema(param);
+        if (param.required) {
+          formRequired.push(param.name);
         }
-        // Если нет JSON, берем первый доступный
-        const firstContent = Object.values(successResponse.content)[0] as any;
-        return firstContent?.schema;
+      } else {
+        parameters.push({
+          name: param.name,
+          in: param.in,
+          description: param.description,
+          required: param.in === 'path' ? true : param.required || false,
+          schema: this.swagger2ParameterSchema(param),
+        });
+      }
+    }
+
+    // Поля формы превращаем в requestBody с типами форм из consumes
+    if (Object.keys(formProperties).length > 0 && !operation.requestBody) {
+      const formTypes = consumes.filter(
+        (type) => type === 'application/x-www-form-urlencoded' || type === 'multipart/form-data'
+      );
+      operation.requestBody = {
+        required: formRequired.length > 0,
+        content: this.buildContent(
+          formTypes.length > 0 ? formTypes : ['application/x-www-form-urlencoded'],
+          { type: 'object', properties: formProperties, required: formRequired }
+        ),
+      };
+    }
+    operation.parameters = parameters;
+
+    // Ответы: schema распространяется на все типы из produces
+    const responses: Record<string, any> = {};
+    for (const [status, rawResponse] of Object.entries(rawResponses || {})) {
+      const response = this.deref(rawResponse);
+      const normalized: any = { description: response.description || '' };
+      if (response.schema) {
+        normalized.content = this.buildContent(produces, response.schema, response.examples);
+      }
+      if (response.headers) {
+        normalized.headers = {};
+        for (const [name, header] of Object.entries(response.headers as Record<string, any>)) {
+          normalized.headers[name] = {
+            description: header.description,
+            schema: this.swagger2ParameterSchema(header),
+          };
+        }
+      }
+      responses[status] = normalized;
+    }
+    operation.responses = responses;
+
+    return operation;
+  }
+
+  /**
+   * Строит content (тип → схема) для OpenAPI 3.x
+   * @param mediaTypes - список MIME типов
+   * @param schema - схема содержимого
+   * @param examples - примеры Swagger 2.0 по MIME типам (опционально)
+   * @returns объект content
+   */
+  private buildContent(
+    mediaTypes: string[],
+    schema: any,
+    examples?: Record<string, any>
+  ): Record<string, any> {
+    const content: Record<string, any> = {};
+    for (const mediaType of mediaTypes) {
+      content[mediaType] = { schema };
+      if (examples && examples[mediaType] !== undefined) {
+        content[mediaType].example = examples[mediaType];
+      }
+    }
+    return content;
+  }
+
+  /**
+   * Извлекает схему из параметра или заголовка Swagger 2.0 (type/format/items лежат на самом параметре)
+   * @param param - параметр Swagger 2.0
+   * @returns JSON Schema параметра
+   */
+  private swagger2ParameterSchema(param: any): any {
+    const schemaKeys = [
+      'type',
+      'format',
+      'items',
+      'enum',
+      'default',
+      'minimum',
+      'maximum',
+      'exclusiveMinimum',
+      'exclusiveMaximum',
+      'minLength',
+      'maxLength',
+      'pattern',
+      'minItems',
+      'maxItems',
+      'uniqueItems',
+      'multipleOf',
+    ];
+    const schema: Record<string, any> = {};
+    for (const key of schemaKeys) {
+      if (param[key] !== undefined) {
+        schema[key] = param[key];
+      }
+    }
+    // Тип file из formData соответствует бинарной строке
+    if (schema.type === 'file') {
+      schema.type = 'string';
+      schema.format = 'binary';
+    }
+    return schema;
+  }
+
+  /**
+   * Объединяет параметры уровня пути и операции (параметры операции имеют приоритет)
+   * @param pathParameters - параметры уровня пути
+   * @param operationParameters - параметры операции
+   * @returns объединенный список параметров с разрешенными ссылками
+   */
+  private mergeParameters(pathParameters: any[], operationParameters?: any[]): any[] {
+    const merged = new Map<string, any>();
+    for (const param of [...pathParameters, ...(operationParameters || [])]) {
+      const resolved = this.deref(param);
+      if (resolved && resolved.name) {
+        merged.set(`${resolved.in}:${resolved.name}`, resolved);
+      }
+    }
+    return [...merged.values()];
+  }
+
+  /**
+   * Разрешает внутреннюю ссылку $ref (например, #/parameters/Limit или #/components/responses/NotFound)
+   * @param value - объект, возможно являющийся ссылкой
+   * @returns объект, на который указывает ссылка, или исходный объект
+   */
+  private deref(value: any): any {
+    let current = value;
+    const seen = new Set<string>();
+    while (current && typeof current.$ref === 'string' && current.$ref.startsWith('#')) {
+      if (seen.has(current.$ref)) {
+        return {};
+      }
+      seen.add(current.$ref);
+      current = SpecBundler.getByPointer(this.spec, current.$ref.slice(1)) || {};
+    }
+    return current;
+  }
+
+  /**
+   * Возвращает список серверов спецификации
+   * Для Swagger 2.0 сервер строится из schemes, host и basePath
+   * @returns массив серверов в форме OpenAPI 3.x
+   */
+  getServers(): Array<{ url: string; description?: string; variables?: Record<string, any> }> {
+    if (!this.spec) {
+      throw new Error('Спецификация не загружена');
+    }
+    if (this.getSpecVersion() === '2.0') {
+      const basePath = typeof this.spec.basePath === 'string' ? this.spec.basePath : '';
+      if (!this.spec.host) {
+        return [{ url: basePath || '/' }];
+      }
+      const schemes: string[] = Array.isArray(this.spec.schemes) ? this.spec.schemes : ['http'];
+      return schemes.map((scheme) => ({ url: `${scheme}://${this.spec.host}${basePath}` }));
+    }
+    const servers = Array.isArray(this.spec.servers) ? this.spec.servers : [];
+    return servers.filter((server: any) => server && typeof server.url === 'string');
+  }
+
+  /**
+   * Выбирает сервер и подставляет значения переменных в его URL
+   * @param options - индекс сервера и значения переменных
+   * @returns URL сервера и префикс маршрутов
+   */
+  resolveServer(options: ServerSelection = {}): ResolvedServer {
+    const servers = this.getServers();
+    const index = options.serverIndex ?? 0;
+    // Спецификация без серверов монтируется в корень
+    if (servers.length === 0 && index === 0) {
+      return { url: '/', basePath: '' };
+    }
+    if (!Number.isInteger(index) || index < 0 || index >= servers.length) {
+      throw new Error(
+        `Сервер с индексом ${index} не найден (доступно серверов: ${servers.length})`
+      );
+    }
+
+    const server = servers[index];
+    const variables: Record<string, any> = server.variables || {};
+    const overrides = options.variables || {};
+
+    // Проверяем переопределения переменных
+    for (const [name, value] of Object.entries(overrides)) {
+      const variable = variables[name];
+      if (!variable) {
+        throw new Error(`Неизвестная переменная сервера: ${name}`);
       }
-      // Для OpenAPI 2.0 (Swagger)
-      if (successResponse.schema) {
-        return successResponse.schema;
+      if (Array.isArray(variable.enum) && !variable.enum.includes(value)) {
+        throw new Error(
+          `Недопустимое значение переменной ${name}: ${value} (допустимо: ${variable.enum.join(', ')})`
+        );
       }
     }
-    // Возвращаем первый доступный ответ
-    const firstResponse = Object.values(responses)[0] as any;
-    if (firstResponse?.content) {
-      const jsonContent = firstResponse.content['application/json'];
-      if (jsonContent?.schema) {
-        return jsonContent.schema;
+
+    // Подставляем переопределения или значения по умолчанию
+    const url = server.url.replace(/\{([^}]+)\}/g, (match: string, name: string) => {
+      if (overrides[name] !== undefined) {
+        return overrides[name];
       }
+      const defaultValue = variables[name]?.default;
+      return defaultValue !== undefined ? String(defaultValue) : match;
+    });
+
+    return { url, basePath: this.extractBasePath(url), description: server.description };
+  }
+
+  /**
+   * Извлекает префикс маршрутов из URL сервера (без завершающего слеша)
+   * @param url - абсолютный или относительный URL сервера
+   * @returns префикс пути или пустая строка
+   */
+  private extractBasePath(url: string): string {
+    let pathname = url;
+    // Для абсолютного URL берем только путь
+    const absolute = url.match(/^[a-z][a-z0-9+.-]*:\/\/[^/]*(.*)$/i);
+    if (absolute) {
+      pathname = absolute[1];
+    }
+    // Отбрасываем query и fragment
+    pathname = pathname.split(/[?#]/)[0].trim();
+    if (!pathname || pathname === '/') {
+      return '';
+    }
+    const withLeadingSlash = pathname.startsWith('/') ? pathname : `/${pathname}`;
+    return withLeadingSlash.replace(/\/+$/, '');
+  }
+
+  /**
+   * Собирает все ответы операции: статус код → MIME типы → схема/примеры, заголовки
+   * @param operation - нормализованная операция OpenAPI
+   * @returns ответы по статус кодам
+   */
+  private extractResponses(operation: OpenAPIOperation): Record<string, ParsedResponse> {
+    const responses: Record<string, ParsedResponse> = {};
+    for (const [status, response] of Object.entries(operation.responses || {})) {
+      const content: Record<string, ParsedMediaType> = {};
+      const rawContent: Record<string, any> = response?.content || {};
+      for (const [mediaType, media] of Object.entries(rawContent)) {
+        content[mediaType] = {
+          schema: media?.schema,
+          example: media?.example,
+          examples: this.extractExamples(media?.examples),
+        };
+      }
+      // Заголовки могут быть ссылками на components/headers
+      let headers: Record<string, any> | undefined;
+      if (response?.headers) {
+        headers = {};
+        for (const [name, header] of Object.entries(response.headers as Record<string, any>)) {
+          headers[name] = this.deref(header);
+        }
+      }
+      responses[status] = { description: response?.description, content, headers };
+    }
+    return responses;
+  }
+
+  /**
+   * Собирает параметры операции (path, query, header, cookie) со схемами
+   * @param operation - нормализованная операция OpenAPI
+   * @returns параметры операции
+   */
+  private extractParameters(operation: OpenAPIOperation): ParsedParameter[] {
+    const parameters: ParsedParameter[] = [];
+    for (const param of operation.parameters || []) {
+      if (!param || !['path', 'query', 'header', 'cookie'].includes(param.in)) {
+        continue;
+      }
+      // Схема может быть задана через content (первый MIME тип)
+      const schema =
+        param.schema ?? (Object.values(param.content || {})[0] as ParsedMediaType)?.schema;
+      parameters.push({
+        name: param.name,
+        in: param.in,
+        required: param.in === 'path' ? true : param.required === true,
+        schema,
+        style: param.style,
+        explode: param.explode,
+      });
+    }
+    return parameters;
+  }
+
+  /**
+   * Разрешает именованные примеры MIME типа (могут быть ссылками на components/examples)
+   * @param examples - объект examples (имя → Example Object)
+   * @returns примеры без $ref или undefined, если примеров нет
+   */
+  private extractExamples(examples: any): Record<string, any> | undefined {
+    if (!examples || typeof examples !== 'object') {
+      return undefined;
+    }
+    const resolved: Record<string, any> = {};
+    for (const [name, example] of Object.entries(examples)) {
+      resolved[name] = this.deref(example);
+    }
+    return resolved;
+  }
+
+  /**
+   * Извлекает тело запроса операции со схемами по MIME типам
+   * @param operation - нормализованная операция OpenAPI
+   * @returns тело запроса или undefined, если операция его не описывает
+   */
+  private extractRequestBody(operation: OpenAPIOperation): ParsedRequestBody | undefined {
+    const requestBody = operation.requestBody;
+    if (!requestBody || typeof requestBody !== 'object') {
+      return undefined;
+    }
+    const content: Record<string, ParsedMediaType> = {};
+    for (const [mediaType, media] of Object.entries(requestBody.content || {})) {
+      const mediaObject = media as any;
+      content[mediaType] = {
+        schema: mediaObject?.schema,
+        example: mediaObject?.example,
+        examples: mediaObject?.examples,
+      };
+    }
+    return { required: requestBody.required === true, content };
+  }
+
+  /**
+   * Извлекает требования безопасности операции со схемами из securitySchemes/securityDefinitions
+   * Пустое требование ({}) означает, что допустим анонимный доступ
+   * @param operation - нормализованная операция OpenAPI
+   * @returns альтернативные требования или undefined, если безопасность не описана
+   */
+  private extractSecurity(operation: OpenAPIOperation): ParsedSecurityRequirement[][] | undefined {
+    const requirements = operation.security ?? this.spec.security;
+    if (!Array.isArray(requirements)) {
+      return undefined;
+    }
+    const schemes: Record<string, any> =
+      this.spec.components?.securitySchemes || this.spec.securityDefinitions || {};
+    return requirements.map((requirement) =>
+      Object.entries(requirement || {}).flatMap(([name, scopes]) => {
+        const scheme = this.deref(schemes[name]);
+        // Ссылки на необъявленные схемы пропускаем
+        if (!scheme || typeof scheme.type !== 'string') {
+          return [];
+        }
+        return [
+          {
+            name,
+            scheme: {
+              type: scheme.type === 'basic' ? 'http' : scheme.type,
+              name: scheme.name,
+              in: scheme.in,
+              scheme: scheme.type === 'basic' ? 'basic' : scheme.scheme?.toLowerCase(),
+            },
+            scopes: Array.isArray(scopes) ? scopes : [],
+          },
+        ];
+      })
+    );
+  }
+
+  /**
+   * Извлекает схему успешного ответа
+   * @param responses - ответы операции
+   * @returns схема ответа и ее MIME тип (схема может отсутствовать)
+   */
+  private extractResponseSchema(responses: Record<string, ParsedResponse>): {
+    schema?: any;
+    contentType?: string;
+  } {
+    // Приоритет на 200 статус код, затем первый доступный ответ
+    const response =
+      responses['200'] || responses['201'] || responses['204'] || Object.values(responses)[0];
+    const mediaType = selectMediaType(response?.content);
+    if (!mediaType) {
+      return {};
     }
-    return firstResponse?.schema;
+    return { schema: mediaType.schema, contentType: mediaType.type };
   }
 
   /**
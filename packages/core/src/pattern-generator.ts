@@ -0,0 +1,598 @@
+import { faker } from './locale';
+
+// Узел разобранного регулярного выражения
+type PatternNode =
+  // Символ из набора диапазонов кодов (литерал, класс [...], \d, точка)
+  | { type: 'chars'; ranges: Array<[number, number]> }
+  // Группа с альтернативами: (a|bc)
+  | { type: 'group'; alternatives: PatternNode[][] }
+  // Повторение узла: a{2,4}, b*, c? (max = Infinity для *, + и {n,})
+  | { type: 'repeat'; node: PatternNode; min: number; max: number };
+
+// Границы длины строк, порождаемых узлом
+interface LengthBounds {
+  // Минимальная длина
+  min: number;
+  // Максимальная длина (Infinity для *, + и {n,})
+  max: number;
+  // Обычная максимальная длина: к минимуму *, + и {n,} добавляется UNBOUNDED_EXTRA повторений
+  natural: number;
+}
+
+// Видимые символы ASCII — множество для точки и отрицательных классов ([^...], \D, \W, \S)
+const PRINTABLE: Array<[number, number]> = [[32, 126]];
+// Диапазоны стандартных классов
+const DIGITS: Array<[number, number]> = [[48, 57]];
+const WORD: Array<[number, number]> = [
+  [48, 57],
+  [65, 90],
+  [95, 95],
+  [97, 122],
+];
+const SPACE: Array<[number, number]> = [
+  [32, 32],
+  [9, 10],
+];
+// Сколько повторений добавляется к минимуму для *, + и {n,}
+const UNBOUNDED_EXTRA = 5;
+// Максимальная длина генерируемой строки (шаблоны вида a{100000000} не генерируются)
+const MAX_LENGTH = 10000;
+// Попыток сгенерировать строку, проходящую проверку RegExp и ограничения длины
+const MAX_ATTEMPTS = 20;
+
+// Разобранные шаблоны (null — шаблон использует неподдерживаемые конструкции)
+const parsedPatterns = new Map<string, PatternNode[][] | null>();
+// Границы длины узлов и последовательностей узлов разобранных шаблонов
+const lengthBounds = new WeakMap<PatternNode | PatternNode[], LengthBounds>();
+
+/**
+ * Генерирует строку, соответствующую регулярному выражению pattern из JSON Schema
+ * Поддерживаются классы символов, группы, альтернативы и квантификаторы;
+ * шаблоны с lookahead, lookbehind, обратными ссылками и \p{...} не генерируются.
+ * Длина строки выбирается заранее и распределяется между элементами выражения,
+ * поэтому minLength и maxLength соблюдаются и для шаблонов вида [a-z]+
+ * @param pattern - регулярное выражение (ECMA-262, без флагов)
+ * @param minLength - минимальная длина строки в символах
+ * @param maxLength - максимальная длина строки в символах
+ * @returns строка или undefined, если подходящую строку получить не удалось
+ */
+export function generateFromPattern(
+  pattern: string,
+  minLength = 0,
+  maxLength = Infinity
+): string | undefined {
+  let alternatives = parsedPatterns.get(pattern);
+  let regExp: RegExp;
+  try {
+    regExp = new RegExp(pattern, 'u');
+    if (alternatives === undefined) {
+      alternatives = new PatternParser(pattern).parse();
+      parsedPatterns.set(pattern, alternatives);
+    }
+  } catch {
+    parsedPatterns.set(pattern, null);
+    return undefined;
+  }
+  if (!alternatives) {
+    return undefined;
+  }
+
+  // Диапазон длин: ограничения схемы, возможные длины шаблона и MAX_LENGTH
+  const bounds = groupBounds(alternatives);
+  const lower = Math.max(minLength, bounds.min);
+  const upper = Math.min(
+    maxLength,
+    bounds.max,
+    MAX_LENGTH,
+    Math.max(bounds.natural, lower + UNBOUNDED_EXTRA)
+  );
+  if (lower > upper) {
+    return undefined;
+  }
+
+  for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+    const length = faker.number.int({ min: lower, max: upper });
+    const value = generateGroup(alternatives, length);
+    if (value !== undefined && regExp.test(value)) {
+      return value;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Генерирует строку заданной длины по группе альтернатив
+ * @param alternatives - альтернативы группы
+ * @param length - длина строки в символах
+ * @returns строка или undefined, если альтернативы не порождают строк такой длины
+ */
+function generateGroup(alternatives: PatternNode[][], length: number): string | undefined {
+  const fitting = alternatives.filter((nodes) => {
+    const bounds = sequenceBounds(nodes);
+    return length >= bounds.min && length <= bounds.max;
+  });
+  if (fitting.length === 0) {
+    return undefined;
+  }
+  return generateSequence(faker.helpers.arrayElement(fitting), length);
+}
+
+/**
+ * Генерирует строку заданной длины по последовательности узлов, распределяя длину между ними
+ * @param nodes - узлы последовательности
+ * @param length - длина строки в символах
+ * @returns строка или undefined, если распределить длину не удалось
+ */
+function generateSequence(nodes: PatternNode[], length: number): string | undefined {
+  // Границы длины оставшихся узлов (от текущего до конца)
+  const restMin: number[] = new Array(nodes.length + 1).fill(0);
+  const restMax: number[] = new Array(nodes.length + 1).fill(0);
+  for (let i = nodes.length - 1; i >= 0; i--) {
+    const bounds = nodeBounds(nodes[i]);
+    restMin[i] = restMin[i + 1] + bounds.min;
+    restMax[i] = restMax[i + 1] + bounds.max;
+  }
+
+  let value = '';
+  let remaining = length;
+  for (let i = 0; i < nodes.length; i++) {
+    const bounds = nodeBounds(nodes[i]);
+    const min = Math.max(bounds.min, remaining - restMax[i + 1]);
+    const max = Math.min(bounds.max, remaining - restMin[i + 1]);
+    if (min > max) {
+      return undefined;
+    }
+    const nodeLength = faker.number.int({ min, max });
+    const part = generateNode(nodes[i], nodeLength);
+    if (part === undefined) {
+      return undefined;
+    }
+    value += part;
+    remaining -= nodeLength;
+  }
+  return remaining === 0 ? value : undefined;
+}
+
+/**
+ * Генерирует строку заданной длины по узлу регулярного выражения
+ * @param node - узел
+ * @param length - длина строки в символах
+ * @returns строка или undefined, если узел не порождает строк такой длины
+ */
+function generateNode(node: PatternNode, length: number): string | undefined {
+  switch (node.type) {
+    case 'chars':
+      return length === 1 ? pickChar(node.ranges) : undefined;
+    case 'group':
+      return generateGroup(node.alternatives, length);
+    case 'repeat': {
+      // Число повторений, при котором длина достижима
+      const inner = nodeBounds(node.node);
+      if (inner.max === 0) {
+        return length === 0 ? '' : undefined;
+      }
+      const minCount = Math.max(node.min, Math.ceil(length / inner.max));
+      const maxCount = Math.min(
+        node.max,
+        inner.min === 0 ? Math.max(minCount, length) : Math.floor(length / inner.min)
+      );
+      if (minCount > maxCount || minCount > MAX_LENGTH) {
+        return undefined;
+      }
+      const count = faker.number.int({ min: minCount, max: maxCount });
+      return generateSequence(new Array(count).fill(node.node), length);
+    }
+  }
+}
+
+/**
+ * Вычисляет границы длины строк узла
+ * @param node - узел
+ * @returns границы длины
+ */
+function nodeBounds(node: PatternNode): LengthBounds {
+  let bounds = lengthBounds.get(node);
+  if (bounds) {
+    return bounds;
+  }
+  switch (node.type) {
+    case 'chars':
+      bounds = { min: 1, max: 1, natural: 1 };
+      break;
+    case 'group':
+      bounds = groupBounds(node.alternatives);
+      break;
+    case 'repeat': {
+      const inner = nodeBounds(node.node);
+      const naturalCount = node.max === Infinity ? node.min + UNBOUNDED_EXTRA : node.max;
+      bounds = {
+        min: multiply(node.min, inner.min),
+        max: multiply(node.max, inner.max),
+        natural: multiply(naturalCount, inner.natural),
+      };
+      break;
+    }
+  }
+  lengthBounds.set(node, bounds);
+  return bounds;
+}
+
+/**
+ * Вычисляет границы длины строк группы альтернатив
+ * @param alternatives - альтернативы
+ * @returns границы длины (самая короткая и самая длинная альтернатива)
+ */
+function groupBounds(alternatives: PatternNode[][]): LengthBounds {
+  const bounds = alternatives.map((nodes) => sequenceBounds(nodes));
+  return {
+    min: Math.min(...bounds.map((item) => item.min)),
+    max: Math.max(...bounds.map((item) => item.max)),
+    natural: Math.max(...bounds.map((item) => item.natural)),
+  };
+}
+
+/**
+ * Вычисляет границы длины строк последовательности узлов
+ * @param nodes - узлы
+ * @returns сумма границ узлов
+ */
+function sequenceBounds(nodes: PatternNode[]): LengthBounds {
+  let bounds = lengthBounds.get(nodes);
+  if (!bounds) {
+    bounds = { min: 0, max: 0, natural: 0 };
+    for (const node of nodes) {
+      const item = nodeBounds(node);
+      bounds.min += item.min;
+      bounds.max += item.max;
+      bounds.natural += item.natural;
+    }
+    lengthBounds.set(nodes, bounds);
+  }
+  return bounds;
+}
+
+/**
+ * Умножает число повторений на длину (ноль повторений пустой строки не дает NaN)
+ * @param count - число повторений
+ * @param length - длина одного повторения
+ * @returns произведение
+ */
+function multiply(count: number, length: number): number {
+  return count === 0 || length === 0 ? 0 : count * length;
+}
+
+/**
+ * Выбирает случайный символ из диапазонов (равновероятно среди всех символов)
+ * @param ranges - диапазоны кодов символов
+ * @returns символ
+ */
+function pickChar(ranges: Array<[number, number]>): string {
+  const total = ranges.reduce((sum, [from, to]) => sum + to - from + 1, 0);
+  let index = faker.number.int({ min: 0, max: total - 1 });
+  for (const [from, to] of ranges) {
+    if (index <= to - from) {
+      return String.fromCodePoint(from + index);
+    }
+    index -= to - from + 1;
+  }
+  return String.fromCodePoint(ranges[0][0]);
+}
+
+/**
+ * Вычисляет дополнение набора диапазонов среди видимых символов ASCII
+ * @param ranges - исключаемые диапазоны
+ * @returns диапазоны оставшихся символов
+ */
+function complement(ranges: Array<[number, number]>): Array<[number, number]> {
+  const result: Array<[number, number]> = [];
+  for (const [from, to] of PRINTABLE) {
+    for (let code = from; code <= to; code++) {
+      if (ranges.some(([start, end]) => code >= start && code <= end)) {
+        continue;
+      }
+      const last = result[result.length - 1];
+      if (last && last[1] === code - 1) {
+        last[1] = code;
+      } else {
+        result.push([code, code]);
+      }
+    }
+  }
+  return result;
+}
+
+/**
+ * Разбирает регулярное выражение в дерево узлов для генерации
+ * Неподдерживаемые конструкции приводят к исключению
+ */
+class PatternParser {
+  // Позиция разбора
+  private position = 0;
+
+  /**
+   * @param pattern - регулярное выражение
+   */
+  constructor(private pattern: string) {}
+
+  /**
+   * Разбирает выражение целиком
+   * @returns альтернативы верхнего уровня
+   */
+  parse(): PatternNode[][] {
+    const alternatives = this.parseAlternatives();
+    if (this.position < this.pattern.length) {
+      throw new Error(`Unexpected ")" at ${this.position}`);
+    }
+    return alternatives;
+  }
+
+  /**
+   * Разбирает альтернативы до конца выражения или закрывающей скобки группы
+   * @returns альтернативы
+   */
+  private parseAlternatives(): PatternNode[][] {
+    const alternatives: PatternNode[][] = [[]];
+    while (this.position < this.pattern.length && this.peek() !== ')') {
+      if (this.peek() === '|') {
+        this.position++;
+        alternatives.push([]);
+        continue;
+      }
+      const node = this.parseAtom();
+      const quantified = node ? this.parseQuantifier(node) : undefined;
+      if (quantified) {
+        alternatives[alternatives.length - 1].push(quantified);
+      }
+    }
+    return alternatives;
+  }
+
+  /**
+   * Разбирает одиночный элемент выражения
+   * @returns узел или undefined для якорей (^, $, \b), не порождающих символов
+   */
+  private parseAtom(): PatternNode | undefined {
+    const char = this.next();
+    switch (char) {
+      case '^':
+      case '$':
+        return undefined;
+      case '.':
+        return { type: 'chars', ranges: PRINTABLE };
+      case '(':
+        return this.parseGroup();
+      case '[':
+        return this.parseClass();
+      case '\\':
+        return this.parseEscape(false);
+      case '*':
+      case '+':
+      case '?':
+        throw new Error(`Nothing to repeat at ${this.position - 1}`);
+      default:
+        return this.literal(char);
+    }
+  }
+
+  /**
+   * Разбирает группу (открывающая скобка уже прочитана)
+   * @returns узел группы
+   */
+  private parseGroup(): PatternNode {
+    if (this.peek() === '?') {
+      const kind = this.pattern.slice(this.position, this.position + 3);
+      if (kind.startsWith('?:')) {
+        this.position += 2;
+      } else if (kind.startsWith('?<') && kind !== '?<=' && kind !== '?<!') {
+        const end = this.pattern.indexOf('>', this.position);
+        if (end === -1) {
+          throw new Error('Unterminated group name');
+        }
+        this.position = end + 1;
+      } else {
+        throw new Error(`Unsupported group "(${kind}"`);
+      }
+    }
+    const alternatives = this.parseAlternatives();
+    if (this.next() !== ')') {
+      throw new Error('Unterminated group');
+    }
+    return { type: 'group', alternatives };
+  }
+
+  /**
+   * Разбирает класс символов (открывающая скобка уже прочитана)
+   * @returns узел набора символов
+   */
+  private parseClass(): PatternNode {
+    const negated = this.peek() === '^';
+    if (negated) {
+      this.position++;
+    }
+    const ranges: Array<[number, number]> = [];
+    while (this.peek() !== ']') {
+      if (this.position >= this.pattern.length) {
+        throw new Error('Unterminated character class');
+      }
+      const from = this.parseClassChar();
+      if (Array.isArray(from)) {
+        ranges.push(...from);
+        continue;
+      }
+      if (this.peek() === '-' && this.pattern[this.position + 1] !== ']') {
+        this.position++;
+        const to = this.parseClassChar();
+        if (Array.isArray(to) || to < from) {
+          throw new Error('Invalid character class range');
+        }
+        ranges.push([from, to]);
+      } else {
+        ranges.push([from, from]);
+      }
+    }
+    this.position++;
+
+    const chars = negated ? complement(ranges) : ranges;
+    if (chars.length === 0) {
+      throw new Error('Empty character class');
+    }
+    return { type: 'chars', ranges: chars };
+  }
+
+  /**
+   * Разбирает символ внутри класса
+   * @returns код символа или диапазоны для \d, \w, \s и их отрицаний
+   */
+  private parseClassChar(): number | Array<[number, number]> {
+    const char = this.next();
+    if (char !== '\\') {
+      return char.codePointAt(0) as number;
+    }
+    // \b внутри класса — backspace
+    if (this.peek() === 'b') {
+      this.position++;
+      return 8;
+    }
+    const node = this.parseEscape(true);
+    if (!node || node.type !== 'chars') {
+      throw new Error('Invalid escape in character class');
+    }
+    return node.ranges.length === 1 && node.ranges[0][0] === node.ranges[0][1]
+      ? node.ranges[0][0]
+      : node.ranges;
+  }
+
+  /**
+   * Разбирает экранированную последовательность (обратная косая черта уже прочитана)
+   * @param inClass - последовательность находится внутри класса символов
+   * @returns узел набора символов или undefined для \b и \B
+   */
+  private parseEscape(inClass: boolean): PatternNode | undefined {
+    const char = this.next();
+    switch (char) {
+      case 'd':
+        return { type: 'chars', ranges: DIGITS };
+      case 'D':
+        return { type: 'chars', ranges: complement(DIGITS) };
+      case 'w':
+        return { type: 'chars', ranges: WORD };
+      case 'W':
+        return { type: 'chars', ranges: complement(WORD) };
+      case 's':
+        return { type: 'chars', ranges: SPACE };
+      case 'S':
+        return { type: 'chars', ranges: complement(SPACE) };
+      case 'b':
+      case 'B':
+        return undefined;
+      case 't':
+        return this.literal('\t');
+      case 'n':
+        return this.literal('\n');
+      case 'r':
+        return this.literal('\r');
+      case 'f':
+        return this.literal('\f');
+      case 'v':
+        return this.literal('\v');
+      case '0':
+        return this.literal('\0');
+      case 'x':
+        return this.literal(String.fromCodePoint(this.parseHex(2)));
+      case 'u':
+        if (this.peek() === '{') {
+          const end = this.pattern.indexOf('}', this.position);
+          const code = parseInt(this.pattern.slice(this.position + 1, end), 16);
+          if (end === -1 || Number.isNaN(code)) {
+            throw new Error('Invalid unicode escape');
+          }
+          this.position = end + 1;
+          return this.literal(String.fromCodePoint(code));
+        }
+        return this.literal(String.fromCodePoint(this.parseHex(4)));
+      case '':
+        throw new Error('Pattern ends with "\\"');
+      default:
+        // Обратные ссылки, \k<name>, \p{...} и \cX не поддерживаются
+        if (/[1-9kpPc]/.test(char) && !inClass) {
+          throw new Error(`Unsupported escape "\\${char}"`);
+        }
+        return this.literal(char);
+    }
+  }
+
+  /**
+   * Разбирает квантификатор после элемента
+   * @param node - повторяемый узел
+   * @returns узел с повторением или исходный узел
+   */
+  private parseQuantifier(node: PatternNode): PatternNode {
+    let min: number;
+    let max: number;
+    const char = this.peek();
+    const braces = /^\{(\d+)(,(\d*))?\}/.exec(this.pattern.slice(this.position));
+    if (char === '*' || char === '+' || char === '?') {
+      this.position++;
+      min = char === '+' ? 1 : 0;
+      max = char === '?' ? 1 : Infinity;
+    } else if (braces) {
+      this.position += braces[0].length;
+      min = Number(braces[1]);
+      max = braces[2] === undefined ? min : braces[3] ? Number(braces[3]) : Infinity;
+      if (max < min) {
+        throw new Error('Invalid quantifier range');
+      }
+    } else {
+      return node;
+    }
+    // Ленивый квантификатор генерирует то же самое
+    if (this.peek() === '?') {
+      this.position++;
+    }
+    return { type: 'repeat', node, min, max };
+  }
+
+  /**
+   * Читает шестнадцатеричный код фиксированной длины
+   * @param length - число цифр
+   * @returns код символа
+   */
+  private parseHex(length: number): number {
+    const digits = this.pattern.slice(this.position, this.position + length);
+    if (!new RegExp(`^[0-9a-fA-F]{${length}}$`).test(digits)) {
+      throw new Error('Invalid hex escape');
+    }
+    this.position += length;
+    return parseInt(digits, 16);
+  }
+
+  /**
+   * Создает узел для одного символа
+   * @param char - символ
+   * @returns узел набора из одного символа
+   */
+  private literal(char: string): PatternNode {
+    const code = char.codePointAt(0) as number;
+    return { type: 'chars', ranges: [[code, code]] };
+  }
+
+  /**
+   * Возвращает текущий символ без перехода к следующему
+   */
+  private peek(): string {
+    return this.pattern[this.position] ?? '';
+  }
+
+  /**
+   * Возвращает текущий символ (с учетом суррогатных пар) и переходит к следующему
+   */
+  private next(): string {
+    const code = this.pattern.codePointAt(this.position);
+    if (code === undefined) {
+      return '';
+    }
+    const char = String.fromCodePoint(code);
+    this.position += char.length;
+    return char;
+  }
+}
@@ -0,0 +1,129 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { DataGenerator } from './data-generator';
+import { PropertyNameMatcher, loadPropertyNameMap } from './property-names';
+
+describe('PropertyNameMatcher', () => {
+  const matcher = new PropertyNameMatcher();
+
+  it('распознает имена в camelCase, snake_case, kebab-case и PascalCase', () => {
+    expect(matcher.match('firstName')).toBe('firstname');
+    expect(matcher.match('first_name')).toBe('firstname');
+    expect(matcher.match('first-name')).toBe('firstname');
+    expect(matcher.match('EmailAddress')).toBe('email');
+    expect(matcher.match('IPAddress')).toBe('ip');
+  });
+
+  it('ищет окончания имени, если имя целиком не найдено', () => {
+    expect(matcher.match('billingCity')).toBe('city');
+    expect(matcher.match('createdAt')).toBe('date-past');
+    expect(matcher.match('favouriteColourCode')).toBeUndefined();
+  });
+
+  it('распознает имена на других языках и без диакритики', () => {
+    expect(matcher.match('prénom')).toBe('firstname');
+    expect(matcher.match('Фамилия')).toBe('lastname');
+    expect(matcher.match('fecha_de_nacimiento')).toBe('date-birthdate');
+  });
+
+  it('приводит имя массива к единственному числу для элементов', () => {
+    expect(matcher.match('emails', true)).toBe('email');
+    expect(matcher.match('tags', true)).toBe('tag');
+    expect(matcher.match('tags')).toBe('tags');
+    expect(matcher.match('emails')).toBeUndefined();
+  });
+
+  it('дает приоритет пользовательским сопоставлениям и отключает имена через null', () => {
+    const custom = new PropertyNameMatcher({ sku: 'alpha:8', city: null, Nick_Name: 'username' });
+
+    expect(custom.match('productSku')).toBe('alpha:8');
+    expect(custom.match('nickname')).toBe('username');
+    expect(custom.match('billingCity')).toBeUndefined();
+  });
+});
+
+describe('генерация по имени свойства', () => {
+  const generator = new DataGenerator({}, { sku: 'alpha:8' });
+
+  it('генерирует строки и числа по именам свойств', () => {
+    const value = generator.generateFromSchema({
+      type: 'object',
+      required: ['email', 'age', 'sku', 'emails'],
+      properties: {
+        email: { type: 'string' },
+        age: { type: 'integer' },
+        sku: { type: 'string' },
+        emails: { type: 'array', minItems: 1, items: { type: 'string' } },
+      },
+    });
+
+    expect(value.email).toMatch(/^\S+@\S+\.\S+$/);
+    expect(value.age).toBeGreaterThanOrEqual(18);
+    expect(value.age).toBeLessThanOrEqual(65);
+    expect(value.sku).toMatch(/^[a-zA-Z]{8}$/);
+    expect(value.emails[0]).toMatch(/@/);
+  });
+
+  it('не использует имя, если значение не подходит под ограничения схемы', () => {
+    for (let i = 0; i < 50; i++) {
+      const value = generator.generateFromSchema({
+        type: 'object',
+        required: ['email', 'age', 'id'],
+        properties: {
+          email: { type: 'string', maxLength: 3 },
+          age: { type: 'integer', minimum: 200 },
+          id: { type: 'string', pattern: '^[0-9]{4}$' },
+        },
+      });
+
+      expect(value.email.length).toBeLessThanOrEqual(3);
+      expect(value.age).toBeGreaterThanOrEqual(200);
+      expect(value.id).toMatch(/^[0-9]{4}$/);
+    }
+  });
+});
+
+describe('loadPropertyNameMap', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'property-names-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  /**
+   * Записывает файл сопоставлений во временный каталог
+   * @param content - содержимое файла
+   * @returns путь к файлу
+   */
+  function writeMap(content: string): string {
+    const filePath = path.join(dir, 'names.json');
+    fs.writeFileSync(filePath, content);
+    return filePath;
+  }
+
+  it('загружает сопоставления с отключенными именами', () => {
+    const map = { sku: 'alpha:8', status: null };
+
+    expect(loadPropertyNameMap(writeMap(JSON.stringify(map)))).toEqual(map);
+  });
+
+  it('отклоняет неизвестные шаблоны и файлы не с объектом', () => {
+    expect(() => loadPropertyNameMap(writeMap('{"sku": "no-such-template"}'))).toThrow(
+      'Неизвестный шаблон для свойства sku: "no-such-template"'
+    );
+    expect(() => loadPropertyNameMap(writeMap('["sku"]'))).toThrow(
+      'Файл сопоставлений должен содержать объект { "имя свойства": "шаблон" }'
+    );
+    expect(() => loadPropertyNameMap(writeMap('{sku'))).toThrow(
+      'Ошибка при парсинге файла сопоставлений'
+    );
+    expect(() => loadPropertyNameMap(path.join(dir, 'missing.json'))).toThrow(
+      'Файл сопоставлений имен свойств не найден'
+    );
+  });
+});
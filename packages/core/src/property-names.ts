@@ -0,0 +1,393 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { isValidFilePath } from '@api-mock-generator/shared';
+import { TemplateEngine } from './template-engine';
+
+// Имя свойства → шаблон TemplateEngine без скобок (firstname, int:18:90); null отключает сопоставление
+export type PropertyNameMap = Record<string, string | null>;
+
+// Максимальное количество сопоставлений в файле
+const MAX_MAPPINGS = 1000;
+
+// Встроенные сопоставления: ключи сравниваются после нормализации (регистр, разделители, диакритика)
+const BUILTIN_PROPERTY_NAMES: PropertyNameMap = {
+  // Люди
+  name: 'fullname',
+  fullname: 'fullname',
+  displayname: 'fullname',
+  firstname: 'firstname',
+  givenname: 'firstname',
+  forename: 'firstname',
+  lastname: 'lastname',
+  surname: 'lastname',
+  familyname: 'lastname',
+  middlename: 'middle-name',
+  username: 'username',
+  login: 'username',
+  nickname: 'nickname',
+  nick: 'nickname',
+  email: 'email',
+  mail: 'email',
+  emailaddress: 'email',
+  phone: 'phone',
+  phonenumber: 'phone',
+  mobile: 'phone',
+  tel: 'phone',
+  telephone: 'phone',
+  password: 'password',
+  passwd: 'password',
+  gender: 'gender',
+  sex: 'sex',
+  age: 'age',
+  birthdate: 'date-birthdate',
+  birthday: 'date-birthdate',
+  dateofbirth: 'date-birthdate',
+  dob: 'date-birthdate',
+  bio: 'bio',
+  biography: 'bio',
+  about: 'bio',
+  jobtitle: 'job-title',
+  job: 'job-title',
+  position: 'job-title',
+  role: 'role',
+  permission: 'permission',
+  // Интернет
+  url: 'url',
+  uri: 'url',
+  link: 'url',
+  href: 'url',
+  website: 'url',
+  homepage: 'url',
+  avatar: 'avatar',
+  avatarurl: 'avatar',
+  photo: 'avatar',
+  photourl: 'avatar',
+  picture: 'avatar',
+  profileimage: 'avatar',
+  image: 'image-url',
+  imageurl: 'image-url',
+  thumbnail: 'image-url',
+  thumbnailurl: 'image-url',
+  ip: 'ip',
+  ipaddress: 'ip',
+  ipv6: 'ipv6',
+  domain: 'domain',
+  hostname: 'domain',
+  useragent: 'user-agent',
+  mac: 'mac-address',
+  macaddress: 'mac-address',
+  port: 'port',
+  slug: 'slug',
+  hash: 'hash',
+  checksum: 'sha256-hash',
+  token: 'token',
+  accesstoken: 'access-token',
+  refreshtoken: 'refresh-token',
+  apikey: 'api-key',
+  secret: 'secret-key',
+  secretkey: 'secret-key',
+  mimetype: 'mime-type',
+  contenttype: 'mime-type',
+  extension: 'file-extension',
+  filename: 'slug',
+  fileextension: 'file-extension',
+  // Идентификаторы
+  id: 'uuid',
+  uuid: 'uuid',
+  guid: 'uuid',
+  orderid: 'order-id',
+  ordernumber: 'order-id',
+  invoiceid: 'invoice-id',
+  invoicenumber: 'invoice-id',
+  transactionid: 'transaction-id',
+  paymentid: 'payment-id',
+  refundid: 'refund-id',
+  ticketid: 'ticket-id',
+  bookingid: 'booking-id',
+  reservationid: 'reservation-id',
+  subscriptionid: 'subscription-id',
+  sessionid: 'session-id',
+  // Адрес
+  address: 'address',
+  streetaddress: 'address',
+  street: 'street-name',
+  buildingnumber: 'building-number',
+  city: 'city',
+  town: 'city',
+  state: 'state',
+  region: 'state',
+  province: 'state',
+  country: 'country',
+  countrycode: 'country-code',
+  zip: 'zipcode',
+  zipcode: 'zipcode',
+  postcode: 'zipcode',
+  postalcode: 'zipcode',
+  latitude: 'latitude',
+  lat: 'latitude',
+  longitude: 'longitude',
+  lng: 'longitude',
+  lon: 'longitude',
+  timezone: 'timezone',
+  // Компании и товары
+  company: 'company-name',
+  companyname: 'company-name',
+  organization: 'company-name',
+  organisation: 'company-name',
+  employer: 'company-name',
+  department: 'department',
+  product: 'product-name',
+  productname: 'product-name',
+  material: 'product-material',
+  isbn: 'isbn-13',
+  category: 'category',
+  tag: 'tag',
+  tags: 'tags',
+  // Финансы
+  price: 'price',
+  cost: 'price',
+  amount: 'amount',
+  subtotal: 'amount',
+  balance: 'amount',
+  currency: 'currency-code',
+  currencycode: 'currency-code',
+  iban: 'iban',
+  bic: 'bic',
+  swift: 'bic',
+  creditcard: 'credit-card',
+  cardnumber: 'credit-card',
+  cvv: 'cvv',
+  cvc: 'cvv',
+  accountnumber: 'account-number',
+  promocode: 'promo-code',
+  couponcode: 'coupon-code',
+  // Текст
+  title: 'words:3',
+  subject: 'sentence',
+  headline: 'sentence',
+  summary: 'sentence',
+  description: 'sentence',
+  comment: 'paragraph',
+  content: 'paragraph',
+  body: 'paragraph',
+  text: 'paragraph',
+  message: 'paragraph',
+  note: 'paragraph',
+  notes: 'paragraph',
+  color: 'color',
+  colour: 'color',
+  hexcolor: 'color-hex',
+  // Статусы и оценки
+  status: 'status',
+  priority: 'priority',
+  version: 'semver',
+  rating: 'rating',
+  score: 'score',
+  percent: 'percentage',
+  percentage: 'percentage',
+  // Даты (createdAt, updated_at, publishedAt и т.д. совпадают по окончанию at/date)
+  at: 'date-past',
+  on: 'date-past',
+  date: 'date',
+  datetime: 'date',
+  time: 'date',
+  timestamp: 'date-past',
+  lastlogin: 'date-recent',
+  lastseen: 'date-recent',
+  expiresat: 'date-future',
+  expiry: 'date-future',
+  expirationdate: 'date-future',
+  duedate: 'date-future',
+  deadline: 'date-future',
+  month: 'date-month',
+  weekday: 'date-weekday',
+  dayofweek: 'date-weekday',
+  // Немецкий
+  vorname: 'firstname',
+  nachname: 'lastname',
+  benutzername: 'username',
+  passwort: 'password',
+  telefon: 'phone',
+  strasse: 'street-name',
+  stadt: 'city',
+  ort: 'city',
+  land: 'country',
+  plz: 'zipcode',
+  postleitzahl: 'zipcode',
+  firma: 'company-name',
+  preis: 'price',
+  geburtsdatum: 'date-birthdate',
+  beschreibung: 'sentence',
+  // Французский
+  prenom: 'firstname',
+  nom: 'lastname',
+  courriel: 'email',
+  motdepasse: 'password',
+  adresse: 'address',
+  rue: 'street-name',
+  ville: 'city',
+  pays: 'country',
+  codepostal: 'zipcode',
+  entreprise: 'company-name',
+  societe: 'company-name',
+  prix: 'price',
+  datedenaissance: 'date-birthdate',
+  // Испанский
+  nombre: 'firstname',
+  apellido: 'lastname',
+  apellidos: 'lastname',
+  correo: 'email',
+  contrasena: 'password',
+  telefono: 'phone',
+  direccion: 'address',
+  calle: 'street-name',
+  ciudad: 'city',
+  pais: 'country',
+  codigopostal: 'zipcode',
+  empresa: 'company-name',
+  precio: 'price',
+  fechadenacimiento: 'date-birthdate',
+  // Русский (кириллица и транслит)
+  имя: 'firstname',
+  imya: 'firstname',
+  фамилия: 'lastname',
+  familiya: 'lastname',
+  отчество: 'middle-name',
+  otchestvo: 'middle-name',
+  логин: 'username',
+  пароль: 'password',
+  почта: 'email',
+  телефон: 'phone',
+  адрес: 'address',
+  adres: 'address',
+  улица: 'street-name',
+  город: 'city',
+  gorod: 'city',
+  страна: 'country',
+  strana: 'country',
+  индекс: 'zipcode',
+  компания: 'company-name',
+  цена: 'price',
+  tsena: 'price',
+  стоимость: 'price',
+  описание: 'sentence',
+  датарождения: 'date-birthdate',
+};
+
+/**
+ * Разбивает имя свойства на слова: camelCase, PascalCase, snake_case, kebab-case
+ * Диакритика убирается (prénom → prenom), регистр приводится к нижнему
+ * @param name - имя свойства
+ * @returns слова имени
+ */
+function splitPropertyName(name: string): string[] {
+  return name
+    .normalize('NFD')
+    .replace(/\p{M}+/gu, '')
+    .replace(/([\p{Ll}\p{N}])(\p{Lu})/gu, '$1 $2')
+    .replace(/(\p{Lu})(\p{Lu}\p{Ll})/gu, '$1 $2')
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean);
+}
+
+/**
+ * Сопоставляет имена свойств схем с шаблонами TemplateEngine
+ * Сначала ищется имя целиком, затем его окончания (billingCity → city, createdAt → at)
+ */
+export class PropertyNameMatcher {
+  // Нормализованное имя → шаблон (null — сопоставление отключено)
+  private mappings: Map<string, string | null> = new Map();
+
+  /**
+   * Конструктор сопоставления
+   * @param overrides - пользовательские сопоставления (имеют приоритет над встроенными)
+   */
+  constructor(overrides: PropertyNameMap = {}) {
+    for (const map of [BUILTIN_PROPERTY_NAMES, overrides]) {
+      for (const [name, template] of Object.entries(map)) {
+        this.mappings.set(splitPropertyName(name).join(''), template);
+      }
+    }
+  }
+
+  /**
+   * Находит шаблон для имени свойства
+   * @param name - имя свойства
+   * @param item - значение является элементом массива (emails → email)
+   * @returns шаблон или undefined, если имя не распознано
+   */
+  match(name: string, item = false): string | undefined {
+    const words = splitPropertyName(name);
+    const last = words[words.length - 1];
+    // Для элементов массива сначала пробуем единственное число
+    if (item && last && last.length > 3 && last.endsWith('s')) {
+      const singular = this.matchWords([...words.slice(0, -1), last.slice(0, -1)]);
+      if (singular !== undefined) {
+        return singular ?? undefined;
+      }
+    }
+    return this.matchWords(words) ?? undefined;
+  }
+
+  /**
+   * Ищет шаблон для имени целиком и для его окончаний
+   * @param words - слова имени
+   * @returns шаблон, null если сопоставление отключено, undefined если не найдено
+   */
+  private matchWords(words: string[]): string | null | undefined {
+    for (let i = 0; i < words.length; i++) {
+      const key = words.slice(i).join('');
+      if (this.mappings.has(key)) {
+        return this.mappings.get(key);
+      }
+    }
+    return undefined;
+  }
+}
+
+/**
+ * Загружает пользовательские сопоставления имен свойств из JSON файла
+ * Формат: { "sku": "alpha:8", "nickname": "username", "status": null }
+ * @param filePath - путь к файлу
+ * @returns сопоставления имен свойств
+ */
+export function loadPropertyNameMap(filePath: string): PropertyNameMap {
+  if (!isValidFilePath(filePath)) {
+    throw new Error('Недопустимый путь к файлу сопоставлений имен свойств');
+  }
+  const resolvedPath = path.resolve(filePath);
+  if (!fs.existsSync(resolvedPath) || !fs.statSync(resolvedPath).isFile()) {
+    throw new Error(`Файл сопоставлений имен свойств не найден: ${filePath}`);
+  }
+  // Ограничиваем размер файла (максимум 1MB)
+  if (fs.statSync(resolvedPath).size > 1024 * 1024) {
+    throw new Error('Файл сопоставлений имен свойств слишком большой');
+  }
+
+  let content: any;
+  try {
+    content = JSON.parse(fs.readFileSync(resolvedPath, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Ошибка при парсинге файла сопоставлений: ${(error as Error).message}`);
+  }
+  if (typeof content !== 'object' || content === null || Array.isArray(content)) {
+    throw new Error('Файл сопоставлений должен содержать объект { "имя свойства": "шаблон" }');
+  }
+  const entries = Object.entries(content);
+  if (entries.length > MAX_MAPPINGS) {
+    throw new Error(`Слишком много сопоставлений (максимум ${MAX_MAPPINGS})`);
+  }
+
+  // Шаблоны проверяются генерацией пробного значения
+  const templateEngine = new TemplateEngine();
+  for (const [name, template] of entries) {
+    if (template === null) {
+      continue;
+    }
+    if (typeof template !== 'string' || templateEngine.generate(template) === undefined) {
+      throw new Error(`Неизвестный шаблон для свойства ${name}: ${JSON.stringify(template)}`);
+    }
+  }
+  return content;
+}
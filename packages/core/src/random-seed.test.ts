@@ -0,0 +1,73 @@
+import { DataGenerator } from './data-generator';
+import { faker } from './locale';
+import { deriveSeed, isSeeded, withSeed } from './random-seed';
+
+// Схема с разными генераторами: faker, форматы и случайные числа
+const schema = {
+  type: 'object',
+  required: ['id', 'uuid', 'name', 'createdAt', 'score'],
+  properties: {
+    id: { type: 'integer', minimum: 1 },
+    uuid: { type: 'string', format: 'uuid' },
+    name: { type: 'string' },
+    createdAt: { type: 'string', format: 'date-time' },
+    score: { type: 'number', minimum: 0, maximum: 1 },
+  },
+};
+
+describe('withSeed', () => {
+  const generator = new DataGenerator({});
+
+  it('генерирует одинаковые данные для одного seed', () => {
+    const first = withSeed(42, () => generator.generateFromSchema(schema));
+    const second = withSeed(42, () => generator.generateFromSchema(schema));
+
+    expect(second).toEqual(first);
+    expect(withSeed(43, () => generator.generateFromSchema(schema))).not.toEqual(first);
+  });
+
+  it('не зависит от текущего времени при генерации дат', () => {
+    const first = withSeed(7, () => generator.generateFromSchema(schema));
+    jest.useFakeTimers({ now: new Date('2030-06-01T00:00:00Z') });
+    try {
+      expect(withSeed(7, () => generator.generateFromSchema(schema)).createdAt).toBe(
+        first.createdAt
+      );
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('возвращает faker случайный seed после генерации', () => {
+    const sequence = withSeed(1, () => [faker.string.uuid(), faker.string.uuid()]);
+    withSeed(1, () => faker.string.uuid());
+
+    // Без сброса seed следующее значение совпало бы со вторым значением последовательности
+    expect(faker.string.uuid()).not.toBe(sequence[1]);
+  });
+
+  it('отмечает генерацию с seed, в том числе во вложенных вызовах', () => {
+    expect(isSeeded()).toBe(false);
+    withSeed(1, () => {
+      withSeed(2, () => expect(isSeeded()).toBe(true));
+      expect(isSeeded()).toBe(true);
+    });
+    expect(withSeed(undefined, isSeeded)).toBe(false);
+    expect(isSeeded()).toBe(false);
+  });
+});
+
+describe('deriveSeed', () => {
+  it('вычисляет стабильный 32-битный seed из значений', () => {
+    const seed = deriveSeed(42, 'GET:/users/:id', '{"id":"1"}');
+
+    expect(seed).toBe(deriveSeed(42, 'GET:/users/:id', '{"id":"1"}'));
+    expect(seed).toBeGreaterThanOrEqual(0);
+    expect(seed).toBeLessThanOrEqual(0xffffffff);
+    expect(deriveSeed(42, 'GET:/users/:id', '{"id":"2"}')).not.toBe(seed);
+  });
+
+  it('различает границы между значениями', () => {
+    expect(deriveSeed('ab', 'c')).not.toBe(deriveSeed('a', 'bc'));
+  });
+});
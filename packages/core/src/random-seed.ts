@@ -0,0 +1,53 @@
+import { faker } from './locale';
+
+// Опорная дата faker.date.* при фиксированном seed (иначе даты зависят от текущего времени)
+const SEEDED_REF_DATE = '2024-01-01T00:00:00.000Z';
+// Идет генерация с фиксированным seed
+let seeded = false;
+
+/**
+ * Выполняет генерацию данных с фиксированным seed faker
+ * faker общий для процесса, поэтому генерация должна быть синхронной;
+ * после нее faker снова получает случайный seed
+ * @param seed - seed генерации (undefined — генерация без seed)
+ * @param generate - синхронная генерация данных
+ * @returns результат генерации
+ */
+export function withSeed<T>(seed: number | undefined, generate: () => T): T {
+  if (seed === undefined) {
+    return generate();
+  }
+  const parentSeeded = seeded;
+  seeded = true;
+  faker.seed(seed);
+  faker.setDefaultRefDate(SEEDED_REF_DATE);
+  try {
+    return generate();
+  } finally {
+    seeded = parentSeeded;
+    faker.seed();
+    faker.setDefaultRefDate();
+  }
+}
+
+/**
+ * Проверяет, идет ли генерация с фиксированным seed
+ * @returns true внутри withSeed с заданным seed
+ */
+export function isSeeded(): boolean {
+  return seeded;
+}
+
+/**
+ * Вычисляет seed из набора значений (хеш FNV-1a, 32 бита)
+ * @param parts - значения (seed, метод, путь, параметры и т.д.)
+ * @returns seed в диапазоне 0-4294967295
+ */
+export function deriveSeed(...parts: Array<string | number>): number {
+  let hash = 0x811c9dc5;
+  for (const char of parts.join('\u0000')) {
+    hash ^= char.codePointAt(0) as number;
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
@@ -0,0 +1,67 @@
+import { ParsedResponse } from '@api-mock-generator/shared';
+import { selectExample, selectMediaType, selectResponse } from './response-selector';
+
+// Ответы операции: точный код, диапазон в нижнем регистре и default
+const responses: Record<string, ParsedResponse> = {
+  '201': { description: 'created', content: {} },
+  '404': { description: 'not found', content: {} },
+  '4xx': { description: 'client error', content: {} },
+  default: { description: 'unexpected', content: {} },
+};
+
+describe('selectResponse', () => {
+  it('выбирает точный код, затем диапазон, затем default', () => {
+    expect(selectResponse(responses, 201)?.description).toBe('created');
+    expect(selectResponse(responses, 404)?.description).toBe('not found');
+    expect(selectResponse(responses, 422)?.description).toBe('client error');
+    expect(selectResponse(responses, 500)?.description).toBe('unexpected');
+  });
+
+  it('не подставляет другой успешный ответ для необъявленного кода', () => {
+    expect(selectResponse({ '201': responses['201'] }, 200)).toBeUndefined();
+    expect(selectResponse(undefined, 200)).toBeUndefined();
+  });
+});
+
+describe('selectMediaType', () => {
+  it('предпочитает application/json, затем JSON-совместимый тип, затем первый', () => {
+    const schema = { type: 'string' };
+
+    expect(selectMediaType({ 'application/xml': {}, 'application/json': { schema } })).toEqual({
+      type: 'application/json',
+      schema,
+    });
+    expect(selectMediaType({ 'text/plain': {}, 'application/problem+json': {} })?.type).toBe(
+      'application/problem+json'
+    );
+    expect(selectMediaType({ 'text/csv': {}, 'text/plain': {} })?.type).toBe('text/csv');
+  });
+
+  it('возвращает undefined для ответа без содержимого', () => {
+    expect(selectMediaType(undefined)).toBeUndefined();
+    expect(selectMediaType({})).toBeUndefined();
+  });
+});
+
+describe('selectExample', () => {
+  const media = {
+    example: { id: 1 },
+    examples: {
+      external: { externalValue: 'https://example.com/user.json' },
+      second: { value: { id: 2 } },
+    },
+  };
+
+  it('без имени берет example, затем первый пример со значением', () => {
+    expect(selectExample(media)).toEqual({ id: 1 });
+    expect(selectExample({ examples: media.examples })).toEqual({ id: 2 });
+    expect(selectExample({})).toBeUndefined();
+    expect(selectExample(undefined)).toBeUndefined();
+  });
+
+  it('выбирает именованный пример и не находит унаследованные свойства', () => {
+    expect(selectExample(media, 'second')).toEqual({ id: 2 });
+    expect(selectExample(media, 'missing')).toBeUndefined();
+    expect(selectExample(media, 'toString')).toBeUndefined();
+  });
+});
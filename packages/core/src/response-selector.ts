@@ -0,0 +1,78 @@
+import { ParsedMediaType, ParsedResponse } from '@api-mock-generator/shared';
+
+/**
+ * Выбирает объявленный ответ для статус кода
+ * Порядок поиска: точный код, диапазон (4XX), default
+ * @param responses - ответы операции
+ * @param statusCode - статус код ответа
+ * @returns ответ или undefined, если подходящего нет
+ */
+export function selectResponse(
+  responses: Record<string, ParsedResponse> | undefined,
+  statusCode: number
+): ParsedResponse | undefined {
+  if (!responses) {
+    return undefined;
+  }
+  // Точное совпадение
+  const exact = responses[String(statusCode)];
+  if (exact) {
+    return exact;
+  }
+  // Диапазон вида 4XX (регистр не важен)
+  const range = `${Math.floor(statusCode / 100)}XX`;
+  for (const [key, response] of Object.entries(responses)) {
+    if (key.toUpperCase() === range) {
+      return response;
+    }
+  }
+  // Ответ по умолчанию
+  return responses['default'];
+}
+
+/**
+ * Выбирает MIME тип содержимого ответа
+ * Приоритет на application/json, затем любой JSON-совместимый тип, затем первый доступный
+ * @param content - содержимое ответа по MIME типам
+ * @returns MIME тип и его описание или undefined
+ */
+export function selectMediaType(
+  content: Record<string, ParsedMediaType> | undefined
+): (ParsedMediaType & { type: string }) | undefined {
+  if (!content) {
+    return undefined;
+  }
+  const types = Object.keys(content);
+  const type =
+    types.find((t) => t === 'application/json') ||
+    types.find((t) => /\bjson\b/i.test(t)) ||
+    types[0];
+  if (!type) {
+    return undefined;
+  }
+  return { ...content[type], type };
+}
+
+/**
+ * Выбирает пример ответа из описания MIME типа
+ * Без имени берется example, затем первый именованный пример со значением value
+ * @param media - описание MIME типа (example и examples)
+ * @param name - имя примера из examples (опционально)
+ * @returns значение примера или undefined, если подходящего нет
+ */
+export function selectExample(
+  media: Pick<ParsedMediaType, 'example' | 'examples'> | undefined,
+  name?: string
+): any {
+  if (!media) {
+    return undefined;
+  }
+  const examples = media.examples || {};
+  if (name !== undefined) {
+    return Object.prototype.hasOwnProperty.call(examples, name) ? examples[name]?.value : undefined;
+  }
+  if (media.example !== undefined) {
+    return media.example;
+  }
+  return Object.values(examples).find((example) => example?.value !== undefined)?.value;
+}
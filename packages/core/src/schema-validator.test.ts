@@ -0,0 +1,114 @@
+import { SchemaValidator } from './schema-validator';
+
+// Спецификация с полиморфными питомцами: Cat и Dog совпадают по структуре
+const spec = {
+  components: {
+    schemas: {
+      Pet: {
+        oneOf: [{ $ref: '#/components/schemas/Cat' }, { $ref: '#/components/schemas/Dog' }],
+        discriminator: {
+          propertyName: 'petType',
+          mapping: { dog: '#/components/schemas/Dog' },
+        },
+      },
+      Cat: {
+        type: 'object',
+        required: ['petType', 'name'],
+        properties: { petType: { type: 'string' }, name: { type: 'string' } },
+      },
+      Dog: {
+        type: 'object',
+        required: ['petType', 'name'],
+        properties: { petType: { type: 'string' }, name: { type: 'string', minLength: 3 } },
+      },
+      Account: {
+        type: 'object',
+        required: ['login', 'password'],
+        properties: {
+          id: { type: 'integer', readOnly: true },
+          login: { type: 'string' },
+          password: { type: 'string', writeOnly: true },
+        },
+      },
+    },
+  },
+};
+
+describe('SchemaValidator', () => {
+  const validator = new SchemaValidator(spec);
+
+  describe('oneOf с дискриминатором', () => {
+    const pet = { $ref: '#/components/schemas/Pet' };
+
+    it('проверяет только вариант, выбранный по имени схемы или mapping', () => {
+      expect(validator.validate({ petType: 'Cat', name: 'Tom' }, pet)).toEqual([]);
+      expect(validator.validate({ petType: 'dog', name: 'Rex' }, pet)).toEqual([]);
+    });
+
+    it('сообщает нарушения выбранного варианта', () => {
+      expect(validator.validate({ petType: 'dog', name: 'Ax' }, pet)).toEqual([
+        expect.objectContaining({ path: '/name', keyword: 'minLength' }),
+      ]);
+    });
+
+    it('без известного значения дискриминатора требует ровно один вариант', () => {
+      expect(validator.validate({ petType: 'Bird', name: 'Kesha' }, pet)).toEqual([
+        {
+          path: '',
+          keyword: 'oneOf',
+          message: 'must match exactly one schema in oneOf (matched 2)',
+        },
+      ]);
+    });
+  });
+
+  it('проверяет anyOf, oneOf и not без дискриминатора', () => {
+    const schema = {
+      anyOf: [{ type: 'string' }, { type: 'integer' }],
+      oneOf: [{ minimum: 0 }, { maximum: 10 }],
+      not: { const: 100 },
+    };
+
+    expect(validator.validate(50, schema)).toEqual([]);
+    expect(validator.validate(5, schema).map((violation) => violation.keyword)).toEqual(['oneOf']);
+    // Ограничения чисел не относятся к boolean, поэтому совпадают оба варианта oneOf
+    expect(validator.validate(true, schema).map((violation) => violation.keyword)).toEqual([
+      'anyOf',
+      'oneOf',
+    ]);
+    expect(validator.validate(100, schema).map((violation) => violation.keyword)).toEqual(['not']);
+  });
+
+  it('игнорирует readOnly свойства в запросах и writeOnly в ответах', () => {
+    const account = { $ref: '#/components/schemas/Account' };
+
+    expect(validator.validate({ login: 'ann', password: 'secret' }, account, 'request')).toEqual(
+      []
+    );
+    expect(validator.validate({ id: 1, login: 'ann' }, account, 'response')).toEqual([]);
+    expect(validator.validate({ id: 1, login: 'ann' }, account, 'request')).toEqual([
+      expect.objectContaining({ path: '', keyword: 'required' }),
+    ]);
+  });
+
+  it('принимает null для nullable схем и массивы типов OpenAPI 3.1', () => {
+    expect(validator.validate(null, { type: 'string', nullable: true })).toEqual([]);
+    expect(validator.validate(null, { type: ['string', 'null'] })).toEqual([]);
+    expect(validator.validate(1, { type: ['string', 'null'] })).toEqual([
+      { path: '', keyword: 'type', message: 'must be string or null' },
+    ]);
+  });
+
+  it('указывает JSON Pointer до вложенного нарушения', () => {
+    const schema = {
+      type: 'object',
+      properties: {
+        tags: { type: 'array', items: { type: 'string', format: 'email' } },
+      },
+    };
+
+    expect(validator.validate({ tags: ['a@example.com', 'oops'] }, schema)).toEqual([
+      expect.objectContaining({ path: '/tags/1', keyword: 'format' }),
+    ]);
+  });
+});
@@ -0,0 +1,677 @@
+import * as net from 'net';
+import { SchemaViolation } from '@api-mock-generator/shared';
+import { SpecBundler } from './spec-bundler';
+
+/**
+ * Направление данных: в запросах игнорируются readOnly свойства, в ответах — writeOnly
+ */
+export type ValidationDirection = 'request' | 'response';
+
+/**
+ * Валидатор данных по JSON Schema (OpenAPI 3.0 и 3.1 / JSON Schema 2020-12)
+ * Разрешает $ref по той же спецификации, что и DataGenerator
+ */
+export class SchemaValidator {
+  // Максимальная глубина рекурсии (защита от бесконечных цепочек $ref)
+  private static readonly MAX_DEPTH = 200;
+
+  // Полная спецификация OpenAPI для разрешения $ref ссылок
+  private spec: any;
+  // Стек областей $defs для разрешения локальных ссылок
+  private defsScopes: any[] = [];
+
+  /**
+   * Конструктор валидатора
+   * @param spec - полная спецификация OpenAPI (опционально, для разрешения $ref)
+   */
+  constructor(spec?: any) {
+    this.spec = spec;
+  }
+
+  /**
+   * Проверяет значение по схеме
+   * @param value - проверяемое значение
+   * @param schema - JSON Schema
+   * @param direction - направление данных (по умолчанию response)
+   * @returns список нарушений (пустой, если значение валидно)
+   */
+  validate(
+    value: any,
+    schema: any,
+    direction: ValidationDirection = 'response'
+  ): SchemaViolation[] {
+    const violations: SchemaViolation[] = [];
+    this.defsScopes = [];
+    this.validateNode(value, schema, '', direction, violations, 0);
+    return violations;
+  }
+
+  /**
+   * Разрешает $ref на верхнем уровне схемы (например, для определения типа параметра)
+   * @param schema - схема, возможно являющаяся ссылкой
+   * @returns разрешенная схема
+   */
+  resolveSchema(schema: any): any {
+    let current = schema;
+    for (let i = 0; i < SchemaValidator.MAX_DEPTH && current && current.$ref; i++) {
+      const resolved = this.resolveRef(current.$ref);
+      if (!resolved) {
+        return {};
+      }
+      current = resolved;
+    }
+    return current || {};
+  }
+
+  /**
+   * Рекурсивно проверяет узел данных
+   * @param value - проверяемое значение
+   * @param schema - схема
+   * @param path - JSON Pointer значения
+   * @param direction - направление данных
+   * @param violations - накопитель нарушений
+   * @param depth - текущая глубина рекурсии
+   */
+  private validateNode(
+    value: any,
+    schema: any,
+    path: string,
+    direction: ValidationDirection,
+    violations: SchemaViolation[],
+    depth: number
+  ): void {
+    // Схема true или отсутствующая схема разрешает любое значение
+    if (schema === undefined || schema === null || schema === true) {
+      return;
+    }
+    if (schema === false) {
+      violations.push({ path, keyword: 'false', message: 'no value is allowed here' });
+      return;
+    }
+    if (typeof schema !== 'object' || depth > SchemaValidator.MAX_DEPTH) {
+      return;
+    }
+
+    // Область $defs для локальных ссылок
+    const hasDefs = schema.$defs && typeof schema.$defs === 'object';
+    if (hasDefs) {
+      this.defsScopes.push(schema.$defs);
+    }
+    try {
+      this.validateKeywords(value, schema, path, direction, violations, depth);
+    } finally {
+      if (hasDefs) {
+        this.defsScopes.pop();
+      }
+    }
+  }
+
+  /**
+   * Проверяет ключевые слова схемы
+   * @param value - проверяемое значение
+   * @param schema - схема
+   * @param path - JSON Pointer значения
+   * @param direction - направление данных
+   * @param violations - накопитель нарушений
+   * @param depth - текущая глубина рекурсии
+   */
+  private validateKeywords(
+    value: any,
+    schema: any,
+    path: string,
+    direction: ValidationDirection,
+    violations: SchemaViolation[],
+    depth: number
+  ): void {
+    // Ссылка: проверяем по разрешенной схеме
+    if (schema.$ref) {
+      const resolved = this.resolveRef(schema.$ref);
+      if (resolved) {
+        this.validateNode(value, resolved, path, direction, violations, depth + 1);
+      }
+      // В OpenAPI 3.0 соседние с $ref ключи игнорируются
+      return;
+    }
+
+    // null допустим для nullable схем OpenAPI 3.0
+    if (value === null && schema.nullable === true) {
+      return;
+    }
+
+    // Композиция схем
+    if (Array.isArray(schema.allOf)) {
+      for (const subSchema of schema.allOf) {
+        this.validateNode(value, subSchema, path, direction, violations, depth + 1);
+      }
+    }
+    // Вариант, выбранный дискриминатором, проверяется без подсчета совпавших вариантов
+    // (Cat и Dog с одинаковой структурой подходят под оба варианта); дискриминатор схемы
+    // с oneOf и anyOf относится к oneOf
+    if (Array.isArray(schema.anyOf) && schema.anyOf.length > 0) {
+      const selected = Array.isArray(schema.oneOf)
+        ? undefined
+        : this.selectDiscriminatedBranch(value, schema.discriminator, schema.anyOf);
+      if (selected !== undefined) {
+        this.validateNode(value, selected, path, direction, violations, depth + 1);
+      } else if (
+        !schema.anyOf.some((subSchema: any) =>
+          this.isValid(value, subSchema, path, direction, depth)
+        )
+      ) {
+        violations.push({
+          path,
+          keyword: 'anyOf',
+          message: 'must match at least one schema in anyOf',
+        });
+      }
+    }
+    if (Array.isArray(schema.oneOf) && schema.oneOf.length > 0) {
+      const selected = this.selectDiscriminatedBranch(value, schema.discriminator, schema.oneOf);
+      if (selected !== undefined) {
+        this.validateNode(value, selected, path, direction, violations, depth + 1);
+      } else {
+        const matchCount = schema.oneOf.filter((subSchema: any) =>
+          this.isValid(value, subSchema, path, direction, depth)
+        ).length;
+        if (matchCount !== 1) {
+          violations.push({
+            path,
+            keyword: 'oneOf',
+            message: `must match exactly one schema in oneOf (matched ${matchCount})`,
+          });
+        }
+      }
+    }
+    if (schema.not !== undefined && this.isValid(value, schema.not, path, direction, depth)) {
+      violations.push({ path, keyword: 'not', message: 'must not match the schema in not' });
+    }
+
+    // Константа и перечисление
+    if (schema.const !== undefined && !this.deepEqual(value, schema.const)) {
+      violations.push({
+        path,
+        keyword: 'const',
+        message: `must be equal to ${JSON.stringify(schema.const)}`,
+      });
+    }
+    if (
+      Array.isArray(schema.enum) &&
+      !schema.enum.some((item: any) => this.deepEqual(item, value))
+    ) {
+      violations.push({
+        path,
+        keyword: 'enum',
+        message: `must be one of ${JSON.stringify(schema.enum)}`,
+      });
+    }
+
+    // Тип (строка или массив типов в OpenAPI 3.1)
+    if (schema.type !== undefined) {
+      const types: string[] = Array.isArray(schema.type) ? schema.type : [schema.type];
+      if (!types.some((type) => this.matchesType(value, type))) {
+        violations.push({ path, keyword: 'type', message: `must be ${types.join(' or ')}` });
+        return;
+      }
+    }
+
+    if (typeof value === 'string') {
+      this.validateString(value, schema, path, violations);
+    } else if (typeof value === 'number') {
+      this.validateNumber(value, schema, path, violations);
+    } else if (Array.isArray(value)) {
+      this.validateArray(value, schema, path, direction, violations, depth);
+    } else if (value !== null && typeof value === 'object') {
+      this.validateObject(value, schema, path, direction, violations, depth);
+    }
+  }
+
+  /**
+   * Проверяет, соответствует ли значение схеме (без накопления нарушений)
+   */
+  private isValid(
+    value: any,
+    schema: any,
+    path: string,
+    direction: ValidationDirection,
+    depth: number
+  ): boolean {
+    const nested: SchemaViolation[] = [];
+    this.validateNode(value, schema, path, direction, nested, depth + 1);
+    return nested.length === 0;
+  }
+
+  /**
+   * Выбирает вариант oneOf/anyOf по значению дискриминатора
+   * Значение ищется в mapping (ссылка или имя схемы), иначе сравнивается с именем схемы из $ref
+   * @param value - проверяемое значение
+   * @param discriminator - дискриминатор схемы (может отсутствовать)
+   * @param branches - варианты oneOf/anyOf
+   * @returns схема варианта или undefined, если вариант не выбран
+   */
+  private selectDiscriminatedBranch(value: any, discriminator: any, branches: any[]): any {
+    if (
+      typeof discriminator?.propertyName !== 'string' ||
+      value === null ||
+      typeof value !== 'object' ||
+      Array.isArray(value)
+    ) {
+      return undefined;
+    }
+    const tag = value[discriminator.propertyName];
+    if (typeof tag !== 'string') {
+      return undefined;
+    }
+    const mapping = discriminator.mapping || {};
+    const target: string = Object.prototype.hasOwnProperty.call(mapping, tag) ? mapping[tag] : tag;
+    return branches.find(
+      (branch) =>
+        typeof branch?.$ref === 'string' &&
+        (branch.$ref === target || branch.$ref.split('/').pop() === target)
+    );
+  }
+
+  /**
+   * Проверяет ограничения строки
+   */
+  private validateString(
+    value: string,
+    schema: any,
+    path: string,
+    violations: SchemaViolation[]
+  ): void {
+    // Длина считается в символах Unicode, а не в UTF-16 единицах
+    const length = [...value].length;
+    if (schema.minLength !== undefined && length < schema.minLength) {
+      violations.push({
+        path,
+        keyword: 'minLength',
+        message: `must NOT have fewer than ${schema.minLength} characters`,
+      });
+    }
+    if (schema.maxLength !== undefined && length > schema.maxLength) {
+      violations.push({
+        path,
+        keyword: 'maxLength',
+        message: `must NOT have more than ${schema.maxLength} characters`,
+      });
+    }
+    if (typeof schema.pattern === 'string') {
+      try {
+        if (!new RegExp(schema.pattern, 'u').test(value)) {
+          violations.push({
+            path,
+            keyword: 'pattern',
+            message: `must match pattern "${schema.pattern}"`,
+          });
+        }
+      } catch {
+        // Некорректный pattern в спецификации не считаем ошибкой данных
+      }
+    }
+    if (typeof schema.format === 'string' && !this.matchesFormat(value, schema.format)) {
+      violations.push({ path, keyword: 'format', message: `must match format "${schema.format}"` });
+    }
+  }
+
+  /**
+   * Проверяет ограничения числа
+   */
+  private validateNumber(
+    value: number,
+    schema: any,
+    path: string,
+    violations: SchemaViolation[]
+  ): void {
+    // exclusiveMinimum/exclusiveMaximum: boolean в OpenAPI 3.0, число в OpenAPI 3.1
+    if (schema.minimum !== undefined) {
+      const exclusive = schema.exclusiveMinimum === true;
+      if (exclusive ? value <= schema.minimum : value < schema.minimum) {
+        violations.push({
+          path,
+          keyword: 'minimum',
+          message: `must be ${exclusive ? '>' : '>='} ${schema.minimum}`,
+        });
+      }
+    }
+    if (schema.maximum !== undefined) {
+      const exclusive = schema.exclusiveMaximum === true;
+      if (exclusive ? value >= schema.maximum : value > schema.maximum) {
+        violations.push({
+          path,
+          keyword: 'maximum',
+          message: `must be ${exclusive ? '<' : '<='} ${schema.maximum}`,
+        });
+      }
+    }
+    if (typeof schema.exclusiveMinimum === 'number' && value <= schema.exclusiveMinimum) {
+      violations.push({
+        path,
+        keyword: 'exclusiveMinimum',
+        message: `must be > ${schema.exclusiveMinimum}`,
+      });
+    }
+    if (typeof schema.exclusiveMaximum === 'number' && value >= schema.exclusiveMaximum) {
+      violations.push({
+        path,
+        keyword: 'exclusiveMaximum',
+        message: `must be < ${schema.exclusiveMaximum}`,
+      });
+    }
+    if (typeof schema.multipleOf === 'number' && schema.multipleOf > 0) {
+      const quotient = value / schema.multipleOf;
+      // Допускаем погрешность вычислений с плавающей точкой
+      if (Math.abs(quotient - Math.round(quotient)) > 1e-9) {
+        violations.push({
+          path,
+          keyword: 'multipleOf',
+          message: `must be multiple of ${schema.multipleOf}`,
+        });
+      }
+    }
+  }
+
+  /**
+   * Проверяет ограничения массива
+   */
+  private validateArray(
+    value: any[],
+    schema: any,
+    path: string,
+    direction: ValidationDirection,
+    violations: SchemaViolation[],
+    depth: number
+  ): void {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      violations.push({
+        path,
+        keyword: 'minItems',
+        message: `must NOT have fewer than ${schema.minItems} items`,
+      });
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      violations.push({
+        path,
+        keyword: 'maxItems',
+        message: `must NOT have more than ${schema.maxItems} items`,
+      });
+    }
+    if (schema.uniqueItems === true) {
+      const seen = new Set<string>();
+      for (const item of value) {
+        const key = this.stableStringify(item);
+        if (seen.has(key)) {
+          violations.push({
+            path,
+            keyword: 'uniqueItems',
+            message: 'must NOT have duplicate items',
+          });
+          break;
+        }
+        seen.add(key);
+      }
+    }
+
+    // Кортеж (prefixItems) и остальные элементы (items)
+    const prefixItems: any[] = Array.isArray(schema.prefixItems) ? schema.prefixItems : [];
+    value.forEach((item, index) => {
+      const itemSchema = index < prefixItems.length ? prefixItems[index] : schema.items;
+      if (itemSchema !== undefined) {
+        this.validateNode(item, itemSchema, `${path}/${index}`, direction, violations, depth + 1);
+      }
+    });
+
+    if (schema.contains !== undefined) {
+      const containsCount = value.filter((item, index) =>
+        this.isValid(item, schema.contains, `${path}/${index}`, direction, depth)
+      ).length;
+      const minContains = schema.minContains ?? 1;
+      if (containsCount < minContains) {
+        violations.push({
+          path,
+          keyword: 'contains',
+          message: `must contain at least ${minContains} valid item(s)`,
+        });
+      }
+      if (schema.maxContains !== undefined && containsCount > schema.maxContains) {
+        violations.push({
+          path,
+          keyword: 'maxContains',
+          message: `must contain at most ${schema.maxContains} valid item(s)`,
+        });
+      }
+    }
+  }
+
+  /**
+   * Проверяет ограничения объекта
+   */
+  private validateObject(
+    value: Record<string, any>,
+    schema: any,
+    path: string,
+    direction: ValidationDirection,
+    violations: SchemaViolation[],
+    depth: number
+  ): void {
+    const properties: Record<string, any> = schema.properties || {};
+    const keys = Object.keys(value);
+
+    // Обязательные свойства (readOnly не требуются в запросах, writeOnly — в ответах)
+    if (Array.isArray(schema.required)) {
+      for (const key of schema.required) {
+        if (key in value) {
+          continue;
+        }
+        const propSchema = this.resolveSchema(properties[key]);
+        if (direction === 'request' && propSchema?.readOnly) {
+          continue;
+        }
+        if (direction === 'response' && propSchema?.writeOnly) {
+          continue;
+        }
+        violations.push({
+          path,
+          keyword: 'required',
+          message: `must have required property '${key}'`,
+        });
+      }
+    }
+
+    if (schema.minProperties !== undefined && keys.length < schema.minProperties) {
+      violations.push({
+        path,
+        keyword: 'minProperties',
+        message: `must NOT have fewer than ${schema.minProperties} properties`,
+      });
+    }
+    if (schema.maxProperties !== undefined && keys.length > schema.maxProperties) {
+      violations.push({
+        path,
+        keyword: 'maxProperties',
+        message: `must NOT have more than ${schema.maxProperties} properties`,
+      });
+    }
+
+    // dependentRequired: наличие свойства требует наличия зависимых
+    if (schema.dependentRequired && typeof schema.dependentRequired === 'object') {
+      for (const [key, dependencies] of Object.entries(schema.dependentRequired)) {
+        if (!(key in value) || !Array.isArray(dependencies)) {
+          continue;
+        }
+        for (const dependency of dependencies) {
+          if (!(dependency in value)) {
+            violations.push({
+              path,
+              keyword: 'dependentRequired',
+              message: `must have property '${dependency}' when property '${key}' is present`,
+            });
+          }
+        }
+      }
+    }
+
+    const patternProperties: Record<string, any> = schema.patternProperties || {};
+    for (const key of keys) {
+      const childPath = `${path}/${SpecBundler.escapePointer(key)}`;
+      let matched = false;
+
+      if (key in properties) {
+        matched = true;
+        this.validateNode(value[key], properties[key], childPath, direction, violations, depth + 1);
+      }
+      for (const [pattern, patternSchema] of Object.entries(patternProperties)) {
+        if (this.safeTest(pattern, key)) {
+          matched = true;
+          this.validateNode(value[key], patternSchema, childPath, direction, violations, depth + 1);
+        }
+      }
+
+      if (!matched) {
+        if (schema.additionalProperties === false) {
+          violations.push({
+            path: childPath,
+            keyword: 'additionalProperties',
+            message: `must NOT have additional property '${key}'`,
+          });
+        } else if (
+          schema.additionalProperties !== undefined &&
+          typeof schema.additionalProperties === 'object'
+        ) {
+          this.validateNode(
+            value[key],
+            schema.additionalProperties,
+            childPath,
+            direction,
+            violations,
+            depth + 1
+          );
+        }
+      }
+
+      if (schema.propertyNames !== undefined) {
+        this.validateNode(key, schema.propertyNames, childPath, direction, violations, depth + 1);
+      }
+    }
+  }
+
+  /**
+   * Проверяет соответствие значения типу JSON Schema
+   * @param value - значение
+   * @param type - имя типа
+   * @returns true если значение имеет указанный тип
+   */
+  private matchesType(value: any, type: string): boolean {
+    switch (type) {
+      case 'string':
+        return typeof value === 'string';
+      case 'number':
+        return typeof value === 'number' && Number.isFinite(value);
+      case 'integer':
+        return typeof value === 'number' && Number.isInteger(value);
+      case 'boolean':
+        return typeof value === 'boolean';
+      case 'array':
+        return Array.isArray(value);
+      case 'object':
+        return typeof value === 'object' && value !== null && !Array.isArray(value);
+      case 'null':
+        return value === null;
+      default:
+        return true;
+    }
+  }
+
+  /**
+   * Проверяет строку на соответствие формату (неизвестные форматы считаются валидными)
+   * @param value - строка
+   * @param format - формат из схемы
+   * @returns true если строка соответствует формату
+   */
+  private matchesFormat(value: string, format: string): boolean {
+    switch (format) {
+      case 'date-time':
+        return (
+          /^\d{4}-\d{2}-\d{2}[Tt ]\d{2}:\d{2}:\d{2}(\.\d+)?([Zz]|[+-]\d{2}:\d{2})$/.test(value) &&
+          !Number.isNaN(Date.parse(value))
+        );
+      case 'date':
+        return /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(Date.parse(value));
+      case 'time':
+        return /^\d{2}:\d{2}:\d{2}(\.\d+)?([Zz]|[+-]\d{2}:\d{2})?$/.test(value);
+      case 'email':
+        return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value);
+      case 'uuid':
+        return /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(value);
+      case 'uri':
+      case 'url':
+        return /^[a-z][a-z0-9+.-]*:[^\s]*$/i.test(value);
+      case 'hostname':
+        return /^(?=.{1,253}$)([a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?)(\.[a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?)*$/i.test(
+          value
+        );
+      case 'ipv4':
+        return net.isIPv4(value);
+      case 'ipv6':
+        return net.isIPv6(value);
+      case 'byte':
+        return /^(?:[A-Za-z0-9+/]{4})*(?:[A-Za-z0-9+/]{2}==|[A-Za-z0-9+/]{3}=)?$/.test(value);
+      default:
+        return true;
+    }
+  }
+
+  /**
+   * Разрешает $ref ссылку (сначала в областях $defs, затем в спецификации)
+   * @param ref - строка ссылки
+   * @returns схема или undefined
+   */
+  private resolveRef(ref: string): any {
+    if (typeof ref !== 'string' || !ref.startsWith('#')) {
+      return undefined;
+    }
+    if (ref.startsWith('#/$defs/')) {
+      for (let i = this.defsScopes.length - 1; i >= 0; i--) {
+        const found = SpecBundler.getByPointer({ $defs: this.defsScopes[i] }, ref.slice(1));
+        if (found !== undefined) {
+          return found;
+        }
+      }
+    }
+    if (!this.spec) {
+      return undefined;
+    }
+    return SpecBundler.getByPointer(this.spec, ref.slice(1));
+  }
+
+  /**
+   * Безопасно проверяет строку регулярным выражением из схемы
+   */
+  private safeTest(pattern: string, value: string): boolean {
+    try {
+      return new RegExp(pattern, 'u').test(value);
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Сравнивает значения на структурное равенство
+   */
+  private deepEqual(a: any, b: any): boolean {
+    return this.stableStringify(a) === this.stableStringify(b);
+  }
+
+  /**
+   * Сериализует значение с отсортированными ключами объектов
+   */
+  private stableStringify(value: any): string {
+    if (Array.isArray(value)) {
+      return `[${value.map((item) => this.stableStringify(item)).join(',')}]`;
+    }
+    if (value && typeof value === 'object') {
+      const keys = Object.keys(value).sort();
+      return `{${keys.map((key) => `${JSON.stringify(key)}:${this.stableStringify(value[key])}`).join(',')}}`;
+    }
+    return JSON.stringify(value) ?? 'undefined';
+  }
+}
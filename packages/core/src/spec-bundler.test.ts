@@ -0,0 +1,178 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SpecBundler } from './spec-bundler';
+import { OpenAPIParser } from './openapi-parser';
+
+describe('SpecBundler', () => {
+  let dir: string;
+
+  /**
+   * Записывает файлы спецификации во временную директорию
+   * @param files - относительный путь → содержимое
+   */
+  function writeFiles(files: Record<string, string>): void {
+    for (const [name, content] of Object.entries(files)) {
+      const file = path.join(dir, name);
+      fs.mkdirSync(path.dirname(file), { recursive: true });
+      fs.writeFileSync(file, content);
+    }
+  }
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'spec-bundler-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('разворачивает относительные ссылки на YAML и JSON файлы, включая вложенные', () => {
+    writeFiles({
+      'api.yaml': ['openapi: 3.0.3', 'paths:', '  /users:', "    $ref: './paths/users.yaml'"].join(
+        '\n'
+      ),
+      'paths/users.yaml': [
+        'get:',
+        '  responses:',
+        "    '200':",
+        '      description: ok',
+        '      content:',
+        '        application/json:',
+        "          schema: { $ref: '../schemas/User.json#/User' }",
+      ].join('\n'),
+      'schemas/User.json': JSON.stringify({
+        User: {
+          type: 'object',
+          properties: { address: { $ref: './Address.yaml' } },
+        },
+      }),
+      'schemas/Address.yaml': 'type: object\nproperties:\n  city: { type: string }\n',
+    });
+
+    const bundled = new SpecBundler(path.join(dir, 'api.yaml')).bundle();
+    const schema = bundled.paths['/users'].get.responses['200'].content['application/json'].schema;
+
+    expect(schema).toEqual({
+      type: 'object',
+      properties: {
+        address: { type: 'object', properties: { city: { type: 'string' } } },
+      },
+    });
+  });
+
+  it('оставляет ссылки на корневой файл внутренними', () => {
+    writeFiles({
+      'api.yaml': [
+        'openapi: 3.0.3',
+        'paths:',
+        '  /users:',
+        "    $ref: './paths/users.yaml'",
+        'components:',
+        '  schemas:',
+        '    User: { type: object }',
+      ].join('\n'),
+      'paths/users.yaml': "get:\n  description: { $ref: '../api.yaml#/components/schemas/User' }\n",
+    });
+
+    const bundled = new SpecBundler(path.join(dir, 'api.yaml')).bundle();
+
+    expect(bundled.paths['/users'].get.description).toEqual({
+      $ref: '#/components/schemas/User',
+    });
+  });
+
+  it('заменяет циклическую внешнюю ссылку внутренней ссылкой на развернутое место', () => {
+    writeFiles({
+      'api.yaml': "openapi: 3.0.3\ncomponents:\n  schemas:\n    Node: { $ref: './node.yaml' }\n",
+      'node.yaml': "type: object\nproperties:\n  next: { $ref: './node.yaml' }\n",
+    });
+
+    const bundled = new SpecBundler(path.join(dir, 'api.yaml')).bundle();
+
+    expect(bundled.components.schemas.Node).toEqual({
+      type: 'object',
+      properties: { next: { $ref: '#/components/schemas/Node' } },
+    });
+  });
+
+  it('накладывает соседние с $ref ключи на развернутый узел', () => {
+    writeFiles({
+      'api.yaml': "root: { $ref: './item.yaml', description: 'Переопределено' }\n",
+      'item.yaml': 'type: string\ndescription: Исходное\n',
+    });
+
+    const bundled = new SpecBundler(path.join(dir, 'api.yaml')).bundle();
+
+    expect(bundled.root).toEqual({ type: 'string', description: 'Переопределено' });
+  });
+
+  it('не разворачивает ссылки на URL', () => {
+    writeFiles({ 'api.yaml': "root: { $ref: 'https://example.com/schema.yaml' }\n" });
+
+    const bundled = new SpecBundler(path.join(dir, 'api.yaml')).bundle();
+
+    expect(bundled.root).toEqual({ $ref: 'https://example.com/schema.yaml' });
+  });
+
+  it('запрещает ссылки за пределы директории спецификации', () => {
+    writeFiles({ 'spec/api.yaml': "root: { $ref: '../secret.yaml' }\n", 'secret.yaml': 'a: 1\n' });
+
+    expect(() => new SpecBundler(path.join(dir, 'spec/api.yaml')).bundle()).toThrow(
+      'Ссылка выходит за пределы директории спецификации'
+    );
+  });
+
+  it('сообщает о ссылке на несуществующий фрагмент', () => {
+    writeFiles({
+      'api.yaml': "root: { $ref: './item.yaml#/Missing' }\n",
+      'item.yaml': 'Item: { type: string }\n',
+    });
+
+    expect(() => new SpecBundler(path.join(dir, 'api.yaml')).bundle()).toThrow(
+      'Не удалось разрешить ссылку ./item.yaml#/Missing в файле api.yaml'
+    );
+  });
+
+  it('сообщает о несуществующем файле', () => {
+    writeFiles({ 'api.yaml': "root: { $ref: './missing.yaml' }\n" });
+
+    expect(() => new SpecBundler(path.join(dir, 'api.yaml')).bundle()).toThrow('Файл не найден');
+  });
+
+  it('находит значение по JSON Pointer с экранированием', () => {
+    const document = { paths: { '/users/{id}': { 'a~b': [1, 2] } } };
+
+    expect(SpecBundler.getByPointer(document, '/paths/~1users~1{id}/a~0b/1')).toBe(2);
+    expect(SpecBundler.getByPointer(document, '/paths/missing')).toBeUndefined();
+    expect(SpecBundler.escapePointer('/users/{id}')).toBe('~1users~1{id}');
+  });
+
+  it('загружает многофайловую спецификацию через OpenAPIParser', async () => {
+    writeFiles({
+      'api.yaml': [
+        'openapi: 3.0.3',
+        'info: { title: Test, version: 1.0.0 }',
+        'paths:',
+        '  /users:',
+        '    get:',
+        '      responses:',
+        "        '200':",
+        '          description: ok',
+        '          content:',
+        '            application/json:',
+        "              schema: { $ref: './schemas/User.yaml#/User' }",
+      ].join('\n'),
+      'schemas/User.yaml': 'User:\n  type: object\n  properties:\n    name: { type: string }\n',
+    });
+    const parser = new OpenAPIParser();
+
+    await parser.loadSpec(path.join(dir, 'api.yaml'));
+    const [endpoint] = parser.parseEndpoints();
+
+    expect(endpoint.responseSchema).toEqual({
+      type: 'object',
+      properties: { name: { type: 'string' } },
+    });
+  });
+});
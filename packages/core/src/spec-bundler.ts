@@ -0,0 +1,247 @@
+import * as yaml from 'js-yaml';
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Сборщик многофайловых спецификаций
+ * Загружает все файлы, на которые ссылаются внешние $ref, и собирает их в один документ
+ */
+export class SpecBundler {
+  // Максимальный размер одного файла (10MB)
+  private static readonly MAX_FILE_SIZE = 10 * 1024 * 1024;
+  // Максимальное количество файлов в спецификации (защита от DoS)
+  private static readonly MAX_FILES = 500;
+
+  // Абсолютный путь к корневому файлу спецификации
+  private rootFile: string;
+  // Директория корневого файла (за ее пределы ссылки выходить не могут)
+  private rootDir: string;
+  // Кеш загруженных файлов
+  private files: Map<string, any> = new Map();
+  // Ссылки, которые сейчас разворачиваются, и их расположение в собранном документе
+  private activeRefs: Map<string, string> = new Map();
+
+  /**
+   * Конструктор сборщика
+   * @param rootFile - путь к корневому файлу спецификации
+   */
+  constructor(rootFile: string) {
+    this.rootFile = path.resolve(rootFile);
+    this.rootDir = path.dirname(this.rootFile);
+  }
+
+  /**
+   * Собирает спецификацию в один документ
+   * Внешние ссылки разворачиваются на месте, циклические заменяются на внутренние (#/...)
+   * @returns собранная спецификация
+   */
+  bundle(): any {
+    const root = this.loadFile(this.rootFile);
+    return this.walk(root, this.rootFile, '');
+  }
+
+  /**
+   * Рекурсивно обходит узел документа и разрешает внешние ссылки
+   * @param node - текущий узел
+   * @param file - файл, которому принадлежит узел
+   * @param location - JSON Pointer узла в собранном документе
+   * @returns узел с разрешенными ссылками
+   */
+  private walk(node: any, file: string, location: string): any {
+    if (Array.isArray(node)) {
+      return node.map((item, index) => this.walk(item, file, `${location}/${index}`));
+    }
+    if (typeof node !== 'object' || node === null) {
+      return node;
+    }
+    // Узел со ссылкой обрабатываем отдельно
+    if (typeof node.$ref === 'string') {
+      return this.resolveRefNode(node, file, location);
+    }
+    const result: Record<string, any> = {};
+    for (const [key, value] of Object.entries(node)) {
+      result[key] = this.walk(value, file, `${location}/${SpecBundler.escapePointer(key)}`);
+    }
+    return result;
+  }
+
+  /**
+   * Разрешает узел со ссылкой $ref
+   * @param node - узел со ссылкой
+   * @param file - файл, в котором находится ссылка
+   * @param location - JSON Pointer узла в собранном документе
+   * @returns развернутый узел или внутренняя ссылка
+   */
+  private resolveRefNode(node: any, file: string, location: string): any {
+    const { $ref: ref, ...siblings } = node;
+
+    // Ссылки на URL не трогаем (сетевые ссылки не загружаем)
+    if (/^[a-z][a-z0-9+.-]*:\/\//i.test(ref)) {
+      return { ...node };
+    }
+
+    // Разделяем ссылку на путь к файлу и JSON Pointer
+    const hashIndex = ref.indexOf('#');
+    const refPath = hashIndex === -1 ? ref : ref.slice(0, hashIndex);
+    const pointer = hashIndex === -1 ? '' : ref.slice(hashIndex + 1);
+    const targetFile = refPath ? this.resolveFile(refPath, file) : file;
+
+    // Ссылки на корневой файл становятся внутренними
+    if (targetFile === this.rootFile) {
+      return { ...this.walk(siblings, file, location), $ref: `#${pointer}` };
+    }
+
+    // Циклическая ссылка указывает на уже развернутое место в документе
+    const key = `${targetFile}#${pointer}`;
+    const activeLocation = this.activeRefs.get(key);
+    if (activeLocation !== undefined) {
+      return { $ref: `#${activeLocation}` };
+    }
+
+    const target = SpecBundler.getByPointer(this.loadFile(targetFile), pointer);
+    if (target === undefined) {
+      throw new Error(`Не удалось разрешить ссылку ${ref} в файле ${path.basename(file)}`);
+    }
+
+    this.activeRefs.set(key, location);
+    const resolved = this.walk(target, targetFile, location);
+    this.activeRefs.delete(key);
+
+    // Соседние с $ref ключи (например, description) накладываем поверх развернутого узла
+    if (Object.keys(siblings).length > 0 && typeof resolved === 'object' && resolved !== null) {
+      return { ...resolved, ...this.walk(siblings, file, location) };
+    }
+    return resolved;
+  }
+
+  /**
+   * Разрешает путь к файлу из ссылки относительно файла, в котором она находится
+   * @param refPath - путь из ссылки
+   * @param fromFile - файл, содержащий ссылку
+   * @returns абсолютный путь к файлу
+   */
+  private resolveFile(refPath: string, fromFile: string): string {
+    const resolved = path.resolve(path.dirname(fromFile), decodeURIComponent(refPath));
+    // Проверяем что файл находится внутри директории корневой спецификации (защита от Path Traversal)
+    const relative = path.relative(this.rootDir, resolved);
+    if (!relative || relative.startsWith('..') || path.isAbsolute(relative)) {
+      throw new Error(`Ссылка выходит за пределы директории спецификации: ${refPath}`);
+    }
+    return resolved;
+  }
+
+  /**
+   * Загружает и парсит файл спецификации (с кешированием)
+   * @param filePath - абсолютный путь к файлу
+   * @returns содержимое файла
+   */
+  private loadFile(filePath: string): any {
+    const cached = this.files.get(filePath);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    // Ограничиваем количество файлов
+    if (this.files.size >= SpecBundler.MAX_FILES) {
+      throw new Error(`Слишком много файлов в спецификации (максимум ${SpecBundler.MAX_FILES})`);
+    }
+
+    // Проверяем что файл существует
+    if (!fs.existsSync(filePath)) {
+      throw new Error(`Файл не найден: ${filePath}`);
+    }
+
+    // Проверяем что это файл, а не директория
+    const stats = fs.statSync(filePath);
+    if (!stats.isFile()) {
+      throw new Error('Указанный путь не является файлом');
+    }
+
+    // Проверяем размер файла (максимум 10MB)
+    if (stats.size > SpecBundler.MAX_FILE_SIZE) {
+      throw new Error('Файл слишком большой (максимум 10MB)');
+    }
+
+    // Читаем файл
+    const fileContent = fs.readFileSync(filePath, 'utf-8');
+
+    // Проверяем размер содержимого
+    if (fileContent.length > SpecBundler.MAX_FILE_SIZE) {
+      throw new Error('Содержимое файла слишком большое');
+    }
+
+    // Определяем формат файла по расширению
+    const isYaml = filePath.endsWith('.yaml') || filePath.endsWith('.yml');
+
+    let content: any;
+    try {
+      // Парсим в зависимости от формата с безопасными опциями
+      if (isYaml) {
+        // Безопасная загрузка YAML (защита от YAML injection)
+        content = yaml.load(fileContent, {
+          schema: yaml.DEFAULT_SCHEMA,
+          json: true,
+        });
+      } else {
+        content = JSON.parse(fileContent);
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'неизвестная ошибка';
+      throw new Error(`${path.basename(filePath)}: ${message}`);
+    }
+
+    // Валидируем что получили объект
+    if (typeof content !== 'object' || content === null) {
+      throw new Error(`${path.basename(filePath)}: содержимое должно быть объектом`);
+    }
+
+    this.files.set(filePath, content);
+    return content;
+  }
+
+  /**
+   * Получает значение по JSON Pointer (RFC 6901)
+   * @param document - документ
+   * @param pointer - JSON Pointer (например, "/components/schemas/User")
+   * @returns найденное значение или undefined
+   */
+  static getByPointer(document: any, pointer: string): any {
+    const parts = pointer
+      .split('/')
+      .filter((p) => p)
+      .map((p) => SpecBundler.unescapePointer(p));
+    let current = document;
+    for (const part of parts) {
+      if (current && typeof current === 'object' && part in current) {
+        current = current[part];
+      } else {
+        return undefined;
+      }
+    }
+    return current;
+  }
+
+  /**
+   * Экранирует сегмент JSON Pointer
+   * @param segment - сегмент пути
+   * @returns экранированный сегмент
+   */
+  static escapePointer(segment: string): string {
+    return segment.replace(/~/g, '~0').replace(/\//g, '~1');
+  }
+
+  /**
+   * Снимает экранирование с сегмента JSON Pointer
+   * @param segment - экранированный сегмент
+   * @returns исходный сегмент
+   */
+  static unescapePointer(segment: string): string {
+    let decoded = segment;
+    try {
+      decoded = decodeURIComponent(segment);
+    } catch {
+      // Оставляем сегмент как есть, если он не является корректной URI-последовательностью
+    }
+    return decoded.replace(/~1/g, '/').replace(/~0/g, '~');
+  }
+}
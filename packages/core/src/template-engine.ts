@@ -1,5 +1,11 @@
-import { TemplateValue, TemplateObject, TemplateArray } from '@api-mock-generator/shared';
-import { faker } from '@faker-js/faker';
+import {
+  TemplateValue,
+  TemplateObject,
+  TemplateArray,
+  TemplateContext,
+} from '@api-mock-generator/shared';
+import { faker } from './locale';
+import { isSeeded } from './random-seed';
 
 /**
  * Движок для обработки шаблонов в ответах
@@ -9,31 +15,44 @@ export class TemplateEngine {
   /**
    * Обрабатывает шаблоны в данных
    * @param data - данные с шаблонами
+   * @param context - контекст запроса (claims токена)
    * @returns данные с замененными шаблонами
    */
-  process(data: TemplateValue): TemplateValue {
+  process(data: TemplateValue, context: TemplateContext = {}): TemplateValue {
     // Если это строка, обрабатываем шаблоны
     if (typeof data === 'string') {
-      return this.processString(data);
+      return this.processString(data, context);
     }
     // Если это объект, рекурсивно обрабатываем свойства
     if (typeof data === 'object' && data !== null && !Array.isArray(data)) {
-      return this.processObject(data as TemplateObject);
+      return this.processObject(data as TemplateObject, context);
     }
     // Если это массив, рекурсивно обрабатываем элементы
     if (Array.isArray(data)) {
-      return this.processArray(data as TemplateArray);
+      return this.processArray(data as TemplateArray, context);
     }
     // Для остальных типов возвращаем как есть
     return data;
   }
 
+  /**
+   * Генерирует значение одного шаблона, записанного без скобок (firstname, int:18:90)
+   * @param template - шаблон
+   * @returns значение или undefined, если шаблон не распознан
+   */
+  generate(template: string): string | undefined {
+    const trimmed = template.trim();
+    const value = this.processTemplate(trimmed, {});
+    return value === `{{${trimmed}}}` ? undefined : value;
+  }
+
   /**
    * Обрабатывает строку с шаблонами
    * @param str - строка с шаблонами
+   * @param context - контекст запроса
    * @returns обработанная строка
    */
-  private processString(str: string): string {
+  private processString(str: string, context: TemplateContext): string {
     // Регулярное выражение для поиска шаблонов {{...}}
     const templateRegex = /\{\{([^}]+)\}\}/g;
     // Заменяем все шаблоны на значения
@@ -41,16 +60,17 @@ export class TemplateEngine {
       // Убираем пробелы
       const trimmed = template.trim();
       // Обрабатываем шаблон
-      return this.processTemplate(trimmed);
+      return this.processTemplate(trimmed, context);
     });
   }
 
   /**
    * Обрабатывает один шаблон
    * @param template - название шаблона
+   * @param context - контекст запроса
    * @returns значение шаблона
    */
-  private processTemplate(template: string): string {
+  private processTemplate(template: string, context: TemplateContext): string {
     // Разделяем на название и параметры
     const [name, ...params] = template.split(':');
     const trimmedName = name.trim().toLowerCase();
@@ -76,7 +96,8 @@ export class TemplateEngine {
       case 'firstname':
         return faker.person.firstName();
       case 'lastname':
-        return faker.person.lastName();
+        // В части локалей (ru, uk) фамилии есть только по полу, без пола faker берет английские
+        return faker.person.lastName(faker.person.sexType());
       case 'username':
         return faker.internet.userName();
       case 'nickname':
@@ -299,7 +320,7 @@ export class TemplateEngine {
         return faker.number.int({ min: finalMin, max: finalMax }).toString();
       }
       case 'middle-name':
-        return faker.person.middleName();
+        return faker.person.middleName(faker.person.sexType());
       case 'prefix':
         return faker.person.prefix();
       case 'suffix':
@@ -364,7 +385,7 @@ export class TemplateEngine {
       case 'order-id':
       case 'order_id':
       case 'order-number':
-        return `ORD-${faker.string.alphanumeric(8).toUpperCase()}-${Date.now().toString().slice(-6)}`;
+        return `ORD-${faker.string.alphanumeric(8).toUpperCase()}-${this.now().toString().slice(-6)}`;
       case 'order':
         return faker.number.int({ min: 1000, max: 999999 }).toString();
       case 'invoice-id':
@@ -374,7 +395,7 @@ export class TemplateEngine {
       case 'transaction-id':
       case 'transaction_id':
       case 'txn-id':
-        return `TXN-${faker.string.uuid().substring(0, 8).toUpperCase()}-${Date.now().toString(36).toUpperCase()}`;
+        return `TXN-${faker.string.uuid().substring(0, 8).toUpperCase()}-${this.now().toString(36).toUpperCase()}`;
       case 'payment-id':
       case 'payment_id':
         return `PAY-${faker.string.alphanumeric(10).toUpperCase()}`;
@@ -551,6 +572,9 @@ export class TemplateEngine {
         const safeLength = Number.isFinite(length) ? Math.max(1, Math.min(100, length)) : 21;
         return faker.string.nanoid(safeLength);
       }
+      // Claims bearer токена: {{claim:sub}}, {{claim:address.city}}
+      case 'claim':
+        return this.resolveClaim(context.claims, params.join(':'));
       // Булевы значения
       case 'boolean':
       case 'bool':
@@ -564,16 +588,17 @@ export class TemplateEngine {
   /**
    * Обрабатывает объект рекурсивно
    * @param obj - объект с шаблонами
+   * @param context - контекст запроса
    * @returns обработанный объект
    */
-  private processObject(obj: TemplateObject): TemplateObject {
+  private processObject(obj: TemplateObject, context: TemplateContext): TemplateObject {
     const result: TemplateObject = {};
     // Обрабатываем каждое свойство объекта
     for (const [key, value] of Object.entries(obj)) {
       // Обрабатываем ключ (может содержать шаблоны)
-      const processedKey = this.processString(key);
+      const processedKey = this.processString(key, context);
       // Обрабатываем значение
-      result[processedKey] = this.process(value);
+      result[processedKey] = this.process(value, context);
     }
     return result;
   }
@@ -581,10 +606,44 @@ export class TemplateEngine {
   /**
    * Обрабатывает массив рекурсивно
    * @param arr - массив с шаблонами
+   * @param context - контекст запроса
    * @returns обработанный массив
    */
-  private processArray(arr: TemplateArray): TemplateArray {
+  private processArray(arr: TemplateArray, context: TemplateContext): TemplateArray {
     // Обрабатываем каждый элемент массива
-    return arr.map((item: TemplateValue) => this.process(item));
+    return arr.map((item: TemplateValue) => this.process(item, context));
+  }
+
+  /**
+   * Время для суффиксов номеров заказов и транзакций
+   * С seed берется из faker (относительно опорной даты), чтобы ответы повторялись между запусками
+   * @returns время в миллисекундах
+   */
+  private now(): number {
+    return isSeeded() ? faker.date.recent().getTime() : Date.now();
+  }
+
+  /**
+   * Получает значение claim по пути через точку
+   * @param claims - claims токена
+   * @param path - имя claim (например, sub или address.city)
+   * @returns значение claim строкой (пустая строка, если claim нет)
+   */
+  private resolveClaim(claims: Record<string, unknown> | undefined, path: string): string {
+    let value: unknown = claims;
+    for (const key of path.trim().split('.')) {
+      const owned =
+        typeof value === 'object' &&
+        value !== null &&
+        Object.prototype.hasOwnProperty.call(value, key);
+      if (!owned) {
+        return '';
+      }
+      value = (value as Record<string, unknown>)[key];
+    }
+    if (value === undefined || value === null) {
+      return '';
+    }
+    return typeof value === 'object' ? JSON.stringify(value) : String(value);
   }
 }
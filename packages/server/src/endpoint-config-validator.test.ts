@@ -0,0 +1,186 @@
+import {
+  parseEndpointConfig,
+  validateLatency,
+  validateOAuthSettings,
+  validateRateLimit,
+  validateSecuritySettings,
+  validateThrottle,
+} from './endpoint-config-validator';
+
+describe('validateLatency', () => {
+  it('принимает профили всех распределений и всплески', () => {
+    expect(validateLatency({ distribution: 'uniform', min: 0, max: 60000 })).toBeUndefined();
+    expect(validateLatency({ distribution: 'normal', mean: 200, stddev: 50 })).toBeUndefined();
+    expect(
+      validateLatency({
+        distribution: 'lognormal',
+        p50: 100,
+        p99: 900,
+        spikeProbability: 0.01,
+        spikeDelay: 5000,
+      })
+    ).toBeUndefined();
+  });
+
+  it('отклоняет профили с некорректными параметрами', () => {
+    expect(validateLatency([])).toBe('Профиль задержки должен быть объектом');
+    expect(validateLatency({ distribution: 'poisson' })).toBe(
+      'Распределение задержки должно быть uniform, normal или lognormal'
+    );
+    expect(validateLatency({ distribution: 'uniform', min: 300, max: 100 })).toBe(
+      'Для равномерного распределения нужны min и max (0-60000 мс, min ≤ max)'
+    );
+    expect(validateLatency({ distribution: 'normal', mean: 100, stddev: 70000 })).toBe(
+      'Для нормального распределения нужны mean и stddev (0-60000 мс)'
+    );
+    expect(validateLatency({ distribution: 'lognormal', p50: 0, p99: 10 })).toBe(
+      'Для логнормального распределения нужны p50 и p99 (1-60000 мс, p50 ≤ p99)'
+    );
+    expect(
+      validateLatency({ distribution: 'normal', mean: 1, stddev: 1, spikeProbability: 2 })
+    ).toBe('Для всплесков нужны spikeProbability (0-1) и spikeDelay (0-60000 мс)');
+  });
+
+  it('проверяет профиль задержки в настройках эндпоинта', () => {
+    const latency = { distribution: 'uniform', min: 10, max: 20 };
+
+    expect(parseEndpointConfig({ latency })).toEqual({ config: { latency } });
+    expect(parseEndpointConfig({ latency: { distribution: 'uniform' } })).toEqual({
+      error: 'Для равномерного распределения нужны min и max (0-60000 мс, min ≤ max)',
+    });
+  });
+});
+
+describe('parseEndpointConfig: variant', () => {
+  it('принимает имя варианта oneOf/anyOf и отклоняет пустое', () => {
+    expect(parseEndpointConfig({ variant: 'dog' })).toEqual({ config: { variant: 'dog' } });
+    expect(parseEndpointConfig({ variant: '' })).toEqual({
+      error: 'variant должен быть непустой строкой (до 256 символов)',
+    });
+  });
+});
+
+describe('validateThrottle', () => {
+  it('принимает пресет, скорость и время до первого байта', () => {
+    expect(validateThrottle({ preset: '3g' })).toBeUndefined();
+    expect(validateThrottle({ bytesPerSecond: 100, ttfb: 0 })).toBeUndefined();
+    expect(validateThrottle({ preset: 'slow-3g', ttfb: 60000 })).toBeUndefined();
+  });
+
+  it('отклоняет пустые и некорректные настройки', () => {
+    expect(validateThrottle(null)).toBe('Ограничение скорости должно быть объектом');
+    expect(validateThrottle({})).toBe(
+      'Укажите пресет, скорость (bytesPerSecond) или время до первого байта (ttfb)'
+    );
+    expect(validateThrottle({ preset: '5g' })).toBe(
+      'Неизвестный пресет скорости (slow-3g, 3g, 4g, slow-wifi)'
+    );
+    expect(validateThrottle({ bytesPerSecond: 99.5 })).toBe(
+      'Скорость передачи должна быть целым числом от 100 до 100000000 байт/с'
+    );
+    expect(validateThrottle({ ttfb: -1 })).toBe(
+      'Время до первого байта должно быть от 0 до 60000 мс'
+    );
+  });
+});
+
+describe('validateRateLimit', () => {
+  const policy = { algorithm: 'token-bucket', limit: 10, windowMs: 60000, keyBy: 'api-key' };
+
+  it('принимает политики обоих алгоритмов', () => {
+    expect(validateRateLimit(policy)).toBeUndefined();
+    expect(
+      validateRateLimit({
+        ...policy,
+        algorithm: 'fixed-window',
+        keyBy: 'header',
+        header: 'X-Tenant',
+      })
+    ).toBeUndefined();
+  });
+
+  it('отклоняет некорректные политики', () => {
+    expect(validateRateLimit({ ...policy, algorithm: 'leaky-bucket' })).toBe(
+      'Алгоритм ограничения должен быть fixed-window или token-bucket'
+    );
+    expect(validateRateLimit({ ...policy, limit: 0 })).toBe(
+      'Лимит запросов должен быть целым числом от 1 до 1000000'
+    );
+    expect(validateRateLimit({ ...policy, windowMs: 500 })).toBe(
+      'Окно должно быть от 1000 мс до 24 часов'
+    );
+    expect(validateRateLimit({ ...policy, keyBy: 'cookie' })).toBe(
+      'Ключ клиента должен быть ip, api-key или header'
+    );
+    expect(validateRateLimit({ ...policy, header: 'X Tenant' })).toBe('Недопустимое имя заголовка');
+    expect(validateRateLimit({ ...policy, keyBy: 'header' })).toBe(
+      'Для ключа header нужно указать имя заголовка'
+    );
+  });
+});
+
+describe('validateSecuritySettings', () => {
+  it('принимает настройки с учетными данными и скоупами', () => {
+    expect(validateSecuritySettings({ enabled: false })).toBeUndefined();
+    expect(
+      validateSecuritySettings({
+        enabled: true,
+        credentials: [{ value: 'key' }, { value: 'token', scopes: ['pets:read'] }],
+      })
+    ).toBeUndefined();
+  });
+
+  it('отклоняет некорректные настройки', () => {
+    expect(validateSecuritySettings('on')).toBe('Настройки безопасности должны быть объектом');
+    expect(validateSecuritySettings({ enabled: 'yes' })).toBe('Поле enabled должно быть булевым');
+    expect(validateSecuritySettings({ enabled: true, credentials: {} })).toBe(
+      'Учетные данные должны быть массивом (не более 100)'
+    );
+    expect(validateSecuritySettings({ enabled: true, credentials: [{ value: '' }] })).toBe(
+      'Учетные данные 1: значение должно быть непустой строкой (до 4096 символов)'
+    );
+    expect(
+      validateSecuritySettings({ enabled: true, credentials: [{ value: 'a', scopes: [1] }] })
+    ).toBe('Учетные данные 1: скоупы должны быть массивом строк');
+  });
+});
+
+describe('validateOAuthSettings', () => {
+  it('принимает настройки клиентов, пользователей и claims', () => {
+    expect(validateOAuthSettings({})).toBeUndefined();
+    expect(
+      validateOAuthSettings({
+        expiresIn: 600,
+        claims: { tenant: 'acme' },
+        clients: [{ clientId: 'web' }, { clientId: 'cli', clientSecret: 'secret' }],
+        users: [{ username: 'ann', password: 'pass', claims: { role: 'admin' } }],
+      })
+    ).toBeUndefined();
+  });
+
+  it('отклоняет некорректные настройки', () => {
+    expect(validateOAuthSettings([])).toBe('Настройки OAuth должны быть объектом');
+    expect(validateOAuthSettings({ expiresIn: 0 })).toBe(
+      'Время жизни токена должно быть от 1 секунды до года'
+    );
+    expect(validateOAuthSettings({ claims: 'admin' })).toBe('Claims должны быть объектом');
+    expect(validateOAuthSettings({ clients: {} })).toBe(
+      'Клиенты должны быть массивом (не более 100)'
+    );
+    expect(validateOAuthSettings({ clients: [{ clientId: '' }] })).toBe(
+      'Клиент 1: нужен непустой clientId'
+    );
+    expect(validateOAuthSettings({ clients: [{ clientId: 'web', clientSecret: 1 }] })).toBe(
+      'Клиент 1: секрет должен быть непустой строкой'
+    );
+    expect(validateOAuthSettings({ users: 'ann' })).toBe(
+      'Пользователи должны быть массивом (не более 100)'
+    );
+    expect(validateOAuthSettings({ users: [{ username: 'ann' }] })).toBe(
+      'Пользователь 1: нужны непустые username и password'
+    );
+    expect(validateOAuthSettings({ users: [{ username: 'ann', password: 'p', claims: [] }] })).toBe(
+      'Пользователь 1: claims должны быть объектом'
+    );
+  });
+});
@@ -0,0 +1,649 @@
+import {
+  EndpointConfig,
+  FaultConfig,
+  FaultType,
+  LatencyProfile,
+  OAuthSettings,
+  RateLimitPolicy,
+  ResponseRule,
+  Scenario,
+  SecuritySettings,
+  SequenceStep,
+  THROTTLE_PRESETS,
+  ThrottleConfig,
+  isValidDelay,
+  isValidEndpointPath,
+  isValidGenerationMode,
+  isValidSeed,
+  isValidSeedMode,
+  isValidHttpMethod,
+  isValidStatusCode,
+  isValidValidationMode,
+} from '@api-mock-generator/shared';
+import { queryJsonPath } from '@api-mock-generator/core';
+
+// Допустимое имя HTTP заголовка (token по RFC 7230)
+const HEADER_NAME = /^[!#$%&'*+.^_`|~0-9A-Za-z-]+$/;
+
+// Поддерживаемые типы сбоев
+const FAULT_TYPES: FaultType[] = ['error', 'reset', 'truncate', 'malformed', 'hang', 'empty'];
+
+/**
+ * Валидирует настройки эндпоинта из тела запроса admin API
+ * Неизвестные поля отбрасываются
+ * @param body - тело запроса
+ * @returns валидная конфигурация эндпоинта или текст ошибки
+ */
+export function parseEndpointConfig(body: any): { config: EndpointConfig } | { error: string } {
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    return { error: 'Настройки эндпоинта должны быть объектом' };
+  }
+  const {
+    delay,
+    statusCode,
+    customResponse,
+    queueEnabled,
+    queueSize,
+    validationMode,
+    generationMode,
+    seed,
+    seedMode,
+    variant,
+    rules,
+    sequence,
+    faults,
+    latency,
+    throttle,
+    rateLimit,
+    passthrough,
+  } = body;
+
+  // Создаем валидную конфигурацию эндпоинта
+  const endpointConfig: EndpointConfig = {};
+
+  // Валидируем и добавляем задержку
+  if (delay !== undefined) {
+    if (!isValidDelay(delay)) {
+      return { error: 'Недопустимая задержка (0-60000 мс)' };
+    }
+    endpointConfig.delay = delay;
+  }
+
+  // Валидируем и добавляем статус код
+  if (statusCode !== undefined) {
+    if (!isValidStatusCode(statusCode)) {
+      return { error: 'Недопустимый статус код (100-599)' };
+    }
+    endpointConfig.statusCode = statusCode;
+  }
+
+  // Валидируем кастомный ответ (должен быть объектом или массивом, null — удалить ответ)
+  if (customResponse !== undefined && customResponse !== null) {
+    if (typeof customResponse !== 'object' || customResponse === null) {
+      return { error: 'Кастомный ответ должен быть объектом или массивом' };
+    }
+    // Ограничиваем размер кастомного ответа (максимум 1MB при сериализации)
+    const serialized = JSON.stringify(customResponse);
+    if (serialized.length > 1024 * 1024) {
+      return { error: 'Кастомный ответ слишком большой (максимум 1MB)' };
+    }
+    endpointConfig.customResponse = customResponse;
+  }
+
+  // Валидируем очередь
+  if (queueEnabled !== undefined) {
+    if (typeof queueEnabled !== 'boolean') {
+      return { error: 'queueEnabled должен быть булевым значением' };
+    }
+    endpointConfig.queueEnabled = queueEnabled;
+  }
+
+  if (queueSize !== undefined) {
+    if (!Number.isInteger(queueSize) || queueSize < 1 || queueSize > 100) {
+      return { error: 'Размер очереди должен быть от 1 до 100' };
+    }
+    endpointConfig.queueSize = queueSize;
+  }
+
+  // Валидируем проксирование на backend
+  if (passthrough !== undefined) {
+    if (typeof passthrough !== 'boolean') {
+      return { error: 'passthrough должен быть булевым значением' };
+    }
+    endpointConfig.passthrough = passthrough;
+  }
+
+  // Валидируем режим валидации запросов (переопределяет глобальный)
+  if (validationMode !== undefined) {
+    if (!isValidValidationMode(validationMode)) {
+      return { error: 'Недопустимый режим валидации (off, warn, strict)' };
+    }
+    endpointConfig.validationMode = validationMode;
+  }
+
+  // Валидируем режим генерации ответа (переопределяет глобальный)
+  if (generationMode !== undefined) {
+    if (!isValidGenerationMode(generationMode)) {
+      return { error: 'Недопустимый режим генерации (dynamic, examples)' };
+    }
+    endpointConfig.generationMode = generationMode;
+  }
+
+  // Валидируем seed генерации данных
+  if (seed !== undefined) {
+    if (!isValidSeed(seed)) {
+      return { error: 'seed должен быть целым числом от 0 до 4294967295' };
+    }
+    endpointConfig.seed = seed;
+  }
+
+  if (seedMode !== undefined) {
+    if (!isValidSeedMode(seedMode)) {
+      return { error: 'Недопустимый режим seed (call, resource)' };
+    }
+    endpointConfig.seedMode = seedMode;
+  }
+
+  // Валидируем вариант oneOf/anyOf
+  if (variant !== undefined) {
+    if (typeof variant !== 'string' || !variant || variant.length > 256) {
+      return { error: 'variant должен быть непустой строкой (до 256 символов)' };
+    }
+    endpointConfig.variant = variant;
+  }
+
+  // Валидируем условные правила ответа
+  if (rules !== undefined) {
+    const rulesError = validateRules(rules);
+    if (rulesError) {
+      return { error: rulesError };
+    }
+    endpointConfig.rules = rules;
+  }
+
+  // Валидируем последовательность ответов
+  if (sequence !== undefined) {
+    const sequenceError = validateSequence(sequence);
+    if (sequenceError) {
+      return { error: sequenceError };
+    }
+    endpointConfig.sequence = sequence;
+  }
+
+  // Валидируем внедряемые сбои
+  if (faults !== undefined) {
+    const faultsError = validateFaults(faults);
+    if (faultsError) {
+      return { error: faultsError };
+    }
+    endpointConfig.faults = faults;
+  }
+
+  // Валидируем профиль задержки
+  if (latency !== undefined) {
+    const latencyError = validateLatency(latency);
+    if (latencyError) {
+      return { error: latencyError };
+    }
+    endpointConfig.latency = latency;
+  }
+
+  // Валидируем ограничение скорости передачи
+  if (throttle !== undefined) {
+    const throttleError = validateThrottle(throttle);
+    if (throttleError) {
+      return { error: throttleError };
+    }
+    endpointConfig.throttle = throttle;
+  }
+
+  // Валидируем ограничение частоты запросов
+  if (rateLimit !== undefined) {
+    const rateLimitError = validateRateLimit(rateLimit);
+    if (rateLimitError) {
+      return { error: rateLimitError };
+    }
+    endpointConfig.rateLimit = rateLimit;
+  }
+
+  return { config: endpointConfig };
+}
+
+/**
+ * Валидирует имя сценария
+ * @param name - имя сценария
+ * @returns true если имя состоит из латиницы, цифр, точек, дефисов и подчеркиваний (до 64 символов)
+ */
+export function isValidScenarioName(name: unknown): boolean {
+  return typeof name === 'string' && /^[A-Za-z0-9_.-]{1,64}$/.test(name);
+}
+
+/**
+ * Валидирует список внедряемых сбоев (эндпоинта или глобальный)
+ * @param faults - сбои из тела запроса
+ * @returns текст ошибки или undefined, если сбои валидны
+ */
+export function validateFaults(faults: unknown): string | undefined {
+  if (!Array.isArray(faults)) {
+    return 'Сбои должны быть массивом';
+  }
+  if (faults.length > 10) {
+    return 'Слишком много сбоев (максимум 10)';
+  }
+  let totalProbability = 0;
+  for (const [index, fault] of (faults as FaultConfig[]).entries()) {
+    const prefix = `Сбой ${index + 1}`;
+    if (typeof fault !== 'object' || fault === null) {
+      return `${prefix}: должен быть объектом`;
+    }
+    if (!FAULT_TYPES.includes(fault.type)) {
+      return `${prefix}: тип должен быть одним из: ${FAULT_TYPES.join(', ')}`;
+    }
+    if (typeof fault.probability !== 'number' || fault.probability < 0 || fault.probability > 1) {
+      return `${prefix}: вероятность должна быть числом от 0 до 1`;
+    }
+    if (fault.statusCode !== undefined && !isValidStatusCode(fault.statusCode)) {
+      return `${prefix}: недопустимый статус код (100-599)`;
+    }
+    totalProbability += fault.probability;
+  }
+  // Небольшой допуск на ошибку округления (0.1 + 0.2)
+  if (totalProbability > 1 + 1e-9) {
+    return 'Сумма вероятностей сбоев не должна превышать 1';
+  }
+  return undefined;
+}
+
+/**
+ * Валидирует профиль задержки (эндпоинта или глобальный)
+ * Все задержки ограничены как в isValidDelay (0-60000 мс)
+ * @param latency - профиль из тела запроса
+ * @returns текст ошибки или undefined, если профиль валиден
+ */
+export function validateLatency(latency: any): string | undefined {
+  if (typeof latency !== 'object' || latency === null || Array.isArray(latency)) {
+    return 'Профиль задержки должен быть объектом';
+  }
+  const { distribution, min, max, mean, stddev, p50, p99, spikeProbability, spikeDelay } =
+    latency as LatencyProfile;
+  const isDelay = (value: unknown) => typeof value === 'number' && isValidDelay(value);
+
+  switch (distribution) {
+    case 'uniform':
+      if (!isDelay(min) || !isDelay(max) || (min as number) > (max as number)) {
+        return 'Для равномерного распределения нужны min и max (0-60000 мс, min ≤ max)';
+      }
+      break;
+    case 'normal':
+      if (!isDelay(mean) || !isDelay(stddev)) {
+        return 'Для нормального распределения нужны mean и stddev (0-60000 мс)';
+      }
+      break;
+    case 'lognormal':
+      if (
+        !isDelay(p50) ||
+        !isDelay(p99) ||
+        (p50 as number) <= 0 ||
+        (p50 as number) > (p99 as number)
+      ) {
+        return 'Для логнормального распределения нужны p50 и p99 (1-60000 мс, p50 ≤ p99)';
+      }
+      break;
+    default:
+      return 'Распределение задержки должно быть uniform, normal или lognormal';
+  }
+
+  if (spikeProbability !== undefined || spikeDelay !== undefined) {
+    if (
+      typeof spikeProbability !== 'number' ||
+      spikeProbability < 0 ||
+      spikeProbability > 1 ||
+      !isDelay(spikeDelay)
+    ) {
+      return 'Для всплесков нужны spikeProbability (0-1) и spikeDelay (0-60000 мс)';
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Валидирует ограничение скорости передачи (эндпоинта или глобальное)
+ * @param throttle - настройки из тела запроса
+ * @returns текст ошибки или undefined, если настройки валидны
+ */
+export function validateThrottle(throttle: any): string | undefined {
+  if (typeof throttle !== 'object' || throttle === null || Array.isArray(throttle)) {
+    return 'Ограничение скорости должно быть объектом';
+  }
+  const { preset, bytesPerSecond, ttfb } = throttle as ThrottleConfig;
+  if (preset === undefined && bytesPerSecond === undefined && ttfb === undefined) {
+    return 'Укажите пресет, скорость (bytesPerSecond) или время до первого байта (ttfb)';
+  }
+  if (preset !== undefined && !Object.prototype.hasOwnProperty.call(THROTTLE_PRESETS, preset)) {
+    return `Неизвестный пресет скорости (${Object.keys(THROTTLE_PRESETS).join(', ')})`;
+  }
+  if (
+    bytesPerSecond !== undefined &&
+    (!Number.isInteger(bytesPerSecond) || bytesPerSecond < 100 || bytesPerSecond > 100000000)
+  ) {
+    return 'Скорость передачи должна быть целым числом от 100 до 100000000 байт/с';
+  }
+  if (ttfb !== undefined && (typeof ttfb !== 'number' || !isValidDelay(ttfb))) {
+    return 'Время до первого байта должно быть от 0 до 60000 мс';
+  }
+  return undefined;
+}
+
+/**
+ * Валидирует политику ограничения частоты запросов (эндпоинта или глобальную)
+ * @param rateLimit - политика из тела запроса
+ * @returns текст ошибки или undefined, если политика валидна
+ */
+export function validateRateLimit(rateLimit: any): string | undefined {
+  if (typeof rateLimit !== 'object' || rateLimit === null || Array.isArray(rateLimit)) {
+    return 'Ограничение частоты должно быть объектом';
+  }
+  const { algorithm, limit, windowMs, keyBy, header } = rateLimit as RateLimitPolicy;
+  if (algorithm !== 'fixed-window' && algorithm !== 'token-bucket') {
+    return 'Алгоритм ограничения должен быть fixed-window или token-bucket';
+  }
+  if (!Number.isInteger(limit) || limit < 1 || limit > 1000000) {
+    return 'Лимит запросов должен быть целым числом от 1 до 1000000';
+  }
+  if (!Number.isInteger(windowMs) || windowMs < 1000 || windowMs > 86400000) {
+    return 'Окно должно быть от 1000 мс до 24 часов';
+  }
+  if (!['ip', 'api-key', 'header'].includes(keyBy)) {
+    return 'Ключ клиента должен быть ip, api-key или header';
+  }
+  if (header !== undefined && (typeof header !== 'string' || !HEADER_NAME.test(header))) {
+    return 'Недопустимое имя заголовка';
+  }
+  if (keyBy === 'header' && !header) {
+    return 'Для ключа header нужно указать имя заголовка';
+  }
+  return undefined;
+}
+
+/**
+ * Валидирует настройки проверки securitySchemes
+ * @param security - настройки из тела запроса
+ * @returns текст ошибки или undefined, если настройки валидны
+ */
+export function validateSecuritySettings(security: any): string | undefined {
+  if (typeof security !== 'object' || security === null || Array.isArray(security)) {
+    return 'Настройки безопасности должны быть объектом';
+  }
+  const { enabled, credentials } = security as SecuritySettings;
+  if (typeof enabled !== 'boolean') {
+    return 'Поле enabled должно быть булевым';
+  }
+  if (credentials === undefined) {
+    return undefined;
+  }
+  if (!Array.isArray(credentials) || credentials.length > 100) {
+    return 'Учетные данные должны быть массивом (не более 100)';
+  }
+  for (const [index, credential] of credentials.entries()) {
+    const prefix = `Учетные данные ${index + 1}`;
+    if (typeof credential !== 'object' || credential === null) {
+      return `${prefix}: должны быть объектом`;
+    }
+    if (
+      typeof credential.value !== 'string' ||
+      !credential.value ||
+      credential.value.length > 4096
+    ) {
+      return `${prefix}: значение должно быть непустой строкой (до 4096 символов)`;
+    }
+    if (
+      credential.scopes !== undefined &&
+      (!Array.isArray(credential.scopes) ||
+        !credential.scopes.every((scope) => typeof scope === 'string' && scope.length <= 200))
+    ) {
+      return `${prefix}: скоупы должны быть массивом строк`;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Валидирует настройки встроенного OAuth2 провайдера
+ * @param oauth - настройки из тела запроса
+ * @returns текст ошибки или undefined, если настройки валидны
+ */
+export function validateOAuthSettings(oauth: any): string | undefined {
+  if (typeof oauth !== 'object' || oauth === null || Array.isArray(oauth)) {
+    return 'Настройки OAuth должны быть объектом';
+  }
+  const { expiresIn, claims, clients, users } = oauth as OAuthSettings;
+  const isObject = (value: unknown) =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+  const isNonEmptyString = (value: unknown) =>
+    typeof value === 'string' && value.length > 0 && value.length <= 256;
+  if (
+    expiresIn !== undefined &&
+    (!Number.isInteger(expiresIn) || expiresIn < 1 || expiresIn > 31536000)
+  ) {
+    return 'Время жизни токена должно быть от 1 секунды до года';
+  }
+  if (claims !== undefined && !isObject(claims)) {
+    return 'Claims должны быть объектом';
+  }
+  if (clients !== undefined) {
+    if (!Array.isArray(clients) || clients.length > 100) {
+      return 'Клиенты должны быть массивом (не более 100)';
+    }
+    for (const [index, client] of clients.entries()) {
+      if (!isObject(client) || !isNonEmptyString(client.clientId)) {
+        return `Клиент ${index + 1}: нужен непустой clientId`;
+      }
+      if (client.clientSecret !== undefined && !isNonEmptyString(client.clientSecret)) {
+        return `Клиент ${index + 1}: секрет должен быть непустой строкой`;
+      }
+    }
+  }
+  if (users !== undefined) {
+    if (!Array.isArray(users) || users.length > 100) {
+      return 'Пользователи должны быть массивом (не более 100)';
+    }
+    for (const [index, user] of users.entries()) {
+      if (!isObject(user) || !isNonEmptyString(user.username) || !isNonEmptyString(user.password)) {
+        return `Пользователь ${index + 1}: нужны непустые username и password`;
+      }
+      if (user.claims !== undefined && !isObject(user.claims)) {
+        return `Пользователь ${index + 1}: claims должны быть объектом`;
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Валидирует ключ эндпоинта вида METHOD:/path
+ * @param endpointKey - ключ эндпоинта
+ * @returns true если метод и путь допустимы
+ */
+export function isValidEndpointKey(endpointKey: unknown): boolean {
+  if (typeof endpointKey !== 'string') {
+    return false;
+  }
+  const separator = endpointKey.indexOf(':');
+  return (
+    separator > 0 &&
+    isValidHttpMethod(endpointKey.slice(0, separator)) &&
+    isValidEndpointPath(endpointKey.slice(separator + 1))
+  );
+}
+
+/**
+ * Валидирует сценарий: имя, описание и переопределения настроек эндпоинтов
+ * @param body - описание сценария
+ * @returns валидный сценарий или текст ошибки
+ */
+export function parseScenario(body: any): { scenario: Scenario } | { error: string } {
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    return { error: 'Сценарий должен быть объектом' };
+  }
+  const { name, description, endpoints } = body;
+  if (!isValidScenarioName(name)) {
+    return { error: 'Недопустимое имя сценария (латиница, цифры, . _ -, до 64 символов)' };
+  }
+  if (description !== undefined && (typeof description !== 'string' || description.length > 500)) {
+    return { error: 'Описание сценария должно быть строкой до 500 символов' };
+  }
+  if (typeof endpoints !== 'object' || endpoints === null || Array.isArray(endpoints)) {
+    return { error: 'endpoints должен быть объектом вида { "GET:/users": { ... } }' };
+  }
+  const entries = Object.entries(endpoints);
+  if (entries.length > 500) {
+    return { error: 'Слишком много эндпоинтов в сценарии (максимум 500)' };
+  }
+
+  const scenario: Scenario = { name, description, endpoints: {} };
+  for (const [endpointKey, override] of entries) {
+    // Ключ '*' задает настройки для всех эндпоинтов
+    if (endpointKey !== '*' && !isValidEndpointKey(endpointKey)) {
+      return {
+        error: `Недопустимый ключ эндпоинта ${endpointKey} (ожидается METHOD:/path или *)`,
+      };
+    }
+    const parsed = parseEndpointConfig(override);
+    if ('error' in parsed) {
+      return { error: `${endpointKey}: ${parsed.error}` };
+    }
+    const key = endpointKey === '*' ? '*' : endpointKey.replace(/^[^:]+/, (m) => m.toUpperCase());
+    scenario.endpoints[key] = parsed.config;
+  }
+  return { scenario };
+}
+
+/**
+ * Валидирует условные правила ответа эндпоинта
+ * @param rules - правила из тела запроса
+ * @returns текст ошибки или undefined, если правила валидны
+ */
+function validateRules(rules: unknown): string | undefined {
+  if (!Array.isArray(rules)) {
+    return 'Правила должны быть массивом';
+  }
+  if (rules.length > 50) {
+    return 'Слишком много правил (максимум 50)';
+  }
+  for (const [index, rule] of (rules as ResponseRule[]).entries()) {
+    const prefix = `Правило ${index + 1}`;
+    if (typeof rule !== 'object' || rule === null || !Array.isArray(rule.matchers)) {
+      return `${prefix}: должно быть объектом со списком условий matchers`;
+    }
+    if (rule.matchers.length > 20) {
+      return `${prefix}: слишком много условий (максимум 20)`;
+    }
+    for (const matcher of rule.matchers) {
+      if (!matcher || !['header', 'query', 'path', 'body'].includes(matcher.source)) {
+        return `${prefix}: источник условия должен быть header, query, path или body`;
+      }
+      if (typeof matcher.key !== 'string' || !matcher.key || matcher.key.length > 256) {
+        return `${prefix}: не указано имя параметра или JSONPath условия`;
+      }
+      if (!['equals', 'regex', 'exists', 'absent'].includes(matcher.operator)) {
+        return `${prefix}: сравнение должно быть equals, regex, exists или absent`;
+      }
+      if (matcher.operator === 'equals' || matcher.operator === 'regex') {
+        if (typeof matcher.value !== 'string' || matcher.value.length > 1000) {
+          return `${prefix}: для ${matcher.operator} нужно строковое значение`;
+        }
+      }
+      if (matcher.operator === 'regex') {
+        try {
+          new RegExp(matcher.value as string);
+        } catch {
+          return `${prefix}: некорректное регулярное выражение`;
+        }
+      }
+      if (matcher.source === 'body') {
+        try {
+          queryJsonPath({}, matcher.key);
+        } catch {
+          return `${prefix}: некорректный JSONPath ${matcher.key}`;
+        }
+      }
+    }
+    const responseError = validateResponseOverride(rule, prefix);
+    if (responseError) {
+      return responseError;
+    }
+  }
+  // Ограничиваем размер правил (максимум 1MB при сериализации)
+  if (JSON.stringify(rules).length > 1024 * 1024) {
+    return 'Правила слишком большие (максимум 1MB)';
+  }
+  return undefined;
+}
+
+/**
+ * Валидирует последовательность ответов эндпоинта
+ * @param sequence - последовательность из тела запроса
+ * @returns текст ошибки или undefined, если последовательность валидна
+ */
+function validateSequence(sequence: any): string | undefined {
+  if (typeof sequence !== 'object' || sequence === null || Array.isArray(sequence)) {
+    return 'Последовательность должна быть объектом';
+  }
+  if (!['stop', 'cycle', 'random'].includes(sequence.mode)) {
+    return 'Режим последовательности должен быть stop, cycle или random';
+  }
+  if (sequence.scope !== undefined && !['global', 'path'].includes(sequence.scope)) {
+    return 'Область счетчика последовательности должна быть global или path';
+  }
+  if (!Array.isArray(sequence.steps) || sequence.steps.length === 0) {
+    return 'Последовательность должна содержать хотя бы один шаг';
+  }
+  if (sequence.steps.length > 100) {
+    return 'Слишком много шагов последовательности (максимум 100)';
+  }
+  for (const [index, step] of (sequence.steps as SequenceStep[]).entries()) {
+    const prefix = `Шаг ${index + 1}`;
+    if (typeof step !== 'object' || step === null || Array.isArray(step)) {
+      return `${prefix}: должен быть объектом`;
+    }
+    const responseError = validateResponseOverride(step, prefix);
+    if (responseError) {
+      return responseError;
+    }
+  }
+  // Ограничиваем размер последовательности (максимум 1MB при сериализации)
+  if (JSON.stringify(sequence).length > 1024 * 1024) {
+    return 'Последовательность слишком большая (максимум 1MB)';
+  }
+  return undefined;
+}
+
+/**
+ * Валидирует переопределение ответа (правило или шаг последовательности): статус, задержку и заголовки
+ * @param override - правило или шаг
+ * @param prefix - префикс сообщения об ошибке
+ * @returns текст ошибки или undefined
+ */
+function validateResponseOverride(override: SequenceStep, prefix: string): string | undefined {
+  if (override.statusCode !== undefined && !isValidStatusCode(override.statusCode)) {
+    return `${prefix}: недопустимый статус код (100-599)`;
+  }
+  if (override.delay !== undefined && !isValidDelay(override.delay)) {
+    return `${prefix}: недопустимая задержка (0-60000 мс)`;
+  }
+  if (override.headers !== undefined) {
+    if (
+      typeof override.headers !== 'object' ||
+      override.headers === null ||
+      Array.isArray(override.headers)
+    ) {
+      return `${prefix}: заголовки должны быть объектом`;
+    }
+    for (const [name, value] of Object.entries(override.headers)) {
+      if (!HEADER_NAME.test(name) || typeof value !== 'string') {
+        return `${prefix}: недопустимый заголовок ${name}`;
+      }
+    }
+  }
+  return undefined;
+}
@@ -18,6 +18,8 @@ export function exportPostmanCollection(
       schema: 'https://schema.getpostman.com/json/collection/v2.1.0/collection.json',
     },
     item: [] as any[],
+    // Базовый URL мок-сервера с префиксом из servers спецификации
+    variable: [{ key: 'baseUrl', value: getBaseUrl(config) }],
   };
 
   // Группируем эндпоинты по тегам
@@ -61,10 +63,11 @@ export function exportPostmanCollection(
  * @returns элемент Postman
  */
 function createPostmanItem(endpoint: ParsedEndpoint, config: ServerConfig): any {
-  // Создаем базовый URL
-  const baseUrl = `http://${config.host || 'localhost'}:${config.port}`;
+  // Путь относительно базового URL (переменная {{baseUrl}} коллекции)
+  const relativePath = getRelativePath(endpoint, config);
   // Преобразуем Express путь в обычный URL
-  const url = baseUrl + endpoint.path.replace(/:\w+/g, (match: string) => `{{${match.slice(1)}}}`);
+  const url =
+    '{{baseUrl}}' + relativePath.replace(/:\w+/g, (match: string) => `{{${match.slice(1)}}}`);
 
   // Создаем запрос Postman
   const item: any = {
@@ -74,9 +77,8 @@ function createPostmanItem(endpoint: ParsedEndpoint, config: ServerConfig): any
       header: [],
       url: {
         raw: url,
-        host: [config.host || 'localhost'],
-        port: config.port.toString(),
-        path: endpoint.path.split('/').filter((p: string) => p),
+        host: ['{{baseUrl}}'],
+        path: relativePath.split('/').filter((p: string) => p),
       },
     },
   };
@@ -151,6 +153,15 @@ export function exportInsomniaCollection(
     resources: [] as any[],
   };
 
+  // Окружение с базовым URL мок-сервера (префикс из servers спецификации)
+  collection.resources.push({
+    _id: 'env_api_mock_base',
+    _type: 'environment',
+    _parentId: null,
+    name: 'Base Environment',
+    data: { baseUrl: getBaseUrl(config) },
+  });
+
   // Создаем ресурсы для каждого эндпоинта
   for (const endpoint of endpoints) {
     const resource = createInsomniaResource(endpoint, config);
@@ -167,9 +178,8 @@ export function exportInsomniaCollection(
  * @returns ресурс Insomnia
  */
 function createInsomniaResource(endpoint: ParsedEndpoint, config: ServerConfig): any {
-  // Создаем базовый URL
-  const baseUrl = `http://${config.host || 'localhost'}:${config.port}`;
-  const url = baseUrl + endpoint.path;
+  // URL относительно переменной baseUrl окружения
+  const url = '{{ _.baseUrl }}' + getRelativePath(endpoint, config);
 
   // Создаем ресурс Insomnia
   const resource: any = {
@@ -205,3 +215,26 @@ function createInsomniaResource(endpoint: ParsedEndpoint, config: ServerConfig):
 
   return resource;
 }
+
+/**
+ * Формирует базовый URL мок-сервера с префиксом маршрутов
+ * @param config - конфигурация сервера
+ * @returns базовый URL (например, http://localhost:3000/v2)
+ */
+function getBaseUrl(config: ServerConfig): string {
+  return `http://${config.host || 'localhost'}:${config.port}${config.basePath || ''}`;
+}
+
+/**
+ * Вычисляет путь эндпоинта относительно префикса маршрутов
+ * @param endpoint - распарсенный эндпоинт
+ * @param config - конфигурация сервера
+ * @returns путь без префикса
+ */
+function getRelativePath(endpoint: ParsedEndpoint, config: ServerConfig): string {
+  const basePath = config.basePath || '';
+  if (basePath && endpoint.path.startsWith(basePath)) {
+    return endpoint.path.slice(basePath.length) || '/';
+  }
+  return endpoint.path;
+}
@@ -3,4 +3,10 @@ export { MockServer } from './mock-server';
 export { RequestQueue } from './request-queue';
 export { RequestMonitor } from './request-monitor';
 export { SettingsManager } from './settings-manager';
+export { ResourceStore } from './resource-store';
+export { ResponseSequencer } from './response-sequencer';
+export { RateLimiter } from './rate-limiter';
+export { SecurityChecker } from './security-checker';
+export { OAuthProvider } from './oauth-provider';
+export { TrafficRecorder } from './traffic-recorder';
 export { exportPostmanCollection, exportInsomniaCollection } from './export-collection';
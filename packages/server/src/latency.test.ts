@@ -0,0 +1,67 @@
+import { sampleLatency } from './latency';
+
+/**
+ * Подменяет Math.random последовательностью значений
+ * @param values - значения, возвращаемые по очереди
+ */
+function mockRandom(...values: number[]): void {
+  const spy = jest.spyOn(Math, 'random');
+  for (const value of values) {
+    spy.mockReturnValueOnce(value);
+  }
+}
+
+describe('sampleLatency', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('выбирает задержку равномерно между min и max', () => {
+    mockRandom(0, 0.5, 0.999);
+
+    expect(sampleLatency({ distribution: 'uniform', min: 100, max: 300 })).toBe(100);
+    expect(sampleLatency({ distribution: 'uniform', min: 100, max: 300 })).toBe(200);
+    expect(sampleLatency({ distribution: 'uniform', min: 100, max: 300 })).toBe(300);
+  });
+
+  it('возвращает среднее нормального распределения при медианном значении', () => {
+    // u = 1 - 0.5, v = 0.25: cos(π/2) = 0, отклонение от среднего нулевое
+    mockRandom(0.5, 0.25);
+
+    expect(sampleLatency({ distribution: 'normal', mean: 200, stddev: 50 })).toBe(200);
+  });
+
+  it('подбирает логнормальное распределение по медиане и 99-му перцентилю', () => {
+    const profile = { distribution: 'lognormal' as const, p50: 100, p99: 1000 };
+    const samples = Array.from({ length: 2000 }, () => sampleLatency(profile)).sort(
+      (a, b) => a - b
+    );
+
+    expect(samples[1000]).toBeGreaterThan(80);
+    expect(samples[1000]).toBeLessThan(125);
+    expect(samples[1980]).toBeGreaterThan(600);
+    expect(samples[1980]).toBeLessThan(1600);
+  });
+
+  it('добавляет всплеск с заданной вероятностью', () => {
+    const profile = {
+      distribution: 'uniform' as const,
+      min: 10,
+      max: 10,
+      spikeProbability: 0.1,
+      spikeDelay: 5000,
+    };
+
+    mockRandom(0, 0.05, 0, 0.5);
+
+    expect(sampleLatency(profile)).toBe(5010);
+    expect(sampleLatency(profile)).toBe(10);
+  });
+
+  it('ограничивает задержку диапазоном 0-60000 мс', () => {
+    mockRandom(0.5, 0.25, 0.5, 0.25);
+
+    expect(sampleLatency({ distribution: 'normal', mean: -100, stddev: 0 })).toBe(0);
+    expect(sampleLatency({ distribution: 'normal', mean: 90000, stddev: 0 })).toBe(60000);
+  });
+});
@@ -0,0 +1,53 @@
+import { LatencyProfile } from '@api-mock-generator/shared';
+
+// Максимальная задержка (как в isValidDelay)
+const MAX_DELAY = 60000;
+
+// Квантиль стандартного нормального распределения для 99-го перцентиля
+const Z_99 = 2.3263;
+
+/**
+ * Выбирает случайную задержку по профилю
+ * Результат ограничен диапазоном 0-60000 мс
+ * @param profile - профиль задержки
+ * @returns задержка в миллисекундах
+ */
+export function sampleLatency(profile: LatencyProfile): number {
+  let delay: number;
+  switch (profile.distribution) {
+    case 'uniform': {
+      const min = profile.min ?? 0;
+      const max = profile.max ?? min;
+      delay = min + Math.random() * (max - min);
+      break;
+    }
+    case 'normal':
+      delay = (profile.mean ?? 0) + (profile.stddev ?? 0) * randomNormal();
+      break;
+    case 'lognormal': {
+      // Параметры логнормального распределения по медиане и 99-му перцентилю
+      const p50 = Math.max(profile.p50 ?? 1, 1);
+      const p99 = Math.max(profile.p99 ?? p50, p50);
+      const sigma = (Math.log(p99) - Math.log(p50)) / Z_99;
+      delay = Math.exp(Math.log(p50) + sigma * randomNormal());
+      break;
+    }
+    default:
+      delay = 0;
+  }
+
+  // Редкие всплески добавляются к выбранной задержке
+  if (profile.spikeProbability && profile.spikeDelay && Math.random() < profile.spikeProbability) {
+    delay += profile.spikeDelay;
+  }
+  return Math.round(Math.min(Math.max(delay, 0), MAX_DELAY));
+}
+
+/**
+ * Случайное число из стандартного нормального распределения (преобразование Бокса-Мюллера)
+ */
+function randomNormal(): number {
+  const u = 1 - Math.random();
+  const v = Math.random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
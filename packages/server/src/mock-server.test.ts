@@ -0,0 +1,478 @@
+import http, { IncomingHttpHeaders } from 'http';
+import net, { AddressInfo } from 'net';
+import { OpenAPIParser } from '@api-mock-generator/core';
+import { FaultConfig, ServerConfig } from '@api-mock-generator/shared';
+import { MockServer } from './mock-server';
+
+// Ответ на запрос, отправленный тестом
+interface TestResponse {
+  status: number;
+  headers: IncomingHttpHeaders;
+  body: any;
+}
+
+// Запущенный мок-сервер с адресом
+interface RunningServer {
+  server: MockServer;
+  url: string;
+}
+
+// Ответ с JSON схемой
+const jsonContent = (schema: any) => ({ 'application/json': { schema } });
+
+// Пользователь и ошибка из спецификации
+const user = {
+  type: 'object',
+  required: ['id', 'name'],
+  properties: { id: { type: 'integer' }, name: { type: 'string' } },
+};
+const problem = {
+  type: 'object',
+  required: ['message'],
+  properties: { message: { type: 'string' } },
+};
+
+// Спецификация: POST объявляет только 201, GET — 200 и 404 с примерами
+const spec = {
+  openapi: '3.0.3',
+  info: { title: 'Mock server test', version: '1.0.0' },
+  paths: {
+    '/users': {
+      post: {
+        responses: { '201': { description: 'created', content: jsonContent(user) } },
+      },
+    },
+    '/users/{id}': {
+      get: {
+        parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'integer' } }],
+        responses: {
+          '200': {
+            description: 'ok',
+            content: { 'application/json': { schema: user, example: { id: 1, name: 'Ann' } } },
+          },
+          '404': {
+            description: 'not found',
+            content: {
+              'application/json': {
+                schema: problem,
+                examples: { notFound: { value: { message: 'User not found' } } },
+              },
+            },
+          },
+        },
+      },
+    },
+  },
+};
+
+/**
+ * Находит свободный порт (MockServer слушает порт из конфигурации)
+ * @returns номер порта
+ */
+function freePort(): Promise<number> {
+  return new Promise((resolve) => {
+    const probe = net.createServer().listen(0, '127.0.0.1', () => {
+      const { port } = probe.address() as AddressInfo;
+      probe.close(() => resolve(port));
+    });
+  });
+}
+
+/**
+ * Запускает мок-сервер для спецификации
+ * @param document - спецификация OpenAPI
+ * @param config - дополнительные параметры конфигурации сервера
+ * @returns сервер и его адрес
+ */
+async function startServer(
+  document: any,
+  config: Partial<ServerConfig> = {}
+): Promise<RunningServer> {
+  const parser = new OpenAPIParser();
+  await parser.loadSpecFromObject(document);
+  const port = await freePort();
+  const server = new MockServer(
+    { port, host: '127.0.0.1', endpoints: new Map(), ...config },
+    parser.getSpec()
+  );
+  server.registerEndpoints(parser.parseEndpoints());
+  await server.start();
+  return { server, url: `http://127.0.0.1:${port}` };
+}
+
+/**
+ * Отправляет запрос без keep-alive
+ * @param url - адрес запроса
+ * @param options - метод, заголовки и тело запроса
+ * @returns статус, заголовки и тело ответа (валидный JSON разбирается)
+ */
+function request(
+  url: string,
+  options: { method?: string; headers?: Record<string, string>; body?: any } = {}
+): Promise<TestResponse> {
+  const payload = options.body !== undefined ? JSON.stringify(options.body) : undefined;
+  const headers: Record<string, string> = { ...options.headers };
+  if (payload !== undefined) {
+    headers['content-type'] = 'application/json';
+  }
+  return new Promise((resolve, reject) => {
+    const req = http.request(
+      url,
+      { method: options.method || 'GET', headers, agent: false },
+      (res) => {
+        const chunks: Buffer[] = [];
+        res.on('data', (chunk: Buffer) => chunks.push(chunk));
+        res.on('end', () => {
+          const text = Buffer.concat(chunks).toString();
+          let body: any = text;
+          // Испорченный сбоем JSON остается строкой
+          if (String(res.headers['content-type']).includes('json')) {
+            try {
+              body = JSON.parse(text);
+            } catch {
+              body = text;
+            }
+          }
+          resolve({ status: res.statusCode || 0, headers: res.headers, body });
+        });
+      }
+    );
+    req.on('error', reject);
+    req.end(payload);
+  });
+}
+
+describe('MockServer', () => {
+  let running: RunningServer;
+
+  beforeAll(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    running = await startServer(spec);
+  });
+
+  afterEach(() => {
+    const settings = running.server.getSettingsManager();
+    settings.deleteEndpointConfig('POST:/users');
+    settings.deleteEndpointConfig('GET:/users/:id');
+  });
+
+  afterAll(async () => {
+    await running.server.stop();
+    jest.restoreAllMocks();
+  });
+
+  describe('статус ответа', () => {
+    it('отвечает первым объявленным 2xx статусом, если объявлен только 201', async () => {
+      const response = await request(`${running.url}/users`, {
+        method: 'POST',
+        body: { name: 'Ann' },
+      });
+
+      expect(response.status).toBe(201);
+      expect(response.body).toEqual({ id: expect.any(Number), name: expect.any(String) });
+    });
+
+    it('генерирует тело по схеме ответа для настроенного статус кода', async () => {
+      running.server.getSettingsManager().saveEndpointConfig('GET:/users/:id', {
+        statusCode: 404,
+      });
+
+      const response = await request(`${running.url}/users/1`);
+
+      expect(response.status).toBe(404);
+      expect(response.body).toEqual({ message: expect.any(String) });
+    });
+
+    it('использует схему успешного ответа для необъявленного 2xx статуса', async () => {
+      running.server.getSettingsManager().saveEndpointConfig('GET:/users/:id', {
+        statusCode: 202,
+      });
+
+      const response = await request(`${running.url}/users/1`);
+
+      expect(response.status).toBe(202);
+      expect(response.body).toEqual({ id: expect.any(Number), name: expect.any(String) });
+    });
+
+    it('проверяет кастомный ответ по схеме 201 без настроенного статуса', () => {
+      const violations = running.server.validateCustomResponse('POST:/users', undefined, {
+        id: 'x',
+      });
+
+      expect(violations).toEqual([
+        expect.objectContaining({ path: '', keyword: 'required' }),
+        expect.objectContaining({ path: '/id', keyword: 'type' }),
+      ]);
+      expect(
+        running.server.validateCustomResponse('POST:/users', undefined, { id: 1, name: 'Ann' })
+      ).toEqual([]);
+    });
+  });
+
+  describe('admin API кастомных ответов', () => {
+    const adminUrl = () => `${running.url}/api/endpoints/POST/${encodeURIComponent('/users')}`;
+
+    it('отклоняет кастомный ответ, не соответствующий схеме ответа', async () => {
+      const saved = await request(adminUrl(), {
+        method: 'PUT',
+        body: { customResponse: { id: 'x' } },
+      });
+
+      expect(saved.status).toBe(400);
+      expect(saved.body).toEqual({
+        error: 'Кастомный ответ не соответствует схеме ответа',
+        violations: [
+          expect.objectContaining({ path: '', keyword: 'required' }),
+          expect.objectContaining({ path: '/id', keyword: 'type' }),
+        ],
+      });
+      expect(running.server.getSettingsManager().getEndpointConfig('POST:/users')).toBeUndefined();
+    });
+
+    it('сохраняет несоответствующий схеме ответ с force', async () => {
+      const saved = await request(adminUrl(), {
+        method: 'PUT',
+        body: { customResponse: { id: 'x' }, force: true },
+      });
+      const response = await request(`${running.url}/users`, { method: 'POST', body: {} });
+
+      expect(saved.status).toBe(200);
+      expect(response.status).toBe(201);
+      expect(response.body).toEqual({ id: 'x' });
+    });
+
+    it('сохраняет прежний кастомный ответ, если поле customResponse не передано', async () => {
+      await request(adminUrl(), {
+        method: 'PUT',
+        body: { customResponse: { id: 1, name: 'Ann' } },
+      });
+      const saved = await request(adminUrl(), { method: 'PUT', body: { delay: 0 } });
+
+      expect(saved.status).toBe(200);
+      expect(running.server.getSettingsManager().getEndpointConfig('POST:/users')).toMatchObject({
+        customResponse: { id: 1, name: 'Ann' },
+      });
+    });
+  });
+
+  describe('сценарии', () => {
+    beforeEach(() => {
+      running.server.getSettingsManager().saveScenario({
+        name: 'broken',
+        endpoints: { '*': { statusCode: 404 } },
+      });
+    });
+
+    afterEach(() => {
+      running.server.getSettingsManager().deleteScenario('broken');
+    });
+
+    it('применяет сценарий из заголовка X-Mock-Scenario', async () => {
+      const response = await request(`${running.url}/users/1`, {
+        headers: { 'X-Mock-Scenario': 'broken' },
+      });
+
+      expect(response.status).toBe(404);
+      expect(response.body).toEqual({ message: expect.any(String) });
+    });
+
+    it('отключает активный сценарий заголовком со значением none', async () => {
+      running.server.getSettingsManager().setActiveScenario('broken');
+
+      const active = await request(`${running.url}/users/1`);
+      const none = await request(`${running.url}/users/1`, {
+        headers: { 'X-Mock-Scenario': 'none' },
+      });
+
+      expect(active.status).toBe(404);
+      expect(none.status).toBe(200);
+    });
+
+    it('отвечает 400 для неизвестного сценария', async () => {
+      const response = await request(`${running.url}/users/1`, {
+        headers: { 'X-Mock-Scenario': 'missing' },
+      });
+
+      expect(response.status).toBe(400);
+      expect(response.body).toEqual({ error: 'Unknown mock scenario: missing' });
+    });
+  });
+
+  describe('примеры и заголовок Prefer', () => {
+    it('отвечает примером ответа в режиме examples', async () => {
+      running.server.getSettingsManager().saveEndpointConfig('GET:/users/:id', {
+        generationMode: 'examples',
+      });
+
+      const response = await request(`${running.url}/users/7`);
+
+      expect(response.body).toEqual({ id: 1, name: 'Ann' });
+    });
+
+    it('находит именованный пример в ответах эндпоинта и выставляет Preference-Applied', async () => {
+      const response = await request(`${running.url}/users/7`, {
+        headers: { Prefer: 'example=notFound' },
+      });
+
+      expect(response.status).toBe(404);
+      expect(response.body).toEqual({ message: 'User not found' });
+      expect(response.headers['preference-applied']).toBe('example=notFound');
+    });
+
+    it('выбирает статус код и генерацию по схеме через Prefer', async () => {
+      running.server.getSettingsManager().saveEndpointConfig('GET:/users/:id', {
+        generationMode: 'examples',
+      });
+
+      const response = await request(`${running.url}/users/7`, {
+        headers: { Prefer: 'code=404, dynamic=true' },
+      });
+
+      expect(response.status).toBe(404);
+      expect(response.body).toEqual({ message: expect.any(String) });
+      expect(response.body.message).not.toBe('User not found');
+      expect(response.headers['preference-applied']).toBe('code=404, dynamic=true');
+    });
+
+    it('отвечает 400 для неизвестного примера и некорректного Prefer', async () => {
+      const unknown = await request(`${running.url}/users/7`, {
+        headers: { Prefer: 'code=200; example=notFound' },
+      });
+      const invalid = await request(`${running.url}/users/7`, {
+        headers: { Prefer: 'code=abc' },
+      });
+
+      expect(unknown.status).toBe(400);
+      expect(unknown.body).toEqual({ error: 'Unknown example: notFound' });
+      expect(invalid.status).toBe(400);
+      expect(invalid.body).toEqual({ error: 'Invalid Prefer code: abc' });
+    });
+  });
+
+  describe('генерация с seed', () => {
+    it('повторяет ответы для одного ресурса в режиме resource', async () => {
+      const seeded = await startServer(spec, { seed: 42, seedMode: 'resource' });
+      try {
+        const first = await request(`${seeded.url}/users/1`);
+        const repeated = await request(`${seeded.url}/users/1`);
+        const other = await request(`${seeded.url}/users/2`);
+
+        expect(repeated.body).toEqual(first.body);
+        expect(other.body).not.toEqual(first.body);
+      } finally {
+        await seeded.server.stop();
+      }
+    });
+
+    it('повторяет последовательность ответов после перезапуска в режиме call', async () => {
+      /**
+       * Запускает сервер с seed и выполняет два запроса
+       * @returns тела ответов
+       */
+      const run = async () => {
+        const seeded = await startServer(spec, { seed: 7 });
+        try {
+          const first = await request(`${seeded.url}/users/1`);
+          const second = await request(`${seeded.url}/users/1`);
+          return [first.body, second.body];
+        } finally {
+          await seeded.server.stop();
+        }
+      };
+
+      const [first, second] = await run();
+
+      expect(second).not.toEqual(first);
+      expect(await run()).toEqual([first, second]);
+    });
+  });
+
+  describe('локаль данных', () => {
+    it('генерирует данные на языке из Accept-Language', async () => {
+      const response = await request(`${running.url}/users/1`, {
+        headers: { 'Accept-Language': 'xx, ru;q=0.9, en;q=0.5' },
+      });
+
+      expect(response.body.name).toMatch(/^[\p{Script=Cyrillic}\s.'-]+$/u);
+    });
+  });
+
+  describe('сбои', () => {
+    /**
+     * Включает сбой для GET /users/:id с вероятностью 1
+     * @param fault - тип сбоя и статус код
+     */
+    function injectFault(fault: Omit<FaultConfig, 'probability'>): void {
+      running.server.getSettingsManager().saveEndpointConfig('GET:/users/:id', {
+        faults: [{ ...fault, probability: 1 }],
+      });
+    }
+
+    it('отвечает телом по схеме для статуса сбоя error', async () => {
+      injectFault({ type: 'error', statusCode: 404 });
+
+      const response = await request(`${running.url}/users/1`);
+
+      expect(response.status).toBe(404);
+      expect(response.body).toEqual({ message: expect.any(String) });
+    });
+
+    it('отвечает пустым телом для сбоя empty', async () => {
+      injectFault({ type: 'empty' });
+
+      const response = await request(`${running.url}/users/1`);
+
+      expect(response.status).toBe(200);
+      expect(response.body).toBe('');
+    });
+
+    it('портит JSON для сбоев truncate и malformed', async () => {
+      injectFault({ type: 'truncate' });
+      const truncated = await request(`${running.url}/users/1`);
+      injectFault({ type: 'malformed' });
+      const malformed = await request(`${running.url}/users/1`);
+
+      expect(truncated.headers['content-type']).toContain('application/json');
+      expect(typeof truncated.body).toBe('string');
+      expect(malformed.body).toMatch(/,}$/);
+    });
+
+    it('обрывает соединение для сбоя reset', async () => {
+      injectFault({ type: 'reset' });
+
+      await expect(request(`${running.url}/users/1`)).rejects.toThrow();
+    });
+
+    it('закрывает зависшие запросы при остановке сервера', async () => {
+      const hanging = await startServer(spec);
+      hanging.server.getSettingsManager().saveEndpointConfig('GET:/users/:id', {
+        faults: [{ type: 'hang', probability: 1 }],
+      });
+      const pending = request(`${hanging.url}/users/1`);
+      // Даем запросу дойти до сервера
+      await new Promise((resolve) => setTimeout(resolve, 100));
+
+      await hanging.server.stop();
+
+      await expect(pending).rejects.toThrow();
+    });
+  });
+
+  describe('ограничение частоты запросов', () => {
+    it('отвечает 429 с Retry-After после исчерпания квоты эндпоинта', async () => {
+      running.server.getSettingsManager().saveEndpointConfig('GET:/users/:id', {
+        rateLimit: { algorithm: 'fixed-window', limit: 1, windowMs: 60000, keyBy: 'ip' },
+      });
+
+      const allowed = await request(`${running.url}/users/1`);
+      const denied = await request(`${running.url}/users/1`);
+
+      expect(allowed.status).toBe(200);
+      expect(allowed.headers['x-ratelimit-limit']).toBe('1');
+      expect(allowed.headers['x-ratelimit-remaining']).toBe('0');
+      expect(denied.status).toBe(429);
+      expect(denied.headers['retry-after']).toBe('60');
+      expect(denied.body).toEqual({ error: 'Too many requests' });
+    });
+  });
+});
@@ -2,13 +2,81 @@ import express, { Express, Request, Response, NextFunction } from 'express';
 import cors from 'cors';
 import bodyParser from 'body-parser';
 import expressWs from 'express-ws';
-import { ParsedEndpoint, EndpointConfig, ServerConfig } from '@api-mock-generator/shared';
-import { DataGenerator, TemplateEngine } from '@api-mock-generator/core';
+import { Server } from 'http';
+import {
+  ParsedEndpoint,
+  EndpointConfig,
+  FaultConfig,
+  GenerationMode,
+  ServerConfig,
+  SchemaViolation,
+  SecuritySettings,
+  SequenceStep,
+  TemplateContext,
+  ThrottleConfig,
+  ValidationMode,
+} from '@api-mock-generator/shared';
+import {
+  DataGenerator,
+  SchemaValidator,
+  TemplateEngine,
+  selectResponse,
+  selectMediaType,
+  selectExample,
+  deriveSeed,
+  withSeed,
+  withLocale,
+  negotiateLocale,
+  loadPropertyNameMap,
+} from '@api-mock-generator/core';
 import { RequestQueue } from './request-queue';
 import { RequestMonitor } from './request-monitor';
 import { setupUIRoutes } from './ui-routes';
 import { setupAPIRoutes } from './api-routes';
 import { SettingsManager } from './settings-manager';
+import { RequestValidator } from './request-validator';
+import { ResourceStore, StoreResult } from './resource-store';
+import { setupStoreRoutes } from './store-routes';
+import { findMatchingRule } from './response-rules';
+import { setupScenarioRoutes } from './scenario-routes';
+import { ResponseSequencer } from './response-sequencer';
+import { setupSequenceRoutes } from './sequence-routes';
+import { sampleLatency } from './latency';
+import { sendThrottled } from './throttle';
+import { RateLimiter, RateLimitResult } from './rate-limiter';
+import { setupRateLimitRoutes } from './rate-limit-routes';
+import { SecurityChecker } from './security-checker';
+import { OAuthProvider } from './oauth-provider';
+import { setupOAuthRoutes } from './oauth-routes';
+import { forwardRequest } from './proxy';
+import { TrafficRecorder } from './traffic-recorder';
+import { formatPreferenceApplied, parsePreferHeader } from './prefer-header';
+
+// Описание ответа, выбранного для статус кода
+interface ResponseSpec {
+  // Схема тела ответа
+  schema?: any;
+  // MIME тип тела ответа
+  contentType?: string;
+  // Заголовки ответа из спецификации
+  headers?: Record<string, any>;
+  // Пример ответа (example)
+  example?: any;
+  // Именованные примеры ответа (examples)
+  examples?: Record<string, any>;
+}
+
+// Параметры генерации ответа
+interface GenerationOptions {
+  // Режим генерации: случайные данные или примеры из спецификации
+  mode?: GenerationMode;
+  // Seed генерации
+  seed?: number;
+  // Вариант oneOf/anyOf
+  variant?: string;
+  // Локаль данных
+  locale?: string;
+}
 
 /**
  * Мок-сервер на основе Express
@@ -29,8 +97,30 @@ export class MockServer {
   private requestMonitor: RequestMonitor;
   // Менеджер настроек
   private settingsManager: SettingsManager;
+  // Валидатор входящих запросов
+  private requestValidator: RequestValidator;
+  // Валидатор кастомных ответов по схемам ответов
+  private schemaValidator: SchemaValidator;
+  // Хранилище ресурсов (только в stateful режиме)
+  private resourceStore?: ResourceStore;
+  // Счетчики последовательностей ответов
+  private responseSequencer: ResponseSequencer;
+  // Квоты ограничения частоты запросов
+  private rateLimiter: RateLimiter;
+  // Проверка требований безопасности операций
+  private securityChecker: SecurityChecker;
+  // Встроенный OAuth2/OIDC провайдер
+  private oauthProvider: OAuthProvider;
+  // Запись ответов backend (режим записи)
+  private trafficRecorder?: TrafficRecorder;
+  // Номера вызовов эндпоинтов для seed в режиме call
+  private seedCalls: Map<string, number> = new Map();
   // Зарегистрированные эндпоинты
   private endpoints: ParsedEndpoint[] = [];
+  // HTTP сервер (после запуска)
+  private server?: Server;
+  // Запросы со сбоем hang: соединения закрываются при остановке сервера
+  private hungResponses: Set<Response> = new Set();
 
   constructor(config: ServerConfig, spec?: any) {
     // Создаем Express приложение
@@ -40,7 +130,11 @@ export class MockServer {
     // Сохраняем конфигурацию
     this.config = config;
     // Инициализируем генератор данных с спецификацией для разрешения $ref
-    this.dataGenerator = new DataGenerator(spec);
+    // и пользовательскими сопоставлениями имен свойств
+    this.dataGenerator = new DataGenerator(
+      spec,
+      config.propertyNamesPath ? loadPropertyNameMap(config.propertyNamesPath) : undefined
+    );
     // Инициализируем движок шаблонов
     this.templateEngine = new TemplateEngine();
     // Инициализируем очередь запросов
@@ -48,14 +142,62 @@ export class MockServer {
     // Инициализируем монитор запросов
     this.requestMonitor = new RequestMonitor();
     // Инициализируем менеджер настроек
-    this.settingsManager = new SettingsManager(config);
+    this.settingsManager = new SettingsManager(config, config.settingsPath);
+    // Загружаем сохраненные настройки (в том числе записанные ответы backend)
+    this.settingsManager.loadFromFile();
+    // Загружаем сценарии и активируем стартовый сценарий
+    if (config.scenariosPath) {
+      this.settingsManager.loadScenariosFromFile(config.scenariosPath);
+    }
+    if (config.activeScenario) {
+      this.settingsManager.setActiveScenario(config.activeScenario);
+    }
+    // Инициализируем валидатор запросов с спецификацией для разрешения $ref
+    this.requestValidator = new RequestValidator(spec);
+    this.schemaValidator = new SchemaValidator(spec);
+    // В stateful режиме коллекции хранят записи в памяти
+    if (config.stateful) {
+      this.resourceStore = new ResourceStore(
+        this.dataGenerator,
+        spec,
+        config.seedCount ?? 5,
+        config.seed,
+        config.locale
+      );
+    }
+    // Инициализируем счетчики последовательностей ответов
+    this.responseSequencer = new ResponseSequencer();
+    // Инициализируем ограничитель частоты запросов
+    this.rateLimiter = new RateLimiter();
+    // Инициализируем OAuth2 провайдер и проверку securitySchemes (JWT проверяются провайдером)
+    this.oauthProvider = new OAuthProvider();
+    this.securityChecker = new SecurityChecker((token) => this.oauthProvider.verify(token));
+    // В режиме записи ответы backend сохраняются в настройки эндпоинтов
+    if (config.recordMode && config.proxyUrl) {
+      this.trafficRecorder = new TrafficRecorder(this.settingsManager);
+    }
 
     // Настраиваем middleware
     this.setupMiddleware();
     // Настраиваем WebSocket для мониторинга
     this.setupWebSocket();
     // Настраиваем UI маршруты
-    setupUIRoutes(this.app, this.config, this.requestMonitor, this.settingsManager);
+    setupUIRoutes(
+      this.app,
+      this.config,
+      this.requestMonitor,
+      this.settingsManager,
+      (endpointKey, statusCode, customResponse) =>
+        this.validateCustomResponse(endpointKey, statusCode, customResponse)
+    );
+    // Настраиваем admin API сценариев
+    setupScenarioRoutes(this.app, this.settingsManager);
+    // Настраиваем admin API счетчиков последовательностей
+    setupSequenceRoutes(this.app, this.responseSequencer);
+    // Настраиваем admin API квот ограничения частоты
+    setupRateLimitRoutes(this.app, this.rateLimiter);
+    // Настраиваем встроенный OAuth2/OIDC провайдер
+    setupOAuthRoutes(this.app, this.oauthProvider, this.settingsManager);
   }
 
   /**
@@ -84,17 +226,36 @@ export class MockServer {
 
     // Устанавливаем лимиты на размер тела запроса (защита от DoS)
     const MAX_REQUEST_SIZE = '10mb';
-    // Парсим JSON тела запросов с лимитом
-    this.app.use(bodyParser.json({ limit: MAX_REQUEST_SIZE }));
+    // Исходное тело сохраняется для передачи на backend в режиме прокси
+    const keepRawBody = (req: Request, _res: Response, buffer: Buffer) => {
+      (req as any).rawBody = buffer;
+    };
+    // Парсим JSON тела запросов с лимитом (включая типы вида application/merge-patch+json)
+    this.app.use(
+      bodyParser.json({
+        limit: MAX_REQUEST_SIZE,
+        type: ['application/json', 'application/*+json'],
+        verify: keepRawBody,
+      })
+    );
     // Парсим URL-encoded тела запросов с лимитом
-    this.app.use(bodyParser.urlencoded({ extended: true, limit: MAX_REQUEST_SIZE }));
+    this.app.use(
+      bodyParser.urlencoded({ extended: true, limit: MAX_REQUEST_SIZE, verify: keepRawBody })
+    );
     // Middleware для логирования запросов
     this.app.use((req: Request, res: Response, next: NextFunction) => {
       const startTime = Date.now();
+      let logged = false;
+      const log = () => {
+        if (!logged) {
+          logged = true;
+          this.requestMonitor.logRequest(req, res, startTime);
+        }
+      };
       // Логируем после отправки ответа
-      res.on('finish', () => {
-        this.requestMonitor.logRequest(req, res, startTime);
-      });
+      res.on('finish', log);
+      // Оборванные соединения (сбои reset и hang) логируем при закрытии
+      res.on('close', log);
       next();
     });
   }
@@ -120,6 +281,11 @@ export class MockServer {
     for (const endpoint of endpoints) {
       this.registerEndpoint(endpoint);
     }
+    // Выводим коллекции и наполняем хранилище
+    if (this.resourceStore) {
+      this.resourceStore.registerEndpoints(endpoints);
+      setupStoreRoutes(this.app, this.resourceStore);
+    }
     // Настраиваем API маршруты для экспорта
     setupAPIRoutes(this.app, this.endpoints, this.config);
   }
@@ -138,73 +304,773 @@ export class MockServer {
         path: endpoint.path,
         method: endpoint.method,
         delay: 0,
-        statusCode: 200,
+        statusCode: this.resolveDefaultStatus(endpoint),
       });
     }
     
-    const config = this.config.endpoints.get(endpointKey);
-
     // Создаем обработчик запроса
-    const handler = async (_req: Request, res: Response, _next: NextFunction) => {
+    const handler = async (req: Request, res: Response, _next: NextFunction) => {
       try {
+        // Читаем конфигурацию на каждый запрос, чтобы изменения из UI применялись сразу
+        // (с учетом сценария, выбранного для запроса)
+        const config = this.settingsManager.getEffectiveEndpointConfig(
+          endpointKey,
+          res.locals.scenario ?? null
+        );
+
+        // Эндпоинт passthrough обслуживает реальный backend
+        if (config?.passthrough && this.config.proxyUrl) {
+          await this.proxy(req, res);
+          return;
+        }
+        // В режиме записи ответ backend сохраняется в настройки эндпоинта
+        if (this.trafficRecorder) {
+          await this.proxy(req, res, endpointKey);
+          return;
+        }
+
+        // Локаль сгенерированных данных (используется и ответами 429, 401 и сбоями)
+        res.locals.locale = this.resolveLocale(req);
+
+        // Ограничение частоты: при исчерпанной квоте уже отправлен ответ 429
+        if (await this.enforceRateLimits(req, res, endpoint, endpointKey, config)) {
+          return;
+        }
+
+        // Проверка securitySchemes: при отказе уже отправлен ответ 401 или 403
+        if (await this.enforceSecurity(req, res, endpoint)) {
+          return;
+        }
+
+        // Проверяем запрос по схемам спецификации
+        const validationMode = this.resolveValidationMode(config);
+        if (validationMode !== 'off') {
+          const violations = this.requestValidator.validate(endpoint, req);
+          if (violations.length > 0) {
+            // Нарушения попадают в лог запроса и видны в мониторе
+            res.locals.validationErrors = violations;
+            if (validationMode === 'strict') {
+              res.status(400).json({ error: 'Request validation failed', violations });
+              return;
+            }
+          }
+        }
+
+        // Заголовок Prefer выбирает статус код, именованный пример или генерацию по схеме
+        const prefer = parsePreferHeader(req.get('Prefer'));
+        if ('error' in prefer) {
+          res.status(400).json({ error: prefer.error });
+          return;
+        }
+        const { preferences } = prefer;
+
+        // Внедряемые сбои: эндпоинта или глобальные из настроек сервера
+        const fault = this.pickFault(config);
+        if (fault) {
+          const faultDelay = this.resolveDelay(config);
+          if (faultDelay) {
+            await this.delay(faultDelay);
+          }
+          await this.injectFault(res, endpoint, fault, config);
+          return;
+        }
+
+        // Ответ, выбранный через Prefer, берется из спецификации без правил и последовательности
+        const preferred = preferences.code !== undefined || preferences.example !== undefined;
+
+        // Условные правила: первое совпавшее переопределяет статус, заголовки, задержку и тело
+        const rule = !preferred && config?.rules ? findMatchingRule(config.rules, req) : undefined;
+        // Если правило не совпало, ответ берется из последовательности по номеру вызова
+        const override: SequenceStep | undefined =
+          rule ||
+          (!preferred && config?.sequence
+            ? this.responseSequencer.next(endpointKey, config.sequence, req)
+            : undefined);
+
+        // Выбираем объявленный ответ для настроенного статус кода (по умолчанию — первый 2xx)
+        let statusCode =
+          preferences.code ||
+          override?.statusCode ||
+          config?.statusCode ||
+          this.resolveDefaultStatus(endpoint);
+        // Именованный пример без кода ищется во всех ответах эндпоинта
+        if (preferences.example !== undefined) {
+          const exampleStatus = this.findExampleStatus(
+            endpoint,
+            preferences.example,
+            statusCode,
+            preferences.code === undefined
+          );
+          if (exampleStatus === undefined) {
+            res.status(400).json({ error: `Unknown example: ${preferences.example}` });
+            return;
+          }
+          statusCode = exampleStatus;
+        }
+
         // Применяем задержку если указана
-        if (config?.delay) {
-          await this.delay(config.delay);
+        const delay = this.resolveDelay(config, override);
+        if (delay) {
+          await this.delay(delay);
+        }
+
+        // Stateful режим: коллекции обслуживаются хранилищем, пока не задан кастомный ответ,
+        // правило, последовательность, ответ через Prefer или статус код вне 2xx
+        if (
+          this.resourceStore &&
+          !preferred &&
+          !override &&
+          !config?.customResponse &&
+          statusCode < 300
+        ) {
+          const result = this.resourceStore.handle(endpoint, req);
+          if (result) {
+            await this.sendStoreResult(res, endpoint, result, this.resolveThrottle(config));
+            return;
+          }
         }
 
-        // Генерируем ответ
-        const response = await this.generateResponse(endpoint, config);
+        const responseSpec = this.resolveResponseSpec(endpoint, statusCode);
 
-        // Устанавливаем статус код
-        const statusCode = config?.statusCode || 200;
+        // Генерируем ответ (шаблон правила или шага, иначе кастомный ответ эндпоинта)
+        const template = preferred
+          ? undefined
+          : override
+            ? override.response
+            : config?.customResponse;
+        const generationMode =
+          preferences.dynamic === undefined
+            ? this.resolveGenerationMode(config)
+            : preferences.dynamic
+              ? 'dynamic'
+              : 'examples';
+        // Seed генерации: --seed или seed эндпоинта, в режиме resource — по ресурсу
+        const seed = this.resolveSeed(req, endpointKey, config);
+        // Claims bearer токена провайдера доступны шаблонам как {{claim:sub}}
+        const response =
+          preferences.example !== undefined
+            ? selectExample(responseSpec, preferences.example)
+            : await this.generateResponse(
+                responseSpec,
+                template,
+                { claims: this.oauthProvider.getRequestClaims(req) },
+                { mode: generationMode, seed, variant: config?.variant, locale: res.locals.locale }
+              );
+
+        // Устанавливаем статус код и заголовки из спецификации и правила или шага
         res.status(statusCode);
+        this.applyResponseHeaders(res, responseSpec.headers, seed);
+        for (const [name, value] of Object.entries(override?.headers || {})) {
+          res.setHeader(name, value);
+        }
+        const preferenceApplied = formatPreferenceApplied(preferences);
+        if (preferenceApplied) {
+          res.setHeader('Preference-Applied', preferenceApplied);
+        }
+
+        // Ответы без тела (204, 304 и HEAD)
+        if (statusCode === 204 || statusCode === 304 || endpoint.method === 'HEAD') {
+          res.end();
+          return;
+        }
 
-        // Отправляем ответ
-        res.json(response);
+        // Отправляем ответ с MIME типом из спецификации
+        await this.sendBody(res, response, responseSpec.contentType, this.resolveThrottle(config));
       } catch (error) {
         // Обрабатываем ошибки
         // eslint-disable-next-line no-console
         console.error(`Error handling ${endpoint.method} ${endpoint.path}:`, error);
+        // Ответ уже начат (поток с ограничением скорости): статус не отправить, обрываем соединение
+        if (res.headersSent) {
+          res.destroy();
+          return;
+        }
         res.status(500).json({ error: 'Internal server error' });
       }
     };
 
     // Регистрируем маршрут в зависимости от метода
     const method = endpoint.method.toLowerCase() as keyof Express;
-    if (config?.queueEnabled) {
-      // Если включена очередь, добавляем в очередь
-      this.app[method](endpoint.path, (req: Request, res: Response, next: NextFunction) => {
+    this.app[method](endpoint.path, (req: Request, res: Response, next: NextFunction) => {
+      // Сценарий запроса: заголовок X-Mock-Scenario или активный сценарий сервера
+      const scenarioHeader = req.get('X-Mock-Scenario');
+      if (
+        scenarioHeader &&
+        scenarioHeader !== 'none' &&
+        !this.settingsManager.getScenario(scenarioHeader)
+      ) {
+        res.status(400).json({ error: `Unknown mock scenario: ${scenarioHeader}` });
+        return;
+      }
+      res.locals.scenario =
+        scenarioHeader === 'none'
+          ? undefined
+          : scenarioHeader || this.settingsManager.getActiveScenario();
+
+      const config = this.settingsManager.getEffectiveEndpointConfig(
+        endpointKey,
+        res.locals.scenario ?? null
+      );
+      if (config?.queueEnabled) {
+        // Если включена очередь, добавляем в очередь
         this.requestQueue.enqueue(req, res, next, handler);
-      });
-    } else {
-      // Иначе обрабатываем напрямую
-      this.app[method](endpoint.path, handler);
+      } else {
+        // Иначе обрабатываем напрямую
+        handler(req, res, next);
+      }
+    });
+  }
+
+  /**
+   * Передает запрос на backend из --proxy и помечает его в мониторе как проксированный
+   * @param req - объект запроса Express
+   * @param res - объект ответа Express
+   * @param recordAs - ключ эндпоинта, под которым записывается ответ (режим записи)
+   */
+  private async proxy(req: Request, res: Response, recordAs?: string): Promise<void> {
+    res.locals.proxied = true;
+    const recorder = recordAs ? this.trafficRecorder : undefined;
+    // При записи ответ запрашивается без сжатия, чтобы сохранить тело как JSON
+    const headers = recorder
+      ? { ...this.config.proxyHeaders, 'Accept-Encoding': 'identity' }
+      : this.config.proxyHeaders;
+    await forwardRequest(req, res, this.config.proxyUrl as string, headers, (exchange) => {
+      try {
+        if (recorder?.record(recordAs as string, req, exchange)) {
+          // eslint-disable-next-line no-console
+          console.log(`Записан ответ ${exchange.statusCode}: ${req.method} ${req.originalUrl}`);
+        }
+      } catch (error) {
+        // eslint-disable-next-line no-console
+        console.error('Ошибка при записи ответа:', error);
+      }
+    });
+  }
+
+  /**
+   * Определяет режим валидации запросов: эндпоинт → настройки сервера → конфигурация запуска
+   * @param config - конфигурация эндпоинта
+   * @returns режим валидации
+   */
+  private resolveValidationMode(config?: EndpointConfig): ValidationMode {
+    return (
+      config?.validationMode ||
+      this.settingsManager.getServerSettings().validationMode ||
+      this.config.validationMode ||
+      'off'
+    );
+  }
+
+  /**
+   * Определяет режим генерации ответов: эндпоинт → настройки сервера → конфигурация запуска
+   * @param config - конфигурация эндпоинта
+   * @returns режим генерации
+   */
+  private resolveGenerationMode(config?: EndpointConfig): GenerationMode {
+    return (
+      config?.generationMode ||
+      this.settingsManager.getServerSettings().generationMode ||
+      this.config.generationMode ||
+      'dynamic'
+    );
+  }
+
+  /**
+   * Определяет локаль сгенерированных данных: Accept-Language → настройки сервера → --locale
+   * @param req - объект запроса Express
+   * @returns локаль faker или undefined для английской
+   */
+  private resolveLocale(req: Request): string | undefined {
+    return (
+      negotiateLocale(req.get('Accept-Language')) ||
+      this.settingsManager.getServerSettings().locale ||
+      this.config.locale
+    );
+  }
+
+  /**
+   * Вычисляет seed генерации ответа на запрос
+   * В режиме call seed зависит от эндпоинта и номера вызова, в режиме resource — от эндпоинта
+   * и значений параметров пути (без --seed используется 0)
+   * @param req - объект запроса Express
+   * @param endpointKey - ключ эндпоинта (метод:путь)
+   * @param config - конфигурация эндпоинта
+   * @returns seed или undefined, если генерация случайная
+   */
+  private resolveSeed(
+    req: Request,
+    endpointKey: string,
+    config?: EndpointConfig
+  ): number | undefined {
+    const seed = config?.seed ?? this.config.seed;
+    const mode = config?.seedMode || this.config.seedMode || 'call';
+    if (mode === 'resource') {
+      return deriveSeed(seed ?? 0, endpointKey, JSON.stringify(req.params));
     }
+    if (seed === undefined) {
+      return undefined;
+    }
+    const call = this.seedCalls.get(endpointKey) ?? 0;
+    this.seedCalls.set(endpointKey, call + 1);
+    return deriveSeed(seed, endpointKey, call);
   }
 
   /**
-   * Генерирует ответ для эндпоинта
+   * Учитывает запрос в квотах (глобальной и эндпоинта) и выставляет заголовки X-RateLimit-*
+   * При исчерпанной квоте отправляет 429 с Retry-After и телом по схеме 429 из спецификации
+   * @param req - объект запроса Express
+   * @param res - объект ответа Express
    * @param endpoint - распарсенный эндпоинт
+   * @param endpointKey - ключ эндпоинта (метод:путь)
    * @param config - конфигурация эндпоинта
-   * @returns сгенерированный ответ
+   * @returns true если запрос отклонен
    */
-  private async generateResponse(
+  private async enforceRateLimits(
+    req: Request,
+    res: Response,
+    endpoint: ParsedEndpoint,
+    endpointKey: string,
+    config?: EndpointConfig
+  ): Promise<boolean> {
+    const results: RateLimitResult[] = [];
+    const globalPolicy = this.settingsManager.getServerSettings().rateLimit;
+    if (globalPolicy) {
+      results.push(this.rateLimiter.consume('global', globalPolicy, req));
+    }
+    if (config?.rateLimit) {
+      results.push(this.rateLimiter.consume(endpointKey, config.rateLimit, req));
+    }
+    if (results.length === 0) {
+      return false;
+    }
+
+    // Заголовки отражают исчерпанную или самую строгую квоту
+    const denied = results.find((result) => !result.allowed);
+    const strictest =
+      denied || results.reduce((min, result) => (result.remaining < min.remaining ? result : min));
+    const setQuotaHeaders = () => {
+      res.setHeader('X-RateLimit-Limit', String(strictest.limit));
+      res.setHeader('X-RateLimit-Remaining', String(strictest.remaining));
+      res.setHeader('X-RateLimit-Reset', String(strictest.resetSeconds));
+    };
+    if (!denied) {
+      setQuotaHeaders();
+      return false;
+    }
+
+    const responseSpec = this.resolveResponseSpec(endpoint, 429);
+    const body = responseSpec.schema
+      ? await this.generateResponse(responseSpec, undefined, undefined, {
+          locale: res.locals.locale,
+        })
+      : { error: 'Too many requests' };
+    res.status(429);
+    // Реальные значения квоты важнее заголовков, сгенерированных по спецификации
+    this.applyResponseHeaders(res, responseSpec.headers);
+    setQuotaHeaders();
+    res.setHeader('Retry-After', String(denied.retryAfterSeconds));
+    await this.sendBody(res, body, responseSpec.contentType);
+    return true;
+  }
+
+  /**
+   * Проверяет учетные данные по требованиям безопасности операции, если проверка включена
+   * При отказе отправляет 401 или 403 с WWW-Authenticate и телом по схеме из спецификации
+   * @param req - объект запроса Express
+   * @param res - объект ответа Express
+   * @param endpoint - распарсенный эндпоинт
+   * @returns true если запрос отклонен
+   */
+  private async enforceSecurity(
+    req: Request,
+    res: Response,
+    endpoint: ParsedEndpoint
+  ): Promise<boolean> {
+    const settings: SecuritySettings | undefined =
+      this.settingsManager.getServerSettings().security;
+    if (!(settings?.enabled ?? this.config.enforceSecurity)) {
+      return false;
+    }
+    const result = this.securityChecker.check(endpoint, req, settings?.credentials);
+    if (result.outcome === 'ok') {
+      return false;
+    }
+
+    const statusCode = result.outcome === 'forbidden' ? 403 : 401;
+    const responseSpec = this.resolveResponseSpec(endpoint, statusCode);
+    const body = responseSpec.schema
+      ? await this.generateResponse(responseSpec, undefined, undefined, {
+          locale: res.locals.locale,
+        })
+      : { error: statusCode === 403 ? 'Forbidden' : 'Unauthorized' };
+    res.status(statusCode);
+    this.applyResponseHeaders(res, responseSpec.headers);
+    if (result.challenges.length > 0) {
+      res.setHeader('WWW-Authenticate', result.challenges);
+    }
+    await this.sendBody(res, body, responseSpec.contentType);
+    return true;
+  }
+
+  /**
+   * Определяет задержку ответа: правило или шаг → профиль эндпоинта → фиксированная задержка
+   * эндпоинта → глобальный профиль из настроек сервера
+   * @param config - конфигурация эндпоинта
+   * @param override - совпавшее правило или шаг последовательности
+   * @returns задержка в миллисекундах
+   */
+  private resolveDelay(config?: EndpointConfig, override?: SequenceStep): number {
+    if (override?.delay !== undefined) {
+      return override.delay;
+    }
+    if (config?.latency) {
+      return sampleLatency(config.latency);
+    }
+    if (config?.delay) {
+      return config.delay;
+    }
+    const latency = this.settingsManager.getServerSettings().latency;
+    return latency ? sampleLatency(latency) : 0;
+  }
+
+  /**
+   * Определяет ограничение скорости передачи: эндпоинт → настройки сервера
+   * @param config - конфигурация эндпоинта
+   * @returns настройки ограничения или undefined
+   */
+  private resolveThrottle(config?: EndpointConfig): ThrottleConfig | undefined {
+    return config?.throttle ?? this.settingsManager.getServerSettings().throttle;
+  }
+
+  /**
+   * Выбирает сбой для запроса с учетом вероятностей
+   * @param config - конфигурация эндпоинта
+   * @returns сбой или undefined, если запрос обрабатывается обычно
+   */
+  private pickFault(config?: EndpointConfig): FaultConfig | undefined {
+    const faults: FaultConfig[] =
+      config?.faults ?? this.settingsManager.getServerSettings().faults ?? [];
+    let roll = Math.random();
+    for (const fault of faults) {
+      if (roll < fault.probability) {
+        return fault;
+      }
+      roll -= fault.probability;
+    }
+    return undefined;
+  }
+
+  /**
+   * Отправляет ответ со сбоем (сбой попадает в лог запроса)
+   * @param res - объект ответа Express
+   * @param endpoint - распарсенный эндпоинт
+   * @param fault - выбранный сбой
+   * @param config - конфигурация эндпоинта
+   */
+  private async injectFault(
+    res: Response,
     endpoint: ParsedEndpoint,
+    fault: FaultConfig,
     config?: EndpointConfig
+  ): Promise<void> {
+    res.locals.fault = fault.type;
+    switch (fault.type) {
+      case 'reset':
+        // Обрываем соединение без ответа
+        res.socket?.destroy();
+        return;
+      case 'hang':
+        // Не отвечаем: соединение остается открытым до таймаута клиента или остановки сервера
+        this.hungResponses.add(res);
+        res.on('close', () => this.hungResponses.delete(res));
+        return;
+      case 'empty':
+        res.status(200).end();
+        return;
+      case 'error': {
+        // Ответ по схеме спецификации для статуса ошибки
+        const statusCode = fault.statusCode || 500;
+        const responseSpec = this.resolveResponseSpec(endpoint, statusCode);
+        const body = responseSpec.schema
+          ? await this.generateResponse(responseSpec, undefined, undefined, {
+              locale: res.locals.locale,
+            })
+          : { error: 'Injected fault' };
+        res.status(statusCode);
+        await this.sendBody(res, body, responseSpec.contentType);
+        return;
+      }
+      default: {
+        // truncate и malformed: обычный ответ, испорченный после сериализации
+        const statusCode = config?.statusCode || this.resolveDefaultStatus(endpoint);
+        const responseSpec = this.resolveResponseSpec(endpoint, statusCode);
+        const body = await this.generateResponse(responseSpec, config?.customResponse, undefined, {
+          locale: res.locals.locale,
+        });
+        const serialized = JSON.stringify(body) ?? '';
+        const corrupted =
+          fault.type === 'truncate'
+            ? serialized.slice(0, Math.floor(serialized.length / 2))
+            : `${serialized.slice(0, -1)},${serialized.slice(-1)}`;
+        const contentType = responseSpec.contentType;
+        res.status(statusCode);
+        res.type(contentType && !contentType.includes('*') ? contentType : 'application/json');
+        res.send(corrupted);
+      }
+    }
+  }
+
+  /**
+   * Проверяет кастомный ответ (после подстановки шаблонов) по схеме ответа для статус кода
+   * @param endpointKey - ключ эндпоинта (метод:путь)
+   * @param statusCode - статус код, с которым будет отправлен ответ (без него — статус по умолчанию)
+   * @param customResponse - кастомный ответ (может содержать шаблоны)
+   * @returns нарушения схемы (пустой список, если эндпоинт или схема не найдены)
+   */
+  validateCustomResponse(
+    endpointKey: string,
+    statusCode: number | undefined,
+    customResponse: any
+  ): SchemaViolation[] {
+    const endpoint = this.endpoints.find((item) => `${item.method}:${item.path}` === endpointKey);
+    if (!endpoint) {
+      return [];
+    }
+    const responseSpec = this.resolveResponseSpec(
+      endpoint,
+      statusCode ?? this.resolveDefaultStatus(endpoint)
+    );
+    if (!responseSpec.schema) {
+      return [];
+    }
+    const expanded = this.templateEngine.process(customResponse);
+    return this.schemaValidator.validate(expanded, responseSpec.schema, 'response');
+  }
+
+  /**
+   * Определяет статус код ответа, если он не настроен: первый объявленный 2xx ответ операции
+   * (POST только с 201 отвечает 201), иначе 200
+   * @param endpoint - распарсенный эндпоинт
+   * @returns статус код
+   */
+  private resolveDefaultStatus(endpoint: ParsedEndpoint): number {
+    for (const status of Object.keys(endpoint.responses || {})) {
+      if (/^2\d\d$/.test(status)) {
+        return Number(status);
+      }
+      if (status.toUpperCase() === '2XX') {
+        return 200;
+      }
+    }
+    return 200;
+  }
+
+  /**
+   * Находит описание ответа для статус кода (точный код, диапазон 4XX, default)
+   * @param endpoint - распарсенный эндпоинт
+   * @param statusCode - статус код ответа
+   * @returns схема, MIME тип и заголовки ответа
+   */
+  private resolveResponseSpec(endpoint: ParsedEndpoint, statusCode: number): ResponseSpec {
+    // Эндпоинты без списка ответов используют схему успешного ответа
+    if (!endpoint.responses) {
+      return { schema: endpoint.responseSchema, contentType: endpoint.responseContentType };
+    }
+    const response = selectResponse(endpoint.responses, statusCode);
+    if (!response) {
+      // Необъявленный успешный статус отвечает схемой успешного ответа операции
+      return statusCode < 300
+        ? { schema: endpoint.responseSchema, contentType: endpoint.responseContentType }
+        : {};
+    }
+    const mediaType = selectMediaType(response.content);
+    return {
+      schema: mediaType?.schema,
+      contentType: mediaType?.type,
+      headers: response.headers,
+      example: mediaType?.example,
+      examples: mediaType?.examples,
+    };
+  }
+
+  /**
+   * Находит статус код ответа с именованным примером
+   * @param endpoint - распарсенный эндпоинт
+   * @param name - имя примера
+   * @param statusCode - статус код, ответ которого проверяется первым
+   * @param searchAll - искать пример и в остальных ответах эндпоинта
+   * @returns статус код или undefined, если пример не найден
+   */
+  private findExampleStatus(
+    endpoint: ParsedEndpoint,
+    name: string,
+    statusCode: number,
+    searchAll: boolean
+  ): number | undefined {
+    if (selectExample(this.resolveResponseSpec(endpoint, statusCode), name) !== undefined) {
+      return statusCode;
+    }
+    if (!searchAll) {
+      return undefined;
+    }
+    for (const key of Object.keys(endpoint.responses || {})) {
+      // Диапазон 4XX соответствует коду 400, ответ default пропускаем
+      const code = /^[1-5]\d\d$/.test(key)
+        ? Number(key)
+        : /^[1-5]XX$/i.test(key)
+          ? Number(key[0]) * 100
+          : undefined;
+      if (code && selectExample(this.resolveResponseSpec(endpoint, code), name) !== undefined) {
+        return code;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Генерирует ответ для эндпоинта
+   * @param responseSpec - описание выбранного ответа
+   * @param template - кастомный ответ или шаблон правила (опционально)
+   * @param context - контекст запроса для шаблонов (claims токена)
+   * @param options - режим, seed, вариант oneOf/anyOf и локаль генерации (опционально)
+   * @returns сгенерированный ответ
+   */
+  private async generateResponse(
+    responseSpec: ResponseSpec,
+    template?: any,
+    context?: TemplateContext,
+    options: GenerationOptions = {}
   ): Promise<any> {
-    // Если есть кастомный ответ, используем его
-    if (config?.customResponse) {
-      // Обрабатываем шаблоны в кастомном ответе
-      return this.templateEngine.process(config.customResponse);
+    const { mode = 'dynamic', seed, variant, locale } = options;
+    return withLocale(locale, () =>
+      withSeed(seed, () => {
+        // Если есть кастомный ответ, используем его
+        if (template !== undefined && template !== null) {
+          // Обрабатываем шаблоны в кастомном ответе
+          return this.templateEngine.process(template, context);
+        }
+
+        // В режиме примеров сначала пример ответа, затем примеры из схемы
+        if (mode === 'examples') {
+          const example = selectExample(responseSpec);
+          if (example !== undefined) {
+            return example;
+          }
+          if (responseSpec.schema) {
+            return this.dataGenerator.withVariant(variant, () =>
+              this.dataGenerator.generateFromExamples(responseSpec.schema)
+            );
+          }
+        }
+
+        // Иначе генерируем на основе схемы
+        if (responseSpec.schema) {
+          return this.dataGenerator.withVariant(variant, () =>
+            this.dataGenerator.generateFromSchema(responseSpec.schema)
+          );
+        }
+
+        // Если схемы нет, возвращаем пустой объект
+        return {};
+      })
+    );
+  }
+
+  /**
+   * Отправляет ответ хранилища с заголовками и MIME типом из спецификации
+   * @param res - объект ответа Express
+   * @param endpoint - распарсенный эндпоинт
+   * @param result - результат обработки запроса хранилищем
+   * @param throttle - ограничение скорости передачи (опционально)
+   */
+  private async sendStoreResult(
+    res: Response,
+    endpoint: ParsedEndpoint,
+    result: StoreResult,
+    throttle?: ThrottleConfig
+  ): Promise<void> {
+    const responseSpec = this.resolveResponseSpec(endpoint, result.statusCode);
+    // Запись не найдена: тело генерируется по схеме ответа 404, если она объявлена
+    const body =
+      result.statusCode === 404 && responseSpec.schema
+        ? await this.generateResponse(responseSpec, undefined, undefined, {
+            locale: res.locals.locale,
+          })
+        : result.body;
+    res.status(result.statusCode);
+    this.applyResponseHeaders(res, responseSpec.headers);
+    if (body === undefined || endpoint.method === 'HEAD') {
+      res.end();
+      return;
     }
+    await this.sendBody(res, body, responseSpec.contentType, throttle);
+  }
 
-    // Иначе генерируем на основе схемы
-    if (endpoint.responseSchema) {
-      return this.dataGenerator.generateFromSchema(endpoint.responseSchema);
+  /**
+   * Устанавливает заголовки ответа, объявленные в спецификации
+   * @param res - объект ответа Express
+   * @param headers - заголовки ответа (имя → объект Header)
+   * @param seed - seed генерации значений (опционально)
+   */
+  private applyResponseHeaders(res: Response, headers?: Record<string, any>, seed?: number): void {
+    if (!headers) {
+      return;
+    }
+    withLocale(res.locals.locale, () =>
+      withSeed(seed, () => this.generateResponseHeaders(res, headers))
+    );
+  }
+
+  /**
+   * Генерирует значения заголовков ответа по их схемам
+   * @param res - объект ответа Express
+   * @param headers - заголовки ответа (имя → объект Header)
+   */
+  private generateResponseHeaders(res: Response, headers: Record<string, any>): void {
+    for (const [name, header] of Object.entries(headers)) {
+      // Content-Type и Content-Length определяются телом ответа, а заголовки,
+      // уже выставленные сервером (X-RateLimit-*), не перезаписываем
+      if (['content-type', 'content-length'].includes(name.toLowerCase()) || res.hasHeader(name)) {
+        continue;
+      }
+      const value = this.dataGenerator.generateFromSchema(header?.schema || { type: 'string' });
+      if (value !== null && value !== undefined) {
+        res.setHeader(name, typeof value === 'object' ? JSON.stringify(value) : String(value));
+      }
     }
+  }
 
-    // Если схемы нет, возвращаем пустой объект
-    return {};
+  /**
+   * Отправляет тело ответа с учетом MIME типа
+   * JSON-совместимые типы сериализуются в JSON, остальные отправляются как текст
+   * @param res - объект ответа Express
+   * @param body - тело ответа
+   * @param contentType - MIME тип из спецификации (опционально)
+   * @param throttle - ограничение скорости передачи (опционально)
+   */
+  private async sendBody(
+    res: Response,
+    body: any,
+    contentType?: string,
+    throttle?: ThrottleConfig
+  ): Promise<void> {
+    // Без типа, для */* и JSON-типов (application/json, application/problem+json) отправляем JSON
+    const isJson = !contentType || contentType.includes('*') || /\bjson\b/i.test(contentType);
+    if (isJson) {
+      res.type(contentType && !contentType.includes('*') ? contentType : 'application/json');
+    } else {
+      res.type(contentType as string);
+    }
+    if (throttle) {
+      const payload = typeof body === 'string' && !isJson ? body : (JSON.stringify(body) ?? '');
+      await sendThrottled(res, Buffer.from(payload), throttle);
+      return;
+    }
+    if (isJson) {
+      res.json(body);
+      return;
+    }
+    res.send(typeof body === 'string' ? body : JSON.stringify(body));
   }
 
   /**
@@ -220,12 +1086,23 @@ export class MockServer {
    * @returns Promise с запущенным сервером
    */
   async start(): Promise<void> {
+    // Маршруты вне спецификации передаются на backend (после всех зарегистрированных маршрутов)
+    if (this.config.proxyUrl) {
+      this.app.use((req: Request, res: Response) => {
+        this.proxy(req, res).catch(() => {
+          if (!res.headersSent) {
+            res.status(502).json({ error: 'Bad gateway' });
+          }
+        });
+      });
+    }
+
     return new Promise((resolve) => {
       const port = this.config.port;
       const host = this.config.host || 'localhost';
 
       // Запускаем сервер
-      this.app.listen(port, host, () => {
+      this.server = this.app.listen(port, host, () => {
         // eslint-disable-next-line no-console
         console.log(`Mock server started on http://${host}:${port}`);
         resolve();
@@ -233,6 +1110,26 @@ export class MockServer {
     });
   }
 
+  /**
+   * Останавливает сервер
+   * @returns Promise, завершающийся после закрытия соединений
+   */
+  stop(): Promise<void> {
+    const server = this.server;
+    this.server = undefined;
+    if (!server) {
+      return Promise.resolve();
+    }
+    return new Promise((resolve, reject) => {
+      server.close((error) => (error ? reject(error) : resolve()));
+      // Зависшие запросы не завершатся сами, иначе close ждал бы их бесконечно
+      for (const res of this.hungResponses) {
+        res.destroy();
+      }
+      this.hungResponses.clear();
+    });
+  }
+
   /**
    * Получает Express приложение (для интеграции с UI)
    * @returns Express приложение
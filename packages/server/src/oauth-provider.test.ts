@@ -0,0 +1,171 @@
+import { createHash } from 'crypto';
+import { Request } from 'express';
+import { OAuthProvider, TokenGrant } from './oauth-provider';
+
+// Данные выпуска токенов для пользователя ann
+const grant: TokenGrant = {
+  issuer: 'http://localhost:3000',
+  subject: 'ann',
+  clientId: 'web',
+  scope: 'openid pets:read',
+  claims: { email: 'ann@example.com' },
+  nonce: 'n-1',
+};
+
+/**
+ * Декодирует часть JWT
+ * @param token - JWT
+ * @param index - номер части (0 — заголовок, 1 — claims)
+ * @returns декодированный объект
+ */
+function decode(token: string, index: number): Record<string, unknown> {
+  return JSON.parse(Buffer.from(token.split('.')[index], 'base64url').toString('utf8'));
+}
+
+describe('OAuthProvider', () => {
+  // Генерация RSA ключа занимает заметное время, поэтому провайдер общий
+  const provider = new OAuthProvider();
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('выпуск токенов', () => {
+    it('выпускает подписанный access токен со стандартными claims', () => {
+      jest.spyOn(Date, 'now').mockReturnValue(1_700_000_000_000);
+      const response = provider.issueTokens(grant, { expiresIn: 600, claims: { tenant: 'acme' } });
+
+      expect(response).toMatchObject({ token_type: 'Bearer', expires_in: 600, scope: grant.scope });
+      expect(decode(response.access_token, 0)).toEqual({
+        alg: 'RS256',
+        typ: 'at+jwt',
+        kid: provider.getJwks().keys[0].kid,
+      });
+      expect(provider.verify(response.access_token)).toMatchObject({
+        iss: 'http://localhost:3000',
+        sub: 'ann',
+        aud: 'web',
+        client_id: 'web',
+        scope: 'openid pets:read',
+        email: 'ann@example.com',
+        tenant: 'acme',
+        iat: 1_700_000_000,
+        exp: 1_700_000_600,
+      });
+    });
+
+    it('не позволяет настройкам перекрыть стандартные claims', () => {
+      const response = provider.issueTokens(grant, { claims: { sub: 'admin', iss: 'evil' } });
+
+      expect(provider.verify(response.access_token)).toMatchObject({
+        sub: 'ann',
+        iss: 'http://localhost:3000',
+      });
+    });
+
+    it('выпускает id_token только для скоупа openid и не принимает его как access токен', () => {
+      const response = provider.issueTokens(grant);
+      const withoutOpenId = provider.issueTokens({ ...grant, scope: 'pets:read' });
+
+      expect(decode(response.id_token as string, 1)).toMatchObject({ sub: 'ann', nonce: 'n-1' });
+      expect(provider.verify(response.id_token as string)).toBeUndefined();
+      expect(withoutOpenId.id_token).toBeUndefined();
+    });
+  });
+
+  describe('проверка токенов', () => {
+    it('отклоняет просроченные, измененные и чужие токены', () => {
+      const token = provider.issueTokens(grant, { expiresIn: 60 }).access_token;
+      const [header, , signature] = token.split('.');
+      const forged = Buffer.from(JSON.stringify({ ...decode(token, 1), sub: 'admin' })).toString(
+        'base64url'
+      );
+
+      expect(provider.verify(`${header}.${forged}.${signature}`)).toBeUndefined();
+      expect(provider.verify(new OAuthProvider().issueTokens(grant).access_token)).toBeUndefined();
+      expect(provider.verify('not-a-jwt')).toBeUndefined();
+
+      jest.spyOn(Date, 'now').mockReturnValue(Date.now() + 61000);
+      expect(provider.verify(token)).toBeUndefined();
+    });
+
+    it('извлекает claims из заголовка Authorization', () => {
+      const token = provider.issueTokens(grant).access_token;
+      const createRequest = (authorization?: string) =>
+        ({ get: () => authorization }) as unknown as Request;
+
+      expect(provider.getRequestClaims(createRequest(`Bearer ${token}`))).toMatchObject({
+        sub: 'ann',
+      });
+      expect(provider.getRequestClaims(createRequest())).toBeUndefined();
+    });
+
+    it('публикует ключ проверки в JWKS', () => {
+      expect(provider.getJwks().keys).toEqual([
+        expect.objectContaining({ kty: 'RSA', use: 'sig', alg: 'RS256', e: 'AQAB' }),
+      ]);
+    });
+  });
+
+  describe('коды авторизации', () => {
+    const redirectUri = 'http://localhost:5173/callback';
+
+    it('погашает код один раз и проверяет клиента и redirect_uri', () => {
+      const data = { subject: 'ann', clientId: 'web', redirectUri };
+      const code = provider.createAuthorizationCode(data);
+
+      expect(provider.redeemAuthorizationCode(code, 'web', redirectUri)).toMatchObject(data);
+      expect(provider.redeemAuthorizationCode(code, 'web', redirectUri)).toBeUndefined();
+
+      const other = provider.createAuthorizationCode(data);
+      expect(provider.redeemAuthorizationCode(other, 'mobile', redirectUri)).toBeUndefined();
+      // Неудачная попытка тоже погашает код
+      expect(provider.redeemAuthorizationCode(other, 'web', redirectUri)).toBeUndefined();
+      expect(
+        provider.redeemAuthorizationCode(
+          provider.createAuthorizationCode(data),
+          'web',
+          'http://evil.example.com'
+        )
+      ).toBeUndefined();
+    });
+
+    it('проверяет PKCE code_verifier методами S256 и plain', () => {
+      const verifier = 'dBjftJeZ4CVP-mB92K27uhbUJU1p1r_wW1gFWFOEjXk';
+      const challenge = createHash('sha256').update(verifier).digest('base64url');
+      const create = (codeChallengeMethod: 'S256' | 'plain', codeChallenge: string) =>
+        provider.createAuthorizationCode({
+          subject: 'ann',
+          clientId: 'web',
+          redirectUri,
+          codeChallenge,
+          codeChallengeMethod,
+        });
+
+      expect(
+        provider.redeemAuthorizationCode(create('S256', challenge), 'web', redirectUri, verifier)
+      ).toBeDefined();
+      expect(
+        provider.redeemAuthorizationCode(create('plain', verifier), 'web', redirectUri, verifier)
+      ).toBeDefined();
+      expect(
+        provider.redeemAuthorizationCode(create('S256', challenge), 'web', redirectUri, 'wrong')
+      ).toBeUndefined();
+      expect(
+        provider.redeemAuthorizationCode(create('S256', challenge), 'web', redirectUri)
+      ).toBeUndefined();
+    });
+
+    it('не принимает просроченный код', () => {
+      const code = provider.createAuthorizationCode({
+        subject: 'ann',
+        clientId: 'web',
+        redirectUri,
+      });
+
+      jest.spyOn(Date, 'now').mockReturnValue(Date.now() + 60000);
+
+      expect(provider.redeemAuthorizationCode(code, 'web', redirectUri)).toBeUndefined();
+    });
+  });
+});
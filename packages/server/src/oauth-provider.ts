@@ -0,0 +1,247 @@
+import { Request } from 'express';
+import {
+  JsonWebKey,
+  KeyObject,
+  createHash,
+  generateKeyPairSync,
+  randomBytes,
+  sign,
+  verify,
+} from 'crypto';
+import { OAuthSettings } from '@api-mock-generator/shared';
+
+// Данные для выпуска токенов
+export interface TokenGrant {
+  // Адрес провайдера (claim iss)
+  issuer: string;
+  // Субъект токена: пользователь или клиент для client_credentials
+  subject: string;
+  clientId: string;
+  // Запрошенные скоупы через пробел
+  scope?: string;
+  // Claims пользователя
+  claims?: Record<string, unknown>;
+  // nonce из запроса авторизации (для id_token)
+  nonce?: string;
+}
+
+// Ответ token endpoint (RFC 6749)
+export interface TokenResponse {
+  access_token: string;
+  token_type: 'Bearer';
+  expires_in: number;
+  scope?: string;
+  id_token?: string;
+}
+
+// Выданный код авторизации (authorization_code)
+export interface AuthorizationCode {
+  subject: string;
+  clientId: string;
+  redirectUri: string;
+  scope?: string;
+  nonce?: string;
+  // PKCE: code_challenge и метод его вычисления
+  codeChallenge?: string;
+  codeChallengeMethod?: 'S256' | 'plain';
+  expiresAt: number;
+}
+
+// Время жизни токенов по умолчанию (секунды)
+const DEFAULT_EXPIRES_IN = 3600;
+// Время жизни кода авторизации (мс)
+const CODE_TTL = 60000;
+// Максимальное количество неиспользованных кодов (защита от переполнения памяти)
+const MAX_CODES = 1000;
+// Тип access токена по RFC 9068 (отличает его от id_token)
+const ACCESS_TOKEN_TYPE = 'at+jwt';
+
+/**
+ * Встроенный OAuth2/OIDC провайдер: выпускает и проверяет JWT, подписанные RS256
+ * Ключ генерируется при запуске, поэтому токены действуют до перезапуска сервера
+ */
+export class OAuthProvider {
+  // Ключ подписи токенов
+  private privateKey: KeyObject;
+  // Ключ проверки подписи
+  private publicKey: KeyObject;
+  // Идентификатор ключа (kid) в заголовке токенов и JWKS
+  private keyId: string;
+  // Неиспользованные коды авторизации
+  private codes = new Map<string, AuthorizationCode>();
+
+  constructor() {
+    const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+    this.privateKey = privateKey;
+    this.publicKey = publicKey;
+    const jwk = publicKey.export({ format: 'jwk' });
+    this.keyId = createHash('sha256').update(String(jwk.n)).digest('base64url').slice(0, 16);
+  }
+
+  /**
+   * Возвращает публичные ключи в формате JWKS
+   */
+  getJwks(): { keys: JsonWebKey[] } {
+    const jwk = this.publicKey.export({ format: 'jwk' });
+    return { keys: [{ ...jwk, kid: this.keyId, use: 'sig', alg: 'RS256' }] };
+  }
+
+  /**
+   * Выпускает access токен и id_token (если запрошен скоуп openid)
+   * @param grant - данные для выпуска токенов
+   * @param settings - настройки провайдера
+   * @returns ответ token endpoint
+   */
+  issueTokens(grant: TokenGrant, settings: OAuthSettings = {}): TokenResponse {
+    const expiresIn = settings.expiresIn ?? DEFAULT_EXPIRES_IN;
+    const issuedAt = Math.floor(Date.now() / 1000);
+    // Стандартные claims указываются последними, чтобы настройки их не перекрыли
+    const claims = {
+      ...settings.claims,
+      ...grant.claims,
+      iss: grant.issuer,
+      sub: grant.subject,
+      aud: grant.clientId,
+      iat: issuedAt,
+      exp: issuedAt + expiresIn,
+    };
+
+    const response: TokenResponse = {
+      access_token: this.signToken(
+        {
+          ...claims,
+          jti: randomBytes(8).toString('hex'),
+          client_id: grant.clientId,
+          scope: grant.scope,
+        },
+        ACCESS_TOKEN_TYPE
+      ),
+      token_type: 'Bearer',
+      expires_in: expiresIn,
+    };
+    if (grant.scope) {
+      response.scope = grant.scope;
+    }
+    if (grant.scope?.split(' ').includes('openid')) {
+      response.id_token = this.signToken({ ...claims, nonce: grant.nonce }, 'JWT');
+    }
+    return response;
+  }
+
+  /**
+   * Проверяет access токен: подпись, тип и срок действия
+   * @param token - JWT из заголовка Authorization
+   * @returns claims токена или undefined, если токен недействителен
+   */
+  verify(token: string): Record<string, unknown> | undefined {
+    const parts = token.split('.');
+    if (parts.length !== 3) {
+      return undefined;
+    }
+    try {
+      const header = JSON.parse(Buffer.from(parts[0], 'base64url').toString('utf8'));
+      if (header.alg !== 'RS256' || header.kid !== this.keyId || header.typ !== ACCESS_TOKEN_TYPE) {
+        return undefined;
+      }
+      const signature = Buffer.from(parts[2], 'base64url');
+      if (!verify('sha256', Buffer.from(`${parts[0]}.${parts[1]}`), this.publicKey, signature)) {
+        return undefined;
+      }
+      const claims = JSON.parse(Buffer.from(parts[1], 'base64url').toString('utf8'));
+      if (typeof claims.exp !== 'number' || claims.exp <= Date.now() / 1000) {
+        return undefined;
+      }
+      return claims;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Возвращает claims bearer токена из заголовка Authorization запроса
+   * @param req - объект запроса Express
+   * @returns claims или undefined, если токена нет или он недействителен
+   */
+  getRequestClaims(req: Request): Record<string, unknown> | undefined {
+    const match = /^Bearer\s+(\S+)$/i.exec(req.get('authorization') || '');
+    return match ? this.verify(match[1]) : undefined;
+  }
+
+  /**
+   * Выдает одноразовый код авторизации
+   * @param data - данные кода без срока действия
+   * @returns код авторизации
+   */
+  createAuthorizationCode(data: Omit<AuthorizationCode, 'expiresAt'>): string {
+    const now = Date.now();
+    for (const [code, stored] of this.codes) {
+      if (stored.expiresAt <= now) {
+        this.codes.delete(code);
+      }
+    }
+    // Вытесняем самый старый код при переполнении
+    if (this.codes.size >= MAX_CODES) {
+      const oldest = this.codes.keys().next().value;
+      if (oldest !== undefined) {
+        this.codes.delete(oldest);
+      }
+    }
+    const code = randomBytes(24).toString('base64url');
+    this.codes.set(code, { ...data, expiresAt: now + CODE_TTL });
+    return code;
+  }
+
+  /**
+   * Погашает код авторизации с проверкой клиента, redirect_uri и PKCE
+   * @param code - код из запроса к token endpoint
+   * @param clientId - клиент, обменивающий код
+   * @param redirectUri - redirect_uri из запроса к token endpoint
+   * @param codeVerifier - PKCE code_verifier
+   * @returns данные кода или undefined, если код недействителен
+   */
+  redeemAuthorizationCode(
+    code: string,
+    clientId: string,
+    redirectUri?: string,
+    codeVerifier?: string
+  ): AuthorizationCode | undefined {
+    const stored = this.codes.get(code);
+    // Код одноразовый даже при неудачной попытке обмена
+    this.codes.delete(code);
+    if (
+      !stored ||
+      stored.expiresAt <= Date.now() ||
+      stored.clientId !== clientId ||
+      stored.redirectUri !== redirectUri
+    ) {
+      return undefined;
+    }
+    if (stored.codeChallenge) {
+      if (!codeVerifier) {
+        return undefined;
+      }
+      const expected =
+        stored.codeChallengeMethod === 'plain'
+          ? codeVerifier
+          : createHash('sha256').update(codeVerifier).digest('base64url');
+      if (expected !== stored.codeChallenge) {
+        return undefined;
+      }
+    }
+    return stored;
+  }
+
+  /**
+   * Подписывает claims в JWT
+   * @param claims - claims токена (undefined значения не попадают в токен)
+   * @param type - значение typ в заголовке
+   * @returns JWT
+   */
+  private signToken(claims: Record<string, unknown>, type: string): string {
+    const header = { alg: 'RS256', typ: type, kid: this.keyId };
+    const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url');
+    const data = `${encode(header)}.${encode(claims)}`;
+    const signature = sign('sha256', Buffer.from(data), this.privateKey).toString('base64url');
+    return `${data}.${signature}`;
+  }
+}
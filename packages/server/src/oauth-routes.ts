@@ -0,0 +1,317 @@
+import { Express, Request, Response } from 'express';
+import { OAuthClient, OAuthSettings, OAuthUser } from '@api-mock-generator/shared';
+import { OAuthProvider } from './oauth-provider';
+import { SettingsManager } from './settings-manager';
+
+// Допустимый PKCE code_verifier и code_challenge (RFC 7636)
+const PKCE_VALUE = /^[A-Za-z0-9\-._~]{43,128}$/;
+
+/**
+ * Отправляет ошибку OAuth2 в формате RFC 6749
+ * @param res - объект ответа Express
+ * @param status - HTTP статус
+ * @param error - код ошибки
+ * @param description - описание ошибки
+ */
+function sendOAuthError(res: Response, status: number, error: string, description: string): void {
+  if (status === 401) {
+    res.setHeader('WWW-Authenticate', 'Basic realm="api-mock"');
+  }
+  res.status(status).json({ error, error_description: description });
+}
+
+/**
+ * Возвращает адрес провайдера для claim iss и документа discovery
+ * @param req - объект запроса Express
+ */
+function getIssuer(req: Request): string {
+  return `${req.protocol}://${req.get('host')}`;
+}
+
+/**
+ * Возвращает строковый параметр из тела или query запроса
+ * @param source - тело или query запроса
+ * @param name - имя параметра
+ */
+function getParam(source: any, name: string): string | undefined {
+  const value = source?.[name];
+  return typeof value === 'string' && value ? value : undefined;
+}
+
+/**
+ * Извлекает учетные данные клиента из заголовка Basic или тела запроса
+ * @param req - объект запроса Express
+ * @returns clientId и clientSecret (если переданы)
+ */
+function getClientCredentials(req: Request): { clientId?: string; clientSecret?: string } {
+  const match = /^Basic\s+(\S+)$/i.exec(req.get('authorization') || '');
+  if (match) {
+    const decoded = Buffer.from(match[1], 'base64').toString('utf8');
+    const separator = decoded.indexOf(':');
+    try {
+      // По RFC 6749 значения в заголовке Basic закодированы как form-urlencoded
+      return {
+        clientId: decodeURIComponent(separator >= 0 ? decoded.slice(0, separator) : decoded),
+        clientSecret: separator >= 0 ? decodeURIComponent(decoded.slice(separator + 1)) : undefined,
+      };
+    } catch {
+      return {};
+    }
+  }
+  return {
+    clientId: getParam(req.body, 'client_id'),
+    clientSecret: getParam(req.body, 'client_secret'),
+  };
+}
+
+/**
+ * Находит пользователя по логину и паролю
+ * @param settings - настройки провайдера
+ * @param username - логин
+ * @param password - пароль
+ * @returns пользователь (без списка пользователей — любой с переданным логином)
+ */
+function authenticateUser(
+  settings: OAuthSettings,
+  username: string,
+  password: string
+): OAuthUser | undefined {
+  if (!settings.users?.length) {
+    return { username, password };
+  }
+  return settings.users.find((user) => user.username === username && user.password === password);
+}
+
+/**
+ * Находит зарегистрированного клиента
+ * @param settings - настройки провайдера
+ * @param clientId - идентификатор клиента
+ * @returns клиент (без списка клиентов — любой clientId)
+ */
+function findClient(settings: OAuthSettings, clientId: string): OAuthClient | undefined {
+  if (!settings.clients?.length) {
+    return { clientId };
+  }
+  return settings.clients.find((client) => client.clientId === clientId);
+}
+
+/**
+ * Настраивает встроенный OAuth2/OIDC провайдер: discovery, JWKS, authorize, token и userinfo
+ * @param app - Express приложение
+ * @param provider - провайдер, выпускающий токены
+ * @param settingsManager - менеджер настроек (настройки oauth сервера)
+ */
+export function setupOAuthRoutes(
+  app: Express,
+  provider: OAuthProvider,
+  settingsManager: SettingsManager
+): void {
+  const getSettings = (): OAuthSettings => settingsManager.getServerSettings().oauth || {};
+
+  // Документ discovery OpenID Connect (и метаданные сервера авторизации RFC 8414)
+  app.get(
+    ['/.well-known/openid-configuration', '/.well-known/oauth-authorization-server'],
+    (req: Request, res: Response) => {
+      const issuer = getIssuer(req);
+      res.json({
+        issuer,
+        authorization_endpoint: `${issuer}/oauth/authorize`,
+        token_endpoint: `${issuer}/oauth/token`,
+        userinfo_endpoint: `${issuer}/oauth/userinfo`,
+        jwks_uri: `${issuer}/oauth/jwks`,
+        response_types_supported: ['code'],
+        grant_types_supported: ['authorization_code', 'client_credentials', 'password'],
+        subject_types_supported: ['public'],
+        id_token_signing_alg_values_supported: ['RS256'],
+        token_endpoint_auth_methods_supported: [
+          'client_secret_basic',
+          'client_secret_post',
+          'none',
+        ],
+        code_challenge_methods_supported: ['S256', 'plain'],
+      });
+    }
+  );
+
+  // Публичные ключи для проверки подписи токенов
+  app.get('/oauth/jwks', (_req: Request, res: Response) => {
+    res.json(provider.getJwks());
+  });
+
+  // Авторизация без формы входа: код выдается сразу (пользователь из login_hint)
+  app.get('/oauth/authorize', (req: Request, res: Response) => {
+    const settings = getSettings();
+    const clientId = getParam(req.query, 'client_id');
+    const redirectUri = getParam(req.query, 'redirect_uri');
+    if (!redirectUri) {
+      sendOAuthError(res, 400, 'invalid_request', 'redirect_uri is required');
+      return;
+    }
+    let redirect: URL;
+    try {
+      redirect = new URL(redirectUri);
+    } catch {
+      sendOAuthError(res, 400, 'invalid_request', 'redirect_uri must be an absolute URL');
+      return;
+    }
+    if (!clientId || !findClient(settings, clientId)) {
+      sendOAuthError(res, 400, 'invalid_client', 'Unknown client_id');
+      return;
+    }
+
+    // Остальные ошибки передаются клиенту через redirect_uri
+    const state = getParam(req.query, 'state');
+    const redirectWith = (params: Record<string, string>) => {
+      for (const [name, value] of Object.entries(params)) {
+        redirect.searchParams.set(name, value);
+      }
+      if (state) {
+        redirect.searchParams.set('state', state);
+      }
+      res.redirect(302, redirect.toString());
+    };
+    if (getParam(req.query, 'response_type') !== 'code') {
+      redirectWith({ error: 'unsupported_response_type' });
+      return;
+    }
+    const codeChallenge = getParam(req.query, 'code_challenge');
+    const codeChallengeMethod = getParam(req.query, 'code_challenge_method') || 'plain';
+    if (
+      codeChallenge &&
+      (!PKCE_VALUE.test(codeChallenge) ||
+        (codeChallengeMethod !== 'S256' && codeChallengeMethod !== 'plain'))
+    ) {
+      redirectWith({ error: 'invalid_request', error_description: 'Invalid code_challenge' });
+      return;
+    }
+
+    const code = provider.createAuthorizationCode({
+      subject: getParam(req.query, 'login_hint') || settings.users?.[0]?.username || 'user',
+      clientId,
+      redirectUri,
+      scope: getParam(req.query, 'scope'),
+      nonce: getParam(req.query, 'nonce'),
+      codeChallenge,
+      codeChallengeMethod: codeChallenge ? (codeChallengeMethod as 'S256' | 'plain') : undefined,
+    });
+    redirectWith({ code });
+  });
+
+  // Token endpoint: client_credentials, password и authorization_code
+  app.post('/oauth/token', (req: Request, res: Response) => {
+    const settings = getSettings();
+    const grantType = getParam(req.body, 'grant_type');
+    const { clientId, clientSecret } = getClientCredentials(req);
+    const codeVerifier = getParam(req.body, 'code_verifier');
+
+    if (!clientId) {
+      sendOAuthError(res, 401, 'invalid_client', 'Client authentication required');
+      return;
+    }
+    const client = findClient(settings, clientId);
+    // Публичный клиент с PKCE может не передавать секрет
+    const isPublicClient = grantType === 'authorization_code' && !!codeVerifier && !clientSecret;
+    if (
+      !client ||
+      (client.clientSecret && client.clientSecret !== clientSecret && !isPublicClient)
+    ) {
+      sendOAuthError(res, 401, 'invalid_client', 'Client authentication failed');
+      return;
+    }
+    if (codeVerifier && !PKCE_VALUE.test(codeVerifier)) {
+      sendOAuthError(res, 400, 'invalid_request', 'Invalid code_verifier');
+      return;
+    }
+
+    const issuer = getIssuer(req);
+    const user = (username: string) => settings.users?.find((item) => item.username === username);
+    res.setHeader('Cache-Control', 'no-store');
+    switch (grantType) {
+      case 'client_credentials':
+        res.json(
+          provider.issueTokens(
+            { issuer, subject: clientId, clientId, scope: getParam(req.body, 'scope') },
+            settings
+          )
+        );
+        return;
+      case 'password': {
+        const username = getParam(req.body, 'username');
+        const password = getParam(req.body, 'password');
+        if (!username || !password) {
+          sendOAuthError(res, 400, 'invalid_request', 'username and password are required');
+          return;
+        }
+        const authenticated = authenticateUser(settings, username, password);
+        if (!authenticated) {
+          sendOAuthError(res, 400, 'invalid_grant', 'Invalid username or password');
+          return;
+        }
+        res.json(
+          provider.issueTokens(
+            {
+              issuer,
+              subject: username,
+              clientId,
+              scope: getParam(req.body, 'scope'),
+              claims: authenticated.claims,
+            },
+            settings
+          )
+        );
+        return;
+      }
+      case 'authorization_code': {
+        const code = getParam(req.body, 'code');
+        const redeemed = code
+          ? provider.redeemAuthorizationCode(
+              code,
+              clientId,
+              getParam(req.body, 'redirect_uri'),
+              codeVerifier
+            )
+          : undefined;
+        if (!redeemed) {
+          sendOAuthError(res, 400, 'invalid_grant', 'Invalid or expired authorization code');
+          return;
+        }
+        // Код без PKCE обменивает только конфиденциальный клиент
+        if (
+          !redeemed.codeChallenge &&
+          client.clientSecret &&
+          client.clientSecret !== clientSecret
+        ) {
+          sendOAuthError(res, 401, 'invalid_client', 'Client authentication failed');
+          return;
+        }
+        res.json(
+          provider.issueTokens(
+            {
+              issuer,
+              subject: redeemed.subject,
+              clientId,
+              scope: redeemed.scope,
+              claims: user(redeemed.subject)?.claims,
+              nonce: redeemed.nonce,
+            },
+            settings
+          )
+        );
+        return;
+      }
+      default:
+        sendOAuthError(res, 400, 'unsupported_grant_type', 'Unsupported grant_type');
+    }
+  });
+
+  // Claims пользователя по access токену
+  app.get('/oauth/userinfo', (req: Request, res: Response) => {
+    const claims = provider.getRequestClaims(req);
+    if (!claims) {
+      res.setHeader('WWW-Authenticate', 'Bearer realm="api-mock", error="invalid_token"');
+      res.status(401).json({ error: 'invalid_token' });
+      return;
+    }
+    res.json(claims);
+  });
+}
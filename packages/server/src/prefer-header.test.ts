@@ -0,0 +1,36 @@
+import { formatPreferenceApplied, parsePreferHeader } from './prefer-header';
+
+describe('parsePreferHeader', () => {
+  it('разбирает код, пример и режим генерации через запятую и точку с запятой', () => {
+    expect(parsePreferHeader('code=404, example="not found"; dynamic=false')).toEqual({
+      preferences: { code: 404, example: 'not found', dynamic: false },
+    });
+  });
+
+  it('игнорирует остальные предпочтения и пустой заголовок', () => {
+    expect(parsePreferHeader('return=minimal, respond-async, Code=201')).toEqual({
+      preferences: { code: 201 },
+    });
+    expect(parsePreferHeader(undefined)).toEqual({ preferences: {} });
+  });
+
+  it('возвращает ошибку для некорректных значений', () => {
+    expect(parsePreferHeader('code=4o4')).toEqual({ error: 'Invalid Prefer code: 4o4' });
+    expect(parsePreferHeader('code=99')).toEqual({ error: 'Invalid Prefer code: 99' });
+    expect(parsePreferHeader('example=""')).toEqual({
+      error: 'Prefer example must not be empty',
+    });
+    expect(parsePreferHeader('dynamic=yes')).toEqual({
+      error: 'Invalid Prefer dynamic: yes (true or false)',
+    });
+  });
+});
+
+describe('formatPreferenceApplied', () => {
+  it('перечисляет примененные предпочтения', () => {
+    expect(formatPreferenceApplied({ code: 404, example: 'notFound', dynamic: undefined })).toBe(
+      'code=404, example=notFound'
+    );
+    expect(formatPreferenceApplied({})).toBeUndefined();
+  });
+});
@@ -0,0 +1,70 @@
+import { isValidStatusCode } from '@api-mock-generator/shared';
+
+// Предпочтения ответа из заголовка Prefer: code=404, example=notFound, dynamic=true
+export interface ResponsePreferences {
+  // Статус код ответа
+  code?: number;
+  // Имя примера из examples спецификации
+  example?: string;
+  // true — генерировать данные по схеме, false — брать примеры спецификации
+  dynamic?: boolean;
+}
+
+/**
+ * Разбирает заголовок Prefer (RFC 7240)
+ * Предпочтения разделяются запятыми или точкой с запятой, значения могут быть в кавычках,
+ * остальные предпочтения (return=minimal и т.д.) игнорируются
+ * @param header - значение заголовка Prefer
+ * @returns предпочтения или текст ошибки
+ */
+export function parsePreferHeader(
+  header: string | undefined
+): { preferences: ResponsePreferences } | { error: string } {
+  const preferences: ResponsePreferences = {};
+  for (const token of (header || '').split(/[,;]/)) {
+    const separator = token.indexOf('=');
+    if (separator === -1) {
+      continue;
+    }
+    const name = token.slice(0, separator).trim().toLowerCase();
+    const value = token
+      .slice(separator + 1)
+      .trim()
+      .replace(/^"(.*)"$/, '$1');
+    switch (name) {
+      case 'code': {
+        const code = Number(value);
+        if (!/^\d+$/.test(value) || !isValidStatusCode(code)) {
+          return { error: `Invalid Prefer code: ${value}` };
+        }
+        preferences.code = code;
+        break;
+      }
+      case 'example':
+        if (!value) {
+          return { error: 'Prefer example must not be empty' };
+        }
+        preferences.example = value;
+        break;
+      case 'dynamic':
+        if (value !== 'true' && value !== 'false') {
+          return { error: `Invalid Prefer dynamic: ${value} (true or false)` };
+        }
+        preferences.dynamic = value === 'true';
+        break;
+    }
+  }
+  return { preferences };
+}
+
+/**
+ * Формирует заголовок Preference-Applied из примененных предпочтений
+ * @param preferences - примененные предпочтения
+ * @returns значение заголовка или undefined, если предпочтений нет
+ */
+export function formatPreferenceApplied(preferences: ResponsePreferences): string | undefined {
+  const applied = Object.entries(preferences)
+    .filter(([, value]) => value !== undefined)
+    .map(([name, value]) => `${name}=${value}`);
+  return applied.length > 0 ? applied.join(', ') : undefined;
+}
@@ -0,0 +1,327 @@
+import express, { Express, Request, Response } from 'express';
+import bodyParser from 'body-parser';
+import http, { IncomingHttpHeaders, Server } from 'http';
+import { AddressInfo, Socket } from 'net';
+import { OpenAPIParser } from '@api-mock-generator/core';
+import { forwardRequest, ProxiedExchange } from './proxy';
+import { MockServer } from './mock-server';
+
+// Ответ на запрос, отправленный тестом
+interface TestResponse {
+  status: number;
+  headers: IncomingHttpHeaders;
+  body: any;
+}
+
+// Локальный backend с адресом
+interface Upstream {
+  server: Server;
+  url: string;
+}
+
+// Открытые соединения серверов (закрываются при остановке, чтобы не ждать keep-alive)
+const sockets = new Map<Server, Set<Socket>>();
+
+/**
+ * Запускает приложение на свободном порту
+ * @param app - Express приложение
+ * @returns сервер и его адрес
+ */
+function listen(app: Express): Promise<Upstream> {
+  return new Promise((resolve) => {
+    const server = app.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({ server, url: `http://127.0.0.1:${port}` });
+    });
+    const open = new Set<Socket>();
+    sockets.set(server, open);
+    server.on('connection', (socket) => {
+      open.add(socket);
+      socket.on('close', () => open.delete(socket));
+    });
+  });
+}
+
+/**
+ * Останавливает сервер, закрывая открытые соединения
+ * @param server - HTTP сервер
+ */
+function close(server: Server): Promise<void> {
+  return new Promise((resolve) => {
+    server.close(() => resolve());
+    sockets.get(server)?.forEach((socket) => socket.destroy());
+    sockets.delete(server);
+  });
+}
+
+/**
+ * Находит свободный порт (MockServer слушает порт из конфигурации)
+ * @returns номер порта
+ */
+async function freePort(): Promise<number> {
+  const { server } = await listen(express());
+  const { port } = server.address() as AddressInfo;
+  await close(server);
+  return port;
+}
+
+/**
+ * Отправляет запрос без keep-alive
+ * @param url - адрес запроса
+ * @param options - метод, заголовки и тело запроса
+ * @returns статус, заголовки и тело ответа (JSON разбирается)
+ */
+function request(
+  url: string,
+  options: { method?: string; headers?: Record<string, string>; body?: any } = {}
+): Promise<TestResponse> {
+  const payload = options.body !== undefined ? JSON.stringify(options.body) : undefined;
+  const headers: Record<string, string> = { ...options.headers };
+  if (payload !== undefined) {
+    headers['content-type'] = 'application/json';
+  }
+  return new Promise((resolve, reject) => {
+    const req = http.request(
+      url,
+      { method: options.method || 'GET', headers, agent: false },
+      (res) => {
+        const chunks: Buffer[] = [];
+        res.on('data', (chunk: Buffer) => chunks.push(chunk));
+        res.on('end', () => {
+          const text = Buffer.concat(chunks).toString();
+          let body: any = text;
+          if (String(res.headers['content-type']).includes('json')) {
+            body = JSON.parse(text);
+          }
+          resolve({ status: res.statusCode || 0, headers: res.headers, body });
+        });
+      }
+    );
+    req.on('error', reject);
+    req.end(payload);
+  });
+}
+
+/**
+ * Создает backend, который возвращает описание полученного запроса
+ * @returns Express приложение
+ */
+function createUpstream(): Express {
+  const app = express();
+  app.use(bodyParser.json());
+  app.get('/api/redirect', (req: Request, res: Response) => {
+    res.redirect(302, `http://${req.headers.host}/api/target`);
+  });
+  app.all('*', (req: Request, res: Response) => {
+    res.status(req.method === 'POST' ? 201 : 200).json({
+      upstream: true,
+      method: req.method,
+      url: req.originalUrl,
+      headers: req.headers,
+      body: req.body,
+    });
+  });
+  return app;
+}
+
+describe('forwardRequest', () => {
+  let upstream: Upstream;
+  let proxy: Upstream;
+  let exchanges: ProxiedExchange[];
+
+  beforeAll(async () => {
+    upstream = await listen(createUpstream());
+    // Мини-прокси: тело разбирается как в мок-сервере, исходный буфер сохраняется в rawBody
+    const app = express();
+    app.use(
+      bodyParser.json({
+        verify: (req: Request, _res: Response, buffer: Buffer) => {
+          (req as any).rawBody = buffer;
+        },
+      })
+    );
+    app.use((req: Request, res: Response) => {
+      forwardRequest(
+        req,
+        res,
+        `${upstream.url}/api`,
+        { 'X-Api-Key': 'secret', Cookie: '' },
+        (exchange) => exchanges.push(exchange)
+      );
+    });
+    proxy = await listen(app);
+  });
+
+  beforeEach(() => {
+    exchanges = [];
+  });
+
+  afterAll(async () => {
+    await close(proxy.server);
+    await close(upstream.server);
+  });
+
+  it('передает метод, путь с префиксом backend, query и разобранное тело', async () => {
+    const response = await request(`${proxy.url}/users?limit=2`, {
+      method: 'POST',
+      body: { name: 'Ann' },
+    });
+
+    expect(response.status).toBe(201);
+    expect(response.body).toMatchObject({
+      upstream: true,
+      method: 'POST',
+      url: '/api/users?limit=2',
+      body: { name: 'Ann' },
+    });
+  });
+
+  it('заменяет Host, добавляет X-Forwarded-* и применяет подстановку заголовков', async () => {
+    const response = await request(`${proxy.url}/users`, {
+      headers: { cookie: 'session=1', 'x-mock-scenario': 'empty', 'x-custom': 'kept' },
+    });
+    const headers = response.body.headers;
+
+    expect(headers.host).toBe(new URL(upstream.url).host);
+    expect(headers['x-forwarded-host']).toBe(new URL(proxy.url).host);
+    expect(headers['x-forwarded-proto']).toBe('http');
+    expect(headers['x-forwarded-for']).toContain('127.0.0.1');
+    expect(headers['x-api-key']).toBe('secret');
+    expect(headers['x-custom']).toBe('kept');
+    expect(headers.cookie).toBeUndefined();
+    expect(headers['x-mock-scenario']).toBeUndefined();
+  });
+
+  it('переписывает Location backend на адрес прокси', async () => {
+    const response = await request(`${proxy.url}/redirect`);
+
+    expect(response.status).toBe(302);
+    expect(response.headers.location).toBe(`${proxy.url}/target`);
+  });
+
+  it('передает ответ backend в onExchange', async () => {
+    await request(`${proxy.url}/items/7`);
+
+    expect(exchanges).toHaveLength(1);
+    expect(exchanges[0].statusCode).toBe(200);
+    expect(JSON.parse(String(exchanges[0].body))).toMatchObject({ url: '/api/items/7' });
+  });
+
+  it('отвечает 502, если backend недоступен', async () => {
+    const app = express();
+    const target = `http://127.0.0.1:${await freePort()}`;
+    app.use((req: Request, res: Response) => {
+      forwardRequest(req, res, target);
+    });
+    const unreachable = await listen(app);
+    try {
+      const response = await request(`${unreachable.url}/users`);
+
+      expect(response.status).toBe(502);
+      expect(response.body).toEqual({ error: 'Bad gateway', target });
+    } finally {
+      await close(unreachable.server);
+    }
+  });
+});
+
+describe('MockServer с --proxy', () => {
+  let upstream: Upstream;
+  let mockServer: MockServer;
+  let mockUrl: string;
+
+  beforeAll(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    upstream = await listen(createUpstream());
+
+    const parser = new OpenAPIParser();
+    await parser.loadSpecFromObject({
+      openapi: '3.0.3',
+      info: { title: 'Proxy test', version: '1.0.0' },
+      paths: {
+        '/users': {
+          get: {
+            responses: {
+              '200': {
+                description: 'ok',
+                content: {
+                  'application/json': {
+                    schema: {
+                      type: 'array',
+                      items: { type: 'object', properties: { name: { type: 'string' } } },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    });
+
+    const port = await freePort();
+    mockServer = new MockServer(
+      {
+        port,
+        host: '127.0.0.1',
+        proxyUrl: `${upstream.url}/api`,
+        endpoints: new Map(),
+      },
+      parser.getSpec()
+    );
+    mockServer.registerEndpoints(parser.parseEndpoints());
+    await mockServer.start();
+    mockUrl = `http://127.0.0.1:${port}`;
+  });
+
+  afterEach(() => {
+    mockServer.getSettingsManager().deleteEndpointConfig('GET:/users');
+  });
+
+  afterAll(async () => {
+    await mockServer.stop();
+    await close(upstream.server);
+    jest.restoreAllMocks();
+  });
+
+  it('генерирует ответ для маршрута из спецификации', async () => {
+    const response = await request(`${mockUrl}/users`);
+
+    expect(response.status).toBe(200);
+    expect(Array.isArray(response.body)).toBe(true);
+  });
+
+  it('передает на backend маршруты вне спецификации', async () => {
+    const response = await request(`${mockUrl}/orders/5?expand=items`, {
+      method: 'POST',
+      body: { total: 10 },
+    });
+
+    expect(response.status).toBe(201);
+    expect(response.body).toMatchObject({
+      upstream: true,
+      url: '/api/orders/5?expand=items',
+      body: { total: 10 },
+    });
+  });
+
+  it('передает на backend эндпоинт с passthrough', async () => {
+    mockServer.getSettingsManager().saveEndpointConfig('GET:/users', { passthrough: true });
+
+    const response = await request(`${mockUrl}/users`);
+
+    expect(response.status).toBe(200);
+    expect(response.body).toMatchObject({ upstream: true, url: '/api/users' });
+  });
+
+  it('включает passthrough через admin API', async () => {
+    const saved = await request(`${mockUrl}/api/endpoints/GET/${encodeURIComponent('/users')}`, {
+      method: 'PUT',
+      body: { passthrough: true },
+    });
+    const response = await request(`${mockUrl}/users`);
+
+    expect(saved.status).toBe(200);
+    expect(response.body).toMatchObject({ upstream: true, method: 'GET' });
+  });
+});
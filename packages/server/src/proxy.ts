@@ -0,0 +1,166 @@
+import { Request, Response } from 'express';
+import http, { IncomingHttpHeaders, OutgoingHttpHeaders } from 'http';
+import https from 'https';
+
+// Hop-by-hop заголовки не передаются через прокси (RFC 7230, раздел 6.1)
+const HOP_BY_HOP_HEADERS = [
+  'connection',
+  'keep-alive',
+  'proxy-authenticate',
+  'proxy-authorization',
+  'proxy-connection',
+  'te',
+  'trailer',
+  'transfer-encoding',
+  'upgrade',
+];
+
+// Таймаут ответа backend (мс)
+const UPSTREAM_TIMEOUT = 30000;
+// Максимальный размер ответа, сохраняемого для записи (1MB)
+const MAX_CAPTURED_BODY = 1024 * 1024;
+
+// Ответ backend, полученный через прокси
+export interface ProxiedExchange {
+  statusCode: number;
+  headers: IncomingHttpHeaders;
+  // Тело ответа (undefined, если ответ больше MAX_CAPTURED_BODY)
+  body?: Buffer;
+}
+
+/**
+ * Копирует заголовки без hop-by-hop и перечисленных в Connection
+ * @param headers - исходные заголовки
+ * @returns заголовки для передачи дальше
+ */
+function copyHeaders(headers: IncomingHttpHeaders): OutgoingHttpHeaders {
+  const connectionHeaders = String(headers.connection || '')
+    .split(',')
+    .map((name) => name.trim().toLowerCase());
+  const result: OutgoingHttpHeaders = {};
+  for (const [name, value] of Object.entries(headers)) {
+    if (
+      value !== undefined &&
+      !HOP_BY_HOP_HEADERS.includes(name) &&
+      !connectionHeaders.includes(name)
+    ) {
+      result[name] = value;
+    }
+  }
+  return result;
+}
+
+/**
+ * Передает запрос на backend и возвращает его ответ клиенту без изменений тела
+ * Заголовок Host заменяется адресом backend, добавляются X-Forwarded-*, а Location
+ * в ответе backend переписывается на адрес мок-сервера
+ * @param req - объект запроса Express (разобранное тело берется из req.rawBody)
+ * @param res - объект ответа Express
+ * @param target - адрес backend (путь адреса становится префиксом пути запроса)
+ * @param headerOverrides - заголовки для подстановки (пустое значение удаляет заголовок)
+ * @param onExchange - получает ответ backend целиком после его передачи клиенту (для записи)
+ */
+export function forwardRequest(
+  req: Request,
+  res: Response,
+  target: string,
+  headerOverrides: Record<string, string> = {},
+  onExchange?: (exchange: ProxiedExchange) => void
+): Promise<void> {
+  const upstream = new URL(target);
+  const prefix = upstream.pathname.replace(/\/$/, '');
+  const url = new URL(prefix + req.originalUrl, upstream);
+  const mockOrigin = `${req.protocol}://${req.get('host')}`;
+
+  const headers = copyHeaders(req.headers);
+  headers.host = upstream.host;
+  headers['x-forwarded-for'] = [req.headers['x-forwarded-for'], req.socket.remoteAddress]
+    .filter(Boolean)
+    .join(', ');
+  headers['x-forwarded-host'] = req.get('host');
+  headers['x-forwarded-proto'] = req.protocol;
+  // Служебный заголовок мок-сервера backend не нужен
+  delete headers['x-mock-scenario'];
+  for (const [name, value] of Object.entries(headerOverrides)) {
+    if (value === '') {
+      delete headers[name.toLowerCase()];
+    } else {
+      headers[name.toLowerCase()] = value;
+    }
+  }
+
+  // body-parser уже прочитал поток, поэтому тело передается из сохраненного буфера
+  const rawBody: Buffer | undefined = (req as any).rawBody;
+  if (rawBody) {
+    headers['content-length'] = String(rawBody.length);
+  }
+
+  return new Promise((resolve) => {
+    const transport = url.protocol === 'https:' ? https : http;
+    const upstreamReq = transport.request(
+      url,
+      { method: req.method, headers, timeout: UPSTREAM_TIMEOUT },
+      (upstreamRes) => {
+        const responseHeaders = copyHeaders(upstreamRes.headers);
+        const location = upstreamRes.headers.location;
+        if (location?.startsWith(upstream.origin + prefix)) {
+          responseHeaders.location =
+            mockOrigin + location.slice(upstream.origin.length + prefix.length);
+        }
+        res.writeHead(upstreamRes.statusCode || 502, responseHeaders);
+        upstreamRes.pipe(res);
+
+        // Копия тела для записи собирается параллельно с передачей клиенту
+        const chunks: Buffer[] = [];
+        let capturedSize = 0;
+        if (onExchange) {
+          upstreamRes.on('data', (chunk: Buffer) => {
+            capturedSize += chunk.length;
+            if (capturedSize <= MAX_CAPTURED_BODY) {
+              chunks.push(chunk);
+            }
+          });
+        }
+        upstreamRes.on('end', () => {
+          onExchange?.({
+            statusCode: upstreamRes.statusCode || 502,
+            headers: upstreamRes.headers,
+            body: capturedSize <= MAX_CAPTURED_BODY ? Buffer.concat(chunks) : undefined,
+          });
+          resolve();
+        });
+        upstreamRes.on('error', () => {
+          res.destroy();
+          resolve();
+        });
+      }
+    );
+
+    upstreamReq.on('timeout', () => {
+      upstreamReq.destroy(new Error('Upstream timeout'));
+    });
+    upstreamReq.on('error', (error) => {
+      if (!res.headersSent) {
+        const timedOut = error.message === 'Upstream timeout';
+        res
+          .status(timedOut ? 504 : 502)
+          .json({ error: timedOut ? 'Upstream timeout' : 'Bad gateway', target: upstream.origin });
+      } else {
+        res.destroy();
+      }
+      resolve();
+    });
+    // Клиент оборвал соединение — запрос к backend больше не нужен
+    res.on('close', () => {
+      if (!res.writableFinished) {
+        upstreamReq.destroy();
+      }
+    });
+
+    if (rawBody) {
+      upstreamReq.end(rawBody);
+    } else {
+      req.pipe(upstreamReq);
+    }
+  });
+}
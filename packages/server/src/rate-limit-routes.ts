@@ -0,0 +1,20 @@
+import { Express, Request, Response } from 'express';
+import { RateLimiter } from './rate-limiter';
+
+/**
+ * Настраивает admin API для просмотра и сброса квот ограничения частоты запросов
+ * @param app - Express приложение
+ * @param rateLimiter - ограничитель частоты запросов
+ */
+export function setupRateLimitRoutes(app: Express, rateLimiter: RateLimiter): void {
+  // Остаток квот по клиентам
+  app.get('/api/rate-limits', (_req: Request, res: Response) => {
+    res.json(rateLimiter.getStatus());
+  });
+
+  // Сброс всех квот
+  app.post('/api/rate-limits/reset', (_req: Request, res: Response) => {
+    rateLimiter.reset();
+    res.json({ success: true });
+  });
+}
@@ -0,0 +1,149 @@
+import { Request } from 'express';
+import { RateLimitPolicy } from '@api-mock-generator/shared';
+import { RateLimiter } from './rate-limiter';
+
+/**
+ * Создает запрос Express с IP адресом и заголовками
+ * @param ip - IP адрес клиента
+ * @param headers - заголовки запроса
+ * @returns запрос для ограничителя
+ */
+function createRequest(ip: string, headers: Record<string, string> = {}): Request {
+  return {
+    ip,
+    get: (name: string) => headers[name.toLowerCase()],
+  } as unknown as Request;
+}
+
+describe('RateLimiter', () => {
+  let now: number;
+
+  beforeEach(() => {
+    now = 1_000_000;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('фиксированное окно', () => {
+    const policy: RateLimitPolicy = {
+      algorithm: 'fixed-window',
+      limit: 2,
+      windowMs: 10000,
+      keyBy: 'ip',
+    };
+
+    it('разрешает limit запросов за окно и сообщает время до сброса', () => {
+      const limiter = new RateLimiter();
+      const req = createRequest('10.0.0.1');
+
+      expect(limiter.consume('global', policy, req)).toEqual({
+        allowed: true,
+        limit: 2,
+        remaining: 1,
+        resetSeconds: 10,
+        retryAfterSeconds: 0,
+      });
+      limiter.consume('global', policy, req);
+      now += 4000;
+      expect(limiter.consume('global', policy, req)).toEqual({
+        allowed: false,
+        limit: 2,
+        remaining: 0,
+        resetSeconds: 6,
+        retryAfterSeconds: 6,
+      });
+    });
+
+    it('начинает новое окно по истечении windowMs', () => {
+      const limiter = new RateLimiter();
+      const req = createRequest('10.0.0.1');
+      limiter.consume('global', policy, req);
+      limiter.consume('global', policy, req);
+
+      now += 10000;
+
+      expect(limiter.consume('global', policy, req)).toMatchObject({
+        allowed: true,
+        remaining: 1,
+      });
+    });
+
+    it('ведет квоты отдельно по клиентам и областям', () => {
+      const limiter = new RateLimiter();
+      limiter.consume('global', policy, createRequest('10.0.0.1'));
+      limiter.consume('global', policy, createRequest('10.0.0.1'));
+
+      expect(limiter.consume('global', policy, createRequest('10.0.0.2')).allowed).toBe(true);
+      expect(limiter.consume('GET:/users', policy, createRequest('10.0.0.1')).allowed).toBe(true);
+    });
+  });
+
+  describe('корзина токенов', () => {
+    const policy: RateLimitPolicy = {
+      algorithm: 'token-bucket',
+      limit: 2,
+      windowMs: 10000,
+      keyBy: 'api-key',
+    };
+
+    it('пополняет токены пропорционально прошедшему времени', () => {
+      const limiter = new RateLimiter();
+      const req = createRequest('10.0.0.1', { 'x-api-key': 'key-1' });
+      limiter.consume('global', policy, req);
+      limiter.consume('global', policy, req);
+
+      // Один токен появляется за windowMs / limit = 5 секунд
+      expect(limiter.consume('global', policy, req)).toEqual({
+        allowed: false,
+        limit: 2,
+        remaining: 0,
+        resetSeconds: 10,
+        retryAfterSeconds: 5,
+      });
+      now += 5000;
+      expect(limiter.consume('global', policy, req)).toMatchObject({
+        allowed: true,
+        remaining: 0,
+      });
+    });
+  });
+
+  it('определяет клиента по заголовку и считает запросы без него анонимными', () => {
+    const limiter = new RateLimiter();
+    const policy: RateLimitPolicy = {
+      algorithm: 'fixed-window',
+      limit: 5,
+      windowMs: 60000,
+      keyBy: 'header',
+      header: 'X-Tenant',
+    };
+
+    limiter.consume('global', policy, createRequest('10.0.0.1', { 'x-tenant': 'acme' }));
+    limiter.consume('global', policy, createRequest('10.0.0.2'));
+
+    expect(limiter.getStatus()).toEqual([
+      { scope: 'global', client: 'acme', limit: 5, remaining: 4, resetSeconds: 60 },
+      { scope: 'global', client: 'anonymous', limit: 5, remaining: 4, resetSeconds: 60 },
+    ]);
+    limiter.reset();
+    expect(limiter.getStatus()).toEqual([]);
+  });
+
+  it('начинает квоту заново при изменении политики', () => {
+    const limiter = new RateLimiter();
+    const req = createRequest('10.0.0.1');
+    const strict: RateLimitPolicy = {
+      algorithm: 'fixed-window',
+      limit: 1,
+      windowMs: 60000,
+      keyBy: 'ip',
+    };
+    limiter.consume('global', strict, req);
+
+    expect(limiter.consume('global', strict, req).allowed).toBe(false);
+    expect(limiter.consume('global', { ...strict }, req).allowed).toBe(true);
+  });
+});
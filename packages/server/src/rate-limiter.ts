@@ -0,0 +1,190 @@
+import { Request } from 'express';
+import { RateLimitPolicy, RateLimitStatus } from '@api-mock-generator/shared';
+
+// Состояние квоты одного клиента в одной области
+interface LimitState {
+  scope: string;
+  client: string;
+  // Политика, для которой ведется учет (при изменении квота начинается заново)
+  policy: RateLimitPolicy;
+  // Фиксированное окно: начало окна и число запросов
+  windowStart: number;
+  count: number;
+  // Корзина токенов: остаток токенов и время последнего пополнения
+  tokens: number;
+  lastRefill: number;
+}
+
+// Результат проверки квоты
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  // Секунд до полного сброса квоты
+  resetSeconds: number;
+  // Секунд до следующего разрешенного запроса (для Retry-After)
+  retryAfterSeconds: number;
+}
+
+// Остаток квоты для заголовков X-RateLimit-*
+type QuotaInfo = Pick<RateLimitResult, 'limit' | 'remaining' | 'resetSeconds'>;
+
+// Максимальное число отслеживаемых клиентов (защита от переполнения памяти)
+const MAX_STATES = 10000;
+
+/**
+ * Ограничитель частоты запросов (фиксированное окно или корзина токенов)
+ * Квоты хранятся в памяти по области (global или эндпоинт) и ключу клиента
+ */
+export class RateLimiter {
+  // Квоты по области и ключу клиента
+  private states: Map<string, LimitState> = new Map();
+
+  /**
+   * Учитывает запрос и проверяет, не исчерпана ли квота
+   * @param scope - область квоты ('global' или ключ эндпоинта)
+   * @param policy - политика ограничения
+   * @param req - объект запроса Express
+   * @returns результат проверки с данными для заголовков X-RateLimit-*
+   */
+  consume(scope: string, policy: RateLimitPolicy, req: Request): RateLimitResult {
+    const client = this.getClientKey(policy, req);
+    const stateKey = `${scope}#${client}`;
+    const now = Date.now();
+
+    let state = this.states.get(stateKey);
+    if (!state || state.policy !== policy) {
+      state = {
+        scope,
+        client,
+        policy,
+        windowStart: now,
+        count: 0,
+        tokens: policy.limit,
+        lastRefill: now,
+      };
+      this.states.delete(stateKey);
+      this.states.set(stateKey, state);
+      // Удаляем самую старую запись при превышении лимита
+      if (this.states.size > MAX_STATES) {
+        const oldestKey = this.states.keys().next().value;
+        if (oldestKey !== undefined) {
+          this.states.delete(oldestKey);
+        }
+      }
+    }
+
+    return policy.algorithm === 'token-bucket'
+      ? this.consumeToken(state, now)
+      : this.consumeWindow(state, now);
+  }
+
+  /**
+   * Получает состояние квот всех клиентов
+   * @returns квоты с остатком и временем до сброса
+   */
+  getStatus(): RateLimitStatus[] {
+    const now = Date.now();
+    return Array.from(this.states.values()).map((state) => {
+      const { limit, remaining, resetSeconds } =
+        state.policy.algorithm === 'token-bucket'
+          ? this.peekToken(state, now)
+          : this.peekWindow(state, now);
+      return { scope: state.scope, client: state.client, limit, remaining, resetSeconds };
+    });
+  }
+
+  /**
+   * Сбрасывает все квоты
+   */
+  reset(): void {
+    this.states.clear();
+  }
+
+  /**
+   * Учитывает запрос в фиксированном окне
+   */
+  private consumeWindow(state: LimitState, now: number): RateLimitResult {
+    const { limit } = state.policy;
+    if (now - state.windowStart >= state.policy.windowMs) {
+      state.windowStart = now;
+      state.count = 0;
+    }
+    const allowed = state.count < limit;
+    if (allowed) {
+      state.count += 1;
+    }
+    const peek = this.peekWindow(state, now);
+    return { allowed, ...peek, retryAfterSeconds: allowed ? 0 : peek.resetSeconds };
+  }
+
+  /**
+   * Учитывает запрос в корзине токенов
+   */
+  private consumeToken(state: LimitState, now: number): RateLimitResult {
+    const { limit, windowMs } = state.policy;
+    this.refill(state, now);
+    const allowed = state.tokens >= 1;
+    if (allowed) {
+      state.tokens -= 1;
+    }
+    const peek = this.peekToken(state, now);
+    // Время до появления следующего токена
+    const retryAfterSeconds = allowed
+      ? 0
+      : Math.max(1, Math.ceil(((1 - state.tokens) * windowMs) / limit / 1000));
+    return { allowed, ...peek, retryAfterSeconds };
+  }
+
+  /**
+   * Остаток квоты фиксированного окна без учета запроса
+   */
+  private peekWindow(state: LimitState, now: number): QuotaInfo {
+    const { limit, windowMs } = state.policy;
+    const expired = now - state.windowStart >= windowMs;
+    return {
+      limit,
+      remaining: expired ? limit : Math.max(0, limit - state.count),
+      resetSeconds: expired ? 0 : Math.ceil((state.windowStart + windowMs - now) / 1000),
+    };
+  }
+
+  /**
+   * Остаток корзины токенов без учета запроса
+   */
+  private peekToken(state: LimitState, now: number): QuotaInfo {
+    const { limit, windowMs } = state.policy;
+    this.refill(state, now);
+    return {
+      limit,
+      remaining: Math.floor(state.tokens),
+      // Время до полного пополнения корзины
+      resetSeconds: Math.ceil(((limit - state.tokens) * windowMs) / limit / 1000),
+    };
+  }
+
+  /**
+   * Пополняет корзину токенов пропорционально прошедшему времени
+   */
+  private refill(state: LimitState, now: number): void {
+    const { limit, windowMs } = state.policy;
+    const elapsed = now - state.lastRefill;
+    state.tokens = Math.min(limit, state.tokens + (elapsed * limit) / windowMs);
+    state.lastRefill = now;
+  }
+
+  /**
+   * Определяет ключ клиента по политике
+   * @param policy - политика ограничения
+   * @param req - объект запроса Express
+   * @returns IP адрес или значение заголовка (anonymous, если заголовка нет)
+   */
+  private getClientKey(policy: RateLimitPolicy, req: Request): string {
+    if (policy.keyBy === 'ip') {
+      return req.ip || 'unknown';
+    }
+    const headerName = policy.header || (policy.keyBy === 'api-key' ? 'X-API-Key' : '');
+    const value = headerName ? req.get(headerName) : undefined;
+    return value ? value.slice(0, 256) : 'anonymous';
+  }
+}
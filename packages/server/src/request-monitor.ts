@@ -1,5 +1,5 @@
 import { Request, Response } from 'express';
-import { RequestLog } from '@api-mock-generator/shared';
+import { FaultType, RequestLog } from '@api-mock-generator/shared';
 import { WebSocket } from 'ws';
 
 /**
@@ -95,10 +95,31 @@ export class RequestMonitor {
         headers: safeHeaders,
         query: safeQuery,
         params: safeParams,
-        statusCode: res.statusCode,
+        // Если ответ не был отправлен (оборванное соединение), статуса нет
+        statusCode: res.headersSent ? res.statusCode : undefined,
         responseTime,
       };
 
+      // Сценарий, примененный к запросу
+      if (typeof res.locals.scenario === 'string') {
+        log.scenario = res.locals.scenario;
+      }
+
+      // Внедренный сбой
+      if (typeof res.locals.fault === 'string') {
+        log.fault = res.locals.fault as FaultType;
+      }
+
+      // Запрос обработан backend в режиме прокси
+      if (res.locals.proxied === true) {
+        log.proxied = true;
+      }
+
+      // Нарушения схемы запроса, найденные при валидации
+      if (Array.isArray(res.locals.validationErrors) && res.locals.validationErrors.length > 0) {
+        log.validationErrors = res.locals.validationErrors;
+      }
+
       // Пытаемся получить тело запроса (если доступно, с ограничением размера)
       if (req.body && typeof req.body === 'object') {
         try {
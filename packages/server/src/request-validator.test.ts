@@ -0,0 +1,128 @@
+import { Request } from 'express';
+import { ParsedEndpoint } from '@api-mock-generator/shared';
+import { RequestValidator } from './request-validator';
+
+// Эндпоинт с параметрами во всех расположениях и JSON телом
+const endpoint: ParsedEndpoint = {
+  path: '/users/:id',
+  method: 'PUT',
+  operation: { responses: {} },
+  parameters: [
+    { name: 'id', in: 'path', required: true, schema: { type: 'integer', minimum: 1 } },
+    {
+      name: 'tags',
+      in: 'query',
+      required: false,
+      schema: { type: 'array', items: { type: 'integer' } },
+    },
+    { name: 'dryRun', in: 'query', required: true, schema: { type: 'boolean' } },
+    { name: 'X-Trace', in: 'header', required: false, schema: { type: 'string', maxLength: 4 } },
+    { name: 'session', in: 'cookie', required: false, schema: { type: 'string', minLength: 3 } },
+  ],
+  requestBody: {
+    required: true,
+    content: {
+      'application/json': {
+        schema: {
+          type: 'object',
+          required: ['name'],
+          properties: { name: { type: 'string' } },
+        },
+      },
+    },
+  },
+};
+
+/**
+ * Создает объект запроса Express с нужными полями
+ * @param overrides - параметры, query, заголовки и тело запроса
+ * @returns запрос для валидатора
+ */
+function createRequest(overrides: {
+  params?: Record<string, string>;
+  query?: Record<string, any>;
+  headers?: Record<string, string>;
+  body?: any;
+}): Request {
+  const body = overrides.body;
+  const headers: Record<string, string> = { ...overrides.headers };
+  if (body !== undefined) {
+    headers['content-type'] = headers['content-type'] || 'application/json';
+    headers['content-length'] = String(JSON.stringify(body).length);
+  }
+  return {
+    params: overrides.params || {},
+    query: overrides.query || {},
+    headers,
+    body,
+  } as unknown as Request;
+}
+
+describe('RequestValidator', () => {
+  const validator = new RequestValidator();
+
+  it('приводит строковые значения параметров к типам схемы', () => {
+    const req = createRequest({
+      params: { id: '7' },
+      query: { tags: ['1', '2'], dryRun: 'true' },
+      headers: { 'x-trace': 'abc', cookie: 'session=xyz' },
+      body: { name: 'Ann' },
+    });
+
+    expect(validator.validate(endpoint, req)).toEqual([]);
+  });
+
+  it('сообщает нарушения параметров с их расположением', () => {
+    const req = createRequest({
+      params: { id: '0' },
+      query: { tags: ['1', 'x'] },
+      headers: { 'x-trace': 'too long', cookie: 'session=a' },
+      body: { name: 'Ann' },
+    });
+
+    expect(
+      validator.validate(endpoint, req).map(({ location, name, path, keyword }) => ({
+        location,
+        name,
+        path,
+        keyword,
+      }))
+    ).toEqual([
+      { location: 'path', name: 'id', path: '', keyword: 'minimum' },
+      { location: 'query', name: 'tags', path: '/1', keyword: 'type' },
+      { location: 'query', name: 'dryRun', path: '', keyword: 'required' },
+      { location: 'header', name: 'X-Trace', path: '', keyword: 'maxLength' },
+      { location: 'cookie', name: 'session', path: '', keyword: 'minLength' },
+    ]);
+  });
+
+  it('требует обязательное тело и проверяет его по схеме', () => {
+    const params = { id: '1' };
+    const query = { dryRun: 'false' };
+
+    expect(validator.validate(endpoint, createRequest({ params, query }))).toEqual([
+      { location: 'body', path: '', keyword: 'required', message: 'request body is required' },
+    ]);
+    expect(
+      validator.validate(endpoint, createRequest({ params, query, body: { name: 1 } }))
+    ).toEqual([expect.objectContaining({ location: 'body', path: '/name', keyword: 'type' })]);
+  });
+
+  it('отклоняет тело с необъявленным Content-Type', () => {
+    const req = createRequest({
+      params: { id: '1' },
+      query: { dryRun: 'true' },
+      headers: { 'content-type': 'text/plain' },
+      body: 'name=Ann',
+    });
+
+    expect(validator.validate(endpoint, req)).toEqual([
+      {
+        location: 'body',
+        path: '',
+        keyword: 'contentType',
+        message: "unsupported content type 'text/plain', expected one of: application/json",
+      },
+    ]);
+  });
+});
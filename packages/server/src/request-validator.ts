@@ -0,0 +1,274 @@
+import { Request } from 'express';
+import {
+  ParsedEndpoint,
+  ParsedParameter,
+  ParsedMediaType,
+  RequestViolation,
+} from '@api-mock-generator/shared';
+import { SchemaValidator } from '@api-mock-generator/core';
+
+// Заголовки, которые по спецификации OpenAPI не описываются как параметры
+const IGNORED_HEADERS = ['accept', 'content-type', 'authorization'];
+
+/**
+ * Валидатор входящих запросов по схемам параметров и тела из спецификации
+ * Строковые значения path/query/header/cookie приводятся к типам схемы перед проверкой
+ */
+export class RequestValidator {
+  // Валидатор JSON Schema
+  private schemaValidator: SchemaValidator;
+
+  /**
+   * Конструктор валидатора запросов
+   * @param spec - полная спецификация OpenAPI (для разрешения $ref)
+   */
+  constructor(spec?: any) {
+    this.schemaValidator = new SchemaValidator(spec);
+  }
+
+  /**
+   * Проверяет запрос по описанию эндпоинта
+   * @param endpoint - распарсенный эндпоинт
+   * @param req - объект запроса Express
+   * @returns список всех нарушений (пустой, если запрос валиден)
+   */
+  validate(endpoint: ParsedEndpoint, req: Request): RequestViolation[] {
+    const violations: RequestViolation[] = [];
+    const cookies = this.parseCookies(req.headers.cookie);
+
+    for (const param of endpoint.parameters || []) {
+      if (param.in === 'header' && IGNORED_HEADERS.includes(param.name.toLowerCase())) {
+        continue;
+      }
+      const rawValue = this.getParameterValue(param, req, cookies);
+      if (rawValue === undefined) {
+        if (param.required) {
+          violations.push({
+            location: param.in,
+            name: param.name,
+            path: '',
+            keyword: 'required',
+            message: `${param.in} parameter '${param.name}' is required`,
+          });
+        }
+        continue;
+      }
+      if (!param.schema) {
+        continue;
+      }
+      // Массивы в path и header (style simple) и при explode: false передаются через запятую
+      const commaSeparated =
+        param.in === 'path' || param.in === 'header' || param.explode === false;
+      const value = this.coerceValue(rawValue, param.schema, commaSeparated);
+      for (const violation of this.schemaValidator.validate(value, param.schema, 'request')) {
+        violations.push({ location: param.in, name: param.name, ...violation });
+      }
+    }
+
+    violations.push(...this.validateBody(endpoint, req));
+    return violations;
+  }
+
+  /**
+   * Проверяет тело запроса
+   * @param endpoint - распарсенный эндпоинт
+   * @param req - объект запроса Express
+   * @returns нарушения в теле запроса
+   */
+  private validateBody(endpoint: ParsedEndpoint, req: Request): RequestViolation[] {
+    const requestBody = endpoint.requestBody;
+    if (!requestBody) {
+      return [];
+    }
+
+    // Тело считается переданным, если есть Content-Length > 0 или chunked передача
+    const contentLength = parseInt(req.headers['content-length'] || '0', 10);
+    const hasBody = contentLength > 0 || req.headers['transfer-encoding'] !== undefined;
+    if (!hasBody) {
+      return requestBody.required
+        ? [{ location: 'body', path: '', keyword: 'required', message: 'request body is required' }]
+        : [];
+    }
+
+    // Пустой content означает, что допустимо любое тело
+    const mediaTypes = Object.keys(requestBody.content);
+    if (mediaTypes.length === 0) {
+      return [];
+    }
+    const contentType = (req.headers['content-type'] || '').split(';')[0].trim().toLowerCase();
+    const mediaType = this.matchMediaType(requestBody.content, contentType);
+    if (!mediaType) {
+      return [
+        {
+          location: 'body',
+          path: '',
+          keyword: 'contentType',
+          message: `unsupported content type '${contentType || 'none'}', expected one of: ${mediaTypes.join(', ')}`,
+        },
+      ];
+    }
+    if (!mediaType.schema) {
+      return [];
+    }
+
+    // Проверяем только тела, которые разобраны body-parser (JSON и формы)
+    let body: any;
+    if (/\bjson\b/.test(contentType)) {
+      body = req.body;
+    } else if (contentType === 'application/x-www-form-urlencoded') {
+      body = this.coerceValue(req.body, mediaType.schema, false);
+    } else {
+      return [];
+    }
+    return this.schemaValidator
+      .validate(body, mediaType.schema, 'request')
+      .map((violation) => ({ location: 'body' as const, ...violation }));
+  }
+
+  /**
+   * Находит описание MIME типа для Content-Type запроса (с учетом шаблонов вида application/*)
+   * @param content - содержимое тела запроса по MIME типам
+   * @param contentType - MIME тип запроса без параметров
+   * @returns описание MIME типа или undefined
+   */
+  private matchMediaType(
+    content: Record<string, ParsedMediaType>,
+    contentType: string
+  ): ParsedMediaType | undefined {
+    const entries = Object.entries(content).map(
+      ([type, media]) => [type.split(';')[0].trim().toLowerCase(), media] as const
+    );
+    const exact = entries.find(([type]) => type === contentType);
+    if (exact) {
+      return exact[1];
+    }
+    const [mainType] = contentType.split('/');
+    const wildcard =
+      entries.find(([type]) => type === `${mainType}/*`) ||
+      entries.find(([type]) => type === '*/*');
+    return wildcard?.[1];
+  }
+
+  /**
+   * Получает сырое значение параметра из запроса
+   * @param param - параметр операции
+   * @param req - объект запроса Express
+   * @param cookies - разобранные cookie запроса
+   * @returns значение параметра или undefined, если он не передан
+   */
+  private getParameterValue(
+    param: ParsedParameter,
+    req: Request,
+    cookies: Record<string, string>
+  ): any {
+    switch (param.in) {
+      case 'path':
+        return req.params[param.name];
+      case 'query':
+        return req.query[param.name];
+      case 'header':
+        return req.headers[param.name.toLowerCase()];
+      case 'cookie':
+        return cookies[param.name];
+      default:
+        return undefined;
+    }
+  }
+
+  /**
+   * Приводит строковые значения к типам схемы (числа, булевы, массивы, объекты)
+   * Значения, которые не удается привести, остаются строками и не проходят проверку типа
+   * @param value - сырое значение
+   * @param schema - схема значения
+   * @param commaSeparated - разделять ли строку массива запятыми
+   * @returns приведенное значение
+   */
+  private coerceValue(value: any, schema: any, commaSeparated: boolean): any {
+    const resolved = this.schemaValidator.resolveSchema(schema);
+    const types: string[] = Array.isArray(resolved.type)
+      ? resolved.type
+      : [resolved.type || this.inferType(resolved) || ''];
+
+    if (types.includes('array')) {
+      let items: any[];
+      if (Array.isArray(value)) {
+        items = value;
+      } else if (typeof value === 'string' && commaSeparated) {
+        items = value.split(',');
+      } else {
+        items = [value];
+      }
+      return items.map((item) => this.coerceValue(item, resolved.items, commaSeparated));
+    }
+
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+      // Объекты (deepObject в query, поля формы) приводим по свойствам
+      const properties: Record<string, any> = resolved.properties || {};
+      const result: Record<string, any> = {};
+      for (const [key, item] of Object.entries(value)) {
+        result[key] = properties[key]
+          ? this.coerceValue(item, properties[key], commaSeparated)
+          : item;
+      }
+      return result;
+    }
+
+    if (typeof value !== 'string') {
+      return value;
+    }
+    if (
+      (types.includes('integer') || types.includes('number')) &&
+      /^-?\d+(\.\d+)?([eE][+-]?\d+)?$/.test(value)
+    ) {
+      return Number(value);
+    }
+    if (types.includes('boolean') && (value === 'true' || value === 'false')) {
+      return value === 'true';
+    }
+    if (types.includes('null') && value === 'null') {
+      return null;
+    }
+    return value;
+  }
+
+  /**
+   * Определяет тип схемы без явного type по структурным ключевым словам
+   * @param schema - схема
+   * @returns имя типа или undefined
+   */
+  private inferType(schema: any): string | undefined {
+    if (schema.items || schema.prefixItems) {
+      return 'array';
+    }
+    if (schema.properties) {
+      return 'object';
+    }
+    return undefined;
+  }
+
+  /**
+   * Разбирает заголовок Cookie
+   * @param header - значение заголовка Cookie
+   * @returns cookie по именам
+   */
+  private parseCookies(header?: string): Record<string, string> {
+    const cookies: Record<string, string> = {};
+    if (!header) {
+      return cookies;
+    }
+    for (const part of header.split(';')) {
+      const index = part.indexOf('=');
+      if (index <= 0) {
+        continue;
+      }
+      const name = part.slice(0, index).trim();
+      const value = part.slice(index + 1).trim();
+      try {
+        cookies[name] = decodeURIComponent(value);
+      } catch {
+        cookies[name] = value;
+      }
+    }
+    return cookies;
+  }
+}
@@ -0,0 +1,168 @@
+import { Request } from 'express';
+import { ParsedEndpoint } from '@api-mock-generator/shared';
+import { DataGenerator } from '@api-mock-generator/core';
+import { ResourceStore } from './resource-store';
+
+// Записи коллекций: пользователь с целым id, заказ без идентификатора в схеме
+const user = {
+  type: 'object',
+  required: ['id', 'name'],
+  properties: { id: { type: 'integer' }, name: { type: 'string' }, tags: { type: 'object' } },
+};
+const order = { type: 'object', required: ['total'], properties: { total: { type: 'number' } } };
+
+/**
+ * Создает распарсенный эндпоинт
+ * @param method - HTTP метод
+ * @param path - путь в формате Express
+ * @param responseSchema - схема успешного ответа
+ * @param status - объявленный успешный статус код
+ * @returns эндпоинт
+ */
+function endpoint(
+  method: string,
+  path: string,
+  responseSchema?: any,
+  status = '200'
+): ParsedEndpoint {
+  return {
+    method,
+    path,
+    operation: { responses: {} },
+    responseSchema,
+    responses: { [status]: { description: 'ok', content: {} } },
+  };
+}
+
+// Эндпоинты спецификации: /users с записями и вложенная коллекция /users/:userId/orders
+const endpoints = [
+  endpoint('GET', '/users', { type: 'array', items: user }),
+  endpoint('POST', '/users', user, '201'),
+  endpoint('GET', '/users/:userId', user),
+  endpoint('PUT', '/users/:userId', user),
+  endpoint('PATCH', '/users/:userId', user),
+  endpoint('DELETE', '/users/:userId', undefined, '204'),
+  endpoint('GET', '/users/:userId/orders', { type: 'array', items: order }),
+  endpoint('POST', '/users/:userId/orders', order, '201'),
+];
+
+/**
+ * Создает запрос Express с параметрами пути и телом
+ * @param params - параметры пути
+ * @param body - тело запроса
+ * @returns запрос для хранилища
+ */
+function createRequest(params: Record<string, string> = {}, body?: any): Request {
+  return { params, body } as unknown as Request;
+}
+
+/**
+ * Находит эндпоинт по методу и пути
+ * @param key - ключ эндпоинта (метод:путь)
+ * @returns эндпоинт
+ */
+function find(key: string): ParsedEndpoint {
+  return endpoints.find((item) => `${item.method}:${item.path}` === key) as ParsedEndpoint;
+}
+
+describe('ResourceStore', () => {
+  let store: ResourceStore;
+
+  beforeEach(() => {
+    store = new ResourceStore(new DataGenerator(), undefined, 2, 42);
+    store.registerEndpoints(endpoints);
+  });
+
+  it('наполняет корневые коллекции сгенерированными записями', () => {
+    const result = store.handle(find('GET:/users'), createRequest());
+
+    expect(result?.statusCode).toBe(200);
+    expect(result?.body).toEqual([
+      expect.objectContaining({ id: expect.any(Number), name: expect.any(String) }),
+      expect.objectContaining({ id: expect.any(Number), name: expect.any(String) }),
+    ]);
+    expect(store.getCollections()).toEqual([{ collection: '/users', pattern: '/users', count: 2 }]);
+  });
+
+  it('создает, изменяет и удаляет записи', () => {
+    const [first, second] = store.getRecords('/users') as any[];
+    const id = Math.max(first.id, second.id) + 1;
+    const params = { userId: String(id) };
+
+    // Занятый идентификатор заменяется следующим свободным
+    expect(
+      store.handle(find('POST:/users'), createRequest({}, { id: first.id, name: 'Ann' }))
+    ).toEqual({ statusCode: 201, body: { id, name: 'Ann' } });
+    expect(
+      store.handle(find('PATCH:/users/:userId'), createRequest(params, { tags: { a: 1 }, id: 0 }))
+    ).toEqual({ statusCode: 200, body: { id, name: 'Ann', tags: { a: 1 } } });
+    expect(
+      store.handle(find('PATCH:/users/:userId'), createRequest(params, { tags: null }))?.body
+    ).toEqual({ id, name: 'Ann' });
+    expect(
+      store.handle(find('PUT:/users/:userId'), createRequest(params, { name: 'Bob' }))
+    ).toEqual({ statusCode: 200, body: { id, name: 'Bob' } });
+    expect(store.handle(find('DELETE:/users/:userId'), createRequest(params))).toEqual({
+      statusCode: 204,
+    });
+    expect(store.handle(find('GET:/users/:userId'), createRequest(params))).toEqual({
+      statusCode: 404,
+      body: { error: 'Resource not found' },
+    });
+  });
+
+  it('создает вложенную коллекцию при первом обращении к существующей записи', () => {
+    const userId = String((store.getRecords('/users') as any[])[0].id);
+    const result = store.handle(find('GET:/users/:userId/orders'), createRequest({ userId }));
+
+    expect(result?.statusCode).toBe(200);
+    expect(result?.body).toHaveLength(2);
+    // У заказа нет свойства идентификатора в схеме, поэтому он хранится только как ключ
+    expect(Object.keys(result?.body[0])).toEqual(['total']);
+    expect(store.getRecords(`/users/${userId}/orders`)).toHaveLength(2);
+  });
+
+  it('отвечает 404 для вложенной коллекции несуществующей записи и не создает ее', () => {
+    const list = store.handle(
+      find('GET:/users/:userId/orders'),
+      createRequest({ userId: 'missing' })
+    );
+    const created = store.handle(
+      find('POST:/users/:userId/orders'),
+      createRequest({ userId: 'missing' }, { total: 1 })
+    );
+
+    expect(list).toEqual({ statusCode: 404, body: { error: 'Resource not found' } });
+    expect(created?.statusCode).toBe(404);
+    expect(store.getRecords('/users/missing/orders')).toBeUndefined();
+  });
+
+  it('ограничивает число вложенных коллекций, удаляя самые старые', () => {
+    const empty = new ResourceStore(new DataGenerator(), undefined, 0);
+    empty.registerEndpoints(endpoints);
+    for (let i = 0; i < 1001; i++) {
+      const created = empty.handle(find('POST:/users'), createRequest({}, { name: 'Ann' }));
+      empty.handle(
+        find('GET:/users/:userId/orders'),
+        createRequest({ userId: String(created?.body.id) })
+      );
+    }
+    const nested = empty.getCollections().filter((info) => info.pattern !== '/users');
+
+    expect(nested).toHaveLength(1000);
+    expect(empty.getRecords('/users/1/orders')).toBeUndefined();
+    expect(empty.getRecords('/users/1001/orders')).toEqual([]);
+  });
+
+  it('сбрасывает коллекции к начальному наполнению', () => {
+    const created = store.handle(find('POST:/users'), createRequest({}, { name: 'Ann' }));
+    const userId = String(created?.body.id);
+    store.handle(find('GET:/users/:userId/orders'), createRequest({ userId }));
+
+    store.reset();
+
+    expect(store.getRecords('/users')).toHaveLength(2);
+    expect(store.getRecords('/users')).not.toContainEqual(created?.body);
+    expect(store.getRecords(`/users/${userId}/orders`)).toBeUndefined();
+  });
+});
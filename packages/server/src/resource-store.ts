@@ -0,0 +1,549 @@
+import { Request } from 'express';
+import { ParsedEndpoint } from '@api-mock-generator/shared';
+import {
+  DataGenerator,
+  SchemaValidator,
+  deriveSeed,
+  withLocale,
+  withSeed,
+} from '@api-mock-generator/core';
+
+// Максимальное число вложенных коллекций (защита от переполнения памяти при обходе идентификаторов)
+const MAX_NESTED_COLLECTIONS = 1000;
+
+// Коллекция, выведенная из путей спецификации (/users и /users/:id)
+interface CollectionDefinition {
+  // Шаблон пути коллекции в формате Express (например, /users/:userId/orders)
+  pattern: string;
+  // Имя параметра пути с идентификатором записи
+  idParam: string;
+  // Свойство записи, в котором хранится идентификатор
+  idField: string;
+  // Тип идентификатора: целые числа выдаются по порядку, строки — UUID
+  idType: 'integer' | 'string';
+  // Идентификатор хранится в записи (иначе он только ключ записи в коллекции)
+  storesId: boolean;
+  // Схема одной записи
+  itemSchema?: any;
+  // Схема ответа списка (массив или объект-обертка с массивом)
+  listSchema?: any;
+}
+
+// Маршрут эндпоинта в хранилище: список коллекции или отдельная запись
+interface StoreRoute {
+  // Коллекция маршрута
+  collection: CollectionDefinition;
+  // Тип маршрута
+  kind: 'collection' | 'item';
+}
+
+// Результат обработки запроса хранилищем
+export interface StoreResult {
+  // Статус код ответа
+  statusCode: number;
+  // Тело ответа (отсутствует для 204)
+  body?: any;
+}
+
+// Сводка по коллекции для admin API
+export interface StoreCollectionInfo {
+  // Путь коллекции с подставленными параметрами (например, /users/5/orders)
+  collection: string;
+  // Шаблон пути коллекции
+  pattern: string;
+  // Количество записей
+  count: number;
+}
+
+/**
+ * In-memory хранилище ресурсов для stateful режима
+ * Выводит коллекции из путей спецификации, хранит созданные записи и наполняет коллекции
+ * сгенерированными данными
+ */
+export class ResourceStore {
+  // Генератор данных для начального наполнения
+  private dataGenerator: DataGenerator;
+  // Валидатор схем (используется для разрешения $ref)
+  private schemaValidator: SchemaValidator;
+  // Количество записей для начального наполнения каждой коллекции
+  private seedCount: number;
+  // Seed генерации данных наполнения (undefined — случайные данные)
+  private randomSeed?: number;
+  // Локаль данных наполнения (undefined — английская)
+  private locale?: string;
+  // Маршруты хранилища по ключу эндпоинта (метод:путь)
+  private routes: Map<string, StoreRoute> = new Map();
+  // Коллекции по шаблону пути
+  private definitions: Map<string, CollectionDefinition> = new Map();
+  // Записи: путь коллекции → идентификатор → запись
+  private data: Map<string, Map<string, any>> = new Map();
+  // Описание коллекции для каждого пути коллекции с данными
+  private collectionPatterns: Map<string, string> = new Map();
+
+  /**
+   * Конструктор хранилища
+   * @param dataGenerator - генератор данных
+   * @param spec - полная спецификация OpenAPI (для разрешения $ref)
+   * @param seedCount - количество записей для наполнения каждой коллекции
+   * @param seed - seed генерации данных наполнения (опционально)
+   * @param locale - локаль данных наполнения (опционально)
+   */
+  constructor(
+    dataGenerator: DataGenerator,
+    spec: any,
+    seedCount: number,
+    seed?: number,
+    locale?: string
+  ) {
+    this.dataGenerator = dataGenerator;
+    this.schemaValidator = new SchemaValidator(spec);
+    this.seedCount = seedCount;
+    this.randomSeed = seed;
+    this.locale = locale;
+  }
+
+  /**
+   * Выводит коллекции из эндпоинтов и наполняет коллекции без параметров в пути
+   * @param endpoints - распарсенные эндпоинты
+   */
+  registerEndpoints(endpoints: ParsedEndpoint[]): void {
+    const byKey = new Map(
+      endpoints.map((endpoint) => [`${endpoint.method}:${endpoint.path}`, endpoint])
+    );
+
+    // Коллекции с маршрутом записи: /users + /users/:id
+    for (const endpoint of endpoints) {
+      const segments = endpoint.path.split('/');
+      const last = segments[segments.length - 1];
+      const pattern = segments.slice(0, -1).join('/');
+      if (last.startsWith(':') && pattern && !this.definitions.has(pattern)) {
+        this.definitions.set(pattern, {
+          pattern,
+          idParam: last.slice(1),
+          idField: 'id',
+          idType: 'string',
+          storesId: true,
+        });
+      }
+    }
+    // Коллекции без маршрута записи: GET возвращает массив
+    for (const endpoint of endpoints) {
+      if (endpoint.method !== 'GET' || this.definitions.has(endpoint.path)) {
+        continue;
+      }
+      if (this.resolveType(endpoint.responseSchema) === 'array') {
+        this.definitions.set(endpoint.path, {
+          pattern: endpoint.path,
+          idParam: 'id',
+          idField: 'id',
+          idType: 'string',
+          storesId: true,
+        });
+      }
+    }
+
+    for (const definition of this.definitions.values()) {
+      const itemPath = `${definition.pattern}/:${definition.idParam}`;
+      const list = byKey.get(`GET:${definition.pattern}`);
+      const create = byKey.get(`POST:${definition.pattern}`);
+      const item = byKey.get(`GET:${itemPath}`);
+
+      // Схема записи: ответ GET записи, затем ответ POST, затем элементы списка
+      definition.listSchema = list?.responseSchema;
+      definition.itemSchema =
+        item?.responseSchema ??
+        create?.responseSchema ??
+        this.getListItemSchema(list?.responseSchema);
+      this.resolveIdField(definition, item);
+
+      for (const method of ['GET', 'POST']) {
+        if (byKey.has(`${method}:${definition.pattern}`)) {
+          this.routes.set(`${method}:${definition.pattern}`, {
+            collection: definition,
+            kind: 'collection',
+          });
+        }
+      }
+      for (const method of ['GET', 'PUT', 'PATCH', 'DELETE']) {
+        if (byKey.has(`${method}:${itemPath}`)) {
+          this.routes.set(`${method}:${itemPath}`, { collection: definition, kind: 'item' });
+        }
+      }
+    }
+
+    this.seed();
+  }
+
+  /**
+   * Обрабатывает запрос, если эндпоинт относится к коллекции
+   * @param endpoint - распарсенный эндпоинт
+   * @param req - объект запроса Express
+   * @returns результат или undefined, если эндпоинт не обслуживается хранилищем
+   */
+  handle(endpoint: ParsedEndpoint, req: Request): StoreResult | undefined {
+    const route = this.routes.get(`${endpoint.method}:${endpoint.path}`);
+    if (!route) {
+      return undefined;
+    }
+    const definition = route.collection;
+    // Вложенная коллекция (/users/5/orders) существует только у существующей родительской записи
+    if (!this.parentExists(definition.pattern, req.params)) {
+      return { statusCode: 404, body: { error: 'Resource not found' } };
+    }
+    const collectionPath = this.buildCollectionPath(definition.pattern, req.params);
+    const records = this.getCollection(definition, collectionPath);
+
+    if (route.kind === 'collection') {
+      if (endpoint.method === 'GET') {
+        return { statusCode: 200, body: this.buildList(definition, [...records.values()]) };
+      }
+      // POST: сохраняем тело запроса с выданным идентификатором
+      const record = this.createRecord(definition, records, req.body);
+      return { statusCode: this.declaredStatus(endpoint, ['201', '200'], 201), body: record };
+    }
+
+    const id = String(req.params[definition.idParam]);
+    const existing = records.get(id);
+    if (!existing) {
+      // Если в спецификации объявлена схема ответа 404, сервер сгенерирует тело по ней
+      return { statusCode: 404, body: { error: 'Resource not found' } };
+    }
+
+    switch (endpoint.method) {
+      case 'GET':
+        return { statusCode: 200, body: existing };
+      case 'PUT': {
+        const replaced = { ...this.asObject(req.body) };
+        if (definition.storesId) {
+          replaced[definition.idField] = existing[definition.idField];
+        }
+        records.set(id, replaced);
+        return { statusCode: 200, body: replaced };
+      }
+      case 'PATCH': {
+        const patched = this.mergePatch(existing, this.asObject(req.body));
+        if (definition.storesId) {
+          patched[definition.idField] = existing[definition.idField];
+        }
+        records.set(id, patched);
+        return { statusCode: 200, body: patched };
+      }
+      case 'DELETE': {
+        records.delete(id);
+        const statusCode = this.declaredStatus(endpoint, ['204', '200'], 204);
+        return statusCode === 204 ? { statusCode } : { statusCode, body: existing };
+      }
+      default:
+        return undefined;
+    }
+  }
+
+  /**
+   * Сбрасывает хранилище к начальному наполнению
+   * @param collectionPath - путь коллекции (если не указан, сбрасываются все коллекции)
+   */
+  reset(collectionPath?: string): void {
+    if (collectionPath) {
+      this.data.delete(collectionPath);
+      this.collectionPatterns.delete(collectionPath);
+    } else {
+      this.data.clear();
+      this.collectionPatterns.clear();
+    }
+    this.seed();
+  }
+
+  /**
+   * Получает сводку по коллекциям с данными
+   * @returns список коллекций с количеством записей
+   */
+  getCollections(): StoreCollectionInfo[] {
+    return [...this.data.entries()].map(([collection, records]) => ({
+      collection,
+      pattern: this.collectionPatterns.get(collection) || collection,
+      count: records.size,
+    }));
+  }
+
+  /**
+   * Получает записи коллекции
+   * @param collectionPath - путь коллекции (например, /users)
+   * @returns записи или undefined, если коллекция не найдена
+   */
+  getRecords(collectionPath: string): any[] | undefined {
+    const records = this.data.get(collectionPath);
+    return records ? [...records.values()] : undefined;
+  }
+
+  /**
+   * Наполняет коллекции без параметров в пути (вложенные наполняются при первом обращении)
+   */
+  private seed(): void {
+    for (const definition of this.definitions.values()) {
+      if (!definition.pattern.includes(':')) {
+        this.getCollection(definition, definition.pattern);
+      }
+    }
+  }
+
+  /**
+   * Получает записи коллекции, создавая и наполняя ее при первом обращении
+   * @param definition - описание коллекции
+   * @param collectionPath - путь коллекции с подставленными параметрами
+   * @returns записи коллекции
+   */
+  private getCollection(
+    definition: CollectionDefinition,
+    collectionPath: string
+  ): Map<string, any> {
+    let records = this.data.get(collectionPath);
+    if (!records) {
+      if (definition.pattern.includes(':')) {
+        this.limitNestedCollections();
+      }
+      records = new Map();
+      this.data.set(collectionPath, records);
+      this.collectionPatterns.set(collectionPath, definition.pattern);
+      if (definition.itemSchema) {
+        const itemSchema = definition.itemSchema;
+        const collection = records;
+        // С seed наполнение каждой коллекции не зависит от порядка обращений к коллекциям
+        const seed =
+          this.randomSeed !== undefined ? deriveSeed(this.randomSeed, collectionPath) : undefined;
+        withLocale(this.locale, () =>
+          withSeed(seed, () => {
+            for (let i = 0; i < this.seedCount; i++) {
+              this.createRecord(
+                definition,
+                collection,
+                this.dataGenerator.generateFromSchema(itemSchema)
+              );
+            }
+          })
+        );
+      }
+    }
+    return records;
+  }
+
+  /**
+   * Проверяет, что запись родительской коллекции существует (/users/:userId/orders → /users)
+   * Если родительский путь не обслуживается хранилищем, проверка не выполняется
+   * @param pattern - шаблон пути коллекции
+   * @param params - параметры пути запроса
+   * @returns true если родительская запись найдена или родителя нет
+   */
+  private parentExists(pattern: string, params: Record<string, string>): boolean {
+    const segments = pattern.split('/');
+    const index = segments.map((segment) => segment.startsWith(':')).lastIndexOf(true);
+    if (index < 0) {
+      return true;
+    }
+    const parent = this.definitions.get(segments.slice(0, index).join('/'));
+    if (!parent) {
+      return true;
+    }
+    if (!this.parentExists(parent.pattern, params)) {
+      return false;
+    }
+    const records = this.getCollection(parent, this.buildCollectionPath(parent.pattern, params));
+    return records.has(String(params[segments[index].slice(1)]));
+  }
+
+  /**
+   * Удаляет самую старую вложенную коллекцию при достижении лимита
+   */
+  private limitNestedCollections(): void {
+    const nested = [...this.collectionPatterns.entries()].filter(([, pattern]) =>
+      pattern.includes(':')
+    );
+    if (nested.length >= MAX_NESTED_COLLECTIONS) {
+      const [oldest] = nested[0];
+      this.data.delete(oldest);
+      this.collectionPatterns.delete(oldest);
+    }
+  }
+
+  /**
+   * Создает запись с уникальным идентификатором
+   * @param definition - описание коллекции
+   * @param records - записи коллекции
+   * @param body - данные записи
+   * @returns сохраненная запись
+   */
+  private createRecord(
+    definition: CollectionDefinition,
+    records: Map<string, any>,
+    body: any
+  ): any {
+    const record = { ...this.asObject(body) };
+    let id = definition.storesId ? record[definition.idField] : undefined;
+    // Выдаем идентификатор, если он не передан или уже занят
+    if (id === undefined || id === null || records.has(String(id))) {
+      // UUID выдает генератор данных, чтобы наполнение с seed было воспроизводимым
+      id =
+        definition.idType === 'integer'
+          ? this.nextIntegerId(records)
+          : this.dataGenerator.generateFromSchema({ type: 'string', format: 'uuid' });
+    }
+    // Схема записи без свойства идентификатора (например, /pets без id) его не получает
+    if (definition.storesId) {
+      record[definition.idField] = id;
+    }
+    records.set(String(id), record);
+    return record;
+  }
+
+  /**
+   * Вычисляет следующий целочисленный идентификатор
+   * @param records - записи коллекции
+   * @returns максимальный идентификатор + 1
+   */
+  private nextIntegerId(records: Map<string, any>): number {
+    let max = 0;
+    for (const key of records.keys()) {
+      const value = Number(key);
+      if (Number.isInteger(value) && value > max) {
+        max = value;
+      }
+    }
+    return max + 1;
+  }
+
+  /**
+   * Формирует ответ списка: массив записей или объект-обертка с массивом записей
+   * @param definition - описание коллекции
+   * @param records - записи коллекции
+   * @returns тело ответа списка
+   */
+  private buildList(definition: CollectionDefinition, records: any[]): any {
+    const listSchema = this.schemaValidator.resolveSchema(definition.listSchema);
+    if (!definition.listSchema || this.resolveType(listSchema) === 'array') {
+      return records;
+    }
+    // Обертка вида { data: [...], total: 10 }: подставляем записи в первое свойство-массив
+    const wrapper = withLocale(this.locale, () =>
+      this.dataGenerator.generateFromSchema(definition.listSchema)
+    );
+    const properties: Record<string, any> = listSchema.properties || {};
+    const arrayKey = Object.keys(properties).find(
+      (key) => this.resolveType(properties[key]) === 'array'
+    );
+    if (!wrapper || typeof wrapper !== 'object' || !arrayKey) {
+      return records;
+    }
+    wrapper[arrayKey] = records;
+    // Счетчики в обертке должны совпадать с количеством записей
+    for (const key of ['total', 'count', 'totalCount']) {
+      if (key in properties && this.resolveType(properties[key]) === 'integer') {
+        wrapper[key] = records.length;
+      }
+    }
+    return wrapper;
+  }
+
+  /**
+   * Определяет свойство и тип идентификатора записи по схеме
+   * @param definition - описание коллекции
+   * @param item - эндпоинт GET записи (опционально)
+   */
+  private resolveIdField(definition: CollectionDefinition, item?: ParsedEndpoint): void {
+    const itemSchema = this.schemaValidator.resolveSchema(definition.itemSchema);
+    const properties: Record<string, any> = itemSchema.properties || {};
+    // Свойство с именем параметра пути (userId) имеет приоритет над id
+    definition.idField = definition.idParam in properties ? definition.idParam : 'id';
+    // Без свойства в схеме тип идентификатора берется из параметра пути (/pets/{petId}: integer)
+    const idParameter = item?.parameters?.find(
+      (parameter) => parameter.in === 'path' && parameter.name === definition.idParam
+    );
+    const idType = this.resolveType(properties[definition.idField] ?? idParameter?.schema);
+    definition.idType = idType === 'integer' || idType === 'number' ? 'integer' : 'string';
+    // Без схемы записи идентификатор добавляется всегда, по схеме — только если он объявлен
+    definition.storesId = !definition.itemSchema || definition.idField in properties;
+  }
+
+  /**
+   * Получает схему элемента списка
+   * @param listSchema - схема ответа списка
+   * @returns схема элемента или undefined
+   */
+  private getListItemSchema(listSchema: any): any {
+    const resolved = this.schemaValidator.resolveSchema(listSchema);
+    if (this.resolveType(resolved) === 'array') {
+      return resolved.items;
+    }
+    // Обертка: элементы первого свойства-массива
+    for (const property of Object.values(resolved.properties || {})) {
+      const resolvedProperty = this.schemaValidator.resolveSchema(property);
+      if (this.resolveType(resolvedProperty) === 'array') {
+        return resolvedProperty.items;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Определяет тип схемы (для массива типов — первый не-null)
+   * @param schema - схема
+   * @returns имя типа или undefined
+   */
+  private resolveType(schema: any): string | undefined {
+    const resolved = this.schemaValidator.resolveSchema(schema);
+    if (Array.isArray(resolved.type)) {
+      return resolved.type.find((type: string) => type !== 'null');
+    }
+    if (resolved.type) {
+      return resolved.type;
+    }
+    return resolved.items || resolved.prefixItems ? 'array' : undefined;
+  }
+
+  /**
+   * Выбирает статус код ответа из объявленных в спецификации
+   * @param endpoint - распарсенный эндпоинт
+   * @param candidates - статус коды в порядке приоритета
+   * @param fallback - статус код, если ни один не объявлен
+   * @returns статус код
+   */
+  private declaredStatus(endpoint: ParsedEndpoint, candidates: string[], fallback: number): number {
+    const declared = candidates.find((code) => endpoint.responses?.[code]);
+    return declared ? parseInt(declared, 10) : fallback;
+  }
+
+  /**
+   * Подставляет параметры запроса в шаблон пути коллекции
+   * @param pattern - шаблон пути (например, /users/:userId/orders)
+   * @param params - параметры пути запроса
+   * @returns путь коллекции (например, /users/5/orders)
+   */
+  private buildCollectionPath(pattern: string, params: Record<string, string>): string {
+    return pattern.replace(/:([A-Za-z0-9_]+)/g, (_match, name) => params[name] ?? `:${name}`);
+  }
+
+  /**
+   * Применяет JSON Merge Patch (RFC 7386): null удаляет свойство, объекты сливаются рекурсивно
+   * @param target - исходная запись
+   * @param patch - изменения
+   * @returns новая запись
+   */
+  private mergePatch(target: any, patch: Record<string, any>): Record<string, any> {
+    const result: Record<string, any> = { ...this.asObject(target) };
+    for (const [key, value] of Object.entries(patch)) {
+      if (value === null) {
+        delete result[key];
+      } else if (typeof value === 'object' && !Array.isArray(value)) {
+        result[key] = this.mergePatch(result[key], value);
+      } else {
+        result[key] = value;
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Приводит значение к объекту (тело запроса может отсутствовать или быть не объектом)
+   */
+  private asObject(value: any): Record<string, any> {
+    return value && typeof value === 'object' && !Array.isArray(value) ? value : {};
+  }
+}
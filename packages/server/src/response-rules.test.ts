@@ -0,0 +1,121 @@
+import { Request } from 'express';
+import { ResponseRule } from '@api-mock-generator/shared';
+import { findMatchingRule } from './response-rules';
+
+/**
+ * Создает запрос Express с заголовками, query, параметрами пути и телом
+ * @param overrides - части запроса
+ * @returns запрос для проверки правил
+ */
+function createRequest(
+  overrides: {
+    headers?: Record<string, string | string[]>;
+    query?: Record<string, any>;
+    params?: Record<string, string>;
+    body?: any;
+  } = {}
+): Request {
+  return {
+    headers: overrides.headers || {},
+    query: overrides.query || {},
+    params: overrides.params || {},
+    body: overrides.body,
+  } as unknown as Request;
+}
+
+describe('findMatchingRule', () => {
+  const rules: ResponseRule[] = [
+    {
+      name: 'vip',
+      matchers: [
+        { source: 'header', key: 'X-Tier', operator: 'equals', value: 'vip' },
+        { source: 'body', key: '$.items[*].sku', operator: 'regex', value: '^GIFT-' },
+      ],
+      statusCode: 202,
+    },
+    {
+      name: 'admin',
+      matchers: [{ source: 'path', key: 'id', operator: 'equals', value: '0' }],
+      statusCode: 403,
+    },
+    {
+      name: 'debug',
+      matchers: [{ source: 'query', key: 'debug', operator: 'exists' }],
+      statusCode: 418,
+    },
+    { name: 'fallback', matchers: [], statusCode: 200 },
+  ];
+
+  it('выбирает первое правило, все условия которого выполняются', () => {
+    const req = createRequest({
+      headers: { 'x-tier': 'vip' },
+      params: { id: '0' },
+      body: { items: [{ sku: 'A1' }, { sku: 'GIFT-7' }] },
+    });
+
+    expect(findMatchingRule(rules, req)?.name).toBe('vip');
+  });
+
+  it('переходит к следующему правилу, если не выполнено хотя бы одно условие', () => {
+    const req = createRequest({
+      headers: { 'x-tier': 'vip' },
+      params: { id: '0' },
+      body: { items: [{ sku: 'A1' }] },
+    });
+
+    expect(findMatchingRule(rules, req)?.name).toBe('admin');
+    expect(findMatchingRule(rules, createRequest({ query: { debug: '' } }))?.name).toBe('debug');
+    expect(findMatchingRule(rules, createRequest())?.name).toBe('fallback');
+  });
+
+  it('проверяет каждое значение повторяющихся query параметров и заголовков', () => {
+    const matchers: ResponseRule['matchers'] = [
+      { source: 'query', key: 'tag', operator: 'equals', value: 'b' },
+      { source: 'header', key: 'accept', operator: 'regex', value: 'xml' },
+    ];
+    const req = createRequest({
+      query: { tag: ['a', 'b'] },
+      headers: { accept: ['application/json', 'application/xml'] },
+    });
+
+    expect(findMatchingRule([{ matchers }], req)).toBeDefined();
+  });
+
+  it('сравнивает объекты тела как JSON', () => {
+    const rule: ResponseRule = {
+      matchers: [{ source: 'body', key: 'user', operator: 'equals', value: '{"id":1}' }],
+    };
+
+    expect(findMatchingRule([rule], createRequest({ body: { user: { id: 1 } } }))).toBe(rule);
+    expect(findMatchingRule([rule], createRequest({ body: { user: { id: 2 } } }))).toBeUndefined();
+  });
+
+  it('проверяет отсутствие значения и отсутствие любого query параметра по ключу *', () => {
+    const rule: ResponseRule = {
+      matchers: [
+        { source: 'query', key: '*', operator: 'absent' },
+        { source: 'header', key: 'authorization', operator: 'absent' },
+      ],
+    };
+
+    expect(findMatchingRule([rule], createRequest())).toBe(rule);
+    expect(findMatchingRule([rule], createRequest({ query: { page: '3' } }))).toBeUndefined();
+    expect(
+      findMatchingRule([rule], createRequest({ headers: { authorization: 'Bearer x' } }))
+    ).toBeUndefined();
+  });
+
+  it('не совпадает с некорректным регулярным выражением и JSONPath', () => {
+    const req = createRequest({ headers: { 'x-tier': 'vip' }, body: { a: 1 } });
+
+    expect(
+      findMatchingRule(
+        [{ matchers: [{ source: 'header', key: 'x-tier', operator: 'regex', value: '(' }] }],
+        req
+      )
+    ).toBeUndefined();
+    expect(
+      findMatchingRule([{ matchers: [{ source: 'body', key: '$.a[', operator: 'exists' }] }], req)
+    ).toBeUndefined();
+  });
+});
@@ -0,0 +1,87 @@
+import { Request } from 'express';
+import { ResponseRule, RuleMatcher } from '@api-mock-generator/shared';
+import { queryJsonPath } from '@api-mock-generator/core';
+
+/**
+ * Находит первое правило, все условия которого выполняются для запроса
+ * @param rules - правила эндпоинта в порядке приоритета
+ * @param req - объект запроса Express
+ * @returns совпавшее правило или undefined
+ */
+export function findMatchingRule(rules: ResponseRule[], req: Request): ResponseRule | undefined {
+  return rules.find((rule) => (rule.matchers || []).every((matcher) => matchesRule(matcher, req)));
+}
+
+/**
+ * Проверяет одно условие правила
+ * @param matcher - условие
+ * @param req - объект запроса Express
+ * @returns true если условие выполняется
+ */
+function matchesRule(matcher: RuleMatcher, req: Request): boolean {
+  const values = getRequestValues(matcher, req);
+  switch (matcher.operator) {
+    case 'exists':
+      return values.length > 0;
+    case 'absent':
+      return values.length === 0;
+    case 'equals':
+      return values.some((value) => stringify(value) === matcher.value);
+    case 'regex': {
+      let regex: RegExp;
+      try {
+        regex = new RegExp(matcher.value || '');
+      } catch {
+        return false;
+      }
+      return values.some((value) => regex.test(stringify(value)));
+    }
+    default:
+      return false;
+  }
+}
+
+/**
+ * Извлекает значения из части запроса, указанной в условии
+ * @param matcher - условие
+ * @param req - объект запроса Express
+ * @returns найденные значения (пустой массив, если значения нет)
+ */
+function getRequestValues(matcher: RuleMatcher, req: Request): any[] {
+  let value: any;
+  switch (matcher.source) {
+    case 'header':
+      value = req.headers[matcher.key.toLowerCase()];
+      break;
+    case 'query':
+      // Ключ * — значения всех query параметров (absent выполняется для запроса без query)
+      value =
+        matcher.key === '*'
+          ? ([] as any[]).concat(...Object.values(req.query))
+          : req.query[matcher.key];
+      break;
+    case 'path':
+      value = req.params[matcher.key];
+      break;
+    case 'body':
+      try {
+        return queryJsonPath(req.body, matcher.key);
+      } catch {
+        return [];
+      }
+    default:
+      return [];
+  }
+  if (value === undefined) {
+    return [];
+  }
+  // Повторяющиеся заголовки и query параметры проверяем по каждому значению
+  return Array.isArray(value) ? value : [value];
+}
+
+/**
+ * Приводит значение к строке для сравнения (объекты сериализуются в JSON)
+ */
+function stringify(value: any): string {
+  return typeof value === 'object' && value !== null ? JSON.stringify(value) : String(value);
+}
@@ -0,0 +1,95 @@
+import { Request } from 'express';
+import { ResponseSequence } from '@api-mock-generator/shared';
+import { ResponseSequencer } from './response-sequencer';
+
+// Шаги последовательности: создание, ошибка, успех
+const steps = [{ statusCode: 202 }, { statusCode: 500 }, { statusCode: 200 }];
+
+/**
+ * Создает запрос Express с параметрами пути
+ * @param params - параметры пути
+ * @returns запрос для последовательности
+ */
+function createRequest(params: Record<string, string> = {}): Request {
+  return { params } as unknown as Request;
+}
+
+/**
+ * Вызывает последовательность несколько раз подряд
+ * @param sequencer - счетчики последовательностей
+ * @param sequence - последовательность ответов
+ * @param count - количество вызовов
+ * @param params - параметры пути запроса
+ * @returns статус коды выбранных шагов
+ */
+function callMany(
+  sequencer: ResponseSequencer,
+  sequence: ResponseSequence,
+  count: number,
+  params?: Record<string, string>
+): Array<number | undefined> {
+  return Array.from(
+    { length: count },
+    () => sequencer.next('GET:/jobs/:id', sequence, createRequest(params))?.statusCode
+  );
+}
+
+describe('ResponseSequencer', () => {
+  it('повторяет последний шаг в режиме stop', () => {
+    expect(callMany(new ResponseSequencer(), { mode: 'stop', steps }, 5)).toEqual([
+      202, 500, 200, 200, 200,
+    ]);
+  });
+
+  it('начинает сначала в режиме cycle', () => {
+    expect(callMany(new ResponseSequencer(), { mode: 'cycle', steps }, 5)).toEqual([
+      202, 500, 200, 202, 500,
+    ]);
+  });
+
+  it('выбирает случайный шаг в режиме random', () => {
+    const codes = callMany(new ResponseSequencer(), { mode: 'random', steps }, 50);
+
+    expect(new Set(codes)).toEqual(new Set([202, 500, 200]));
+  });
+
+  it('ведет отдельный счетчик для каждого значения параметров пути', () => {
+    const sequencer = new ResponseSequencer();
+    const sequence: ResponseSequence = { mode: 'stop', scope: 'path', steps };
+
+    expect(callMany(sequencer, sequence, 2, { id: '1' })).toEqual([202, 500]);
+    expect(callMany(sequencer, sequence, 1, { id: '2' })).toEqual([202]);
+    expect(sequencer.getCounters()).toEqual([
+      { endpoint: 'GET:/jobs/:id', params: { id: '1' }, calls: 2 },
+      { endpoint: 'GET:/jobs/:id', params: { id: '2' }, calls: 1 },
+    ]);
+  });
+
+  it('начинает измененную последовательность с первого шага', () => {
+    const sequencer = new ResponseSequencer();
+    callMany(sequencer, { mode: 'stop', steps }, 2);
+
+    expect(callMany(sequencer, { mode: 'stop', steps: [...steps] }, 1)).toEqual([202]);
+  });
+
+  it('сбрасывает счетчики эндпоинта или все счетчики', () => {
+    const sequencer = new ResponseSequencer();
+    const sequence: ResponseSequence = { mode: 'stop', steps };
+    callMany(sequencer, sequence, 2);
+    sequencer.next('GET:/other', sequence, createRequest());
+
+    sequencer.reset('GET:/jobs/:id');
+
+    expect(callMany(sequencer, sequence, 1)).toEqual([202]);
+    expect(sequencer.getCounters().map((counter) => counter.endpoint)).toEqual([
+      'GET:/other',
+      'GET:/jobs/:id',
+    ]);
+    sequencer.reset();
+    expect(sequencer.getCounters()).toEqual([]);
+  });
+
+  it('не выбирает шаг для пустой последовательности', () => {
+    expect(callMany(new ResponseSequencer(), { mode: 'cycle', steps: [] }, 1)).toEqual([undefined]);
+  });
+});
@@ -0,0 +1,93 @@
+import { Request } from 'express';
+import { ResponseSequence, SequenceStep } from '@api-mock-generator/shared';
+
+// Счетчик вызовов последовательности
+interface SequenceCounter {
+  // Ключ эндпоинта (метод:путь)
+  endpoint: string;
+  // Значения параметров пути (для счетчиков со scope: 'path')
+  params?: Record<string, string>;
+  // Количество вызовов
+  calls: number;
+  // Последовательность, для которой ведется счет (при изменении счетчик начинается заново)
+  sequence: ResponseSequence;
+}
+
+// Состояние счетчика для admin API
+export interface SequenceCounterInfo {
+  endpoint: string;
+  params?: Record<string, string>;
+  calls: number;
+}
+
+/**
+ * Выбирает шаг последовательности ответов по номеру вызова эндпоинта
+ * Счетчики хранятся в памяти и сбрасываются через admin API
+ */
+export class ResponseSequencer {
+  // Счетчики по ключу эндпоинта и значениям параметров пути
+  private counters: Map<string, SequenceCounter> = new Map();
+
+  /**
+   * Возвращает шаг для текущего вызова и увеличивает счетчик
+   * @param endpointKey - ключ эндпоинта (метод:путь)
+   * @param sequence - последовательность ответов эндпоинта
+   * @param req - объект запроса Express
+   * @returns шаг последовательности или undefined, если шагов нет
+   */
+  next(endpointKey: string, sequence: ResponseSequence, req: Request): SequenceStep | undefined {
+    const steps = sequence.steps || [];
+    if (steps.length === 0) {
+      return undefined;
+    }
+
+    const params = sequence.scope === 'path' ? { ...req.params } : undefined;
+    const counterKey = params ? `${endpointKey}#${JSON.stringify(params)}` : endpointKey;
+    let counter = this.counters.get(counterKey);
+    // Новая или измененная последовательность начинается с первого шага
+    if (!counter || counter.sequence !== sequence) {
+      counter = { endpoint: endpointKey, params, calls: 0, sequence };
+      this.counters.set(counterKey, counter);
+    }
+    const call = counter.calls;
+    counter.calls += 1;
+
+    switch (sequence.mode) {
+      case 'cycle':
+        return steps[call % steps.length];
+      case 'random':
+        return steps[Math.floor(Math.random() * steps.length)];
+      default:
+        // stop: после последнего шага повторяется последний
+        return steps[Math.min(call, steps.length - 1)];
+    }
+  }
+
+  /**
+   * Сбрасывает счетчики вызовов
+   * @param endpointKey - ключ эндпоинта (если не указан, сбрасываются все счетчики)
+   */
+  reset(endpointKey?: string): void {
+    if (!endpointKey) {
+      this.counters.clear();
+      return;
+    }
+    for (const [key, counter] of this.counters) {
+      if (counter.endpoint === endpointKey) {
+        this.counters.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Получает текущие значения счетчиков
+   * @returns счетчики с ключом эндпоинта и параметрами пути
+   */
+  getCounters(): SequenceCounterInfo[] {
+    return Array.from(this.counters.values()).map(({ endpoint, params, calls }) => ({
+      endpoint,
+      params,
+      calls,
+    }));
+  }
+}
@@ -0,0 +1,53 @@
+import { Express, Request, Response } from 'express';
+import { SettingsManager } from './settings-manager';
+import { isValidScenarioName, parseScenario } from './endpoint-config-validator';
+
+/**
+ * Настраивает admin API для управления сценариями
+ * @param app - Express приложение
+ * @param settingsManager - менеджер настроек
+ */
+export function setupScenarioRoutes(app: Express, settingsManager: SettingsManager): void {
+  // Список сценариев и активный сценарий
+  app.get('/api/scenarios', (_req: Request, res: Response) => {
+    res.json({
+      active: settingsManager.getActiveScenario() ?? null,
+      scenarios: settingsManager.getScenarios(),
+    });
+  });
+
+  // Активация сценария для всего сервера ({ "name": null } выключает сценарий)
+  app.post('/api/scenarios/active', (req: Request, res: Response) => {
+    const name = req.body?.name;
+    if (name !== null && name !== undefined && !isValidScenarioName(name)) {
+      res.status(400).json({ error: 'Недопустимое имя сценария' });
+      return;
+    }
+    if (name && !settingsManager.getScenario(name)) {
+      res.status(404).json({ error: 'Сценарий не найден' });
+      return;
+    }
+    settingsManager.setActiveScenario(name || undefined);
+    res.json({ success: true, active: name || null });
+  });
+
+  // Создание или замена сценария
+  app.put('/api/scenarios/:name', (req: Request, res: Response) => {
+    const parsed = parseScenario({ ...req.body, name: req.params.name });
+    if ('error' in parsed) {
+      res.status(400).json({ error: parsed.error });
+      return;
+    }
+    settingsManager.saveScenario(parsed.scenario);
+    res.json({ success: true });
+  });
+
+  // Удаление сценария
+  app.delete('/api/scenarios/:name', (req: Request, res: Response) => {
+    if (!settingsManager.deleteScenario(req.params.name)) {
+      res.status(404).json({ error: 'Сценарий не найден' });
+      return;
+    }
+    res.json({ success: true });
+  });
+}
@@ -0,0 +1,174 @@
+import { Request } from 'express';
+import {
+  ParsedEndpoint,
+  ParsedSecurityRequirement,
+  SecurityScheme,
+} from '@api-mock-generator/shared';
+import { OAuthProvider } from './oauth-provider';
+import { SecurityChecker } from './security-checker';
+
+// Схемы безопасности спецификации
+const schemes: Record<string, SecurityScheme> = {
+  apiKey: { type: 'apiKey', name: 'X-API-Key', in: 'header' },
+  queryKey: { type: 'apiKey', name: 'key', in: 'query' },
+  session: { type: 'apiKey', name: 'session', in: 'cookie' },
+  basic: { type: 'http', scheme: 'basic' },
+  oauth: { type: 'oauth2' },
+};
+
+/**
+ * Создает требование безопасности
+ * @param name - имя схемы
+ * @param scopes - требуемые скоупы
+ * @returns требование для эндпоинта
+ */
+function requirement(name: string, scopes: string[] = []): ParsedSecurityRequirement {
+  return { name, scheme: schemes[name], scopes };
+}
+
+/**
+ * Создает эндпоинт с альтернативными требованиями безопасности
+ * @param security - требования (внешний список — альтернативы, внутренний — все сразу)
+ * @returns эндпоинт
+ */
+function endpoint(security: ParsedSecurityRequirement[][]): ParsedEndpoint {
+  return { method: 'GET', path: '/pets', operation: { responses: {} }, security };
+}
+
+/**
+ * Создает запрос Express с заголовками и query
+ * @param headers - заголовки запроса
+ * @param query - query параметры
+ * @returns запрос для проверки
+ */
+function createRequest(
+  headers: Record<string, string> = {},
+  query: Record<string, string> = {}
+): Request {
+  return {
+    headers,
+    query,
+    get: (name: string) => headers[name.toLowerCase()],
+  } as unknown as Request;
+}
+
+describe('SecurityChecker', () => {
+  const checker = new SecurityChecker();
+
+  it('пропускает эндпоинты без требований безопасности', () => {
+    expect(checker.check(endpoint([]), createRequest())).toEqual({
+      outcome: 'ok',
+      challenges: [],
+    });
+  });
+
+  it('без списка учетных данных принимает любое непустое значение', () => {
+    const pets = endpoint([[requirement('apiKey')]]);
+
+    expect(checker.check(pets, createRequest({ 'x-api-key': 'anything' })).outcome).toBe('ok');
+    expect(checker.check(pets, createRequest())).toEqual({
+      outcome: 'unauthorized',
+      challenges: ['ApiKey realm="api-mock", in="header", name="X-API-Key"'],
+    });
+  });
+
+  it('извлекает API ключи из query и cookie и логин:пароль из Basic', () => {
+    const credentials = [{ value: 'secret' }, { value: 'ann:pa ss' }];
+    const basic = Buffer.from('ann:pa ss').toString('base64');
+
+    expect(
+      checker.check(
+        endpoint([[requirement('queryKey')]]),
+        createRequest({}, { key: 'secret' }),
+        credentials
+      ).outcome
+    ).toBe('ok');
+    expect(
+      checker.check(
+        endpoint([[requirement('session')]]),
+        createRequest({ cookie: 'theme=dark; session=secret' }),
+        credentials
+      ).outcome
+    ).toBe('ok');
+    expect(
+      checker.check(
+        endpoint([[requirement('basic')]]),
+        createRequest({ authorization: `Basic ${basic}` }),
+        credentials
+      ).outcome
+    ).toBe('ok');
+  });
+
+  it('отвечает invalid_token для неизвестного bearer токена', () => {
+    const result = checker.check(
+      endpoint([[requirement('oauth', ['read'])]]),
+      createRequest({ authorization: 'Bearer unknown' }),
+      [{ value: 'known' }]
+    );
+
+    expect(result).toEqual({
+      outcome: 'unauthorized',
+      challenges: ['Bearer realm="api-mock", error="invalid_token"'],
+    });
+  });
+
+  it('отвечает 403 с insufficient_scope, если учетные данные верны, но скоупов не хватает', () => {
+    const result = checker.check(
+      endpoint([[requirement('oauth', ['pets:write'])]]),
+      createRequest({ authorization: 'Bearer token' }),
+      [{ value: 'token', scopes: ['pets:read'] }]
+    );
+
+    expect(result).toEqual({
+      outcome: 'forbidden',
+      challenges: ['Bearer realm="api-mock", error="insufficient_scope", scope="pets:write"'],
+    });
+  });
+
+  it('разрешает запрос, если выполнена любая альтернатива требований', () => {
+    const pets = endpoint([
+      [requirement('apiKey'), requirement('basic')],
+      [requirement('oauth', ['read'])],
+    ]);
+    const credentials = [{ value: 'key' }, { value: 'token', scopes: ['read'] }];
+
+    // Первая альтернатива требует обе схемы сразу
+    expect(checker.check(pets, createRequest({ 'x-api-key': 'key' }), credentials)).toEqual({
+      outcome: 'unauthorized',
+      challenges: [
+        'ApiKey realm="api-mock", in="header", name="X-API-Key"',
+        'Basic realm="api-mock"',
+        'Bearer realm="api-mock"',
+      ],
+    });
+    expect(
+      checker.check(pets, createRequest({ authorization: 'Bearer token' }), credentials).outcome
+    ).toBe('ok');
+  });
+
+  it('проверяет JWT встроенного провайдера и скоупы из claim scope', () => {
+    const provider = new OAuthProvider();
+    const jwtChecker = new SecurityChecker((token) => provider.verify(token));
+    const pets = endpoint([[requirement('oauth', ['pets:write'])]]);
+    /**
+     * Создает запрос с access токеном для указанных скоупов
+     * @param scope - скоупы через пробел
+     * @returns запрос с заголовком Authorization
+     */
+    const withToken = (scope: string) => {
+      const { access_token } = provider.issueTokens({
+        issuer: 'http://localhost:3000',
+        subject: 'ann',
+        clientId: 'web',
+        scope,
+      });
+      return createRequest({ authorization: `Bearer ${access_token}` });
+    };
+
+    expect(jwtChecker.check(pets, withToken('pets:read pets:write')).outcome).toBe('ok');
+    expect(jwtChecker.check(pets, withToken('pets:read')).outcome).toBe('forbidden');
+    expect(
+      jwtChecker.check(pets, createRequest({ authorization: 'Bearer a.b.c' })).challenges
+    ).toEqual(['Bearer realm="api-mock", error="invalid_token"']);
+  });
+});
@@ -0,0 +1,240 @@
+import { Request } from 'express';
+import {
+  AccessCredential,
+  ParsedEndpoint,
+  ParsedSecurityRequirement,
+  SecurityScheme,
+} from '@api-mock-generator/shared';
+
+// Результат проверки одной схемы безопасности
+type SchemeStatus = 'ok' | 'missing' | 'invalid' | 'forbidden';
+
+// Результат проверки требований безопасности эндпоинта
+export interface SecurityCheckResult {
+  // ok — доступ разрешен, unauthorized — 401, forbidden — 403
+  outcome: 'ok' | 'unauthorized' | 'forbidden';
+  // Значения заголовка WWW-Authenticate
+  challenges: string[];
+}
+
+// Realm для заголовка WWW-Authenticate
+const REALM = 'api-mock';
+
+// Проверка JWT: claims действительного токена или undefined
+export type TokenVerifier = (token: string) => Record<string, unknown> | undefined;
+
+/**
+ * Проверяет запрос по требованиям безопасности операции (securitySchemes спецификации)
+ * Учетные данные сравниваются со списком из настроек; пустой список принимает любое значение
+ * Bearer токены в формате JWT проверяются встроенным OAuth2 провайдером
+ */
+export class SecurityChecker {
+  /**
+   * @param verifyToken - проверка JWT встроенного OAuth2 провайдера
+   */
+  constructor(private verifyToken?: TokenVerifier) {}
+
+  /**
+   * Проверяет запрос
+   * Требования проверяются как альтернативы: достаточно, чтобы выполнилось одно
+   * @param endpoint - распарсенный эндпоинт
+   * @param req - объект запроса Express
+   * @param credentials - принимаемые учетные данные
+   * @returns результат проверки с заголовками WWW-Authenticate
+   */
+  check(
+    endpoint: ParsedEndpoint,
+    req: Request,
+    credentials: AccessCredential[] = []
+  ): SecurityCheckResult {
+    const requirements = endpoint.security;
+    if (!requirements || requirements.length === 0) {
+      return { outcome: 'ok', challenges: [] };
+    }
+
+    const statuses = new Map<ParsedSecurityRequirement, SchemeStatus>();
+    let insufficientScope: ParsedSecurityRequirement[] | undefined;
+    for (const requirement of requirements) {
+      for (const item of requirement) {
+        statuses.set(item, this.checkScheme(item, req, credentials));
+      }
+      const requirementStatuses = requirement.map((item) => statuses.get(item));
+      if (requirementStatuses.every((status) => status === 'ok')) {
+        return { outcome: 'ok', challenges: [] };
+      }
+      // Все учетные данные верные, но не хватает скоупов — это 403, а не 401
+      if (
+        !insufficientScope &&
+        requirementStatuses.every((status) => status === 'ok' || status === 'forbidden')
+      ) {
+        insufficientScope = requirement.filter((item) => statuses.get(item) === 'forbidden');
+      }
+    }
+
+    if (insufficientScope) {
+      return {
+        outcome: 'forbidden',
+        challenges: insufficientScope
+          .filter((item) => this.isBearer(item.scheme))
+          .map(
+            (item) =>
+              `Bearer realm="${REALM}", error="insufficient_scope", scope="${item.scopes.join(' ')}"`
+          ),
+      };
+    }
+
+    // Вызовы для всех схем, которыми можно было авторизоваться
+    const challenges = new Set<string>();
+    for (const [item, status] of statuses) {
+      const challenge = this.getChallenge(item.scheme, status);
+      if (challenge) {
+        challenges.add(challenge);
+      }
+    }
+    return { outcome: 'unauthorized', challenges: Array.from(challenges) };
+  }
+
+  /**
+   * Проверяет одну схему безопасности
+   * @param item - схема, требуемая операцией
+   * @param req - объект запроса Express
+   * @param credentials - принимаемые учетные данные
+   * @returns статус проверки схемы
+   */
+  private checkScheme(
+    item: ParsedSecurityRequirement,
+    req: Request,
+    credentials: AccessCredential[]
+  ): SchemeStatus {
+    // Клиентские сертификаты мок-сервер не проверяет
+    if (item.scheme.type === 'mutualTLS') {
+      return 'ok';
+    }
+    const value = this.getCredential(item.scheme, req);
+    if (!value) {
+      return 'missing';
+    }
+    const credential = credentials.find((candidate) => candidate.value === value);
+    // JWT проверяется по подписи провайдера, выданные скоупы берутся из claim scope
+    if (
+      !credential &&
+      this.verifyToken &&
+      this.isBearer(item.scheme) &&
+      value.split('.').length === 3
+    ) {
+      const claims = this.verifyToken(value);
+      if (!claims) {
+        return 'invalid';
+      }
+      const granted = typeof claims.scope === 'string' ? claims.scope.split(' ') : [];
+      return item.scopes.every((scope) => granted.includes(scope)) ? 'ok' : 'forbidden';
+    }
+    if (credentials.length === 0) {
+      return 'ok';
+    }
+    if (!credential) {
+      return 'invalid';
+    }
+    const granted = credential.scopes;
+    if (granted && !item.scopes.every((scope) => granted.includes(scope))) {
+      return 'forbidden';
+    }
+    return 'ok';
+  }
+
+  /**
+   * Извлекает учетные данные схемы из запроса
+   * @param scheme - схема безопасности
+   * @param req - объект запроса Express
+   * @returns API ключ, токен или логин:пароль (undefined, если не переданы)
+   */
+  private getCredential(scheme: SecurityScheme, req: Request): string | undefined {
+    if (scheme.type === 'apiKey') {
+      if (!scheme.name) {
+        return undefined;
+      }
+      switch (scheme.in) {
+        case 'query': {
+          const value = req.query[scheme.name];
+          return typeof value === 'string' ? value : undefined;
+        }
+        case 'cookie':
+          return this.getCookie(req, scheme.name);
+        default:
+          return req.get(scheme.name);
+      }
+    }
+
+    // HTTP схемы и OAuth2/OpenID Connect передаются в заголовке Authorization
+    const authorization = req.get('authorization') || '';
+    const separator = authorization.indexOf(' ');
+    const authScheme = authorization.slice(0, separator).toLowerCase();
+    const token = authorization.slice(separator + 1).trim();
+    if (separator <= 0 || !token) {
+      return undefined;
+    }
+    const expectedScheme = this.isBearer(scheme) ? 'bearer' : scheme.scheme;
+    if (authScheme !== expectedScheme) {
+      return undefined;
+    }
+    if (expectedScheme === 'basic') {
+      // Basic передает логин:пароль в base64
+      return Buffer.from(token, 'base64').toString('utf8');
+    }
+    return token;
+  }
+
+  /**
+   * Формирует значение WWW-Authenticate для схемы
+   * @param scheme - схема безопасности
+   * @param status - результат проверки схемы
+   * @returns значение заголовка или undefined для схем без вызова
+   */
+  private getChallenge(scheme: SecurityScheme, status: SchemeStatus): string | undefined {
+    if (this.isBearer(scheme)) {
+      return status === 'invalid'
+        ? `Bearer realm="${REALM}", error="invalid_token"`
+        : `Bearer realm="${REALM}"`;
+    }
+    if (scheme.type === 'http' && scheme.scheme) {
+      const name = scheme.scheme.charAt(0).toUpperCase() + scheme.scheme.slice(1);
+      return `${name} realm="${REALM}"`;
+    }
+    if (scheme.type === 'apiKey' && scheme.name) {
+      return `ApiKey realm="${REALM}", in="${scheme.in || 'header'}", name="${scheme.name}"`;
+    }
+    return undefined;
+  }
+
+  /**
+   * Проверяет, передаются ли учетные данные схемы как bearer токен
+   */
+  private isBearer(scheme: SecurityScheme): boolean {
+    return (
+      scheme.type === 'oauth2' ||
+      scheme.type === 'openIdConnect' ||
+      (scheme.type === 'http' && scheme.scheme === 'bearer')
+    );
+  }
+
+  /**
+   * Получает значение cookie из заголовка Cookie
+   * @param req - объект запроса Express
+   * @param name - имя cookie
+   * @returns значение cookie или undefined
+   */
+  private getCookie(req: Request, name: string): string | undefined {
+    for (const part of (req.headers.cookie || '').split(';')) {
+      const index = part.indexOf('=');
+      if (index > 0 && part.slice(0, index).trim() === name) {
+        const value = part.slice(index + 1).trim();
+        try {
+          return decodeURIComponent(value);
+        } catch {
+          return value;
+        }
+      }
+    }
+    return undefined;
+  }
+}
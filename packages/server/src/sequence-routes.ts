@@ -0,0 +1,28 @@
+import { Express, Request, Response } from 'express';
+import { ResponseSequencer } from './response-sequencer';
+import { isValidEndpointKey } from './endpoint-config-validator';
+
+/**
+ * Настраивает admin API для просмотра и сброса счетчиков последовательностей ответов
+ * @param app - Express приложение
+ * @param sequencer - счетчики последовательностей
+ */
+export function setupSequenceRoutes(app: Express, sequencer: ResponseSequencer): void {
+  // Текущие счетчики вызовов
+  app.get('/api/sequences', (_req: Request, res: Response) => {
+    res.json(sequencer.getCounters());
+  });
+
+  // Сброс счетчиков (всех или одного эндпоинта, { "endpoint": "POST:/payments" })
+  app.post('/api/sequences/reset', (req: Request, res: Response) => {
+    const endpointKey = req.body?.endpoint;
+    if (endpointKey !== undefined && !isValidEndpointKey(endpointKey)) {
+      res.status(400).json({ error: 'Недопустимый ключ эндпоинта (ожидается METHOD:/path)' });
+      return;
+    }
+    sequencer.reset(
+      endpointKey ? endpointKey.replace(/^[^:]+/, (m: string) => m.toUpperCase()) : undefined
+    );
+    res.json({ success: true });
+  });
+}
@@ -0,0 +1,128 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ServerConfig } from '@api-mock-generator/shared';
+import { SettingsManager } from './settings-manager';
+
+// Сценарий, который ломает все эндпоинты и отдельно настраивает GET /users
+const backendDown = {
+  name: 'backend-down',
+  description: 'Backend недоступен',
+  endpoints: {
+    '*': { statusCode: 503, delay: 100 },
+    'GET:/users': { statusCode: 500 },
+  },
+};
+
+/**
+ * Создает конфигурацию сервера с настройками эндпоинта GET /users
+ * @returns конфигурация сервера
+ */
+function createConfig(): ServerConfig {
+  return {
+    port: 3000,
+    endpoints: new Map([['GET:/users', { statusCode: 200, customResponse: [] }]]),
+  };
+}
+
+describe('SettingsManager', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'settings-manager-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('сценарии', () => {
+    it('накладывает настройки * и эндпоинта сценария на настройки эндпоинта', () => {
+      const settings = new SettingsManager(createConfig());
+      settings.saveScenario(backendDown);
+
+      expect(settings.getEffectiveEndpointConfig('GET:/users')).toEqual({
+        statusCode: 200,
+        customResponse: [],
+      });
+      expect(settings.getEffectiveEndpointConfig('GET:/users', 'backend-down')).toEqual({
+        statusCode: 500,
+        delay: 100,
+        customResponse: [],
+      });
+      expect(settings.getEffectiveEndpointConfig('POST:/users', 'backend-down')).toEqual({
+        statusCode: 503,
+        delay: 100,
+      });
+    });
+
+    it('применяет активный сценарий, пока запрос не выбрал другой или null', () => {
+      const settings = new SettingsManager(createConfig());
+      settings.saveScenario(backendDown);
+      settings.setActiveScenario('backend-down');
+
+      expect(settings.getEffectiveEndpointConfig('POST:/users')).toEqual({
+        statusCode: 503,
+        delay: 100,
+      });
+      expect(settings.getEffectiveEndpointConfig('POST:/users', null)).toBeUndefined();
+      expect(settings.getEffectiveEndpointConfig('POST:/users', 'missing')).toBeUndefined();
+    });
+
+    it('не активирует несуществующий сценарий и выключает удаленный', () => {
+      const settings = new SettingsManager(createConfig());
+      settings.saveScenario(backendDown);
+      settings.setActiveScenario('backend-down');
+
+      expect(() => settings.setActiveScenario('missing')).toThrow('Сценарий не найден: missing');
+      expect(settings.deleteScenario('backend-down')).toBe(true);
+      expect(settings.getActiveScenario()).toBeUndefined();
+      expect(settings.deleteScenario('backend-down')).toBe(false);
+    });
+
+    it('загружает сценарии из файла с массивом или объектом scenarios', () => {
+      const file = path.join(dir, 'scenarios.json');
+      fs.writeFileSync(file, JSON.stringify({ scenarios: [{ ...backendDown, name: 'slow' }] }));
+      const settings = new SettingsManager(createConfig());
+
+      settings.loadScenariosFromFile(file);
+
+      expect(settings.getScenarios().map((scenario) => scenario.name)).toEqual(['slow']);
+      expect(settings.getScenario('slow')?.endpoints['GET:/users']).toEqual({ statusCode: 500 });
+    });
+
+    it('сообщает об ошибках файла сценариев', () => {
+      const settings = new SettingsManager(createConfig());
+      const file = path.join(dir, 'scenarios.json');
+
+      expect(() => settings.loadScenariosFromFile(path.join(dir, 'missing.json'))).toThrow(
+        'Файл сценариев не найден'
+      );
+      fs.writeFileSync(file, JSON.stringify({ name: 'x' }));
+      expect(() => settings.loadScenariosFromFile(file)).toThrow(
+        'Файл сценариев должен содержать массив сценариев'
+      );
+      fs.writeFileSync(file, JSON.stringify([{ name: 'bad name', endpoints: {} }]));
+      expect(() => settings.loadScenariosFromFile(file)).toThrow(
+        'Ошибка в файле сценариев: Недопустимое имя сценария'
+      );
+    });
+  });
+
+  it('сохраняет настройки, сценарии и активный сценарий в файл и загружает их', () => {
+    const file = path.join(dir, 'settings.json');
+    const saved = new SettingsManager(createConfig(), file);
+    saved.saveScenario(backendDown);
+    saved.setActiveScenario('backend-down');
+    saved.saveEndpointConfig('POST:/users', { statusCode: 201 });
+
+    const config: ServerConfig = { port: 3000, endpoints: new Map() };
+    const loaded = new SettingsManager(config, file);
+    loaded.loadFromFile();
+
+    expect(fs.statSync(file).mode & 0o777).toBe(0o600);
+    expect(config.endpoints.get('POST:/users')).toEqual({ statusCode: 201 });
+    expect(loaded.getScenario('backend-down')).toEqual(backendDown);
+    expect(loaded.getActiveScenario()).toBe('backend-down');
+  });
+});
@@ -1,6 +1,12 @@
 import * as fs from 'fs';
 import * as path from 'path';
-import { ServerConfig, EndpointConfig, isValidFilePath } from '@api-mock-generator/shared';
+import {
+  ServerConfig,
+  EndpointConfig,
+  Scenario,
+  isValidFilePath,
+} from '@api-mock-generator/shared';
+import { parseScenario } from './endpoint-config-validator';
 
 /**
  * Менеджер настроек сервера
@@ -11,6 +17,10 @@ export class SettingsManager {
   private config: ServerConfig;
   // Путь к файлу настроек (опционально)
   private settingsPath?: string;
+  // Именованные сценарии
+  private scenarios: Map<string, Scenario> = new Map();
+  // Активный сценарий
+  private activeScenario?: string;
 
   constructor(config: ServerConfig, settingsPath?: string) {
     this.config = config;
@@ -78,6 +88,133 @@ export class SettingsManager {
     return (this.config as any).serverSettings || {};
   }
 
+  /**
+   * Сохраняет сценарий (создает новый или заменяет существующий)
+   * @param scenario - сценарий
+   */
+  saveScenario(scenario: Scenario): void {
+    this.scenarios.set(scenario.name, scenario);
+    // Если указан путь к файлу, сохраняем на диск
+    if (this.settingsPath) {
+      this.saveToFile();
+    }
+  }
+
+  /**
+   * Получает сценарий по имени
+   * @param name - имя сценария
+   * @returns сценарий или undefined
+   */
+  getScenario(name: string): Scenario | undefined {
+    return this.scenarios.get(name);
+  }
+
+  /**
+   * Получает все сценарии
+   * @returns список сценариев
+   */
+  getScenarios(): Scenario[] {
+    return [...this.scenarios.values()];
+  }
+
+  /**
+   * Удаляет сценарий (активный сценарий при этом выключается)
+   * @param name - имя сценария
+   * @returns true если сценарий был удален
+   */
+  deleteScenario(name: string): boolean {
+    const deleted = this.scenarios.delete(name);
+    if (this.activeScenario === name) {
+      this.activeScenario = undefined;
+    }
+    // Если указан путь к файлу, сохраняем на диск
+    if (deleted && this.settingsPath) {
+      this.saveToFile();
+    }
+    return deleted;
+  }
+
+  /**
+   * Активирует сценарий для всего сервера
+   * @param name - имя сценария (undefined — выключить сценарий)
+   */
+  setActiveScenario(name?: string): void {
+    if (name !== undefined && !this.scenarios.has(name)) {
+      throw new Error(`Сценарий не найден: ${name}`);
+    }
+    this.activeScenario = name;
+    // Если указан путь к файлу, сохраняем на диск
+    if (this.settingsPath) {
+      this.saveToFile();
+    }
+  }
+
+  /**
+   * Получает имя активного сценария
+   * @returns имя сценария или undefined
+   */
+  getActiveScenario(): string | undefined {
+    return this.activeScenario;
+  }
+
+  /**
+   * Получает настройки эндпоинта с учетом сценария
+   * Порядок применения: настройки эндпоинта → '*' сценария → эндпоинт в сценарии
+   * @param endpointKey - ключ эндпоинта (метод:путь)
+   * @param scenarioName - сценарий запроса (undefined — активный, null — без сценария)
+   * @returns итоговая конфигурация эндпоинта или undefined
+   */
+  getEffectiveEndpointConfig(
+    endpointKey: string,
+    scenarioName?: string | null
+  ): EndpointConfig | undefined {
+    const base = this.config.endpoints.get(endpointKey);
+    const name = scenarioName === undefined ? this.activeScenario : scenarioName;
+    const scenario = name ? this.scenarios.get(name) : undefined;
+    if (!scenario) {
+      return base;
+    }
+    return { ...base, ...scenario.endpoints['*'], ...scenario.endpoints[endpointKey] };
+  }
+
+  /**
+   * Загружает определения сценариев из JSON файла
+   * Файл содержит массив сценариев или объект { "scenarios": [...] }
+   * @param filePath - путь к файлу сценариев
+   * @throws Error если файл не найден или содержит невалидные сценарии
+   */
+  loadScenariosFromFile(filePath: string): void {
+    if (!isValidFilePath(filePath)) {
+      throw new Error('Недопустимый путь к файлу сценариев');
+    }
+    const resolvedPath = path.resolve(filePath);
+    if (!fs.existsSync(resolvedPath) || !fs.statSync(resolvedPath).isFile()) {
+      throw new Error(`Файл сценариев не найден: ${filePath}`);
+    }
+    // Ограничиваем размер файла (максимум 10MB)
+    if (fs.statSync(resolvedPath).size > 10 * 1024 * 1024) {
+      throw new Error('Файл сценариев слишком большой');
+    }
+
+    let content: any;
+    try {
+      content = JSON.parse(fs.readFileSync(resolvedPath, 'utf-8'));
+    } catch (error) {
+      throw new Error(`Ошибка при парсинге файла сценариев: ${(error as Error).message}`);
+    }
+    const list = Array.isArray(content) ? content : content?.scenarios;
+    if (!Array.isArray(list)) {
+      throw new Error('Файл сценариев должен содержать массив сценариев');
+    }
+    for (const item of list) {
+      const parsed = parseScenario(item);
+      if ('error' in parsed) {
+        throw new Error(`Ошибка в файле сценариев: ${parsed.error}`);
+      }
+      this.scenarios.set(parsed.scenario.name, parsed.scenario);
+    }
+  }
+
   /**
    * Сохраняет настройки в файл
    */
@@ -108,6 +245,8 @@ export class SettingsManager {
       const settings = {
         endpoints: endpointsObj,
         serverSettings: this.getServerSettings(),
+        scenarios: this.getScenarios(),
+        activeScenario: this.activeScenario,
       };
 
       // Ограничиваем размер данных (максимум 10MB)
@@ -211,6 +350,22 @@ export class SettingsManager {
       if (settings.serverSettings && typeof settings.serverSettings === 'object') {
         (this.config as any).serverSettings = settings.serverSettings;
       }
+
+      // Загружаем сценарии (невалидные пропускаем)
+      if (Array.isArray(settings.scenarios)) {
+        for (const item of settings.scenarios) {
+          const parsed = parseScenario(item);
+          if ('scenario' in parsed) {
+            this.scenarios.set(parsed.scenario.name, parsed.scenario);
+          }
+        }
+      }
+      if (
+        typeof settings.activeScenario === 'string' &&
+        this.scenarios.has(settings.activeScenario)
+      ) {
+        this.activeScenario = settings.activeScenario;
+      }
     } catch (error) {
       // В случае ошибки просто логируем (не критично)
       // eslint-disable-next-line no-console
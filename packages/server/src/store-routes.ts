@@ -0,0 +1,41 @@
+import { Express, Request, Response } from 'express';
+import { isValidEndpointPath } from '@api-mock-generator/shared';
+import { ResourceStore } from './resource-store';
+
+/**
+ * Настраивает admin API для просмотра и сброса хранилища stateful режима
+ * @param app - Express приложение
+ * @param store - хранилище ресурсов
+ */
+export function setupStoreRoutes(app: Express, store: ResourceStore): void {
+  // Список коллекций с количеством записей
+  app.get('/api/store', (_req: Request, res: Response) => {
+    res.json(store.getCollections());
+  });
+
+  // Записи одной коллекции (путь коллекции передается закодированным, например %2Fusers)
+  app.get('/api/store/:collection', (req: Request, res: Response) => {
+    const collectionPath = decodeURIComponent(req.params.collection);
+    if (!isValidEndpointPath(collectionPath)) {
+      res.status(400).json({ error: 'Недопустимый путь коллекции' });
+      return;
+    }
+    const records = store.getRecords(collectionPath);
+    if (!records) {
+      res.status(404).json({ error: 'Коллекция не найдена' });
+      return;
+    }
+    res.json(records);
+  });
+
+  // Сброс хранилища к начальному наполнению (всего или одной коллекции)
+  app.post('/api/store/reset', (req: Request, res: Response) => {
+    const collectionPath = req.body?.collection;
+    if (collectionPath !== undefined && !isValidEndpointPath(collectionPath)) {
+      res.status(400).json({ error: 'Недопустимый путь коллекции' });
+      return;
+    }
+    store.reset(collectionPath);
+    res.json({ success: true });
+  });
+}
@@ -0,0 +1,95 @@
+import { Response } from 'express';
+import { sendThrottled } from './throttle';
+
+// Ответ Express, записывающий отправленные части тела
+interface RecordedResponse {
+  res: Response;
+  chunks: Buffer[];
+  ended: jest.Mock;
+  headers: Record<string, unknown>;
+}
+
+/**
+ * Создает ответ Express, который запоминает части тела и заголовки
+ * @returns ответ и записанные данные
+ */
+function createResponse(): RecordedResponse {
+  const chunks: Buffer[] = [];
+  const headers: Record<string, unknown> = {};
+  const ended = jest.fn((payload?: Buffer) => {
+    if (payload) {
+      chunks.push(payload);
+    }
+  });
+  const res = {
+    destroyed: false,
+    setHeader: (name: string, value: unknown) => {
+      headers[name] = value;
+    },
+    write: (chunk: Buffer) => chunks.push(chunk),
+    end: ended,
+  } as unknown as Response;
+  return { res, chunks, ended, headers };
+}
+
+describe('sendThrottled', () => {
+  const payload = Buffer.from('x'.repeat(25));
+
+  it('отправляет тело целиком без ограничения скорости', async () => {
+    const recorded = createResponse();
+
+    await sendThrottled(recorded.res, payload, { ttfb: 0 });
+
+    expect(recorded.headers['Content-Length']).toBe(25);
+    expect(recorded.chunks).toEqual([payload]);
+    expect(recorded.ended).toHaveBeenCalledTimes(1);
+  });
+
+  it('выдерживает время до первого байта', async () => {
+    const recorded = createResponse();
+    const started = Date.now();
+
+    await sendThrottled(recorded.res, payload, { ttfb: 150 });
+
+    expect(Date.now() - started).toBeGreaterThanOrEqual(140);
+    expect(recorded.chunks).toEqual([payload]);
+  });
+
+  it('передает тело частями с заданной скоростью', async () => {
+    const recorded = createResponse();
+    const started = Date.now();
+
+    // 100 байт/с: части по 10 байт раз в 100 мс
+    await sendThrottled(recorded.res, payload, { bytesPerSecond: 100 });
+
+    expect(recorded.chunks.map((chunk) => chunk.length)).toEqual([10, 10, 5]);
+    expect(Buffer.concat(recorded.chunks)).toEqual(payload);
+    expect(Date.now() - started).toBeGreaterThanOrEqual(190);
+    expect(recorded.ended).toHaveBeenCalledWith();
+  });
+
+  it('использует скорость пресета с переопределенным временем до первого байта', async () => {
+    const recorded = createResponse();
+    const started = Date.now();
+
+    await sendThrottled(recorded.res, payload, { preset: 'slow-3g', ttfb: 0 });
+
+    expect(recorded.chunks).toEqual([payload]);
+    expect(Date.now() - started).toBeLessThan(1000);
+  });
+
+  it('прекращает передачу, если клиент закрыл соединение', async () => {
+    const recorded = createResponse();
+    const res = recorded.res as any;
+    const write = res.write;
+    res.write = (chunk: Buffer) => {
+      write(chunk);
+      res.destroyed = true;
+    };
+
+    await sendThrottled(recorded.res, payload, { bytesPerSecond: 100 });
+
+    expect(recorded.chunks).toHaveLength(1);
+    expect(recorded.ended).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,52 @@
+import { Response } from 'express';
+import { THROTTLE_PRESETS, ThrottleConfig } from '@api-mock-generator/shared';
+
+// Количество частей в секунду при передаче с ограничением скорости
+const CHUNKS_PER_SECOND = 10;
+
+/**
+ * Отправляет тело ответа частями с ограничением скорости
+ * Сначала выдерживается время до первого байта, затем тело передается с заданной скоростью
+ * @param res - объект ответа Express (статус и заголовки уже установлены)
+ * @param payload - сериализованное тело ответа
+ * @param throttle - настройки ограничения скорости
+ */
+export async function sendThrottled(
+  res: Response,
+  payload: Buffer,
+  throttle: ThrottleConfig
+): Promise<void> {
+  const preset = throttle.preset ? THROTTLE_PRESETS[throttle.preset] : undefined;
+  const bytesPerSecond = throttle.bytesPerSecond ?? preset?.bytesPerSecond;
+  const ttfb = throttle.ttfb ?? preset?.ttfb ?? 0;
+
+  if (ttfb > 0) {
+    await sleep(ttfb);
+  }
+  res.setHeader('Content-Length', payload.length);
+  if (!bytesPerSecond) {
+    res.end(payload);
+    return;
+  }
+
+  const chunkSize = Math.max(1, Math.ceil(bytesPerSecond / CHUNKS_PER_SECOND));
+  for (let offset = 0; offset < payload.length; offset += chunkSize) {
+    if (offset > 0) {
+      await sleep(1000 / CHUNKS_PER_SECOND);
+    }
+    // Клиент закрыл соединение, не дождавшись ответа
+    if (res.destroyed) {
+      return;
+    }
+    res.write(payload.subarray(offset, offset + chunkSize));
+  }
+  res.end();
+}
+
+/**
+ * Задержка выполнения
+ * @param ms - миллисекунды задержки
+ */
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
@@ -0,0 +1,139 @@
+import { Request } from 'express';
+import { IncomingHttpHeaders } from 'http';
+import { ServerConfig } from '@api-mock-generator/shared';
+import { ProxiedExchange } from './proxy';
+import { findMatchingRule } from './response-rules';
+import { SettingsManager } from './settings-manager';
+import { TrafficRecorder } from './traffic-recorder';
+
+// Ключ записываемого эндпоинта
+const ENDPOINT_KEY = 'GET:/users/:id';
+
+/**
+ * Создает запрос Express к GET /users/:id
+ * @param id - параметр пути
+ * @param query - query параметры
+ * @returns запрос для записи и воспроизведения
+ */
+function createRequest(id: string, query: Record<string, string> = {}): Request {
+  return {
+    method: 'GET',
+    path: `/users/${id}`,
+    headers: {},
+    params: { id },
+    query,
+  } as unknown as Request;
+}
+
+/**
+ * Создает ответ backend
+ * @param body - тело ответа
+ * @param headers - дополнительные заголовки
+ * @returns ответ, полученный через прокси
+ */
+function createExchange(body: unknown, headers: IncomingHttpHeaders = {}): ProxiedExchange {
+  return {
+    statusCode: 200,
+    headers: { 'content-type': 'application/json; charset=utf-8', ...headers },
+    body: Buffer.from(typeof body === 'string' ? body : JSON.stringify(body)),
+  };
+}
+
+describe('TrafficRecorder', () => {
+  let settings: SettingsManager;
+  let recorder: TrafficRecorder;
+
+  beforeEach(() => {
+    const config: ServerConfig = { port: 3000, endpoints: new Map() };
+    settings = new SettingsManager(config);
+    recorder = new TrafficRecorder(settings);
+  });
+
+  /**
+   * Возвращает записанные правила эндпоинта
+   * @returns правила из настроек
+   */
+  function getRules() {
+    return settings.getEndpointConfig(ENDPOINT_KEY)?.rules || [];
+  }
+
+  it('записывает ответ правилом с условием на отсутствие query и без служебных заголовков', () => {
+    const exchange = createExchange(
+      { id: '42', name: 'Ann' },
+      {
+        'set-cookie': ['session=abc'],
+        'x-request-id': 'r-1',
+        'x-auth-token': 'secret',
+        etag: '"v1"',
+      }
+    );
+
+    expect(recorder.record(ENDPOINT_KEY, createRequest('42'), exchange)).toBe(true);
+    expect(getRules()).toEqual([
+      {
+        name: 'recorded GET /users/42',
+        matchers: [
+          { source: 'path', key: 'id', operator: 'equals', value: '42' },
+          { source: 'query', key: '*', operator: 'absent' },
+        ],
+        statusCode: 200,
+        response: { id: '42', name: 'Ann' },
+        headers: { 'x-request-id': 'r-1' },
+      },
+    ]);
+  });
+
+  it('воспроизводит запись без query только для запросов без query', () => {
+    recorder.record(ENDPOINT_KEY, createRequest('42'), createExchange({ id: '42' }));
+
+    expect(findMatchingRule(getRules(), createRequest('42'))).toBeDefined();
+    expect(findMatchingRule(getRules(), createRequest('42', { expand: 'orders' }))).toBeUndefined();
+    expect(findMatchingRule(getRules(), createRequest('7'))).toBeUndefined();
+  });
+
+  it('не сохраняет секретные query параметры в условиях и названии', () => {
+    recorder.record(
+      ENDPOINT_KEY,
+      createRequest('42', { expand: 'orders', access_token: 'secret' }),
+      createExchange({ id: '42' })
+    );
+
+    const [rule] = getRules();
+    expect(rule.name).toBe('recorded GET /users/42?expand=orders');
+    expect(rule.matchers).toEqual([
+      { source: 'path', key: 'id', operator: 'equals', value: '42' },
+      { source: 'query', key: 'expand', operator: 'equals', value: 'orders' },
+    ]);
+  });
+
+  it('заменяет запись с теми же параметрами и сохраняет пользовательские правила', () => {
+    settings.saveEndpointConfig(ENDPOINT_KEY, {
+      rules: [{ name: 'manual', matchers: [], statusCode: 500 }],
+    });
+
+    recorder.record(ENDPOINT_KEY, createRequest('42'), createExchange({ version: 1 }));
+    recorder.record(ENDPOINT_KEY, createRequest('42'), createExchange({ version: 2 }));
+
+    expect(getRules().map((rule) => [rule.name, rule.response])).toEqual([
+      ['manual', undefined],
+      ['recorded GET /users/42', { version: 2 }],
+    ]);
+  });
+
+  it('не записывает ответы не в JSON и тела, которые не удалось разобрать', () => {
+    const html: ProxiedExchange = {
+      statusCode: 200,
+      headers: { 'content-type': 'text/html' },
+      body: Buffer.from('<html></html>'),
+    };
+
+    expect(recorder.record(ENDPOINT_KEY, createRequest('42'), html)).toBe(false);
+    expect(recorder.record(ENDPOINT_KEY, createRequest('42'), createExchange('{broken'))).toBe(
+      false
+    );
+    expect(recorder.record(ENDPOINT_KEY, createRequest('42'), createExchange('"text"'))).toBe(
+      false
+    );
+    expect(getRules()).toEqual([]);
+  });
+});
@@ -0,0 +1,161 @@
+import { Request } from 'express';
+import { EndpointConfig, ResponseRule, RuleMatcher } from '@api-mock-generator/shared';
+import { ProxiedExchange } from './proxy';
+import { SettingsManager } from './settings-manager';
+
+// Заголовки ответа, которые не сохраняются: учетные данные и транспортные заголовки
+const STRIPPED_HEADERS = [
+  'set-cookie',
+  'authorization',
+  'proxy-authenticate',
+  'www-authenticate',
+  'connection',
+  'keep-alive',
+  'transfer-encoding',
+  'content-length',
+  'content-encoding',
+  'content-type',
+  'date',
+  'etag',
+  'last-modified',
+  'server',
+  'x-powered-by',
+  // Заголовки квот выставляет сам мок-сервер
+  'x-ratelimit-limit',
+  'x-ratelimit-remaining',
+  'x-ratelimit-reset',
+  'access-control-allow-origin',
+];
+
+// Имена заголовков и query параметров с секретами (токены, ключи, сессии)
+const SENSITIVE_NAME = /token|secret|password|passwd|session|api[-_]?key|auth|signature|cookie/i;
+
+// Максимальное количество записанных правил эндпоинта
+const MAX_RECORDED_RULES = 100;
+
+// Префикс названия записанного правила
+const RULE_NAME_PREFIX = 'recorded';
+
+/**
+ * Сохраняет ответы backend, полученные через прокси, в настройки эндпоинтов
+ * Каждый запрос становится правилом с условиями на параметры пути и query; запрос без query
+ * получает условие на отсутствие query, чтобы не воспроизводиться для незаписанных query
+ */
+export class TrafficRecorder {
+  constructor(private settingsManager: SettingsManager) {}
+
+  /**
+   * Сохраняет ответ backend для эндпоинта
+   * Ответы не в JSON (и слишком большие) не сохраняются: для них остается генерация по схеме
+   * @param endpointKey - ключ эндпоинта (метод:путь)
+   * @param req - исходный запрос
+   * @param exchange - ответ backend
+   * @returns true если ответ сохранен
+   */
+  record(endpointKey: string, req: Request, exchange: ProxiedExchange): boolean {
+    const response = this.parseBody(exchange);
+    if (response === undefined) {
+      return false;
+    }
+
+    const config: EndpointConfig = { ...this.settingsManager.getEndpointConfig(endpointKey) };
+    const matchers = this.buildMatchers(req);
+    // Повторная запись с теми же параметрами заменяет предыдущую
+    const signature = JSON.stringify(matchers);
+    const rules = (config.rules || []).filter(
+      (rule) =>
+        !rule.name?.startsWith(RULE_NAME_PREFIX) || JSON.stringify(rule.matchers) !== signature
+    );
+    if (rules.length >= MAX_RECORDED_RULES) {
+      return false;
+    }
+    // Название строится по условиям, чтобы секреты из query не попали в настройки
+    const name = `${RULE_NAME_PREFIX} ${req.method} ${this.describeMatchers(req, matchers)}`;
+    const rule: ResponseRule = {
+      name: name.slice(0, 200),
+      matchers,
+      statusCode: exchange.statusCode,
+      response,
+    };
+    const headers = this.filterHeaders(exchange);
+    if (Object.keys(headers).length > 0) {
+      rule.headers = headers;
+    }
+    config.rules = [...rules, rule];
+
+    this.settingsManager.saveEndpointConfig(endpointKey, config);
+    return true;
+  }
+
+  /**
+   * Разбирает тело ответа backend
+   * @param exchange - ответ backend
+   * @returns JSON объект или массив (undefined, если тело не JSON)
+   */
+  private parseBody(exchange: ProxiedExchange): any {
+    const contentType = String(exchange.headers['content-type'] || '');
+    if (!exchange.body || !/[/+]json\b/i.test(contentType)) {
+      return undefined;
+    }
+    try {
+      const body = JSON.parse(exchange.body.toString('utf8'));
+      return typeof body === 'object' && body !== null ? body : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Строит условия правила по параметрам пути и query (без секретов)
+   * @param req - исходный запрос
+   * @returns условия на точное совпадение параметров; без query — условие на отсутствие query
+   */
+  private buildMatchers(req: Request): RuleMatcher[] {
+    const matchers: RuleMatcher[] = [];
+    for (const [key, value] of Object.entries(req.params || {})) {
+      matchers.push({ source: 'path', key, operator: 'equals', value: String(value) });
+    }
+    for (const [key, value] of Object.entries(req.query)) {
+      if (typeof value === 'string' && !SENSITIVE_NAME.test(key)) {
+        matchers.push({ source: 'query', key, operator: 'equals', value });
+      }
+    }
+    if (!matchers.some((matcher) => matcher.source === 'query')) {
+      matchers.push({ source: 'query', key: '*', operator: 'absent' });
+    }
+    return matchers;
+  }
+
+  /**
+   * Описывает запрос без отброшенных query параметров
+   * @param req - исходный запрос
+   * @param matchers - условия правила
+   * @returns путь с query параметрами из условий
+   */
+  private describeMatchers(req: Request, matchers: RuleMatcher[]): string {
+    const query = matchers
+      .filter((matcher) => matcher.source === 'query' && matcher.operator === 'equals')
+      .map((matcher) => `${matcher.key}=${matcher.value}`)
+      .join('&');
+    return query ? `${req.path}?${query}` : req.path;
+  }
+
+  /**
+   * Оставляет заголовки ответа, которые стоит воспроизводить
+   * @param exchange - ответ backend
+   * @returns заголовки без учетных данных и транспортных заголовков
+   */
+  private filterHeaders(exchange: ProxiedExchange): Record<string, string> {
+    const headers: Record<string, string> = {};
+    for (const [name, value] of Object.entries(exchange.headers)) {
+      if (
+        typeof value === 'string' &&
+        !STRIPPED_HEADERS.includes(name) &&
+        !SENSITIVE_NAME.test(name)
+      ) {
+        headers[name] = value;
+      }
+    }
+    return headers;
+  }
+}
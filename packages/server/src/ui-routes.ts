@@ -1,30 +1,56 @@
 import express, { Express, Request, Response } from 'express';
 import { RequestMonitor } from './request-monitor';
 import { SettingsManager } from './settings-manager';
+import {
+  parseEndpointConfig,
+  validateFaults,
+  validateLatency,
+  validateOAuthSettings,
+  validateRateLimit,
+  validateSecuritySettings,
+  validateThrottle,
+} from './endpoint-config-validator';
 import {
   ServerConfig,
   EndpointConfig,
+  SchemaViolation,
   isValidDelay,
   isValidStatusCode,
   isValidHttpMethod,
   isValidEndpointPath,
+  isValidValidationMode,
+  isValidGenerationMode,
   sanitizeString,
 } from '@api-mock-generator/shared';
+import { resolveLocale } from '@api-mock-generator/core';
 import * as path from 'path';
 import * as fs from 'fs';
 
+/**
+ * Проверка кастомного ответа по схеме ответа спецификации
+ * Принимает ключ эндпоинта (метод:путь), статус код (без него — статус по умолчанию эндпоинта)
+ * и кастомный ответ, возвращает нарушения
+ */
+export type CustomResponseValidator = (
+  endpointKey: string,
+  statusCode: number | undefined,
+  customResponse: any
+) => SchemaViolation[];
+
 /**
  * Настраивает маршруты для UI и API
  * @param app - Express приложение
  * @param config - конфигурация сервера
  * @param requestMonitor - монитор запросов
  * @param settingsManager - менеджер настроек
+ * @param validateCustomResponse - проверка кастомных ответов по схеме (опционально)
  */
 export function setupUIRoutes(
   app: Express,
   config: ServerConfig,
   requestMonitor: RequestMonitor,
-  settingsManager?: SettingsManager
+  settingsManager?: SettingsManager,
+  validateCustomResponse?: CustomResponseValidator
 ): void {
   // API маршрут для получения статистики
   app.get('/api/stats', (_req, res) => {
@@ -44,12 +70,28 @@ export function setupUIRoutes(
   app.get('/api/endpoints', (_req: Request, res: Response) => {
     const endpoints: any[] = [];
     config.endpoints.forEach((endpointConfig: EndpointConfig, key: string) => {
-      const [method, path] = key.split(':');
+      // Путь может содержать параметры (/users/:id), поэтому делим только по первому двоеточию
+      const separator = key.indexOf(':');
+      const method = key.slice(0, separator);
+      const path = key.slice(separator + 1);
       endpoints.push({
         method,
         path,
         delay: endpointConfig.delay,
         statusCode: endpointConfig.statusCode,
+        validationMode: endpointConfig.validationMode,
+        generationMode: endpointConfig.generationMode,
+        seed: endpointConfig.seed,
+        seedMode: endpointConfig.seedMode,
+        variant: endpointConfig.variant,
+        customResponse: endpointConfig.customResponse,
+        rules: endpointConfig.rules,
+        sequence: endpointConfig.sequence,
+        faults: endpointConfig.faults,
+        latency: endpointConfig.latency,
+        throttle: endpointConfig.throttle,
+        rateLimit: endpointConfig.rateLimit,
+        passthrough: endpointConfig.passthrough,
       });
     });
     res.json(endpoints);
@@ -88,7 +130,19 @@ export function setupUIRoutes(
       }
 
       // Валидируем входные данные
-      const { defaultDelay, defaultStatusCode } = req.body;
+      const {
+        defaultDelay,
+        defaultStatusCode,
+        validationMode,
+        generationMode,
+        locale,
+        faults,
+        latency,
+        throttle,
+        rateLimit,
+        security,
+        oauth,
+      } = req.body;
 
       // Валидируем задержку если указана
       if (defaultDelay !== undefined) {
@@ -106,6 +160,67 @@ export function setupUIRoutes(
         }
       }
 
+      // Валидируем режим валидации запросов если указан
+      if (validationMode !== undefined && !isValidValidationMode(validationMode)) {
+        res.status(400).json({ error: 'Недопустимый режим валидации (off, warn, strict)' });
+        return;
+      }
+
+      // Валидируем режим генерации ответов если указан
+      if (generationMode !== undefined && !isValidGenerationMode(generationMode)) {
+        res.status(400).json({ error: 'Недопустимый режим генерации (dynamic, examples)' });
+        return;
+      }
+
+      // Валидируем локаль сгенерированных данных если указана
+      const resolvedLocale = typeof locale === 'string' ? resolveLocale(locale) : undefined;
+      if (locale !== undefined && !resolvedLocale) {
+        res.status(400).json({ error: 'Неподдерживаемая локаль (например, en, ru, de, ja)' });
+        return;
+      }
+
+      // Валидируем глобальные сбои если указаны
+      const faultsError = faults !== undefined ? validateFaults(faults) : undefined;
+      if (faultsError) {
+        res.status(400).json({ error: faultsError });
+        return;
+      }
+
+      // Валидируем глобальный профиль задержки если указан
+      const latencyError = latency !== undefined ? validateLatency(latency) : undefined;
+      if (latencyError) {
+        res.status(400).json({ error: latencyError });
+        return;
+      }
+
+      // Валидируем глобальное ограничение скорости если указано
+      const throttleError = throttle !== undefined ? validateThrottle(throttle) : undefined;
+      if (throttleError) {
+        res.status(400).json({ error: throttleError });
+        return;
+      }
+
+      // Валидируем глобальное ограничение частоты если указано
+      const rateLimitError = rateLimit !== undefined ? validateRateLimit(rateLimit) : undefined;
+      if (rateLimitError) {
+        res.status(400).json({ error: rateLimitError });
+        return;
+      }
+
+      // Валидируем настройки проверки securitySchemes если указаны
+      const securityError = security !== undefined ? validateSecuritySettings(security) : undefined;
+      if (securityError) {
+        res.status(400).json({ error: securityError });
+        return;
+      }
+
+      // Валидируем настройки встроенного OAuth2 провайдера если указаны
+      const oauthError = oauth !== undefined ? validateOAuthSettings(oauth) : undefined;
+      if (oauthError) {
+        res.status(400).json({ error: oauthError });
+        return;
+      }
+
       // Сохраняем общие настройки сервера (только валидные поля)
       const validSettings: Record<string, any> = {};
       if (defaultDelay !== undefined) {
@@ -114,6 +229,34 @@ export function setupUIRoutes(
       if (defaultStatusCode !== undefined) {
         validSettings.defaultStatusCode = defaultStatusCode;
       }
+      if (validationMode !== undefined) {
+        validSettings.validationMode = validationMode;
+      }
+      if (generationMode !== undefined) {
+        validSettings.generationMode = generationMode;
+      }
+      if (resolvedLocale !== undefined) {
+        validSettings.locale = resolvedLocale;
+      }
+      if (faults !== undefined) {
+        validSettings.faults = faults;
+      }
+      if (latency !== undefined) {
+        validSettings.latency = latency;
+      }
+      if (throttle !== undefined) {
+        validSettings.throttle = throttle;
+      }
+      if (rateLimit !== undefined) {
+        validSettings.rateLimit = rateLimit;
+      }
+
+      if (security !== undefined) {
+        validSettings.security = security;
+      }
+      if (oauth !== undefined) {
+        validSettings.oauth = oauth;
+      }
 
       settingsManager.saveServerSettings(validSettings);
       res.json({ success: true });
@@ -161,64 +304,46 @@ export function setupUIRoutes(
       }
 
       // Валидируем тело запроса
-      const { delay, statusCode, customResponse, queueEnabled, queueSize } = req.body;
-
-      // Создаем валидную конфигурацию эндпоинта
-      const endpointConfig: Partial<EndpointConfig> = {};
-
-      // Валидируем и добавляем задержку
-      if (delay !== undefined) {
-        if (!isValidDelay(delay)) {
-          res.status(400).json({ error: 'Недопустимая задержка (0-60000 мс)' });
-          return;
-        }
-        endpointConfig.delay = delay;
+      const parsed = parseEndpointConfig(req.body);
+      if ('error' in parsed) {
+        res.status(400).json({ error: parsed.error });
+        return;
       }
+      const endpointConfig = parsed.config;
+      const { force } = req.body;
 
-      // Валидируем и добавляем статус код
-      if (statusCode !== undefined) {
-        if (!isValidStatusCode(statusCode)) {
-          res.status(400).json({ error: 'Недопустимый статус код (100-599)' });
-          return;
-        }
-        endpointConfig.statusCode = statusCode;
+      // Флаг force позволяет сохранить кастомный ответ, не соответствующий схеме
+      if (force !== undefined && typeof force !== 'boolean') {
+        res.status(400).json({ error: 'force должен быть булевым значением' });
+        return;
       }
 
-      // Валидируем кастомный ответ (должен быть объектом или массивом)
-      if (customResponse !== undefined) {
-        if (typeof customResponse !== 'object' || customResponse === null) {
-          res.status(400).json({ error: 'Кастомный ответ должен быть объектом или массивом' });
-          return;
-        }
-        // Ограничиваем размер кастомного ответа (максимум 1MB при сериализации)
-        const serialized = JSON.stringify(customResponse);
-        if (serialized.length > 1024 * 1024) {
-          res.status(400).json({ error: 'Кастомный ответ слишком большой (максимум 1MB)' });
-          return;
-        }
-        endpointConfig.customResponse = customResponse;
-      }
+      const endpointKey = `${method.toUpperCase()}:${endpointPath}`;
 
-      // Валидируем очередь
-      if (queueEnabled !== undefined) {
-        if (typeof queueEnabled !== 'boolean') {
-          res.status(400).json({ error: 'queueEnabled должен быть булевым значением' });
+      // Проверяем кастомный ответ по схеме ответа для настроенного статус кода
+      if (endpointConfig.customResponse !== undefined && validateCustomResponse && !force) {
+        const violations = validateCustomResponse(
+          endpointKey,
+          endpointConfig.statusCode,
+          endpointConfig.customResponse
+        );
+        if (violations.length > 0) {
+          res.status(400).json({
+            error: 'Кастомный ответ не соответствует схеме ответа',
+            violations,
+          });
           return;
         }
-        endpointConfig.queueEnabled = queueEnabled;
       }
 
-      if (queueSize !== undefined) {
-        if (!Number.isInteger(queueSize) || queueSize < 1 || queueSize > 100) {
-          res.status(400).json({ error: 'Размер очереди должен быть от 1 до 100' });
-          return;
-        }
-        endpointConfig.queueSize = queueSize;
+      // Без поля customResponse сохраненный (или записанный) кастомный ответ остается прежним
+      const storedResponse = settingsManager.getEndpointConfig(endpointKey)?.customResponse;
+      if (req.body.customResponse === undefined && storedResponse !== undefined) {
+        endpointConfig.customResponse = storedResponse;
       }
 
-      const endpointKey = `${method.toUpperCase()}:${endpointPath}`;
       // Сохраняем настройки эндпоинта
-      settingsManager.saveEndpointConfig(endpointKey, endpointConfig as EndpointConfig);
+      settingsManager.saveEndpointConfig(endpointKey, endpointConfig);
       res.json({ success: true });
     } catch (error) {
       // eslint-disable-next-line no-console
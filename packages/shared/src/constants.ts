@@ -0,0 +1,9 @@
+import { ThrottlePreset } from './types';
+
+// Пресеты ограничения скорости: скорость передачи (байт/с) и время до первого байта (мс)
+export const THROTTLE_PRESETS: Record<ThrottlePreset, { bytesPerSecond: number; ttfb: number }> = {
+  'slow-3g': { bytesPerSecond: 50000, ttfb: 2000 },
+  '3g': { bytesPerSecond: 200000, ttfb: 560 },
+  '4g': { bytesPerSecond: 1125000, ttfb: 170 },
+  'slow-wifi': { bytesPerSecond: 125000, ttfb: 200 },
+};
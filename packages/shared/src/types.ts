@@ -14,6 +14,233 @@ export interface EndpointConfig {
   queueEnabled?: boolean;
   // Размер очереди
   queueSize?: number;
+  // Режим валидации запросов (переопределяет глобальный)
+  validationMode?: ValidationMode;
+  // Режим генерации ответа (переопределяет глобальный)
+  generationMode?: GenerationMode;
+  // Seed генерации данных (переопределяет --seed)
+  seed?: number;
+  // Способ вычисления seed запроса (переопределяет глобальный)
+  seedMode?: SeedMode;
+  // Вариант oneOf/anyOf в ответе: значение дискриминатора, имя схемы или title (по умолчанию случайный)
+  variant?: string;
+  // Условные правила ответа (проверяются по порядку, применяется первое совпавшее)
+  rules?: ResponseRule[];
+  // Последовательность ответов (N-й вызов получает N-й шаг)
+  sequence?: ResponseSequence;
+  // Внедряемые сбои (переопределяют глобальные; пустой список выключает сбои эндпоинта)
+  faults?: FaultConfig[];
+  // Профиль задержки (вместо фиксированной задержки delay)
+  latency?: LatencyProfile;
+  // Ограничение скорости передачи ответа
+  throttle?: ThrottleConfig;
+  // Ограничение частоты запросов к эндпоинту
+  rateLimit?: RateLimitPolicy;
+  // Проксировать запросы на реальный backend (--proxy) вместо мока
+  passthrough?: boolean;
+}
+
+// Именованный сценарий: набор переопределений настроек для многих эндпоинтов
+export interface Scenario {
+  // Имя сценария (например, happy-path, backend-down)
+  name: string;
+  // Описание сценария
+  description?: string;
+  // Переопределения по ключу эндпоинта (METHOD:/path); ключ '*' применяется ко всем эндпоинтам
+  endpoints: Record<string, EndpointConfig>;
+}
+
+// Условие правила ответа
+export interface RuleMatcher {
+  // Часть запроса: заголовок, query параметр, параметр пути или тело
+  source: 'header' | 'query' | 'path' | 'body';
+  // Имя заголовка/параметра или JSONPath для тела (например, $.user.email)
+  key: string;
+  // Сравнение: точное совпадение, регулярное выражение, наличие или отсутствие значения
+  operator: 'equals' | 'regex' | 'exists' | 'absent';
+  // Ожидаемое значение (для equals и regex)
+  value?: string;
+}
+
+// Условное правило ответа эндпоинта
+export interface ResponseRule {
+  // Название правила (для UI)
+  name?: string;
+  // Условия (все должны выполняться; пустой список совпадает с любым запросом)
+  matchers: RuleMatcher[];
+  // HTTP статус код ответа
+  statusCode?: number;
+  // Дополнительные заголовки ответа
+  headers?: Record<string, string>;
+  // Задержка ответа в миллисекундах
+  delay?: number;
+  // Шаблон тела ответа (если не указан, генерируется по схеме для статус кода)
+  response?: any;
+}
+
+// Шаг последовательности ответов
+export interface SequenceStep {
+  // HTTP статус код ответа
+  statusCode?: number;
+  // Дополнительные заголовки ответа
+  headers?: Record<string, string>;
+  // Задержка ответа в миллисекундах
+  delay?: number;
+  // Шаблон тела ответа (если не указан, генерируется по схеме для статус кода)
+  response?: any;
+}
+
+// Последовательность ответов эндпоинта
+export interface ResponseSequence {
+  // Поведение после последнего шага: повторять последний, начать сначала, случайный шаг
+  mode: 'stop' | 'cycle' | 'random';
+  // Счетчик вызовов: общий для эндпоинта или отдельный для каждого значения параметров пути
+  scope?: 'global' | 'path';
+  // Шаги в порядке вызовов
+  steps: SequenceStep[];
+}
+
+// Тип сбоя: статус ошибки, обрыв соединения, обрезанное или невалидное тело,
+// зависание до таймаута клиента, пустой ответ 200
+export type FaultType = 'error' | 'reset' | 'truncate' | 'malformed' | 'hang' | 'empty';
+
+// Внедряемый сбой
+export interface FaultConfig {
+  // Тип сбоя
+  type: FaultType;
+  // Вероятность срабатывания (0-1); сумма вероятностей сбоев не больше 1
+  probability: number;
+  // HTTP статус код для сбоя error (по умолчанию 500)
+  statusCode?: number;
+}
+
+// Профиль случайной задержки ответа (значения в миллисекундах, не более 60000)
+export interface LatencyProfile {
+  // Распределение: равномерное, нормальное или логнормальное
+  distribution: 'uniform' | 'normal' | 'lognormal';
+  // Границы равномерного распределения
+  min?: number;
+  max?: number;
+  // Среднее и стандартное отклонение нормального распределения
+  mean?: number;
+  stddev?: number;
+  // Медиана и 99-й перцентиль логнормального распределения
+  p50?: number;
+  p99?: number;
+  // Вероятность всплеска (0-1) и добавляемая при всплеске задержка
+  spikeProbability?: number;
+  spikeDelay?: number;
+}
+
+// Именованный пресет скорости сети
+export type ThrottlePreset = 'slow-3g' | '3g' | '4g' | 'slow-wifi';
+
+// Ограничение скорости передачи: тело отправляется частями с заданной скоростью
+export interface ThrottleConfig {
+  // Пресет скорости и времени до первого байта
+  preset?: ThrottlePreset;
+  // Скорость передачи в байтах в секунду (переопределяет пресет)
+  bytesPerSecond?: number;
+  // Время до первого байта в миллисекундах (переопределяет пресет)
+  ttfb?: number;
+}
+
+// Политика ограничения частоты запросов
+export interface RateLimitPolicy {
+  // Алгоритм: фиксированное окно или корзина токенов
+  algorithm: 'fixed-window' | 'token-bucket';
+  // Число запросов за окно (для корзины — емкость, пополняется за windowMs)
+  limit: number;
+  // Длина окна в миллисекундах
+  windowMs: number;
+  // Ключ клиента: IP адрес, API ключ или произвольный заголовок
+  keyBy: 'ip' | 'api-key' | 'header';
+  // Имя заголовка для api-key (по умолчанию X-API-Key) и header
+  header?: string;
+}
+
+// Состояние квоты клиента (для дашборда)
+export interface RateLimitStatus {
+  // Область: 'global' или ключ эндпоинта (METHOD:/path)
+  scope: string;
+  // Ключ клиента
+  client: string;
+  limit: number;
+  remaining: number;
+  // Секунд до сброса квоты
+  resetSeconds: number;
+}
+
+// Учетные данные, принимаемые при проверке securitySchemes
+export interface AccessCredential {
+  // API ключ, bearer токен или логин:пароль для basic
+  value: string;
+  // Выданные скоупы (если не указаны, доступны все скоупы)
+  scopes?: string[];
+}
+
+// Настройки проверки securitySchemes
+export interface SecuritySettings {
+  // Проверять ли требования безопасности операций
+  enabled: boolean;
+  // Принимаемые учетные данные (если список пуст, принимается любое непустое значение)
+  credentials?: AccessCredential[];
+}
+
+// Клиент встроенного OAuth2 провайдера
+export interface OAuthClient {
+  clientId: string;
+  // Секрет клиента (если не указан, проверяется только clientId)
+  clientSecret?: string;
+}
+
+// Пользователь встроенного OAuth2 провайдера (grant password и authorization_code)
+export interface OAuthUser {
+  username: string;
+  password: string;
+  // Дополнительные claims токенов пользователя
+  claims?: Record<string, unknown>;
+}
+
+// Настройки встроенного OAuth2/OIDC провайдера
+export interface OAuthSettings {
+  // Время жизни токенов в секундах
+  expiresIn?: number;
+  // Claims, добавляемые во все токены
+  claims?: Record<string, unknown>;
+  // Зарегистрированные клиенты (если список пуст, принимается любой clientId)
+  clients?: OAuthClient[];
+  // Пользователи (если список пуст, принимаются любые логин и пароль)
+  users?: OAuthUser[];
+}
+
+// Режим валидации запросов: выключена, только предупреждение, отклонение с 400
+export type ValidationMode = 'off' | 'warn' | 'strict';
+
+// Режим генерации ответа: случайные данные или примеры из спецификации (example, examples, default)
+export type GenerationMode = 'dynamic' | 'examples';
+
+// Способ вычисления seed запроса: call — по эндпоинту и номеру вызова (одинаковая
+// последовательность ответов при каждом запуске), resource — по методу, пути и параметрам
+// пути (GET /users/42 всегда возвращает одни и те же данные)
+export type SeedMode = 'call' | 'resource';
+
+// Нарушение схемы JSON Schema
+export interface SchemaViolation {
+  // JSON Pointer до значения с ошибкой ('' — корень)
+  path: string;
+  // Ключевое слово схемы, которое не выполнено (type, required, ...)
+  keyword: string;
+  // Описание нарушения
+  message: string;
+}
+
+// Нарушение схемы в запросе
+export interface RequestViolation extends SchemaViolation {
+  // Часть запроса: параметр пути, query, заголовок, cookie или тело
+  location: 'path' | 'query' | 'header' | 'cookie' | 'body';
+  // Имя параметра (для path, query, header, cookie)
+  name?: string;
 }
 
 // Типы для мониторинга запросов
@@ -40,6 +267,14 @@ export interface RequestLog {
   responseTime?: number;
   // Тело ответа
   responseBody?: any;
+  // Нарушения схемы запроса (при включенной валидации)
+  validationErrors?: RequestViolation[];
+  // Сценарий, примененный к запросу
+  scenario?: string;
+  // Внедренный сбой
+  fault?: FaultType;
+  // Запрос передан на backend (режим прокси), а не обработан моком
+  proxied?: boolean;
 }
 
 // Типы для OpenAPI операции
@@ -56,6 +291,52 @@ export interface OpenAPIOperation {
   responses?: Record<string, any>;
   // Теги операции
   tags?: string[];
+  // Требования безопасности (имя схемы → скоупы)
+  security?: Record<string, string[]>[];
+}
+
+// Описание содержимого ответа для одного MIME типа
+export interface ParsedMediaType {
+  // Схема содержимого
+  schema?: any;
+  // Пример (example)
+  example?: any;
+  // Именованные примеры (examples)
+  examples?: Record<string, any>;
+}
+
+// Описание одного ответа операции
+export interface ParsedResponse {
+  // Описание ответа
+  description?: string;
+  // Содержимое по MIME типам
+  content: Record<string, ParsedMediaType>;
+  // Заголовки ответа (имя → объект Header со схемой)
+  headers?: Record<string, any>;
+}
+
+// Параметр операции (path, query, header, cookie)
+export interface ParsedParameter {
+  // Имя параметра
+  name: string;
+  // Расположение параметра
+  in: 'path' | 'query' | 'header' | 'cookie';
+  // Обязателен ли параметр
+  required: boolean;
+  // Схема значения
+  schema?: any;
+  // Стиль сериализации (form, simple, deepObject, ...)
+  style?: string;
+  // Разделять ли массивы и объекты на отдельные параметры
+  explode?: boolean;
+}
+
+// Тело запроса операции
+export interface ParsedRequestBody {
+  // Обязательно ли тело запроса
+  required: boolean;
+  // Содержимое по MIME типам
+  content: Record<string, ParsedMediaType>;
 }
 
 // Типы для парсинга OpenAPI
@@ -68,6 +349,56 @@ export interface ParsedEndpoint {
   operation: OpenAPIOperation;
   // Схема ответа
   responseSchema?: any;
+  // MIME тип ответа (из content OpenAPI 3.x или produces Swagger 2.0)
+  responseContentType?: string;
+  // Все объявленные ответы: статус код ('200', '4XX', 'default') → ответ
+  responses?: Record<string, ParsedResponse>;
+  // Параметры операции со схемами
+  parameters?: ParsedParameter[];
+  // Тело запроса со схемами по MIME типам
+  requestBody?: ParsedRequestBody;
+  // Альтернативные требования безопасности (достаточно одного; внутри требования нужны все схемы)
+  security?: ParsedSecurityRequirement[][];
+}
+
+// Схема безопасности (securitySchemes OpenAPI 3.x или securityDefinitions Swagger 2.0)
+export interface SecurityScheme {
+  // Тип схемы (basic из Swagger 2.0 приводится к http + basic)
+  type: 'apiKey' | 'http' | 'oauth2' | 'openIdConnect' | 'mutualTLS';
+  // Имя параметра с ключом (для apiKey)
+  name?: string;
+  // Расположение ключа (для apiKey)
+  in?: 'header' | 'query' | 'cookie';
+  // HTTP схема авторизации (basic, bearer, ...)
+  scheme?: string;
+}
+
+// Схема безопасности, требуемая операцией
+export interface ParsedSecurityRequirement {
+  // Имя схемы в спецификации
+  name: string;
+  // Описание схемы
+  scheme: SecurityScheme;
+  // Требуемые скоупы
+  scopes: string[];
+}
+
+// Выбор сервера из секции servers спецификации
+export interface ServerSelection {
+  // Индекс сервера в списке servers (по умолчанию 0)
+  serverIndex?: number;
+  // Значения переменных сервера (переопределяют default)
+  variables?: Record<string, string>;
+}
+
+// Сервер спецификации с подставленными переменными
+export interface ResolvedServer {
+  // URL сервера из спецификации
+  url: string;
+  // Префикс маршрутов мок-сервера (например, /v2)
+  basePath: string;
+  // Описание сервера
+  description?: string;
 }
 
 // Типы для конфигурации сервера
@@ -78,6 +409,38 @@ export interface ServerConfig {
   host?: string;
   // Базовый путь для UI
   uiPath?: string;
+  // Префикс маршрутов API из servers спецификации (например, /v2)
+  basePath?: string;
+  // Режим валидации запросов по умолчанию
+  validationMode?: ValidationMode;
+  // Режим генерации ответов по умолчанию
+  generationMode?: GenerationMode;
+  // Seed генерации данных (ответы и наполнение коллекций повторяются от запуска к запуску)
+  seed?: number;
+  // Способ вычисления seed запроса по умолчанию
+  seedMode?: SeedMode;
+  // Локаль сгенерированных данных по умолчанию (ru, de, ja; запрос выбирает свою через Accept-Language)
+  locale?: string;
+  // JSON файл с сопоставлениями имен свойств и генераторов (дополняет встроенные)
+  propertyNamesPath?: string;
+  // Stateful режим: коллекции хранят созданные записи в памяти
+  stateful?: boolean;
+  // Количество записей для начального наполнения каждой коллекции
+  seedCount?: number;
+  // Путь к JSON файлу с определениями сценариев
+  scenariosPath?: string;
+  // Сценарий, активный при запуске
+  activeScenario?: string;
+  // Проверять требования securitySchemes спецификации (настройки сервера имеют приоритет)
+  enforceSecurity?: boolean;
+  // Адрес backend для проксирования эндпоинтов passthrough и маршрутов вне спецификации
+  proxyUrl?: string;
+  // Заголовки, подставляемые в проксируемые запросы (пустое значение удаляет заголовок)
+  proxyHeaders?: Record<string, string>;
+  // Режим записи: эндпоинты спецификации проксируются, ответы backend сохраняются в настройки
+  recordMode?: boolean;
+  // JSON файл настроек: загружается при запуске, изменения сохраняются в него
+  settingsPath?: string;
   // Конфигурация эндпоинтов
   endpoints: Map<string, EndpointConfig>;
 }
@@ -90,3 +453,9 @@ export interface TemplateObject {
 }
 
 export interface TemplateArray extends Array<TemplateValue> {}
+
+// Контекст запроса, доступный шаблонам
+export interface TemplateContext {
+  // Claims проверенного bearer токена ({{claim:sub}})
+  claims?: Record<string, unknown>;
+}
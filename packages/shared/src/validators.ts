@@ -137,3 +137,39 @@ export function isValidStatusCode(statusCode: number): boolean {
   // Статус код должен быть в диапазоне 100-599
   return Number.isInteger(statusCode) && statusCode >= 100 && statusCode <= 599;
 }
+
+/**
+ * Валидирует режим валидации запросов
+ * @param mode - режим для проверки
+ * @returns true если режим валиден (off, warn или strict)
+ */
+export function isValidValidationMode(mode: unknown): boolean {
+  return mode === 'off' || mode === 'warn' || mode === 'strict';
+}
+
+/**
+ * Валидирует режим генерации ответов
+ * @param mode - режим для проверки
+ * @returns true если режим валиден (dynamic или examples)
+ */
+export function isValidGenerationMode(mode: unknown): boolean {
+  return mode === 'dynamic' || mode === 'examples';
+}
+
+/**
+ * Валидирует seed генерации данных
+ * @param seed - seed для проверки
+ * @returns true если seed — целое число от 0 до 4294967295
+ */
+export function isValidSeed(seed: unknown): boolean {
+  return Number.isInteger(seed) && (seed as number) >= 0 && (seed as number) <= 0xffffffff;
+}
+
+/**
+ * Валидирует способ вычисления seed запроса
+ * @param mode - способ для проверки
+ * @returns true если способ валиден (call или resource)
+ */
+export function isValidSeedMode(mode: unknown): boolean {
+  return mode === 'call' || mode === 'resource';
+}
@@ -2,6 +2,7 @@ import { Routes, Route, Link, useLocation } from 'react-router-dom';
 import Dashboard from './pages/Dashboard';
 import Endpoints from './pages/Endpoints';
 import Monitor from './pages/Monitor';
+import Scenarios from './pages/Scenarios';
 import Settings from './pages/Settings';
 import './App.css';
 
@@ -16,6 +17,8 @@ function App() {
       case '/': return 'Дашборд';
       case '/endpoints': return 'Управление API';
       case '/monitor': return 'Мониторинг запросов';
+      case '/scenarios':
+        return 'Сценарии';
       case '/settings': return 'Настройки сервера';
       default: return 'API Mock Server';
     }
@@ -45,6 +48,13 @@ function App() {
             <span className="nav-icon">📡</span>
             Мониторинг
           </Link>
+          <Link
+            to="/scenarios"
+            className={`nav-item ${location.pathname === '/scenarios' ? 'active' : ''}`}
+          >
+            <span className="nav-icon">🎬</span>
+            Сценарии
+          </Link>
           <Link to="/settings" className={`nav-item ${location.pathname === '/settings' ? 'active' : ''}`}>
             <span className="nav-icon">⚙️</span>
             Настройки
@@ -71,6 +81,7 @@ function App() {
             <Route path="/" element={<Dashboard />} />
             <Route path="/endpoints" element={<Endpoints />} />
             <Route path="/monitor" element={<Monitor />} />
+            <Route path="/scenarios" element={<Scenarios />} />
             <Route path="/settings" element={<Settings />} />
           </Routes>
         </main>
@@ -0,0 +1,98 @@
+import { FaultConfig, FaultType } from '@api-mock-generator/shared';
+import './RulesEditor.css';
+import './FaultsEditor.css';
+
+// Свойства редактора сбоев
+interface FaultsEditorProps {
+  faults: FaultConfig[];
+  onChange: (faults: FaultConfig[]) => void;
+}
+
+// Названия типов сбоев
+const FAULT_LABELS: Record<FaultType, string> = {
+  error: 'Статус ошибки',
+  reset: 'Обрыв соединения',
+  truncate: 'Обрезанное тело',
+  malformed: 'Невалидный JSON',
+  hang: 'Зависание до таймаута',
+  empty: 'Пустой ответ 200',
+};
+
+/**
+ * Редактор внедряемых сбоев: тип и вероятность срабатывания в процентах
+ */
+function FaultsEditor({ faults, onChange }: FaultsEditorProps) {
+  // Обновляет один сбой
+  const updateFault = (index: number, patch: Partial<FaultConfig>) => {
+    onChange(faults.map((fault, i) => (i === index ? { ...fault, ...patch } : fault)));
+  };
+
+  const totalPercent = Math.round(faults.reduce((sum, fault) => sum + fault.probability, 0) * 100);
+
+  return (
+    <div className="rules-editor">
+      {faults.length === 0 && <p className="rules-empty">Сбои не внедряются</p>}
+      {faults.map((fault, index) => (
+        <div key={index} className="matcher-row">
+          <select
+            className="setting-input"
+            value={fault.type}
+            onChange={(e) => updateFault(index, { type: e.target.value as FaultType })}
+          >
+            {Object.entries(FAULT_LABELS).map(([type, label]) => (
+              <option key={type} value={type}>
+                {label}
+              </option>
+            ))}
+          </select>
+          <input
+            className="setting-input fault-percent"
+            type="number"
+            min="0"
+            max="100"
+            value={Math.round(fault.probability * 100)}
+            onChange={(e) =>
+              updateFault(index, {
+                probability: Math.min(100, Math.max(0, Number(e.target.value) || 0)) / 100,
+              })
+            }
+          />
+          <span>%</span>
+          {fault.type === 'error' && (
+            <input
+              className="setting-input"
+              type="number"
+              min="100"
+              max="599"
+              value={fault.statusCode ?? ''}
+              placeholder="Статус (500)"
+              onChange={(e) =>
+                updateFault(index, {
+                  statusCode: e.target.value ? parseInt(e.target.value, 10) : undefined,
+                })
+              }
+            />
+          )}
+          <button
+            className="rule-btn danger"
+            onClick={() => onChange(faults.filter((_, i) => i !== index))}
+            title="Удалить сбой"
+          >
+            ✕
+          </button>
+        </div>
+      ))}
+      {totalPercent > 100 && (
+        <p className="fault-warning">Сумма вероятностей больше 100% ({totalPercent}%)</p>
+      )}
+      <button
+        className="rule-btn add"
+        onClick={() => onChange([...faults, { type: 'error', probability: 0.1, statusCode: 500 }])}
+      >
+        + Добавить сбой
+      </button>
+    </div>
+  );
+}
+
+export default FaultsEditor;
@@ -0,0 +1,43 @@
+import { useState } from 'react';
+import './JsonField.css';
+
+// Свойства поля для редактирования JSON значения
+interface JsonFieldProps {
+  value: any;
+  placeholder: string;
+  onChange: (value: any) => void;
+}
+
+/**
+ * Поле ввода JSON: значение передается наверх только когда текст разбирается без ошибок
+ */
+function JsonField({ value, placeholder, onChange }: JsonFieldProps) {
+  const [text, setText] = useState(value === undefined ? '' : JSON.stringify(value, null, 2));
+  const [invalid, setInvalid] = useState(false);
+
+  const handleChange = (nextText: string) => {
+    setText(nextText);
+    if (!nextText.trim()) {
+      setInvalid(false);
+      onChange(undefined);
+      return;
+    }
+    try {
+      onChange(JSON.parse(nextText));
+      setInvalid(false);
+    } catch {
+      setInvalid(true);
+    }
+  };
+
+  return (
+    <textarea
+      className={`json-field ${invalid ? 'invalid' : ''}`}
+      value={text}
+      placeholder={placeholder}
+      onChange={(e) => handleChange(e.target.value)}
+    />
+  );
+}
+
+export default JsonField;
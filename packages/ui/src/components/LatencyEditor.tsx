@@ -0,0 +1,118 @@
+import { LatencyProfile } from '@api-mock-generator/shared';
+import './LatencyEditor.css';
+
+// Свойства редактора профиля задержки
+interface LatencyEditorProps {
+  latency?: LatencyProfile;
+  // Подпись варианта без профиля
+  noneLabel: string;
+  onChange: (latency?: LatencyProfile) => void;
+}
+
+// Поле профиля с числовым значением
+type LatencyField = Exclude<keyof LatencyProfile, 'distribution'>;
+
+// Поля, которые задаются для каждого распределения
+const DISTRIBUTION_FIELDS: Record<LatencyProfile['distribution'], [LatencyField, string][]> = {
+  uniform: [
+    ['min', 'Мин. (мс)'],
+    ['max', 'Макс. (мс)'],
+  ],
+  normal: [
+    ['mean', 'Среднее (мс)'],
+    ['stddev', 'Ст. отклонение (мс)'],
+  ],
+  lognormal: [
+    ['p50', 'p50 (мс)'],
+    ['p99', 'p99 (мс)'],
+  ],
+};
+
+// Значения по умолчанию при выборе распределения
+const DEFAULT_PROFILES: Record<LatencyProfile['distribution'], LatencyProfile> = {
+  uniform: { distribution: 'uniform', min: 100, max: 500 },
+  normal: { distribution: 'normal', mean: 300, stddev: 100 },
+  lognormal: { distribution: 'lognormal', p50: 200, p99: 2000 },
+};
+
+/**
+ * Редактор профиля случайной задержки: распределение, его параметры и редкие всплески
+ */
+function LatencyEditor({ latency, noneLabel, onChange }: LatencyEditorProps) {
+  // Обновляет числовое поле профиля (пустое значение удаляет поле)
+  const updateField = (field: LatencyField, value: string) => {
+    if (!latency) {
+      return;
+    }
+    onChange({ ...latency, [field]: value === '' ? undefined : Number(value) });
+  };
+
+  return (
+    <div className="latency-editor">
+      <select
+        className="setting-input"
+        value={latency?.distribution || ''}
+        onChange={(e) =>
+          onChange(
+            e.target.value
+              ? DEFAULT_PROFILES[e.target.value as LatencyProfile['distribution']]
+              : undefined
+          )
+        }
+      >
+        <option value="">{noneLabel}</option>
+        <option value="uniform">Равномерное</option>
+        <option value="normal">Нормальное</option>
+        <option value="lognormal">Логнормальное</option>
+      </select>
+      {latency &&
+        DISTRIBUTION_FIELDS[latency.distribution].map(([field, label]) => (
+          <label key={field} className="latency-field">
+            {label}
+            <input
+              className="setting-input"
+              type="number"
+              min="0"
+              max="60000"
+              value={latency[field] ?? ''}
+              onChange={(e) => updateField(field, e.target.value)}
+            />
+          </label>
+        ))}
+      {latency && (
+        <>
+          <label className="latency-field">
+            Всплески (%)
+            <input
+              className="setting-input"
+              type="number"
+              min="0"
+              max="100"
+              value={latency.spikeProbability !== undefined ? latency.spikeProbability * 100 : ''}
+              onChange={(e) =>
+                onChange({
+                  ...latency,
+                  spikeProbability:
+                    e.target.value === '' ? undefined : Number(e.target.value) / 100,
+                })
+              }
+            />
+          </label>
+          <label className="latency-field">
+            + к задержке (мс)
+            <input
+              className="setting-input"
+              type="number"
+              min="0"
+              max="60000"
+              value={latency.spikeDelay ?? ''}
+              onChange={(e) => updateField('spikeDelay', e.target.value)}
+            />
+          </label>
+        </>
+      )}
+    </div>
+  );
+}
+
+export default LatencyEditor;
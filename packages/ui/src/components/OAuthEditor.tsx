@@ -0,0 +1,135 @@
+import { OAuthClient, OAuthSettings, OAuthUser } from '@api-mock-generator/shared';
+import JsonField from './JsonField';
+import './RulesEditor.css';
+import './LatencyEditor.css';
+
+// Свойства редактора встроенного OAuth2 провайдера
+interface OAuthEditorProps {
+  oauth?: OAuthSettings;
+  onChange: (oauth: OAuthSettings) => void;
+}
+
+/**
+ * Редактор встроенного OAuth2 провайдера: время жизни токенов, общие claims, клиенты и пользователи
+ */
+function OAuthEditor({ oauth = {}, onChange }: OAuthEditorProps) {
+  const clients = oauth.clients ?? [];
+  const users = oauth.users ?? [];
+
+  // Обновляет одного клиента
+  const updateClient = (index: number, patch: Partial<OAuthClient>) => {
+    onChange({
+      ...oauth,
+      clients: clients.map((client, i) => (i === index ? { ...client, ...patch } : client)),
+    });
+  };
+
+  // Обновляет одного пользователя
+  const updateUser = (index: number, patch: Partial<OAuthUser>) => {
+    onChange({
+      ...oauth,
+      users: users.map((user, i) => (i === index ? { ...user, ...patch } : user)),
+    });
+  };
+
+  return (
+    <div className="rules-editor">
+      <div className="latency-editor">
+        <label className="latency-field">
+          Время жизни (сек)
+          <input
+            className="setting-input"
+            type="number"
+            min="1"
+            value={oauth.expiresIn ?? ''}
+            placeholder="3600"
+            onChange={(e) =>
+              onChange({
+                ...oauth,
+                expiresIn: e.target.value ? parseInt(e.target.value, 10) : undefined,
+              })
+            }
+          />
+        </label>
+      </div>
+      <JsonField
+        value={oauth.claims}
+        placeholder='Claims всех токенов, например {"tenant": "acme"}'
+        onChange={(claims) => onChange({ ...oauth, claims })}
+      />
+
+      <div className="rule-section-title">Клиенты</div>
+      {clients.length === 0 && <p className="rules-empty">Принимается любой client_id</p>}
+      {clients.map((client, index) => (
+        <div key={index} className="matcher-row">
+          <input
+            className="setting-input"
+            value={client.clientId}
+            placeholder="client_id"
+            onChange={(e) => updateClient(index, { clientId: e.target.value })}
+          />
+          <input
+            className="setting-input"
+            value={client.clientSecret ?? ''}
+            placeholder="client_secret (публичный клиент)"
+            onChange={(e) => updateClient(index, { clientSecret: e.target.value || undefined })}
+          />
+          <button
+            className="rule-btn danger"
+            onClick={() => onChange({ ...oauth, clients: clients.filter((_, i) => i !== index) })}
+            title="Удалить клиента"
+          >
+            ✕
+          </button>
+        </div>
+      ))}
+      <button
+        className="rule-btn add"
+        onClick={() => onChange({ ...oauth, clients: [...clients, { clientId: '' }] })}
+      >
+        + Добавить клиента
+      </button>
+
+      <div className="rule-section-title">Пользователи</div>
+      {users.length === 0 && <p className="rules-empty">Принимаются любые логин и пароль</p>}
+      {users.map((user, index) => (
+        <div key={index} className="rule-card">
+          <div className="matcher-row">
+            <input
+              className="setting-input"
+              value={user.username}
+              placeholder="username"
+              onChange={(e) => updateUser(index, { username: e.target.value })}
+            />
+            <input
+              className="setting-input"
+              value={user.password}
+              placeholder="password"
+              onChange={(e) => updateUser(index, { password: e.target.value })}
+            />
+            <button
+              className="rule-btn danger"
+              onClick={() => onChange({ ...oauth, users: users.filter((_, i) => i !== index) })}
+              title="Удалить пользователя"
+            >
+              ✕
+            </button>
+          </div>
+          <JsonField
+            value={user.claims}
+            placeholder='Claims пользователя, например {"name": "Alice", "roles": ["admin"]}'
+            onChange={(claims) => updateUser(index, { claims })}
+          />
+        </div>
+      ))}
+      <button
+        className="rule-btn add"
+        onClick={() => onChange({ ...oauth, users: [...users, { username: '', password: '' }] })}
+      >
+        + Добавить пользователя
+      </button>
+    </div>
+  );
+}
+
+export default OAuthEditor;
@@ -0,0 +1,98 @@
+import { RateLimitPolicy } from '@api-mock-generator/shared';
+import './LatencyEditor.css';
+
+// Свойства редактора ограничения частоты запросов
+interface RateLimitEditorProps {
+  rateLimit?: RateLimitPolicy;
+  // Подпись варианта без ограничения
+  noneLabel: string;
+  onChange: (rateLimit?: RateLimitPolicy) => void;
+}
+
+/**
+ * Редактор политики ограничения частоты: алгоритм, лимит за окно и ключ клиента
+ */
+function RateLimitEditor({ rateLimit, noneLabel, onChange }: RateLimitEditorProps) {
+  // Обновляет поле политики
+  const update = (patch: Partial<RateLimitPolicy>) => {
+    if (rateLimit) {
+      onChange({ ...rateLimit, ...patch });
+    }
+  };
+
+  return (
+    <div className="latency-editor">
+      <select
+        className="setting-input"
+        value={rateLimit?.algorithm || ''}
+        onChange={(e) =>
+          onChange(
+            e.target.value
+              ? {
+                  limit: 60,
+                  windowMs: 60000,
+                  keyBy: 'ip',
+                  ...rateLimit,
+                  algorithm: e.target.value as RateLimitPolicy['algorithm'],
+                }
+              : undefined
+          )
+        }
+      >
+        <option value="">{noneLabel}</option>
+        <option value="fixed-window">Фиксированное окно</option>
+        <option value="token-bucket">Корзина токенов</option>
+      </select>
+      {rateLimit && (
+        <>
+          <label className="latency-field">
+            Запросов
+            <input
+              className="setting-input"
+              type="number"
+              min="1"
+              value={rateLimit.limit}
+              onChange={(e) => update({ limit: parseInt(e.target.value, 10) || 1 })}
+            />
+          </label>
+          <label className="latency-field">
+            За окно (сек)
+            <input
+              className="setting-input"
+              type="number"
+              min="1"
+              max="86400"
+              value={rateLimit.windowMs / 1000}
+              onChange={(e) => update({ windowMs: (parseInt(e.target.value, 10) || 1) * 1000 })}
+            />
+          </label>
+          <label className="latency-field">
+            Клиент
+            <select
+              className="setting-input"
+              value={rateLimit.keyBy}
+              onChange={(e) => update({ keyBy: e.target.value as RateLimitPolicy['keyBy'] })}
+            >
+              <option value="ip">IP адрес</option>
+              <option value="api-key">API ключ</option>
+              <option value="header">Заголовок</option>
+            </select>
+          </label>
+          {rateLimit.keyBy !== 'ip' && (
+            <label className="latency-field">
+              Заголовок
+              <input
+                className="setting-input"
+                value={rateLimit.header || ''}
+                placeholder={rateLimit.keyBy === 'api-key' ? 'X-API-Key' : 'X-Client-Id'}
+                onChange={(e) => update({ header: e.target.value || undefined })}
+              />
+            </label>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+export default RateLimitEditor;
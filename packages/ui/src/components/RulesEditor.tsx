@@ -0,0 +1,212 @@
+import { useState } from 'react';
+import { ResponseRule, RuleMatcher } from '@api-mock-generator/shared';
+import JsonField from './JsonField';
+import './RulesEditor.css';
+
+// Свойства редактора правил
+interface RulesEditorProps {
+  rules: ResponseRule[];
+  onChange: (rules: ResponseRule[]) => void;
+}
+
+/**
+ * Редактор условных правил ответа эндпоинта
+ * Правила проверяются по порядку, применяется первое, все условия которого выполнены
+ */
+function RulesEditor({ rules, onChange }: RulesEditorProps) {
+  // Версия списка: меняется при перестановке и удалении, чтобы JSON поля пересоздавались
+  const [version, setVersion] = useState(0);
+
+  // Обновляет одно правило
+  const updateRule = (index: number, patch: Partial<ResponseRule>) => {
+    onChange(rules.map((rule, i) => (i === index ? { ...rule, ...patch } : rule)));
+  };
+
+  // Обновляет одно условие правила
+  const updateMatcher = (ruleIndex: number, matcherIndex: number, patch: Partial<RuleMatcher>) => {
+    const matchers = rules[ruleIndex].matchers.map((matcher, i) =>
+      i === matcherIndex ? { ...matcher, ...patch } : matcher
+    );
+    updateRule(ruleIndex, { matchers });
+  };
+
+  // Перемещает правило вверх или вниз (порядок определяет приоритет)
+  const moveRule = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= rules.length) {
+      return;
+    }
+    const next = [...rules];
+    [next[index], next[target]] = [next[target], next[index]];
+    setVersion((prev) => prev + 1);
+    onChange(next);
+  };
+
+  const addRule = () => {
+    onChange([
+      ...rules,
+      { name: '', matchers: [{ source: 'header', key: '', operator: 'equals', value: '' }] },
+    ]);
+  };
+
+  return (
+    <div className="rules-editor">
+      {rules.length === 0 && (
+        <p className="rules-empty">Нет правил — эндпоинт отвечает по настройкам ниже</p>
+      )}
+      {rules.map((rule, ruleIndex) => (
+        <div key={`${version}-${ruleIndex}`} className="rule-card">
+          <div className="rule-header">
+            <span className="rule-index">#{ruleIndex + 1}</span>
+            <input
+              className="setting-input"
+              value={rule.name || ''}
+              placeholder="Название правила"
+              onChange={(e) => updateRule(ruleIndex, { name: e.target.value })}
+            />
+            <button className="rule-btn" onClick={() => moveRule(ruleIndex, -1)} title="Выше">
+              ↑
+            </button>
+            <button className="rule-btn" onClick={() => moveRule(ruleIndex, 1)} title="Ниже">
+              ↓
+            </button>
+            <button
+              className="rule-btn danger"
+              onClick={() => {
+                setVersion((prev) => prev + 1);
+                onChange(rules.filter((_, i) => i !== ruleIndex));
+              }}
+              title="Удалить правило"
+            >
+              ✕
+            </button>
+          </div>
+
+          <div className="rule-section-title">Условия (все должны выполняться)</div>
+          {rule.matchers.map((matcher, matcherIndex) => (
+            <div key={matcherIndex} className="matcher-row">
+              <select
+                className="setting-input"
+                value={matcher.source}
+                onChange={(e) =>
+                  updateMatcher(ruleIndex, matcherIndex, {
+                    source: e.target.value as RuleMatcher['source'],
+                  })
+                }
+              >
+                <option value="header">Заголовок</option>
+                <option value="query">Query</option>
+                <option value="path">Параметр пути</option>
+                <option value="body">Тело (JSONPath)</option>
+              </select>
+              <input
+                className="setting-input"
+                value={matcher.key}
+                placeholder={matcher.source === 'body' ? '$.email' : 'Имя'}
+                onChange={(e) => updateMatcher(ruleIndex, matcherIndex, { key: e.target.value })}
+              />
+              <select
+                className="setting-input"
+                value={matcher.operator}
+                onChange={(e) =>
+                  updateMatcher(ruleIndex, matcherIndex, {
+                    operator: e.target.value as RuleMatcher['operator'],
+                  })
+                }
+              >
+                <option value="equals">равно</option>
+                <option value="regex">regex</option>
+                <option value="exists">есть</option>
+                <option value="absent">отсутствует</option>
+              </select>
+              <input
+                className="setting-input"
+                value={matcher.value || ''}
+                placeholder="Значение"
+                disabled={matcher.operator === 'exists' || matcher.operator === 'absent'}
+                onChange={(e) => updateMatcher(ruleIndex, matcherIndex, { value: e.target.value })}
+              />
+              <button
+                className="rule-btn danger"
+                onClick={() =>
+                  updateRule(ruleIndex, {
+                    matchers: rule.matchers.filter((_, i) => i !== matcherIndex),
+                  })
+                }
+                title="Удалить условие"
+              >
+                ✕
+              </button>
+            </div>
+          ))}
+          <button
+            className="rule-btn add"
+            onClick={() =>
+              updateRule(ruleIndex, {
+                matchers: [
+                  ...rule.matchers,
+                  { source: 'query', key: '', operator: 'equals', value: '' },
+                ],
+              })
+            }
+          >
+            + Условие
+          </button>
+
+          <div className="rule-section-title">Ответ</div>
+          <div className="settings-row">
+            <div className="setting-group">
+              <label>Статус код:</label>
+              <input
+                className="setting-input"
+                type="number"
+                min="100"
+                max="599"
+                value={rule.statusCode ?? ''}
+                placeholder="Как у эндпоинта"
+                onChange={(e) =>
+                  updateRule(ruleIndex, {
+                    statusCode: e.target.value ? parseInt(e.target.value, 10) : undefined,
+                  })
+                }
+              />
+            </div>
+            <div className="setting-group">
+              <label>Задержка (мс):</label>
+              <input
+                className="setting-input"
+                type="number"
+                min="0"
+                max="60000"
+                value={rule.delay ?? ''}
+                placeholder="Как у эндпоинта"
+                onChange={(e) =>
+                  updateRule(ruleIndex, {
+                    delay: e.target.value ? parseInt(e.target.value, 10) : undefined,
+                  })
+                }
+              />
+            </div>
+          </div>
+          <div className="rule-json-fields">
+            <JsonField
+              value={rule.headers}
+              placeholder={'Заголовки: { "X-Plan": "pro" }'}
+              onChange={(headers) => updateRule(ruleIndex, { headers })}
+            />
+            <JsonField
+              value={rule.response}
+              placeholder="Тело ответа (JSON с шаблонами); пусто — генерация по схеме"
+              onChange={(response) => updateRule(ruleIndex, { response })}
+            />
+          </div>
+        </div>
+      ))}
+      <button className="rule-btn add" onClick={addRule}>
+        + Добавить правило
+      </button>
+    </div>
+  );
+}
+
+export default RulesEditor;
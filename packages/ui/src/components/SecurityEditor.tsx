@@ -0,0 +1,79 @@
+import { AccessCredential, SecuritySettings } from '@api-mock-generator/shared';
+import './RulesEditor.css';
+
+// Свойства редактора проверки securitySchemes
+interface SecurityEditorProps {
+  security?: SecuritySettings;
+  onChange: (security: SecuritySettings) => void;
+}
+
+/**
+ * Редактор проверки securitySchemes: включение и принимаемые учетные данные со скоупами
+ */
+function SecurityEditor({ security, onChange }: SecurityEditorProps) {
+  const enabled = security?.enabled ?? false;
+  const credentials = security?.credentials ?? [];
+
+  // Обновляет список учетных данных
+  const updateCredentials = (next: AccessCredential[]) => {
+    onChange({ enabled, credentials: next });
+  };
+
+  // Обновляет одни учетные данные
+  const updateCredential = (index: number, patch: Partial<AccessCredential>) => {
+    updateCredentials(
+      credentials.map((credential, i) => (i === index ? { ...credential, ...patch } : credential))
+    );
+  };
+
+  return (
+    <div className="rules-editor">
+      <label>
+        <input
+          type="checkbox"
+          checked={enabled}
+          onChange={(e) => onChange({ enabled: e.target.checked, credentials })}
+        />{' '}
+        Отвечать 401/403 на запросы без нужных учетных данных
+      </label>
+      {enabled && credentials.length === 0 && (
+        <p className="rules-empty">Принимается любой непустой ключ, токен или логин:пароль</p>
+      )}
+      {credentials.map((credential, index) => (
+        <div key={index} className="matcher-row">
+          <input
+            className="setting-input"
+            value={credential.value}
+            placeholder="Ключ, токен или логин:пароль"
+            onChange={(e) => updateCredential(index, { value: e.target.value })}
+          />
+          <input
+            className="setting-input"
+            value={credential.scopes?.join(' ') ?? ''}
+            placeholder="Скоупы через пробел (все)"
+            onChange={(e) =>
+              updateCredential(index, {
+                scopes: e.target.value ? e.target.value.split(' ') : undefined,
+              })
+            }
+          />
+          <button
+            className="rule-btn danger"
+            onClick={() => updateCredentials(credentials.filter((_, i) => i !== index))}
+            title="Удалить учетные данные"
+          >
+            ✕
+          </button>
+        </div>
+      ))}
+      <button
+        className="rule-btn add"
+        onClick={() => updateCredentials([...credentials, { value: '' }])}
+      >
+        + Добавить учетные данные
+      </button>
+    </div>
+  );
+}
+
+export default SecurityEditor;
@@ -0,0 +1,160 @@
+import { useState } from 'react';
+import { ResponseSequence, SequenceStep } from '@api-mock-generator/shared';
+import JsonField from './JsonField';
+import './RulesEditor.css';
+import './SequenceEditor.css';
+
+// Свойства редактора последовательности ответов
+interface SequenceEditorProps {
+  // Ключ эндпоинта (метод:путь) для сброса счетчиков
+  endpointKey: string;
+  sequence?: ResponseSequence;
+  onChange: (sequence?: ResponseSequence) => void;
+}
+
+/**
+ * Редактор последовательности ответов эндпоинта
+ * N-й вызов эндпоинта получает N-й шаг; поведение после последнего шага задает режим
+ */
+function SequenceEditor({ endpointKey, sequence, onChange }: SequenceEditorProps) {
+  // Версия списка: меняется при удалении шагов, чтобы JSON поля пересоздавались
+  const [version, setVersion] = useState(0);
+  const [resetStatus, setResetStatus] = useState<string | null>(null);
+  const steps = sequence?.steps || [];
+
+  // Обновляет одно поле шага
+  const updateStep = (index: number, patch: Partial<SequenceStep>) => {
+    if (!sequence) {
+      return;
+    }
+    onChange({
+      ...sequence,
+      steps: steps.map((step, i) => (i === index ? { ...step, ...patch } : step)),
+    });
+  };
+
+  // Удаляет шаг; последовательность без шагов выключается
+  const removeStep = (index: number) => {
+    setVersion((prev) => prev + 1);
+    const next = steps.filter((_, i) => i !== index);
+    onChange(next.length > 0 && sequence ? { ...sequence, steps: next } : undefined);
+  };
+
+  const addStep = () => {
+    onChange({ mode: sequence?.mode || 'stop', scope: sequence?.scope, steps: [...steps, {}] });
+  };
+
+  // Сбрасывает счетчики вызовов эндпоинта на сервере
+  const resetCounters = async () => {
+    try {
+      const response = await fetch('/api/sequences/reset', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ endpoint: endpointKey }),
+      });
+      setResetStatus(response.ok ? '✅ Счетчики сброшены' : '❌ Не удалось сбросить счетчики');
+    } catch {
+      setResetStatus('❌ Не удалось сбросить счетчики');
+    }
+  };
+
+  return (
+    <div className="rules-editor">
+      {sequence && (
+        <div className="sequence-toolbar">
+          <div className="setting-group">
+            <label>После последнего шага:</label>
+            <select
+              className="setting-input"
+              value={sequence.mode}
+              onChange={(e) =>
+                onChange({ ...sequence, mode: e.target.value as ResponseSequence['mode'] })
+              }
+            >
+              <option value="stop">повторять последний</option>
+              <option value="cycle">начать сначала</option>
+              <option value="random">случайный шаг</option>
+            </select>
+          </div>
+          <div className="setting-group">
+            <label>Счетчик:</label>
+            <select
+              className="setting-input"
+              value={sequence.scope || 'global'}
+              onChange={(e) =>
+                onChange({ ...sequence, scope: e.target.value as ResponseSequence['scope'] })
+              }
+            >
+              <option value="global">общий</option>
+              <option value="path">по параметрам пути</option>
+            </select>
+          </div>
+          <button className="rule-btn" onClick={resetCounters}>
+            ↺ Сбросить счетчики
+          </button>
+          {resetStatus && <span className="sequence-reset-status">{resetStatus}</span>}
+        </div>
+      )}
+      {steps.length === 0 && (
+        <p className="rules-empty">Нет шагов — каждый вызов получает одинаковый ответ</p>
+      )}
+      {steps.map((step, index) => (
+        <div key={`${version}-${index}`} className="rule-card">
+          <div className="rule-header">
+            <span className="rule-index">Вызов {index + 1}</span>
+            <input
+              className="setting-input"
+              type="number"
+              min="100"
+              max="599"
+              value={step.statusCode ?? ''}
+              placeholder="Статус код"
+              onChange={(e) =>
+                updateStep(index, {
+                  statusCode: e.target.value ? parseInt(e.target.value, 10) : undefined,
+                })
+              }
+            />
+            <input
+              className="setting-input"
+              type="number"
+              min="0"
+              max="60000"
+              value={step.delay ?? ''}
+              placeholder="Задержка (мс)"
+              onChange={(e) =>
+                updateStep(index, {
+                  delay: e.target.value ? parseInt(e.target.value, 10) : undefined,
+                })
+              }
+            />
+            <button
+              className="rule-btn danger"
+              onClick={() => removeStep(index)}
+              title="Удалить шаг"
+            >
+              ✕
+            </button>
+          </div>
+          <div className="rule-json-fields">
+            <JsonField
+              value={step.headers}
+              placeholder={'Заголовки: { "Retry-After": "1" }'}
+              onChange={(headers) => updateStep(index, { headers })}
+            />
+            <JsonField
+              value={step.response}
+              placeholder="Тело ответа (JSON с шаблонами); пусто — генерация по схеме"
+              onChange={(response) => updateStep(index, { response })}
+            />
+          </div>
+        </div>
+      ))}
+      <button className="rule-btn add" onClick={addStep}>
+        + Добавить шаг
+      </button>
+    </div>
+  );
+}
+
+export default SequenceEditor;
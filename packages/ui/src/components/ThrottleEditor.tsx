@@ -0,0 +1,87 @@
+import { THROTTLE_PRESETS, ThrottleConfig, ThrottlePreset } from '@api-mock-generator/shared';
+import './LatencyEditor.css';
+
+// Свойства редактора ограничения скорости
+interface ThrottleEditorProps {
+  throttle?: ThrottleConfig;
+  // Подпись варианта без ограничения
+  noneLabel: string;
+  onChange: (throttle?: ThrottleConfig) => void;
+}
+
+// Значение селектора для скорости без пресета
+const CUSTOM = 'custom';
+
+/**
+ * Редактор ограничения скорости передачи: пресет сети или своя скорость и время до первого байта
+ */
+function ThrottleEditor({ throttle, noneLabel, onChange }: ThrottleEditorProps) {
+  const selected = throttle ? throttle.preset || CUSTOM : '';
+  const preset = throttle?.preset ? THROTTLE_PRESETS[throttle.preset] : undefined;
+
+  // Переключает пресет (свои значения скорости и TTFB сбрасываются)
+  const handlePresetChange = (value: string) => {
+    if (!value) {
+      onChange(undefined);
+    } else if (value === CUSTOM) {
+      onChange({ bytesPerSecond: preset?.bytesPerSecond ?? 100000, ttfb: preset?.ttfb ?? 0 });
+    } else {
+      onChange({ preset: value as ThrottlePreset });
+    }
+  };
+
+  // Обновляет числовое поле (пустое значение берется из пресета)
+  const updateField = (field: 'bytesPerSecond' | 'ttfb', value: string) => {
+    if (!throttle) {
+      return;
+    }
+    onChange({ ...throttle, [field]: value === '' ? undefined : Number(value) });
+  };
+
+  return (
+    <div className="latency-editor">
+      <select
+        className="setting-input"
+        value={selected}
+        onChange={(e) => handlePresetChange(e.target.value)}
+      >
+        <option value="">{noneLabel}</option>
+        {Object.entries(THROTTLE_PRESETS).map(([name, values]) => (
+          <option key={name} value={name}>
+            {name} ({Math.round(values.bytesPerSecond / 1000)} КБ/с)
+          </option>
+        ))}
+        <option value={CUSTOM}>Своя скорость</option>
+      </select>
+      {throttle && (
+        <>
+          <label className="latency-field">
+            Скорость (байт/с)
+            <input
+              className="setting-input"
+              type="number"
+              min="100"
+              value={throttle.bytesPerSecond ?? ''}
+              placeholder={preset ? String(preset.bytesPerSecond) : ''}
+              onChange={(e) => updateField('bytesPerSecond', e.target.value)}
+            />
+          </label>
+          <label className="latency-field">
+            До первого байта (мс)
+            <input
+              className="setting-input"
+              type="number"
+              min="0"
+              max="60000"
+              value={throttle.ttfb ?? ''}
+              placeholder={preset ? String(preset.ttfb) : ''}
+              onChange={(e) => updateField('ttfb', e.target.value)}
+            />
+          </label>
+        </>
+      )}
+    </div>
+  );
+}
+
+export default ThrottleEditor;
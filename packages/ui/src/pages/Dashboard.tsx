@@ -1,4 +1,5 @@
 import { useQuery } from '@tanstack/react-query';
+import { RateLimitStatus } from '@api-mock-generator/shared';
 import './Dashboard.css';
 
 /**
@@ -15,6 +16,17 @@ function Dashboard() {
     },
   });
 
+  // Загружаем остаток квот ограничения частоты (обновляется каждые 2 секунды)
+  const { data: rateLimits } = useQuery<RateLimitStatus[]>({
+    queryKey: ['rate-limits'],
+    queryFn: async () => {
+      const response = await fetch('/api/rate-limits');
+      if (!response.ok) throw new Error('Failed to fetch rate limits');
+      return response.json();
+    },
+    refetchInterval: 2000,
+  });
+
   return (
     <div className="container">
       <h1>Дашборд</h1>
@@ -36,6 +48,29 @@ function Dashboard() {
             </div>
           </div>
         </div>
+        <div className="card">
+          <h2>Квоты запросов</h2>
+          {rateLimits && rateLimits.length > 0 ? (
+            <div className="stats">
+              {rateLimits.map((quota) => (
+                <div key={`${quota.scope}-${quota.client}`} className="stat-item">
+                  <span className="stat-label">
+                    {quota.scope === 'global' ? 'Все эндпоинты' : quota.scope}
+                    <span className="quota-client">{quota.client}</span>
+                  </span>
+                  <span
+                    className={`stat-value ${quota.remaining === 0 ? 'quota-exhausted' : ''}`}
+                    title={`Сброс через ${quota.resetSeconds} с`}
+                  >
+                    {quota.remaining} / {quota.limit}
+                  </span>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="quota-empty">Ограничение частоты не настроено или запросов еще не было</p>
+          )}
+        </div>
         <div className="card">
           <h2>Быстрые действия</h2>
           <div className="quick-actions">
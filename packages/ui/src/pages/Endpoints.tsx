@@ -1,5 +1,20 @@
 import { useState } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+  FaultConfig,
+  LatencyProfile,
+  RateLimitPolicy,
+  ResponseRule,
+  ResponseSequence,
+  SchemaViolation,
+  ThrottleConfig,
+} from '@api-mock-generator/shared';
+import RulesEditor from '../components/RulesEditor';
+import SequenceEditor from '../components/SequenceEditor';
+import FaultsEditor from '../components/FaultsEditor';
+import LatencyEditor from '../components/LatencyEditor';
+import ThrottleEditor from '../components/ThrottleEditor';
+import RateLimitEditor from '../components/RateLimitEditor';
 import './Endpoints.css';
 
 // Интерфейс для настроек эндпоинта
@@ -7,6 +22,24 @@ interface EndpointSettings {
   delay?: number;
   statusCode?: number;
   customResponse?: any;
+  validationMode?: string;
+  generationMode?: string;
+  seed?: number;
+  seedMode?: string;
+  variant?: string;
+  rules?: ResponseRule[];
+  sequence?: ResponseSequence;
+  faults?: FaultConfig[];
+  latency?: LatencyProfile;
+  throttle?: ThrottleConfig;
+  rateLimit?: RateLimitPolicy;
+  passthrough?: boolean;
+}
+
+// Интерфейс для ошибки сохранения (нарушения схемы кастомного ответа)
+interface SaveError {
+  message: string;
+  violations: SchemaViolation[];
 }
 
 // Интерфейс для результата тестирования
@@ -26,9 +59,13 @@ function Endpoints() {
   const [expandedEndpoint, setExpandedEndpoint] = useState<string | null>(null);
   const [settings, setSettings] = useState<EndpointSettings>({});
   const [customResponseText, setCustomResponseText] = useState<string>('');
+  // Текст редактора при открытии эндпоинта (неизмененный ответ не отправляется)
+  const [initialResponseText, setInitialResponseText] = useState<string>('');
   // Состояние для результата тестирования
   const [testResult, setTestResult] = useState<TestResult | null>(null);
   const [isTesting, setIsTesting] = useState(false);
+  // Состояние для ошибки сохранения настроек
+  const [saveError, setSaveError] = useState<SaveError | null>(null);
   
   const queryClient = useQueryClient();
 
@@ -44,22 +81,41 @@ function Endpoints() {
 
   // Мутация для сохранения настроек эндпоинта
   const saveSettingsMutation = useMutation({
-    mutationFn: async ({ method, path, settings }: { method: string; path: string; settings: EndpointSettings }) => {
+    mutationFn: async ({
+      method,
+      path,
+      settings,
+      force,
+    }: {
+      method: string;
+      path: string;
+      settings: EndpointSettings;
+      force?: boolean;
+    }) => {
       const encodedPath = encodeURIComponent(path);
       const response = await fetch(`/api/endpoints/${method}/${encodedPath}`, {
         method: 'PUT',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(settings),
+        body: JSON.stringify(force ? { ...settings, force: true } : settings),
       });
-      if (!response.ok) throw new Error('Failed to save settings');
-      return response.json();
+      const result = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        // Передаем нарушения схемы для отображения под настройками
+        const error: SaveError = {
+          message: result.error || 'Failed to save settings',
+          violations: result.violations || [],
+        };
+        throw error;
+      }
+      return result;
     },
     onSuccess: () => {
       // Обновляем список эндпоинтов
       queryClient.invalidateQueries({ queryKey: ['endpoints'] });
-      // Закрываем модальное окно
-      setShowModal(false);
-      setSelectedEndpoint(null);
+      setSaveError(null);
+    },
+    onError: (error: SaveError) => {
+      setSaveError(error);
     },
   });
 
@@ -71,17 +127,36 @@ function Endpoints() {
       // Закрываем если уже открыт
       setExpandedEndpoint(null);
       setTestResult(null);
+      setSaveError(null);
     } else {
       // Открываем новый
       setExpandedEndpoint(endpointKey);
       setSettings({
         delay: endpoint.delay || 0,
         statusCode: endpoint.statusCode || 200,
+        validationMode: endpoint.validationMode,
+        generationMode: endpoint.generationMode,
+        seed: endpoint.seed,
+        seedMode: endpoint.seedMode,
+        variant: endpoint.variant,
+        rules: endpoint.rules || [],
+        sequence: endpoint.sequence,
+        faults: endpoint.faults,
+        latency: endpoint.latency,
+        throttle: endpoint.throttle,
+        rateLimit: endpoint.rateLimit,
+        passthrough: endpoint.passthrough,
       });
-      // Формируем пример тела запроса
-      const exampleBody = generateExampleRequestBody(endpoint.method);
-      setCustomResponseText(JSON.stringify(exampleBody, null, 2));
+      // Показываем сохраненный кастомный ответ, иначе пример тела запроса
+      const body =
+        endpoint.customResponse !== undefined
+          ? endpoint.customResponse
+          : generateExampleRequestBody(endpoint.method);
+      const bodyText = JSON.stringify(body, null, 2);
+      setCustomResponseText(bodyText);
+      setInitialResponseText(bodyText);
       setTestResult(null);
+      setSaveError(null);
     }
   };
 
@@ -97,13 +172,18 @@ function Endpoints() {
     return {};
   };
 
-  // Сохраняем настройки эндпоинта
-  const handleSaveSettings = (endpoint: any) => {
-    // Парсим customResponse если он задан
-    let parsedCustomResponse;
+  // Сохраняем настройки эндпоинта (force — сохранить несмотря на нарушения схемы)
+  const handleSaveSettings = (endpoint: any, force = false) => {
+    // Парсим customResponse только если он изменен: без поля сервер сохраняет прежний ответ,
+    // а очищенный редактор удаляет сохраненный ответ (null)
+    let customResponse;
     try {
-      if (customResponseText.trim()) {
-        parsedCustomResponse = JSON.parse(customResponseText);
+      if (customResponseText !== initialResponseText) {
+        if (customResponseText.trim()) {
+          customResponse = JSON.parse(customResponseText);
+        } else if (endpoint.customResponse !== undefined) {
+          customResponse = null;
+        }
       }
     } catch (e) {
       alert('Ошибка в JSON тела запроса. Пожалуйста, исправьте синтаксис.');
@@ -112,13 +192,14 @@ function Endpoints() {
 
     const settingsToSave = {
       ...settings,
-      ...(parsedCustomResponse ? { customResponse: parsedCustomResponse } : {}),
+      ...(customResponse !== undefined ? { customResponse } : {}),
     };
 
     saveSettingsMutation.mutate({
       method: endpoint.method,
       path: endpoint.path,
       settings: settingsToSave,
+      force,
     });
   };
 
@@ -311,6 +392,104 @@ function Endpoints() {
                         />
                       </div>
 
+                      <div className="setting-group">
+                        <label htmlFor={`validation-${endpointKey}`}>Валидация запросов:</label>
+                        <select
+                          id={`validation-${endpointKey}`}
+                          value={settings.validationMode || ''}
+                          onChange={(e) =>
+                            setSettings({
+                              ...settings,
+                              validationMode: e.target.value || undefined,
+                            })
+                          }
+                          className="setting-input"
+                        >
+                          <option value="">Как в общих настройках</option>
+                          <option value="off">Выключена</option>
+                          <option value="warn">Только предупреждение</option>
+                          <option value="strict">Отклонять (400)</option>
+                        </select>
+                      </div>
+
+                      <div className="setting-group">
+                        <label htmlFor={`generation-${endpointKey}`}>Генерация ответа:</label>
+                        <select
+                          id={`generation-${endpointKey}`}
+                          value={settings.generationMode || ''}
+                          onChange={(e) =>
+                            setSettings({
+                              ...settings,
+                              generationMode: e.target.value || undefined,
+                            })
+                          }
+                          className="setting-input"
+                        >
+                          <option value="">Как в общих настройках</option>
+                          <option value="dynamic">Случайные данные</option>
+                          <option value="examples">Примеры из спецификации</option>
+                        </select>
+                      </div>
+
+                      <div className="setting-group">
+                        <label htmlFor={`seed-${endpointKey}`}>Seed данных:</label>
+                        <input
+                          id={`seed-${endpointKey}`}
+                          type="number"
+                          min="0"
+                          value={settings.seed ?? ''}
+                          placeholder="Как в --seed"
+                          onChange={(e) =>
+                            setSettings({
+                              ...settings,
+                              seed: e.target.value ? parseInt(e.target.value, 10) : undefined,
+                            })
+                          }
+                          className="setting-input"
+                        />
+                        <select
+                          value={settings.seedMode || ''}
+                          onChange={(e) =>
+                            setSettings({ ...settings, seedMode: e.target.value || undefined })
+                          }
+                          className="setting-input"
+                        >
+                          <option value="">Как в --seed-mode</option>
+                          <option value="call">По номеру вызова</option>
+                          <option value="resource">По ресурсу (метод, путь, параметры)</option>
+                        </select>
+                      </div>
+
+                      <div className="setting-group">
+                        <label htmlFor={`variant-${endpointKey}`}>Вариант oneOf/anyOf:</label>
+                        <input
+                          id={`variant-${endpointKey}`}
+                          type="text"
+                          value={settings.variant || ''}
+                          placeholder="Случайный (значение дискриминатора или имя схемы)"
+                          onChange={(e) =>
+                            setSettings({ ...settings, variant: e.target.value || undefined })
+                          }
+                          className="setting-input"
+                        />
+                      </div>
+
+                      <div className="setting-group">
+                        <label className="faults-override">
+                          <input
+                            type="checkbox"
+                            checked={settings.passthrough === true}
+                            onChange={(e) =>
+                              setSettings({
+                                ...settings,
+                                passthrough: e.target.checked || undefined,
+                              })
+                            }
+                          />
+                          Проксировать на backend (--proxy)
+                        </label>
+                      </div>
+
                       <button 
                         className="btn-save-settings" 
                         onClick={() => handleSaveSettings(endpoint)}
@@ -319,6 +498,106 @@ function Endpoints() {
                         {saveSettingsMutation.isPending ? '💾 Сохранение...' : '💾 Сохранить настройки'}
                       </button>
                     </div>
+
+                    {/* Профиль случайной задержки */}
+                    <div className="section-header rules-section-header">
+                      <h3>⏱️ Профиль задержки</h3>
+                      <small>Случайная задержка вместо фиксированной</small>
+                    </div>
+                    <LatencyEditor
+                      latency={settings.latency}
+                      noneLabel="Фиксированная задержка (поле выше)"
+                      onChange={(latency) => setSettings({ ...settings, latency })}
+                    />
+
+                    {/* Ограничение скорости передачи */}
+                    <div className="section-header rules-section-header">
+                      <h3>📶 Скорость сети</h3>
+                      <small>Тело ответа передается частями с заданной скоростью</small>
+                    </div>
+                    <ThrottleEditor
+                      throttle={settings.throttle}
+                      noneLabel="Как в общих настройках"
+                      onChange={(throttle) => setSettings({ ...settings, throttle })}
+                    />
+
+                    {/* Ограничение частоты запросов */}
+                    <div className="section-header rules-section-header">
+                      <h3>🚦 Ограничение частоты</h3>
+                      <small>При исчерпании квоты — 429 с Retry-After</small>
+                    </div>
+                    <RateLimitEditor
+                      rateLimit={settings.rateLimit}
+                      noneLabel="Без ограничения (кроме глобального)"
+                      onChange={(rateLimit) => setSettings({ ...settings, rateLimit })}
+                    />
+
+                    {/* Условные правила ответа */}
+                    <div className="section-header rules-section-header">
+                      <h3>🎯 Правила ответа</h3>
+                      <small>Первое совпавшее правило переопределяет ответ</small>
+                    </div>
+                    <RulesEditor
+                      rules={settings.rules || []}
+                      onChange={(rules) => setSettings({ ...settings, rules })}
+                    />
+
+                    {/* Последовательность ответов */}
+                    <div className="section-header rules-section-header">
+                      <h3>🔁 Последовательность ответов</h3>
+                      <small>N-й вызов получает N-й шаг (если не совпало правило)</small>
+                    </div>
+                    <SequenceEditor
+                      endpointKey={`${endpoint.method}:${endpoint.path}`}
+                      sequence={settings.sequence}
+                      onChange={(sequence) => setSettings({ ...settings, sequence })}
+                    />
+
+                    {/* Внедряемые сбои */}
+                    <div className="section-header rules-section-header">
+                      <h3>💥 Сбои</h3>
+                      <label className="faults-override">
+                        <input
+                          type="checkbox"
+                          checked={settings.faults !== undefined}
+                          onChange={(e) =>
+                            setSettings({ ...settings, faults: e.target.checked ? [] : undefined })
+                          }
+                        />
+                        Свои сбои вместо глобальных из настроек
+                      </label>
+                    </div>
+                    {settings.faults && (
+                      <FaultsEditor
+                        faults={settings.faults}
+                        onChange={(faults) => setSettings({ ...settings, faults })}
+                      />
+                    )}
+
+                    {/* Ошибки сохранения: нарушения схемы ответа */}
+                    {saveError && (
+                      <div className="save-errors">
+                        <strong>❌ {saveError.message}</strong>
+                        {saveError.violations.length > 0 && (
+                          <>
+                            <ul className="save-errors-list">
+                              {saveError.violations.map((violation, index) => (
+                                <li key={index}>
+                                  <code>{violation.path || '/'}</code>: {violation.message}
+                                </li>
+                              ))}
+                            </ul>
+                            <button
+                              className="btn-force-save"
+                              onClick={() => handleSaveSettings(endpoint, true)}
+                              disabled={saveSettingsMutation.isPending}
+                            >
+                              ⚠️ Сохранить принудительно
+                            </button>
+                          </>
+                        )}
+                      </div>
+                    )}
                   </div>
                 </div>
               )}
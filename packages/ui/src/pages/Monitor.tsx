@@ -65,6 +65,7 @@ function Monitor() {
               <th>Путь</th>
               <th>Статус</th>
               <th>Время ответа</th>
+              <th>Валидация</th>
             </tr>
           </thead>
           <tbody>
@@ -78,11 +79,46 @@ function Monitor() {
                 </td>
                 <td className="path-cell">{log.path}</td>
                 <td>
-                  <span className={`status-badge status-${log.statusCode}`}>
-                    {log.statusCode}
-                  </span>
+                  {log.statusCode !== undefined && (
+                    <span className={`status-badge status-${log.statusCode}`}>
+                      {log.statusCode}
+                    </span>
+                  )}
+                  {log.proxied && (
+                    <span className="proxy-badge" title="Ответ получен от backend (--proxy)">
+                      ↪ backend
+                    </span>
+                  )}
+                  {log.fault && (
+                    <span className="fault-badge" title="Внедренный сбой">
+                      💥 {log.fault}
+                    </span>
+                  )}
                 </td>
                 <td>{log.responseTime}ms</td>
+                <td>
+                  {log.validationErrors && log.validationErrors.length > 0 ? (
+                    <details className="validation-details">
+                      <summary className="validation-badge">
+                        ⚠ {log.validationErrors.length}
+                      </summary>
+                      <ul className="validation-list">
+                        {log.validationErrors.map((violation, index) => (
+                          <li key={index}>
+                            <code>
+                              {violation.location}
+                              {violation.name ? ` ${violation.name}` : ''}
+                              {violation.path}
+                            </code>
+                            : {violation.message}
+                          </li>
+                        ))}
+                      </ul>
+                    </details>
+                  ) : (
+                    <span className="validation-ok">—</span>
+                  )}
+                </td>
               </tr>
             ))}
           </tbody>
@@ -0,0 +1,196 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Scenario } from '@api-mock-generator/shared';
+import './Scenarios.css';
+
+// Ответ admin API со списком сценариев
+interface ScenariosResponse {
+  active: string | null;
+  scenarios: Scenario[];
+}
+
+// Пример переопределений для нового сценария
+const EXAMPLE_ENDPOINTS = {
+  '*': { delay: 0 },
+  'GET:/users': { customResponse: [] },
+};
+
+/**
+ * Компонент управления сценариями
+ * Сценарий переопределяет настройки многих эндпоинтов сразу
+ */
+function Scenarios() {
+  // Редактируемый сценарий (null — форма закрыта)
+  const [editing, setEditing] = useState<{ isNew: boolean; name: string } | null>(null);
+  const [description, setDescription] = useState('');
+  const [endpointsText, setEndpointsText] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const queryClient = useQueryClient();
+
+  // Загружаем список сценариев
+  const { data } = useQuery<ScenariosResponse>({
+    queryKey: ['scenarios'],
+    queryFn: async () => {
+      const response = await fetch('/api/scenarios');
+      if (!response.ok) throw new Error('Failed to fetch scenarios');
+      return response.json();
+    },
+  });
+
+  // Выполняет запрос к admin API и обновляет список
+  const requestMutation = useMutation({
+    mutationFn: async ({ url, method, body }: { url: string; method: string; body?: any }) => {
+      const response = await fetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+      const result = await response.json().catch(() => ({}));
+      if (!response.ok) throw new Error(result.error || 'Request failed');
+      return result;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['scenarios'] });
+    },
+  });
+
+  // Открываем форму редактирования
+  const openEditor = (scenario?: Scenario) => {
+    setEditing({ isNew: !scenario, name: scenario?.name || '' });
+    setDescription(scenario?.description || '');
+    setEndpointsText(JSON.stringify(scenario?.endpoints || EXAMPLE_ENDPOINTS, null, 2));
+    setError(null);
+  };
+
+  // Сохраняем сценарий
+  const handleSave = () => {
+    if (!editing) return;
+    let endpoints;
+    try {
+      endpoints = JSON.parse(endpointsText);
+    } catch (e) {
+      setError('Ошибка в JSON переопределений. Пожалуйста, исправьте синтаксис.');
+      return;
+    }
+    requestMutation.mutate(
+      {
+        url: `/api/scenarios/${encodeURIComponent(editing.name)}`,
+        method: 'PUT',
+        body: { description: description || undefined, endpoints },
+      },
+      {
+        onSuccess: () => setEditing(null),
+        onError: (e: Error) => setError(e.message),
+      }
+    );
+  };
+
+  // Активируем сценарий (null — выключить)
+  const handleActivate = (name: string | null) => {
+    requestMutation.mutate({ url: '/api/scenarios/active', method: 'POST', body: { name } });
+  };
+
+  // Удаляем сценарий
+  const handleDelete = (name: string) => {
+    if (!confirm(`Удалить сценарий ${name}?`)) return;
+    requestMutation.mutate({ url: `/api/scenarios/${encodeURIComponent(name)}`, method: 'DELETE' });
+  };
+
+  return (
+    <div className="container">
+      <div className="scenarios-header">
+        <h1>Сценарии</h1>
+        <button className="btn btn-primary" onClick={() => openEditor()}>
+          + Новый сценарий
+        </button>
+      </div>
+
+      <p className="scenarios-hint">
+        Активный сценарий применяется ко всем запросам. Для отдельного запроса сценарий можно
+        выбрать заголовком <code>X-Mock-Scenario: имя</code> (<code>none</code> — без сценария).
+      </p>
+
+      <div className="scenarios-list">
+        {data?.scenarios.map((scenario) => {
+          const isActive = data.active === scenario.name;
+          return (
+            <div key={scenario.name} className={`card scenario-card ${isActive ? 'active' : ''}`}>
+              <div className="scenario-info">
+                <h2>
+                  {scenario.name}
+                  {isActive && <span className="scenario-active-badge">Активен</span>}
+                </h2>
+                {scenario.description && <p>{scenario.description}</p>}
+                <small>Эндпоинтов: {Object.keys(scenario.endpoints).length}</small>
+              </div>
+              <div className="scenario-actions">
+                {isActive ? (
+                  <button className="btn btn-secondary" onClick={() => handleActivate(null)}>
+                    Выключить
+                  </button>
+                ) : (
+                  <button className="btn btn-primary" onClick={() => handleActivate(scenario.name)}>
+                    Активировать
+                  </button>
+                )}
+                <button className="btn btn-secondary" onClick={() => openEditor(scenario)}>
+                  Изменить
+                </button>
+                <button className="btn btn-secondary" onClick={() => handleDelete(scenario.name)}>
+                  Удалить
+                </button>
+              </div>
+            </div>
+          );
+        })}
+        {data?.scenarios.length === 0 && <div className="empty-state">Сценариев пока нет</div>}
+      </div>
+
+      {editing && (
+        <div className="card scenario-editor">
+          <h2>{editing.isNew ? 'Новый сценарий' : `Сценарий ${editing.name}`}</h2>
+          <div className="form-group">
+            <label>Имя</label>
+            <input
+              value={editing.name}
+              disabled={!editing.isNew}
+              placeholder="backend-down"
+              onChange={(e) => setEditing({ ...editing, name: e.target.value })}
+            />
+          </div>
+          <div className="form-group">
+            <label>Описание</label>
+            <input value={description} onChange={(e) => setDescription(e.target.value)} />
+          </div>
+          <div className="form-group">
+            <label>
+              Переопределения эндпоинтов (ключ <code>METHOD:/path</code>, <code>*</code> — все
+              эндпоинты)
+            </label>
+            <textarea
+              className="scenario-endpoints-editor"
+              value={endpointsText}
+              onChange={(e) => setEndpointsText(e.target.value)}
+            />
+          </div>
+          {error && <div className="scenario-error">❌ {error}</div>}
+          <div className="scenario-actions">
+            <button
+              className="btn btn-primary"
+              onClick={handleSave}
+              disabled={requestMutation.isPending}
+            >
+              Сохранить
+            </button>
+            <button className="btn btn-secondary" onClick={() => setEditing(null)}>
+              Отмена
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default Scenarios;
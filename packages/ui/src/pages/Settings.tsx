@@ -1,4 +1,18 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
+import {
+  FaultConfig,
+  LatencyProfile,
+  OAuthSettings,
+  RateLimitPolicy,
+  SecuritySettings,
+  ThrottleConfig,
+} from '@api-mock-generator/shared';
+import FaultsEditor from '../components/FaultsEditor';
+import LatencyEditor from '../components/LatencyEditor';
+import ThrottleEditor from '../components/ThrottleEditor';
+import RateLimitEditor from '../components/RateLimitEditor';
+import SecurityEditor from '../components/SecurityEditor';
+import OAuthEditor from '../components/OAuthEditor';
 import './Settings.css';
 
 /**
@@ -9,7 +23,29 @@ function Settings() {
   const [settings, setSettings] = useState({
     defaultDelay: 0,
     defaultStatusCode: 200,
+    validationMode: 'off',
+    generationMode: 'dynamic',
+    locale: undefined as string | undefined,
+    faults: [] as FaultConfig[],
+    latency: undefined as LatencyProfile | undefined,
+    throttle: undefined as ThrottleConfig | undefined,
+    rateLimit: undefined as RateLimitPolicy | undefined,
+    security: undefined as SecuritySettings | undefined,
+    oauth: undefined as OAuthSettings | undefined,
   });
+  // Поля JSON пересоздаются после загрузки, чтобы показать сохраненные значения
+  const [loaded, setLoaded] = useState(false);
+
+  // Загружаем сохраненные настройки сервера
+  useEffect(() => {
+    fetch('/api/settings')
+      .then((response) => (response.ok ? response.json() : {}))
+      .then((saved) => setSettings((prev) => ({ ...prev, ...saved })))
+      .catch(() => {
+        // Оставляем значения по умолчанию
+      })
+      .finally(() => setLoaded(true));
+  }, []);
 
   // Обработчик изменения настроек
   const handleChange = (key: string, value: any) => {
@@ -53,6 +89,82 @@ function Settings() {
               onChange={(e) => handleChange('defaultStatusCode', parseInt(e.target.value, 10))}
             />
           </div>
+          <div className="form-group">
+            <label>Валидация запросов по спецификации</label>
+            <select
+              value={settings.validationMode}
+              onChange={(e) => handleChange('validationMode', e.target.value)}
+            >
+              <option value="off">Выключена</option>
+              <option value="warn">Только предупреждение (отмечать в мониторе)</option>
+              <option value="strict">Отклонять невалидные запросы (400)</option>
+            </select>
+          </div>
+          <div className="form-group">
+            <label>Генерация ответов</label>
+            <select
+              value={settings.generationMode}
+              onChange={(e) => handleChange('generationMode', e.target.value)}
+            >
+              <option value="dynamic">Случайные данные по схеме</option>
+              <option value="examples">Примеры из спецификации (example, examples, default)</option>
+            </select>
+          </div>
+          <div className="form-group">
+            <label>Локаль данных (запрос может выбрать свою через Accept-Language)</label>
+            <input
+              type="text"
+              value={settings.locale || ''}
+              placeholder="Как в --locale (en, ru, de, ja, de_CH...)"
+              onChange={(e) => handleChange('locale', e.target.value || undefined)}
+            />
+          </div>
+          <div className="form-group">
+            <label>Профиль задержки для эндпоинтов без своей задержки</label>
+            <LatencyEditor
+              latency={settings.latency}
+              noneLabel="Без задержки"
+              onChange={(latency) => handleChange('latency', latency)}
+            />
+          </div>
+          <div className="form-group">
+            <label>Скорость сети для всех эндпоинтов</label>
+            <ThrottleEditor
+              throttle={settings.throttle}
+              noneLabel="Без ограничения"
+              onChange={(throttle) => handleChange('throttle', throttle)}
+            />
+          </div>
+          <div className="form-group">
+            <label>Ограничение частоты для всего сервера (общая квота клиента)</label>
+            <RateLimitEditor
+              rateLimit={settings.rateLimit}
+              noneLabel="Без ограничения"
+              onChange={(rateLimit) => handleChange('rateLimit', rateLimit)}
+            />
+          </div>
+          <div className="form-group">
+            <label>Проверка securitySchemes спецификации</label>
+            <SecurityEditor
+              security={settings.security}
+              onChange={(security) => handleChange('security', security)}
+            />
+          </div>
+          <div className="form-group">
+            <label>Встроенный OAuth2/OIDC провайдер (/.well-known/openid-configuration)</label>
+            <OAuthEditor
+              key={loaded ? 'loaded' : 'initial'}
+              oauth={settings.oauth}
+              onChange={(oauth) => handleChange('oauth', oauth)}
+            />
+          </div>
+          <div className="form-group">
+            <label>Сбои для всех эндпоинтов (если у эндпоинта не заданы свои)</label>
+            <FaultsEditor
+              faults={settings.faults}
+              onChange={(faults) => handleChange('faults', faults)}
+            />
+          </div>
           <button className="btn btn-primary" onClick={handleSave}>
             Сохранить
           </button>